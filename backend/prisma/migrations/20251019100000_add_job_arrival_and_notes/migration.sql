@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "public"."Pickup" ADD COLUMN     "arrivedAt" TIMESTAMP(3),
+ADD COLUMN     "notes" TEXT;
+
+-- AlterTable
+ALTER TABLE "public"."RentalReturn" ADD COLUMN     "arrivedAt" TIMESTAMP(3),
+ADD COLUMN     "notes" TEXT;
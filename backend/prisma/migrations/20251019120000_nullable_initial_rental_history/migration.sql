@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."RentalHistory" ALTER COLUMN "oldStatus" DROP NOT NULL;
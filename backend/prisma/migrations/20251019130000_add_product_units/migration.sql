@@ -0,0 +1,59 @@
+-- CreateEnum
+CREATE TYPE "public"."UnitStatus" AS ENUM ('AVAILABLE', 'RENTED', 'MAINTENANCE', 'RETIRED');
+
+-- CreateEnum
+CREATE TYPE "public"."UnitCondition" AS ENUM ('NEW', 'EXCELLENT', 'GOOD', 'FAIR', 'POOR');
+
+-- AlterTable
+ALTER TABLE "public"."Rental" ADD COLUMN     "unitId" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."ProductUnit" (
+    "id" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "serialNumber" TEXT NOT NULL,
+    "condition" "public"."UnitCondition" NOT NULL DEFAULT 'NEW',
+    "status" "public"."UnitStatus" NOT NULL DEFAULT 'AVAILABLE',
+    "acquisitionCost" DOUBLE PRECISION,
+    "acquiredAt" TIMESTAMP(3),
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ProductUnit_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."UnitConditionLog" (
+    "id" TEXT NOT NULL,
+    "unitId" TEXT NOT NULL,
+    "oldCondition" "public"."UnitCondition",
+    "newCondition" "public"."UnitCondition" NOT NULL,
+    "notes" TEXT,
+    "rentalId" TEXT,
+    "recordedById" TEXT,
+    "recordedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "UnitConditionLog_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ProductUnit_serialNumber_key" ON "public"."ProductUnit"("serialNumber");
+
+-- CreateIndex
+CREATE INDEX "ProductUnit_productId_idx" ON "public"."ProductUnit"("productId");
+
+-- CreateIndex
+CREATE INDEX "UnitConditionLog_unitId_idx" ON "public"."UnitConditionLog"("unitId");
+
+-- AddForeignKey
+ALTER TABLE "public"."Rental" ADD CONSTRAINT "Rental_unitId_fkey" FOREIGN KEY ("unitId") REFERENCES "public"."ProductUnit"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."ProductUnit" ADD CONSTRAINT "ProductUnit_productId_fkey" FOREIGN KEY ("productId") REFERENCES "public"."Product"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."UnitConditionLog" ADD CONSTRAINT "UnitConditionLog_unitId_fkey" FOREIGN KEY ("unitId") REFERENCES "public"."ProductUnit"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."UnitConditionLog" ADD CONSTRAINT "UnitConditionLog_recordedById_fkey" FOREIGN KEY ("recordedById") REFERENCES "public"."User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,46 @@
+-- CreateEnum
+CREATE TYPE "public"."MaintenanceStatus" AS ENUM ('SCHEDULED', 'IN_PROGRESS', 'COMPLETED');
+
+-- CreateTable
+CREATE TABLE "public"."MaintenanceTask" (
+    "id" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "unitId" TEXT,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "endDate" TIMESTAMP(3) NOT NULL,
+    "status" "public"."MaintenanceStatus" NOT NULL DEFAULT 'SCHEDULED',
+    "intervalDays" INTEGER,
+    "intervalRentals" INTEGER,
+    "staffId" TEXT,
+    "completedAt" TIMESTAMP(3),
+    "completedById" TEXT,
+    "completionNotes" TEXT,
+    "previousTaskId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "MaintenanceTask_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MaintenanceTask_previousTaskId_key" ON "public"."MaintenanceTask"("previousTaskId");
+
+-- CreateIndex
+CREATE INDEX "MaintenanceTask_productId_startDate_idx" ON "public"."MaintenanceTask"("productId", "startDate");
+
+-- AddForeignKey
+ALTER TABLE "public"."MaintenanceTask" ADD CONSTRAINT "MaintenanceTask_productId_fkey" FOREIGN KEY ("productId") REFERENCES "public"."Product"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."MaintenanceTask" ADD CONSTRAINT "MaintenanceTask_unitId_fkey" FOREIGN KEY ("unitId") REFERENCES "public"."ProductUnit"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."MaintenanceTask" ADD CONSTRAINT "MaintenanceTask_staffId_fkey" FOREIGN KEY ("staffId") REFERENCES "public"."User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."MaintenanceTask" ADD CONSTRAINT "MaintenanceTask_completedById_fkey" FOREIGN KEY ("completedById") REFERENCES "public"."User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."MaintenanceTask" ADD CONSTRAINT "MaintenanceTask_previousTaskId_fkey" FOREIGN KEY ("previousTaskId") REFERENCES "public"."MaintenanceTask"("id") ON DELETE SET NULL ON UPDATE CASCADE;
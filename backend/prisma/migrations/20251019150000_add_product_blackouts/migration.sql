@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "public"."ProductBlackout" (
+    "id" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "endDate" TIMESTAMP(3) NOT NULL,
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ProductBlackout_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ProductBlackout_productId_startDate_idx" ON "public"."ProductBlackout"("productId", "startDate");
+
+-- AddForeignKey
+ALTER TABLE "public"."ProductBlackout" ADD CONSTRAINT "ProductBlackout_productId_fkey" FOREIGN KEY ("productId") REFERENCES "public"."Product"("id") ON DELETE CASCADE ON UPDATE CASCADE;
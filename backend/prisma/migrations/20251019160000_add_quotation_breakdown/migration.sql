@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."Quotation" ADD COLUMN     "breakdown" JSONB;
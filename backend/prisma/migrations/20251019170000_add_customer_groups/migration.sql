@@ -0,0 +1,52 @@
+-- CreateTable
+CREATE TABLE "public"."CustomerGroup" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "priority" INTEGER NOT NULL DEFAULT 0,
+    "minCompletedRentals" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CustomerGroup_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."CustomerGroupMember" (
+    "groupId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CustomerGroupMember_pkey" PRIMARY KEY ("groupId","userId")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CustomerGroup_name_key" ON "public"."CustomerGroup"("name");
+
+-- CreateIndex
+CREATE INDEX "CustomerGroupMember_userId_idx" ON "public"."CustomerGroupMember"("userId");
+
+-- AlterTable
+ALTER TABLE "public"."Pricelist" ADD COLUMN     "customerGroupId" TEXT;
+
+-- Turn the free-text groups pricelists already name into records
+INSERT INTO "public"."CustomerGroup" ("id", "name", "updatedAt")
+SELECT 'cg' || md5("customerGroup"), "customerGroup", CURRENT_TIMESTAMP
+FROM (SELECT DISTINCT "customerGroup" FROM "public"."Pricelist" WHERE "customerGroup" IS NOT NULL) AS "existing";
+
+UPDATE "public"."Pricelist" AS "p"
+SET "customerGroupId" = "g"."id"
+FROM "public"."CustomerGroup" AS "g"
+WHERE "g"."name" = "p"."customerGroup";
+
+-- AlterTable
+ALTER TABLE "public"."Pricelist" DROP COLUMN "customerGroup";
+
+-- AddForeignKey
+ALTER TABLE "public"."Pricelist" ADD CONSTRAINT "Pricelist_customerGroupId_fkey" FOREIGN KEY ("customerGroupId") REFERENCES "public"."CustomerGroup"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."CustomerGroupMember" ADD CONSTRAINT "CustomerGroupMember_groupId_fkey" FOREIGN KEY ("groupId") REFERENCES "public"."CustomerGroup"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."CustomerGroupMember" ADD CONSTRAINT "CustomerGroupMember_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
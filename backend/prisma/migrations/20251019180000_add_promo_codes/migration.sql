@@ -0,0 +1,53 @@
+-- CreateEnum
+CREATE TYPE "public"."PromoDiscountType" AS ENUM ('PERCENTAGE', 'FIXED');
+
+-- AlterTable
+ALTER TABLE "public"."Invoice" ADD COLUMN     "discount" DOUBLE PRECISION,
+ADD COLUMN     "promoCode" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."PromoCode" (
+    "id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "description" TEXT,
+    "discountType" "public"."PromoDiscountType" NOT NULL,
+    "value" DOUBLE PRECISION NOT NULL,
+    "expiresAt" TIMESTAMP(3),
+    "maxUses" INTEGER,
+    "maxUsesPerUser" INTEGER,
+    "minRentalDays" INTEGER,
+    "productIds" TEXT[],
+    "categories" TEXT[],
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PromoCode_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."PromoRedemption" (
+    "id" TEXT NOT NULL,
+    "promoCodeId" TEXT NOT NULL,
+    "rentalId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PromoRedemption_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PromoCode_code_key" ON "public"."PromoCode"("code");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PromoRedemption_rentalId_key" ON "public"."PromoRedemption"("rentalId");
+
+-- CreateIndex
+CREATE INDEX "PromoRedemption_promoCodeId_userId_idx" ON "public"."PromoRedemption"("promoCodeId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "public"."PromoRedemption" ADD CONSTRAINT "PromoRedemption_promoCodeId_fkey" FOREIGN KEY ("promoCodeId") REFERENCES "public"."PromoCode"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."PromoRedemption" ADD CONSTRAINT "PromoRedemption_rentalId_fkey" FOREIGN KEY ("rentalId") REFERENCES "public"."Rental"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,63 @@
+-- CreateEnum
+CREATE TYPE "public"."DepositStatus" AS ENUM ('HELD', 'PARTIALLY_CAPTURED', 'CAPTURED', 'RELEASED');
+
+-- CreateEnum
+CREATE TYPE "public"."DepositEntryType" AS ENUM ('HOLD', 'CAPTURE', 'RELEASE');
+
+-- AlterEnum
+ALTER TYPE "public"."InvoiceType" ADD VALUE 'DAMAGE';
+
+-- AlterTable
+ALTER TABLE "public"."Product" ADD COLUMN     "deposit" DOUBLE PRECISION;
+
+-- CreateTable
+CREATE TABLE "public"."CategoryDeposit" (
+    "category" TEXT NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CategoryDeposit_pkey" PRIMARY KEY ("category")
+);
+
+-- CreateTable
+CREATE TABLE "public"."Deposit" (
+    "id" TEXT NOT NULL,
+    "rentalId" TEXT NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "captured" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "released" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "status" "public"."DepositStatus" NOT NULL DEFAULT 'HELD',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Deposit_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."DepositEntry" (
+    "id" TEXT NOT NULL,
+    "depositId" TEXT NOT NULL,
+    "type" "public"."DepositEntryType" NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "invoiceId" TEXT,
+    "reason" TEXT,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "DepositEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Deposit_rentalId_key" ON "public"."Deposit"("rentalId");
+
+-- AddForeignKey
+ALTER TABLE "public"."Deposit" ADD CONSTRAINT "Deposit_rentalId_fkey" FOREIGN KEY ("rentalId") REFERENCES "public"."Rental"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."DepositEntry" ADD CONSTRAINT "DepositEntry_depositId_fkey" FOREIGN KEY ("depositId") REFERENCES "public"."Deposit"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."DepositEntry" ADD CONSTRAINT "DepositEntry_invoiceId_fkey" FOREIGN KEY ("invoiceId") REFERENCES "public"."Invoice"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."DepositEntry" ADD CONSTRAINT "DepositEntry_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "public"."User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,51 @@
+-- CreateEnum
+CREATE TYPE "public"."LateFeeUnit" AS ENUM ('HOUR', 'DAY');
+
+-- AlterTable
+ALTER TABLE "public"."RentalReturn" ADD COLUMN     "lateFeeInvoiceId" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."LateFeePolicy" (
+    "id" TEXT NOT NULL,
+    "productId" TEXT,
+    "category" TEXT,
+    "graceHours" INTEGER NOT NULL DEFAULT 0,
+    "unit" "public"."LateFeeUnit" NOT NULL DEFAULT 'DAY',
+    "rate" DOUBLE PRECISION NOT NULL,
+    "maxFee" DOUBLE PRECISION,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "LateFeePolicy_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."LateFeeTier" (
+    "id" TEXT NOT NULL,
+    "policyId" TEXT NOT NULL,
+    "afterUnits" INTEGER NOT NULL,
+    "rate" DOUBLE PRECISION NOT NULL,
+
+    CONSTRAINT "LateFeeTier_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RentalReturn_lateFeeInvoiceId_key" ON "public"."RentalReturn"("lateFeeInvoiceId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LateFeePolicy_productId_key" ON "public"."LateFeePolicy"("productId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LateFeePolicy_category_key" ON "public"."LateFeePolicy"("category");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LateFeeTier_policyId_afterUnits_key" ON "public"."LateFeeTier"("policyId", "afterUnits");
+
+-- AddForeignKey
+ALTER TABLE "public"."RentalReturn" ADD CONSTRAINT "RentalReturn_lateFeeInvoiceId_fkey" FOREIGN KEY ("lateFeeInvoiceId") REFERENCES "public"."Invoice"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."LateFeePolicy" ADD CONSTRAINT "LateFeePolicy_productId_fkey" FOREIGN KEY ("productId") REFERENCES "public"."Product"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."LateFeeTier" ADD CONSTRAINT "LateFeeTier_policyId_fkey" FOREIGN KEY ("policyId") REFERENCES "public"."LateFeePolicy"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,48 @@
+-- CreateEnum
+CREATE TYPE "public"."ExtensionStatus" AS ENUM ('PENDING', 'APPROVED', 'REJECTED', 'CANCELLED');
+
+-- AlterEnum
+ALTER TYPE "public"."InvoiceType" ADD VALUE 'EXTENSION';
+
+-- AlterTable
+ALTER TABLE "public"."RentalHistory" ADD COLUMN     "note" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."RentalExtension" (
+    "id" TEXT NOT NULL,
+    "rentalId" TEXT NOT NULL,
+    "currentEndDate" TIMESTAMP(3) NOT NULL,
+    "requestedEndDate" TIMESTAMP(3) NOT NULL,
+    "price" DOUBLE PRECISION NOT NULL,
+    "breakdown" JSONB,
+    "note" TEXT,
+    "status" "public"."ExtensionStatus" NOT NULL DEFAULT 'PENDING',
+    "autoApproved" BOOLEAN NOT NULL DEFAULT false,
+    "requestedById" TEXT,
+    "decidedById" TEXT,
+    "decidedAt" TIMESTAMP(3),
+    "decisionNote" TEXT,
+    "invoiceId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "RentalExtension_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RentalExtension_invoiceId_key" ON "public"."RentalExtension"("invoiceId");
+
+-- CreateIndex
+CREATE INDEX "RentalExtension_rentalId_status_idx" ON "public"."RentalExtension"("rentalId", "status");
+
+-- AddForeignKey
+ALTER TABLE "public"."RentalExtension" ADD CONSTRAINT "RentalExtension_rentalId_fkey" FOREIGN KEY ("rentalId") REFERENCES "public"."Rental"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."RentalExtension" ADD CONSTRAINT "RentalExtension_requestedById_fkey" FOREIGN KEY ("requestedById") REFERENCES "public"."User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."RentalExtension" ADD CONSTRAINT "RentalExtension_decidedById_fkey" FOREIGN KEY ("decidedById") REFERENCES "public"."User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."RentalExtension" ADD CONSTRAINT "RentalExtension_invoiceId_fkey" FOREIGN KEY ("invoiceId") REFERENCES "public"."Invoice"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,36 @@
+-- CreateTable
+CREATE TABLE "public"."CancellationPolicy" (
+    "id" TEXT NOT NULL,
+    "productId" TEXT,
+    "category" TEXT,
+    "earlyReturnPercent" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CancellationPolicy_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."CancellationWindow" (
+    "id" TEXT NOT NULL,
+    "policyId" TEXT NOT NULL,
+    "hoursBefore" INTEGER NOT NULL,
+    "refundPercent" DOUBLE PRECISION NOT NULL,
+
+    CONSTRAINT "CancellationWindow_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CancellationPolicy_productId_key" ON "public"."CancellationPolicy"("productId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CancellationPolicy_category_key" ON "public"."CancellationPolicy"("category");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CancellationWindow_policyId_hoursBefore_key" ON "public"."CancellationWindow"("policyId", "hoursBefore");
+
+-- AddForeignKey
+ALTER TABLE "public"."CancellationPolicy" ADD CONSTRAINT "CancellationPolicy_productId_fkey" FOREIGN KEY ("productId") REFERENCES "public"."Product"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."CancellationWindow" ADD CONSTRAINT "CancellationWindow_policyId_fkey" FOREIGN KEY ("policyId") REFERENCES "public"."CancellationPolicy"("id") ON DELETE CASCADE ON UPDATE CASCADE;
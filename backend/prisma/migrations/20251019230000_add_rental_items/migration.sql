@@ -0,0 +1,38 @@
+-- CreateTable
+CREATE TABLE "public"."RentalItem" (
+    "id" TEXT NOT NULL,
+    "rentalId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL DEFAULT 1,
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "endDate" TIMESTAMP(3) NOT NULL,
+    "unitIds" TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "RentalItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "RentalItem_rentalId_idx" ON "public"."RentalItem"("rentalId");
+
+-- CreateIndex
+CREATE INDEX "RentalItem_productId_startDate_idx" ON "public"."RentalItem"("productId", "startDate");
+
+-- AddForeignKey
+ALTER TABLE "public"."RentalItem" ADD CONSTRAINT "RentalItem_rentalId_fkey" FOREIGN KEY ("rentalId") REFERENCES "public"."Rental"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."RentalItem" ADD CONSTRAINT "RentalItem_productId_fkey" FOREIGN KEY ("productId") REFERENCES "public"."Product"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: every existing rental becomes an order of one line
+INSERT INTO "public"."RentalItem" ("id", "rentalId", "productId", "quantity", "startDate", "endDate", "unitIds", "createdAt")
+SELECT
+    'item_' || "id",
+    "id",
+    "productId",
+    1,
+    "startDate",
+    "endDate",
+    CASE WHEN "unitId" IS NULL THEN ARRAY[]::TEXT[] ELSE ARRAY["unitId"] END,
+    "createdAt"
+FROM "public"."Rental";
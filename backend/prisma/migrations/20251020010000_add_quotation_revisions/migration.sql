@@ -0,0 +1,81 @@
+-- CreateEnum
+CREATE TYPE "public"."QuotationStatus" AS ENUM ('SENT', 'ACCEPTED', 'REJECTED', 'COUNTERED', 'EXPIRED', 'SUPERSEDED');
+
+-- AlterTable
+ALTER TABLE "public"."Quotation" ADD COLUMN     "status" "public"."QuotationStatus" NOT NULL DEFAULT 'SENT',
+ADD COLUMN     "version" INTEGER NOT NULL DEFAULT 1;
+
+-- CreateTable
+CREATE TABLE "public"."QuotationRevision" (
+    "id" TEXT NOT NULL,
+    "quotationId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "status" "public"."QuotationStatus" NOT NULL DEFAULT 'SENT',
+    "price" DOUBLE PRECISION NOT NULL,
+    "breakdown" JSONB,
+    "validTill" TIMESTAMP(3),
+    "notes" TEXT,
+    "createdById" TEXT,
+    "counterPrice" DOUBLE PRECISION,
+    "responseNote" TEXT,
+    "respondedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "QuotationRevision_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."QuotationLine" (
+    "id" TEXT NOT NULL,
+    "revisionId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "description" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL DEFAULT 1,
+    "unitPrice" DOUBLE PRECISION NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+
+    CONSTRAINT "QuotationLine_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "QuotationRevision_quotationId_version_key" ON "public"."QuotationRevision"("quotationId", "version");
+
+-- CreateIndex
+CREATE INDEX "QuotationLine_revisionId_idx" ON "public"."QuotationLine"("revisionId");
+
+-- AddForeignKey
+ALTER TABLE "public"."QuotationRevision" ADD CONSTRAINT "QuotationRevision_quotationId_fkey" FOREIGN KEY ("quotationId") REFERENCES "public"."Quotation"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."QuotationRevision" ADD CONSTRAINT "QuotationRevision_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "public"."User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."QuotationLine" ADD CONSTRAINT "QuotationLine_revisionId_fkey" FOREIGN KEY ("revisionId") REFERENCES "public"."QuotationRevision"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: every existing quotation becomes its own first revision, priced
+-- as a single line
+UPDATE "public"."Quotation" SET "status" = 'ACCEPTED' WHERE "isAccepted";
+
+INSERT INTO "public"."QuotationRevision" ("id", "quotationId", "version", "status", "price", "breakdown", "validTill", "notes", "createdAt")
+SELECT
+    'rev_' || "id",
+    "id",
+    1,
+    "status",
+    "price",
+    "breakdown",
+    "validTill",
+    "notes",
+    "createdAt"
+FROM "public"."Quotation";
+
+INSERT INTO "public"."QuotationLine" ("id", "revisionId", "position", "description", "quantity", "unitPrice", "amount")
+SELECT
+    'line_' || "id",
+    'rev_' || "id",
+    0,
+    'Rental',
+    1,
+    "price",
+    "price"
+FROM "public"."Quotation";
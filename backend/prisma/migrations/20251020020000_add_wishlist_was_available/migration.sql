@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."WishlistItem" ADD COLUMN     "wasAvailable" BOOLEAN;
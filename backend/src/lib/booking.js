@@ -0,0 +1,338 @@
+// Booking engine: a product has `stock` interchangeable units, and every line
+// of a CONFIRMED or ACTIVE rental holds `quantity` of them for the line's date
+// range. Checks run with the product row locked, so two bookings for the same
+// product can't both see the last free unit.
+//
+// Once a product has serial-numbered ProductUnits, its stock is the number of
+// bookable units and each line is bound to that many of them. Products
+// without units keep using the plain `stock` count.
+//
+// Open maintenance windows count as bookings: a unit task holds that unit,
+// a product-wide task or an admin blackout holds every unit.
+import crypto from "crypto";
+import { findMaintenanceWindows } from "./maintenance.js";
+import { reservePromoCode } from "./promoCodes.js";
+import { firstQuotation } from "./quotations.js";
+
+export const RESERVING_STATUSES = ["CONFIRMED", "ACTIVE"];
+// Units in these states can take bookings; MAINTENANCE and RETIRED can't
+export const BOOKABLE_UNIT_STATUSES = ["AVAILABLE", "RENTED"];
+
+// How far either side of a conflicting request to look for free windows
+const ALTERNATIVES_HORIZON_DAYS = 60;
+const MAX_ALTERNATIVES = 3;
+const DAY = 24 * 60 * 60 * 1000;
+// unitId of blocks that hold every unit at once
+const ALL_UNITS = "*";
+
+export const generateOrderReference = (date = new Date()) =>
+  `RNT-${date.toISOString().slice(0, 10).replace(/-/g, "")}-${crypto
+    .randomBytes(3)
+    .toString("hex")
+    .toUpperCase()}`;
+
+// Row lock held until the surrounding transaction ends
+const lockProduct = (tx, productId) =>
+  tx.$queryRaw`SELECT "id" FROM "public"."Product" WHERE "id" = ${productId} FOR UPDATE`;
+
+/**
+ * Recount a product's bookable units into `stock`. Call after any unit is
+ * added, removed or changes status; a product with no units keeps its stock.
+ */
+export async function syncProductStock(tx, productId) {
+  const [total, bookable] = await Promise.all([
+    tx.productUnit.count({ where: { productId } }),
+    tx.productUnit.count({ where: { productId, status: { in: BOOKABLE_UNIT_STATUSES } } }),
+  ]);
+  if (total === 0) return null;
+  return tx.product.update({ where: { id: productId }, data: { stock: bookable } });
+}
+
+/**
+ * Most units held at any one instant in [startDate, endDate). Back-to-back
+ * rentals share a unit: one ending when another starts doesn't overlap it.
+ */
+export function peakUsage(rentals, startDate, endDate) {
+  const events = [];
+  for (const rental of rentals) {
+    const start = Math.max(rental.startDate.getTime(), startDate.getTime());
+    const end = Math.min(rental.endDate.getTime(), endDate.getTime());
+    if (start < end) events.push([start, 1], [end, -1]);
+  }
+  // Releases sort before reservations at the same instant
+  events.sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+
+  let current = 0;
+  let peak = 0;
+  for (const [, delta] of events) {
+    current += delta;
+    peak = Math.max(peak, current);
+  }
+  return peak;
+}
+
+/**
+ * Free windows of the requested length closest to it, earliest first. A unit
+ * can only come free when a rental ends, so candidates start there or end
+ * where one begins.
+ */
+export function findAlternatives(rentals, stock, startDate, endDate, now = new Date()) {
+  if (stock < 1) return [];
+
+  const duration = endDate.getTime() - startDate.getTime();
+  const requested = startDate.getTime();
+  const candidates = new Set();
+  for (const rental of rentals) {
+    candidates.add(rental.endDate.getTime());
+    candidates.add(rental.startDate.getTime() - duration);
+  }
+
+  return [...candidates]
+    .filter((start) => start >= now.getTime() && start !== requested)
+    .filter((start) => peakUsage(rentals, new Date(start), new Date(start + duration)) < stock)
+    .sort((a, b) => Math.abs(a - requested) - Math.abs(b - requested))
+    .slice(0, MAX_ALTERNATIVES)
+    .sort((a, b) => a - b)
+    .map((start) => ({ startDate: new Date(start), endDate: new Date(start + duration) }));
+}
+
+// First bookable unit with no reserving rental bound to it over the range,
+// trying `preferUnitIds` first so a rental keeps its units where it can.
+function pickUnit(units, rentals, startDate, endDate, preferUnitIds) {
+  const ordered = [...units].sort(
+    (a, b) => preferUnitIds.includes(b.id) - preferUnitIds.includes(a.id)
+  );
+  return (
+    ordered.find(
+      (unit) =>
+        peakUsage(
+          rentals.filter((rental) => rental.unitId === unit.id || rental.unitId === ALL_UNITS),
+          startDate,
+          endDate
+        ) === 0
+    ) ?? null
+  );
+}
+
+// One block per unit a rental line holds; lines of products without units
+// hold `quantity` blocks bound to no unit
+const itemBlocks = (item) =>
+  Array.from({ length: item.quantity }, (_, i) => ({
+    startDate: item.startDate,
+    endDate: item.endDate,
+    unitId: item.unitIds[i] ?? null,
+  }));
+
+/**
+ * Everything that holds capacity of `product` over [from, to): lines of
+ * reserving rentals, open maintenance and blackouts, each as { startDate,
+ * endDate, unitId } per unit held. `excludeRentalId` leaves out the rental
+ * being re-checked.
+ *
+ * Returns { stock, units, bookable, rentals }; `units` is empty for products
+ * that are still counted by plain `stock`.
+ */
+export async function loadCapacity(tx, product, from, to, { excludeRentalId } = {}) {
+  const units = await tx.productUnit.findMany({
+    where: { productId: product.id },
+    select: { id: true, status: true },
+    orderBy: { createdAt: "asc" },
+  });
+  const bookable = units.filter((unit) => BOOKABLE_UNIT_STATUSES.includes(unit.status));
+  const stock = units.length > 0 ? bookable.length : product.stock;
+
+  const overlapping = { startDate: { lt: to }, endDate: { gt: from } };
+  const [bookings, maintenance, blackouts] = await Promise.all([
+    tx.rentalItem.findMany({
+      where: {
+        productId: product.id,
+        ...overlapping,
+        rental: {
+          status: { in: RESERVING_STATUSES },
+          ...(excludeRentalId && { id: { not: excludeRentalId } }),
+        },
+      },
+      select: { startDate: true, endDate: true, quantity: true, unitIds: true },
+    }),
+    findMaintenanceWindows(tx, product.id, from, to),
+    tx.productBlackout.findMany({
+      where: { productId: product.id, ...overlapping },
+      select: { startDate: true, endDate: true },
+    }),
+  ]);
+
+  // Units already out of service don't count towards stock, so their own
+  // windows are skipped rather than counted twice.
+  const holdAll = (block) => Array.from({ length: stock }, () => ({ ...block, unitId: ALL_UNITS }));
+  const blocks = [
+    ...maintenance.flatMap((task) => {
+      if (!task.unitId) return holdAll(task);
+      return bookable.some((unit) => unit.id === task.unitId) ? [task] : [];
+    }),
+    ...blackouts.flatMap(holdAll),
+  ];
+
+  return { stock, units, bookable, rentals: [...bookings.flatMap(itemBlocks), ...blocks] };
+}
+
+/**
+ * Whether the capacity loaded by loadCapacity has `quantity` units free for
+ * the whole of [startDate, endDate), trying `preferUnitIds` first.
+ *
+ * Returns { available: true, unitIds } or { available: false }. `unitIds` is
+ * empty for products without units.
+ */
+export function fitCapacity(
+  { stock, units, bookable, rentals },
+  startDate,
+  endDate,
+  { quantity = 1, preferUnitIds = [] } = {}
+) {
+  const held = [...rentals];
+  const unitIds = [];
+  for (let i = 0; i < quantity; i++) {
+    if (peakUsage(held, startDate, endDate) >= stock) return { available: false };
+    if (units.length > 0) {
+      const unit = pickUnit(bookable, held, startDate, endDate, preferUnitIds);
+      if (!unit) return { available: false };
+      unitIds.push(unit.id);
+    }
+    held.push({ startDate, endDate, unitId: unitIds[i] ?? null });
+  }
+  return { available: true, unitIds };
+}
+
+/**
+ * Free capacity of `product` in consecutive slots of `slotMs` from `from` to
+ * `to`. A slot's `reserved` is the most units held at any instant in it, so
+ * `free` units are free for the whole slot.
+ */
+export async function availabilitySlots(tx, product, from, to, slotMs) {
+  const { stock, rentals } = await loadCapacity(tx, product, from, to);
+
+  const slots = [];
+  for (let start = from.getTime(); start < to.getTime(); start += slotMs) {
+    const end = Math.min(start + slotMs, to.getTime());
+    const reserved = Math.min(stock, peakUsage(rentals, new Date(start), new Date(end)));
+    slots.push({
+      start: new Date(start),
+      end: new Date(end),
+      capacity: stock,
+      reserved,
+      free: stock - reserved,
+    });
+  }
+  return { stock, slots };
+}
+
+/**
+ * Whether `quantity` units of `product` are free for [startDate, endDate).
+ * Must run inside a transaction; it locks the product row until that
+ * commits. `excludeRentalId` skips the rental being re-checked;
+ * `preferUnitIds` are the units to keep if they're still free.
+ *
+ * Returns { available: true, unitIds } or { available: false, alternatives }.
+ * `unitIds` is empty for products without units.
+ */
+export async function checkAvailability(
+  tx,
+  product,
+  startDate,
+  endDate,
+  { excludeRentalId, preferUnitIds = [], quantity = 1 } = {}
+) {
+  await lockProduct(tx, product.id);
+
+  // Wide enough to judge every candidate window findAlternatives may offer
+  const padding = ALTERNATIVES_HORIZON_DAYS * DAY + (endDate.getTime() - startDate.getTime());
+  const capacity = await loadCapacity(
+    tx,
+    product,
+    new Date(startDate.getTime() - padding),
+    new Date(endDate.getTime() + padding),
+    { excludeRentalId }
+  );
+
+  const fit = fitCapacity(capacity, startDate, endDate, { quantity, preferUnitIds });
+  if (fit.available) return fit;
+  // A window fits `quantity` units when fewer than stock - quantity + 1 are held
+  return {
+    available: false,
+    alternatives: findAlternatives(capacity.rentals, capacity.stock - quantity + 1, startDate, endDate),
+  };
+}
+
+/**
+ * Earliest start and latest end of an order's `items`.
+ */
+export const orderSpan = (items) => ({
+  startDate: new Date(Math.min(...items.map((item) => item.startDate.getTime()))),
+  endDate: new Date(Math.max(...items.map((item) => item.endDate.getTime()))),
+});
+
+/**
+ * Create a QUOTATION rental order of `items` ({ product, quantity, startDate,
+ * endDate }, one per product) when every line has its units free, each line
+ * bound to the units that are free for it. Quotations don't hold stock yet;
+ * moving one to CONFIRMED or ACTIVE re-runs the checks and may move lines to
+ * other units. A `quote` from quoteOrder becomes the order's quotation, and
+ * its promo code is redeemed. The rental's own product and unit are the first
+ * line's.
+ *
+ * Returns { rental }, { alternatives, productId } for the first line with no
+ * units free, or { error } when the promo code was used up in the meantime.
+ */
+export function bookRental(prisma, { customerId, items, addressId, quote }) {
+  return prisma.$transaction(async (tx) => {
+    // Products are locked in id order, so two orders can't deadlock
+    const unitIds = new Map();
+    for (const item of [...items].sort((a, b) => a.product.id.localeCompare(b.product.id))) {
+      const availability = await checkAvailability(tx, item.product, item.startDate, item.endDate, {
+        quantity: item.quantity,
+      });
+      if (!availability.available) {
+        return { alternatives: availability.alternatives, productId: item.product.id };
+      }
+      unitIds.set(item.product.id, availability.unitIds);
+    }
+
+    const promoCode = quote?.promoCode;
+    if (promoCode) {
+      const error = await reservePromoCode(tx, promoCode.id, customerId);
+      if (error) return { error };
+    }
+
+    const [first] = items;
+    const rental = await tx.rental.create({
+      data: {
+        orderReference: generateOrderReference(),
+        customerId,
+        productId: first.product.id,
+        unitId: unitIds.get(first.product.id)[0] ?? null,
+        addressId,
+        ...orderSpan(items),
+        status: "QUOTATION",
+        items: {
+          create: items.map((item) => ({
+            productId: item.product.id,
+            quantity: item.quantity,
+            startDate: item.startDate,
+            endDate: item.endDate,
+            unitIds: unitIds.get(item.product.id),
+          })),
+        },
+        rentalHistories: {
+          create: { oldStatus: null, newStatus: "QUOTATION", changedById: customerId },
+        },
+        ...(quote && { quotation: { create: firstQuotation(quote) } }),
+        ...(promoCode && {
+          promoRedemption: {
+            create: { promoCodeId: promoCode.id, userId: customerId, amount: promoCode.discount },
+          },
+        }),
+      },
+      include: { items: true, quotation: true, promoRedemption: true },
+    });
+    return { rental };
+  });
+}
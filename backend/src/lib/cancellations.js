@@ -0,0 +1,165 @@
+// Cancellation and early-return refunds. A product's CancellationPolicy wins
+// over its category's; with neither, cancelling 48 hours or more before the
+// start refunds everything, later half, and early returns refund nothing. An
+// order of several products is refunded under the strictest of their
+// policies.
+// Refunds give back a share of what was paid on the rental's own invoices
+// (not late fees or damage) as REFUNDED payments.
+import { roundMoney } from "./pricing.js";
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+// Invoices for the rental itself, the ones a refund pays back
+export const REFUNDABLE_INVOICE_TYPES = ["FULL", "PARTIAL", "EXTENSION"];
+
+const DEFAULT_POLICY = {
+  windows: [
+    { hoursBefore: 48, refundPercent: 100 },
+    { hoursBefore: 0, refundPercent: 50 },
+  ],
+  earlyReturnPercent: 0,
+};
+
+export const policyInclude = { windows: { orderBy: { hoursBefore: "desc" } } };
+
+/**
+ * The policy for `product`: its own, else its category's, else the default.
+ */
+export async function findCancellationPolicy(tx, product) {
+  const own = await tx.cancellationPolicy.findUnique({
+    where: { productId: product.id },
+    include: policyInclude,
+  });
+  if (own) return own;
+  if (product.category) {
+    const category = await tx.cancellationPolicy.findUnique({
+      where: { category: product.category },
+      include: policyInclude,
+    });
+    if (category) return category;
+  }
+  return DEFAULT_POLICY;
+}
+
+/**
+ * Percent refunded under `policy` when a rental starting at `startDate` is
+ * cancelled at `at`: that of the earliest window `at` still falls in, 0 once
+ * past them all.
+ */
+export function cancellationRefundPercent(policy, startDate, at) {
+  const hoursBefore = (startDate.getTime() - at.getTime()) / HOUR;
+  const window = [...policy.windows]
+    .sort((a, b) => b.hoursBefore - a.hoursBefore)
+    .find((w) => hoursBefore >= w.hoursBefore);
+  return window?.refundPercent ?? 0;
+}
+
+/**
+ * Percent refunded under `policy` when `rental` comes back at `at`, before
+ * its end: `earlyReturnPercent` of the share of whole days left unused.
+ */
+export function earlyReturnRefundPercent(policy, rental, at) {
+  const days = Math.ceil((rental.endDate.getTime() - rental.startDate.getTime()) / DAY);
+  const unused = Math.min(days, Math.floor((rental.endDate.getTime() - at.getTime()) / DAY));
+  if (days <= 0 || unused <= 0) return 0;
+  return roundMoney((policy.earlyReturnPercent * unused) / days);
+}
+
+// Each refundable invoice with what's been paid on it and not yet refunded,
+// and `percent` of that
+async function refundLines(tx, rentalId, percent) {
+  const invoices = await tx.invoice.findMany({
+    where: { rentalId, type: { in: REFUNDABLE_INVOICE_TYPES } },
+    include: { payments: true },
+    orderBy: { createdAt: "asc" },
+  });
+  return invoices
+    .map((invoice) => {
+      const total = (status) =>
+        invoice.payments.filter((p) => p.status === status).reduce((sum, p) => sum + p.amount, 0);
+      const paid = roundMoney(total("PAID") - total("REFUNDED"));
+      return { invoice, paid, refund: roundMoney((paid * percent) / 100) };
+    })
+    .filter((line) => line.paid > 0);
+}
+
+const totals = (lines) => ({
+  paid: roundMoney(lines.reduce((sum, line) => sum + line.paid, 0)),
+  refund: roundMoney(lines.reduce((sum, line) => sum + line.refund, 0)),
+});
+
+/**
+ * What refunding `percent` of the rental's payments would come to, without
+ * refunding anything. Returns { paid, refund }.
+ */
+export async function quoteRefund(tx, rentalId, percent) {
+  return totals(await refundLines(tx, rentalId, percent));
+}
+
+/**
+ * Refund `percent` of what was paid on each of the rental's own invoices as a
+ * REFUNDED payment. An invoice refunded in full becomes REFUNDED.
+ *
+ * Returns { paid, refund }.
+ */
+export async function refundRental(tx, rentalId, percent) {
+  const lines = await refundLines(tx, rentalId, percent);
+  for (const { invoice, paid, refund } of lines) {
+    if (refund <= 0) continue;
+    await tx.payment.create({
+      data: { invoiceId: invoice.id, amount: refund, method: "refund", status: "REFUNDED" },
+    });
+    if (refund >= paid) {
+      await tx.invoice.update({ where: { id: invoice.id }, data: { status: "REFUNDED" } });
+    }
+  }
+  return totals(lines);
+}
+
+// Lowest percent `percentOf(policy)` gives across the policies of the
+// rental's products
+async function strictestPercent(tx, rental, percentOf) {
+  const items = await tx.rentalItem.findMany({
+    where: { rentalId: rental.id },
+    include: { product: true },
+  });
+  const percents = [];
+  for (const item of items) {
+    percents.push(percentOf(await findCancellationPolicy(tx, item.product)));
+  }
+  return percents.length > 0 ? Math.min(...percents) : 0;
+}
+
+const cancellationPercent = (tx, rental, at) =>
+  strictestPercent(tx, rental, (policy) => cancellationRefundPercent(policy, rental.startDate, at));
+
+/**
+ * What cancelling `rental` at `at` refunds under its products' policies, and
+ * the `fee` kept. Returns { refundPercent, paid, refund, fee }.
+ */
+export async function quoteCancellation(tx, rental, at = new Date()) {
+  const refundPercent = await cancellationPercent(tx, rental, at);
+  const { paid, refund } = await quoteRefund(tx, rental.id, refundPercent);
+  return { refundPercent, paid, refund, fee: roundMoney(paid - refund) };
+}
+
+/**
+ * Refund a cancelled rental: `refundPercent` when given (an admin's call),
+ * else what its products' policies allow at `at`. Returns { refundPercent, paid, refund }.
+ */
+export async function refundCancellation(tx, rental, { refundPercent, at = new Date() } = {}) {
+  const percent = refundPercent ?? (await cancellationPercent(tx, rental, at));
+  return { refundPercent: percent, ...(await refundRental(tx, rental.id, percent)) };
+}
+
+/**
+ * Refund the unused part of a rental returned at `at`, before its end.
+ * Returns { refundPercent, paid, refund }.
+ */
+export async function refundEarlyReturn(tx, rental, at) {
+  const refundPercent = await strictestPercent(tx, rental, (policy) =>
+    earlyReturnRefundPercent(policy, rental, at)
+  );
+  return { refundPercent, ...(await refundRental(tx, rental.id, refundPercent)) };
+}
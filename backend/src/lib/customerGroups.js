@@ -0,0 +1,42 @@
+// Customers belong to a group when an admin added them, or when the group has
+// a completed-rental threshold they've reached. Rule-based membership is
+// worked out on each lookup, so it follows the customer's history without a
+// background job.
+
+/**
+ * Groups `userId` belongs to, highest priority first, each with `via`:
+ * "MANUAL" or "RULE".
+ */
+export async function findCustomerGroups(tx, userId) {
+  const completed = await tx.rental.count({ where: { customerId: userId, status: "COMPLETED" } });
+  const groups = await tx.customerGroup.findMany({
+    where: {
+      OR: [{ members: { some: { userId } } }, { minCompletedRentals: { lte: completed } }],
+    },
+    include: { members: { where: { userId }, select: { userId: true } } },
+    orderBy: [{ priority: "desc" }, { name: "asc" }],
+  });
+
+  return groups.map(({ members, ...group }) => ({
+    ...group,
+    via: members.length > 0 ? "MANUAL" : "RULE",
+  }));
+}
+
+/**
+ * Customers that meet a group's completed-rental rule, as { id, name, email }.
+ */
+export async function findRuleMembers(tx, group) {
+  if (group.minCompletedRentals == null) return [];
+
+  const qualifying = await tx.rental.groupBy({
+    by: ["customerId"],
+    where: { status: "COMPLETED" },
+    having: { id: { _count: { gte: group.minCompletedRentals } } },
+  });
+  return tx.user.findMany({
+    where: { id: { in: qualifying.map((row) => row.customerId) } },
+    select: { id: true, name: true, email: true },
+    orderBy: { name: "asc" },
+  });
+}
@@ -0,0 +1,160 @@
+// Security deposits. A rental's deposit is, for each of its lines, the
+// product's `deposit` or the CategoryDeposit of the product's category times
+// the quantity, and is held once the rental is confirmed. Every movement is a
+// DepositEntry: HOLD when it's collected, CAPTURE when part of it pays a
+// damage or late-fee invoice, RELEASE when the rest goes back to the customer.
+import { roundMoney } from "./pricing.js";
+
+// Invoices a deposit can pay
+export const CAPTURABLE_INVOICE_TYPES = ["DAMAGE", "LATE_FEE"];
+
+/**
+ * Deposit due for renting `product`: its own, else its category's, else 0.
+ */
+export async function depositAmount(tx, product) {
+  if (product.deposit != null) return product.deposit;
+  if (!product.category) return 0;
+  const rule = await tx.categoryDeposit.findUnique({ where: { category: product.category } });
+  return rule?.amount ?? 0;
+}
+
+// Row lock held until the surrounding transaction ends, so two captures
+// can't both spend what's left
+export const lockDeposit = (tx, depositId) =>
+  tx.$queryRaw`SELECT "id" FROM "public"."Deposit" WHERE "id" = ${depositId} FOR UPDATE`;
+
+// Still held: neither captured nor released
+export const depositBalance = (deposit) =>
+  roundMoney(deposit.amount - deposit.captured - deposit.released);
+
+const statusOf = ({ amount, captured, released }) => {
+  if (roundMoney(amount - captured - released) > 0) return captured > 0 ? "PARTIALLY_CAPTURED" : "HELD";
+  return released > 0 ? "RELEASED" : "CAPTURED";
+};
+
+// What's left to pay on an invoice
+async function outstanding(tx, invoice) {
+  const paid = await tx.payment.aggregate({
+    where: { invoiceId: invoice.id, status: "PAID" },
+    _sum: { amount: true },
+  });
+  return roundMoney(invoice.amount - (paid._sum.amount ?? 0));
+}
+
+/**
+ * Hold the deposit for `rental` of `items` (its lines, with their `product`),
+ * unless it already has one or none is due. Returns the deposit or null.
+ */
+export async function holdDeposit(tx, rental, items, userId) {
+  const existing = await tx.deposit.findUnique({ where: { rentalId: rental.id } });
+  if (existing) return existing;
+
+  let amount = 0;
+  for (const item of items) amount += (await depositAmount(tx, item.product)) * item.quantity;
+  amount = roundMoney(amount);
+  if (amount <= 0) return null;
+  return tx.deposit.create({
+    data: {
+      rentalId: rental.id,
+      amount,
+      entries: { create: { type: "HOLD", amount, createdById: userId } },
+    },
+  });
+}
+
+/**
+ * Pay `invoice` from `deposit`: `amount` (default: all that's owed), capped
+ * at what's held and what's owed. The capture is recorded as a "deposit"
+ * payment and the invoice becomes PAID or PARTIAL.
+ *
+ * Returns { deposit, entry } or { error }.
+ */
+export async function captureDeposit(tx, deposit, invoice, { amount, reason, userId } = {}) {
+  if (invoice.rentalId !== deposit.rentalId) {
+    return { error: "Invoice belongs to another rental" };
+  }
+  if (!CAPTURABLE_INVOICE_TYPES.includes(invoice.type)) {
+    return { error: "Deposits only pay damage and late-fee invoices" };
+  }
+
+  const owed = await outstanding(tx, invoice);
+  const capture = roundMoney(Math.min(amount ?? owed, owed, depositBalance(deposit)));
+  if (capture <= 0) return { error: "Nothing left to capture" };
+
+  const entry = await tx.depositEntry.create({
+    data: {
+      depositId: deposit.id,
+      type: "CAPTURE",
+      amount: capture,
+      invoiceId: invoice.id,
+      reason,
+      createdById: userId,
+    },
+  });
+  await tx.payment.create({
+    data: { invoiceId: invoice.id, amount: capture, method: "deposit", transactionId: entry.id },
+  });
+  await tx.invoice.update({
+    where: { id: invoice.id },
+    data: { status: capture >= owed ? "PAID" : "PARTIAL" },
+  });
+
+  const captured = roundMoney(deposit.captured + capture);
+  const updated = await tx.deposit.update({
+    where: { id: deposit.id },
+    data: { captured, status: statusOf({ ...deposit, captured }) },
+  });
+  return { deposit: updated, entry };
+}
+
+/**
+ * Give back everything still held. Returns { deposit, entry } or { error }.
+ */
+export async function releaseDeposit(tx, deposit, { reason, userId } = {}) {
+  const amount = depositBalance(deposit);
+  if (amount <= 0) return { error: "Deposit already settled" };
+
+  const entry = await tx.depositEntry.create({
+    data: { depositId: deposit.id, type: "RELEASE", amount, reason, createdById: userId },
+  });
+  const released = roundMoney(deposit.released + amount);
+  const updated = await tx.deposit.update({
+    where: { id: deposit.id },
+    data: { released, status: statusOf({ ...deposit, released }) },
+  });
+  return { deposit: updated, entry };
+}
+
+/**
+ * Settle a returned rental's deposit: pay its unpaid damage and late-fee
+ * invoices from it, then release the rest. Without such invoices the whole
+ * deposit is released. Returns the deposit, or null when the rental has none.
+ */
+export async function settleDeposit(tx, rentalId, userId) {
+  let deposit = await tx.deposit.findUnique({ where: { rentalId } });
+  if (!deposit) return null;
+  await lockDeposit(tx, deposit.id);
+  deposit = await tx.deposit.findUnique({ where: { id: deposit.id } });
+
+  const invoices = await tx.invoice.findMany({
+    where: {
+      rentalId,
+      type: { in: CAPTURABLE_INVOICE_TYPES },
+      status: { in: ["PENDING", "PARTIAL"] },
+    },
+    orderBy: { createdAt: "asc" },
+  });
+  for (const invoice of invoices) {
+    if (depositBalance(deposit) <= 0) break;
+    const result = await captureDeposit(tx, deposit, invoice, {
+      reason: "Settled on return",
+      userId,
+    });
+    if (result.deposit) deposit = result.deposit;
+  }
+
+  if (depositBalance(deposit) > 0) {
+    deposit = (await releaseDeposit(tx, deposit, { reason: "Settled on return", userId })).deposit;
+  }
+  return deposit;
+}
@@ -0,0 +1,142 @@
+// Rental extensions. A customer asks to move a confirmed or active rental's
+// end later, which moves every line that ends with it. The extra time has to
+// be free on those lines' own units (no other booking, maintenance or
+// blackout) and is priced like an order of its own. Short extensions are
+// approved on the spot, the rest wait for an admin.
+import { RESERVING_STATUSES, checkAvailability } from "./booking.js";
+import { quoteOrder } from "./pricing.js";
+import { findCustomerGroups } from "./customerGroups.js";
+import { chargeLateFee } from "./lateFees.js";
+import { lockRental } from "./rentalStatus.js";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Extensions of at most this many days are approved without an admin; 0 turns
+// auto-approval off
+export const EXTENSION_AUTO_APPROVE_DAYS = Number(process.env.EXTENSION_AUTO_APPROVE_DAYS) || 0;
+
+export const canExtend = (rental) => RESERVING_STATUSES.includes(rental.status);
+
+/**
+ * Check that `rental` can run until `endDate` and price the extra time. Must
+ * run inside a transaction (see checkAvailability).
+ *
+ * Returns { quote }, or { error, status } with the HTTP status to answer.
+ */
+export async function checkExtension(tx, rental, endDate) {
+  if (!canExtend(rental)) {
+    return { status: 400, error: "Only confirmed or active rentals can be extended" };
+  }
+  if (endDate <= rental.endDate) {
+    return { status: 400, error: "The new end date must be after the current one" };
+  }
+
+  const items = await tx.rentalItem.findMany({
+    where: { rentalId: rental.id, endDate: rental.endDate },
+    include: { product: true },
+  });
+  for (const item of items) {
+    const availability = await checkAvailability(tx, item.product, rental.endDate, endDate, {
+      excludeRentalId: rental.id,
+      preferUnitIds: item.unitIds,
+      quantity: item.quantity,
+    });
+    // The customer already has the units, so others being free won't do
+    const keepsUnits = item.unitIds.every((unitId) => availability.unitIds?.includes(unitId));
+    if (!availability.available || !keepsUnits) {
+      return { status: 409, error: "The rental can't be extended to that date; it's booked or under maintenance" };
+    }
+  }
+
+  const quote = await quoteOrder(tx, {
+    items: items.map((item) => ({
+      product: item.product,
+      quantity: item.quantity,
+      startDate: rental.endDate,
+      endDate,
+    })),
+    customerGroups: await findCustomerGroups(tx, rental.customerId),
+  });
+  return { quote };
+}
+
+/**
+ * Whether a request to move the end from `currentEndDate` to
+ * `requestedEndDate` is short enough to approve automatically.
+ */
+export const isAutoApproved = ({ currentEndDate, requestedEndDate }) =>
+  EXTENSION_AUTO_APPROVE_DAYS > 0 &&
+  requestedEndDate.getTime() - currentEndDate.getTime() <= EXTENSION_AUTO_APPROVE_DAYS * DAY;
+
+/**
+ * Approve a PENDING `extension`: re-check the dates are still free, move the
+ * rental's end (and that of the lines ending with it) and its return, bill
+ * the price on an EXTENSION invoice and record the change in the rental's
+ * history. A late fee already charged is recomputed against the new end. The
+ * request is read again under the rental's lock, so it's approved at most
+ * once and never after being turned down.
+ *
+ * Returns { extension } or { error, status }.
+ */
+export async function approveExtension(tx, extension, { decidedById, decisionNote, autoApproved = false }) {
+  await lockRental(tx, extension.rentalId);
+  const current = await tx.rentalExtension.findUnique({ where: { id: extension.id } });
+  if (current.status !== "PENDING") {
+    return { status: 400, error: `Extension request is already ${current.status.toLowerCase()}` };
+  }
+  const rental = await tx.rental.findUnique({ where: { id: extension.rentalId } });
+  if (rental.endDate.getTime() !== extension.currentEndDate.getTime()) {
+    return { status: 409, error: "The rental's end date has changed since this was requested" };
+  }
+  const check = await checkExtension(tx, rental, extension.requestedEndDate);
+  if (check.error) return check;
+
+  const shift = extension.requestedEndDate.getTime() - rental.endDate.getTime();
+  await tx.rentalItem.updateMany({
+    where: { rentalId: rental.id, endDate: rental.endDate },
+    data: { endDate: extension.requestedEndDate },
+  });
+  const extended = await tx.rental.update({
+    where: { id: rental.id },
+    data: {
+      endDate: extension.requestedEndDate,
+      rentalHistories: {
+        create: {
+          oldStatus: rental.status,
+          newStatus: rental.status,
+          note: `Extended to ${extension.requestedEndDate.toISOString().slice(0, 10)}`,
+          changedById: decidedById ?? extension.requestedById,
+        },
+      },
+    },
+  });
+
+  const rentalReturn = await tx.rentalReturn.findUnique({ where: { rentalId: rental.id } });
+  if (rentalReturn && !rentalReturn.completed) {
+    await tx.rentalReturn.update({
+      where: { id: rentalReturn.id },
+      data: { scheduled: new Date(rentalReturn.scheduled.getTime() + shift) },
+    });
+    if (rentalReturn.lateFeeInvoiceId) await chargeLateFee(tx, extended);
+  }
+
+  const invoice =
+    extension.price > 0
+      ? await tx.invoice.create({
+          data: { rentalId: rental.id, amount: extension.price, type: "EXTENSION" },
+        })
+      : null;
+
+  const approved = await tx.rentalExtension.update({
+    where: { id: extension.id },
+    data: {
+      status: "APPROVED",
+      autoApproved,
+      decidedById,
+      decidedAt: new Date(),
+      decisionNote,
+      invoiceId: invoice?.id,
+    },
+  });
+  return { extension: approved };
+}
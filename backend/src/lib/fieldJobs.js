@@ -0,0 +1,64 @@
+// Pickups and returns are field jobs: scheduled visits an admin assigns to a
+// STAFF user, who then records arrival and completion on site.
+
+/**
+ * Admins may update any job; staff only the jobs assigned to them.
+ */
+export const canUpdateJob = (user, job) =>
+  user.role === "ADMIN" || (user.role === "STAFF" && job.staffId === user.id);
+
+/**
+ * Prisma filter for `scheduled` between `from` and `to`, defaulting to the
+ * server's current day.
+ */
+export function scheduledWindow({ from, to } = {}) {
+  const start = from ?? new Date(new Date().setHours(0, 0, 0, 0));
+  const end = to ?? new Date(new Date(start).setHours(24, 0, 0, 0));
+  return { gte: start, lt: end };
+}
+
+/**
+ * Whole days between the rental's end and the actual return, never negative.
+ */
+export const daysLate = (endDate, actualReturn) =>
+  Math.max(0, Math.ceil((actualReturn - endDate) / (1000 * 60 * 60 * 24)));
+
+// How long one visit blocks a staff member's schedule.
+export const JOB_DURATION_MINUTES = Number(process.env.JOB_DURATION_MINUTES) || 60;
+
+/**
+ * Open pickups and returns assigned to `staffId` that overlap a visit at
+ * `scheduled`, other than `exclude` ({ kind, id }). Double-booking is allowed
+ * so dispatchers can fix it up later, but it is reported back to them.
+ */
+export async function findStaffConflicts(prisma, staffId, scheduled, exclude) {
+  const duration = JOB_DURATION_MINUTES * 60 * 1000;
+  const where = {
+    staffId,
+    completed: false,
+    scheduled: {
+      gt: new Date(scheduled.getTime() - duration),
+      lt: new Date(scheduled.getTime() + duration),
+    },
+  };
+  const select = { id: true, rentalId: true, scheduled: true };
+
+  const [pickups, returns] = await Promise.all([
+    prisma.pickup.findMany({
+      where: exclude.kind === "pickup" ? { ...where, id: { not: exclude.id } } : where,
+      select,
+    }),
+    prisma.rentalReturn.findMany({
+      where: exclude.kind === "return" ? { ...where, id: { not: exclude.id } } : where,
+      select,
+    }),
+  ]);
+
+  return [
+    ...pickups.map((pickup) => ({ kind: "pickup", ...pickup })),
+    ...returns.map((rentalReturn) => ({ kind: "return", ...rentalReturn })),
+  ];
+}
+
+export const isStaffUser = async (prisma, userId) =>
+  (await prisma.user.count({ where: { id: userId, role: "STAFF" } })) > 0;
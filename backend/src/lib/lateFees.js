@@ -0,0 +1,167 @@
+// Late fees for rentals kept past their end. A product's LateFeePolicy wins
+// over its category's; with neither, the old flat rule applies: 10% of the
+// base price per day. An order is charged for each unit on each of its lines
+// under that line's product's policy, from that line's own end. The fee is
+// always recomputed in full, so charging the same rental twice at the same
+// moment changes nothing.
+import { roundMoney } from "./pricing.js";
+import { daysLate } from "./fieldJobs.js";
+import { lockRental } from "./rentalStatus.js";
+
+const HOUR = 60 * 60 * 1000;
+const UNIT_MS = { HOUR, DAY: 24 * HOUR };
+
+// Share of the base price charged per day when no policy applies
+const DEFAULT_DAILY_SHARE = 0.1;
+
+// Rentals still out: picked up (ACTIVE) and not yet handed back. A CONFIRMED
+// rental past its end was never picked up, so there's nothing to be late with.
+const OUT_STATUSES = ["ACTIVE"];
+
+export const policyInclude = { tiers: { orderBy: { afterUnits: "asc" } } };
+
+/**
+ * The policy for `product`: its own, else its category's, else the default.
+ */
+export async function findLateFeePolicy(tx, product) {
+  const own = await tx.lateFeePolicy.findUnique({
+    where: { productId: product.id },
+    include: policyInclude,
+  });
+  if (own) return own;
+  if (product.category) {
+    const category = await tx.lateFeePolicy.findUnique({
+      where: { category: product.category },
+      include: policyInclude,
+    });
+    if (category) return category;
+  }
+  return {
+    graceHours: 0,
+    unit: "DAY",
+    rate: roundMoney(product.basePrice * DEFAULT_DAILY_SHARE),
+    maxFee: null,
+    tiers: [],
+  };
+}
+
+/**
+ * Fee under `policy` for a rental that ended at `endDate` and is returned (or
+ * still out) at `at`. Nothing is due within the grace period; past it, every
+ * started hour or day since the end is charged at the rate of the tier it
+ * falls in, and the total is capped at `maxFee`.
+ *
+ * Returns { units, fee }.
+ */
+export function computeLateFee(policy, endDate, at) {
+  const lateMs = at.getTime() - endDate.getTime();
+  if (lateMs <= 0 || lateMs <= policy.graceHours * HOUR) return { units: 0, fee: 0 };
+
+  const units = Math.ceil(lateMs / UNIT_MS[policy.unit]);
+  const bands = [
+    { afterUnits: 0, rate: policy.rate },
+    ...[...policy.tiers].sort((a, b) => a.afterUnits - b.afterUnits),
+  ];
+
+  let fee = 0;
+  bands.forEach((band, i) => {
+    const end = Math.min(units, bands[i + 1]?.afterUnits ?? Infinity);
+    if (end > band.afterUnits) fee += (end - band.afterUnits) * band.rate;
+  });
+  if (policy.maxFee != null) fee = Math.min(fee, policy.maxFee);
+  return { units, fee: roundMoney(fee) };
+}
+
+// PAID once payments cover `amount`, PARTIAL while some do
+async function invoiceStatus(tx, invoiceId, amount) {
+  const paid = await tx.payment.aggregate({
+    where: { invoiceId, status: "PAID" },
+    _sum: { amount: true },
+  });
+  const total = paid._sum.amount ?? 0;
+  if (total >= amount) return "PAID";
+  return total > 0 ? "PARTIAL" : "PENDING";
+}
+
+/**
+ * Charge `rental` its late fee as of `at`: record `lateFee` and `daysLate` on
+ * its return (creating one if none is scheduled) and bring its LATE_FEE
+ * invoice to the same amount, creating it on the first charge.
+ *
+ * Returns the updated return.
+ */
+export async function chargeLateFee(tx, rental, at = new Date()) {
+  const items = await tx.rentalItem.findMany({
+    where: { rentalId: rental.id },
+    include: { product: true },
+  });
+  let fee = 0;
+  let days = 0;
+  for (const item of items) {
+    const policy = await findLateFeePolicy(tx, item.product);
+    fee += computeLateFee(policy, item.endDate, at).fee * item.quantity;
+    days = Math.max(days, daysLate(item.endDate, at));
+  }
+  fee = roundMoney(fee);
+  const late = { lateFee: fee, daysLate: days };
+
+  const rentalReturn = await tx.rentalReturn.upsert({
+    where: { rentalId: rental.id },
+    update: late,
+    create: { rentalId: rental.id, scheduled: at, completed: false, ...late },
+  });
+
+  if (rentalReturn.lateFeeInvoiceId) {
+    const invoice = await tx.invoice.findUnique({ where: { id: rentalReturn.lateFeeInvoiceId } });
+    if (invoice.amount === fee || invoice.status === "REFUNDED") return rentalReturn;
+    await tx.invoice.update({
+      where: { id: invoice.id },
+      data: { amount: fee, status: await invoiceStatus(tx, invoice.id, fee) },
+    });
+    return rentalReturn;
+  }
+
+  if (fee <= 0) return rentalReturn;
+  const invoice = await tx.invoice.create({
+    data: { rentalId: rental.id, amount: fee, type: "LATE_FEE" },
+  });
+  return tx.rentalReturn.update({
+    where: { id: rentalReturn.id },
+    data: { lateFeeInvoiceId: invoice.id },
+  });
+}
+
+// Still out as of `at` with at least one line past its end
+const overdueWhere = (at) => ({
+  status: { in: OUT_STATUSES },
+  items: { some: { endDate: { lt: at } } },
+  OR: [{ returnRecord: null }, { returnRecord: { completed: false } }],
+});
+
+/**
+ * Charge every overdue rental still out as of `at`. Safe to run as often as
+ * needed: each run brings the fees and invoices up to date. Each rental is
+ * locked and looked up again before it's charged, so one returned meanwhile
+ * (the return charges its own fee under the same lock) is skipped.
+ *
+ * Returns the number of rentals charged.
+ */
+export async function chargeOverdueRentals(prisma, at = new Date()) {
+  const overdue = await prisma.rental.findMany({
+    where: overdueWhere(at),
+    select: { id: true },
+  });
+
+  let charged = 0;
+  for (const { id } of overdue) {
+    const done = await prisma.$transaction(async (tx) => {
+      await lockRental(tx, id);
+      const rental = await tx.rental.findFirst({ where: { id, ...overdueWhere(at) } });
+      if (!rental) return false;
+      await chargeLateFee(tx, rental, at);
+      return true;
+    });
+    if (done) charged += 1;
+  }
+  return charged;
+}
@@ -0,0 +1,127 @@
+// Maintenance windows take a product, or one of its units, out of service.
+// Open tasks block bookings for their date range, and recurring tasks
+// schedule their successor by calendar interval or by usage.
+
+export const OPEN_MAINTENANCE_STATUSES = ["SCHEDULED", "IN_PROGRESS"];
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Open tasks of a product overlapping [from, to), oldest first.
+ */
+export function findMaintenanceWindows(tx, productId, from, to) {
+  return tx.maintenanceTask.findMany({
+    where: {
+      productId,
+      status: { in: OPEN_MAINTENANCE_STATUSES },
+      startDate: { lt: to },
+      endDate: { gt: from },
+    },
+    select: { id: true, unitId: true, startDate: true, endDate: true },
+    orderBy: { startDate: "asc" },
+  });
+}
+
+/**
+ * CONFIRMED or ACTIVE rentals an out-of-service window would take the unit
+ * (or, for a product-wide task or blackout, every unit) away from.
+ */
+export function findRentalConflicts(tx, { productId, unitId, startDate, endDate }) {
+  return tx.rental.findMany({
+    where: {
+      status: { in: ["CONFIRMED", "ACTIVE"] },
+      items: {
+        some: {
+          productId,
+          ...(unitId && { unitIds: { has: unitId } }),
+          startDate: { lt: endDate },
+          endDate: { gt: startDate },
+        },
+      },
+    },
+    select: { id: true, orderReference: true, status: true, startDate: true, endDate: true },
+  });
+}
+
+// Successor of a recurring task, the same length as it, starting at `start`
+const createSuccessor = (tx, task, start) =>
+  tx.maintenanceTask.create({
+    data: {
+      productId: task.productId,
+      unitId: task.unitId,
+      title: task.title,
+      description: task.description,
+      startDate: start,
+      endDate: new Date(start.getTime() + (task.endDate.getTime() - task.startDate.getTime())),
+      intervalDays: task.intervalDays,
+      intervalRentals: task.intervalRentals,
+      staffId: task.staffId,
+      previousTaskId: task.id,
+    },
+  });
+
+/**
+ * Close a task. Calendar-recurring tasks get their successor straight away,
+ * `intervalDays` after completion; usage-recurring ones wait for
+ * recordRentalUsage.
+ *
+ * Returns { task, next }; `next` is null when nothing was scheduled.
+ */
+export async function completeMaintenanceTask(tx, task, { completedById, notes, completedAt = new Date() }) {
+  const completed = await tx.maintenanceTask.update({
+    where: { id: task.id },
+    data: {
+      status: "COMPLETED",
+      completedAt,
+      completedById,
+      ...(notes !== undefined && { completionNotes: notes }),
+    },
+  });
+
+  const next = task.intervalDays
+    ? await createSuccessor(tx, task, new Date(completedAt.getTime() + task.intervalDays * DAY))
+    : null;
+  return { task: completed, next };
+}
+
+/**
+ * Count a rental that just completed towards usage-recurring tasks of the
+ * products on its lines. A product-wide task counts every rental of the
+ * product; a unit task only those of its unit. Once a task has seen
+ * `intervalRentals` completions since it was closed, its successor is
+ * scheduled from now.
+ *
+ * Returns the tasks created.
+ */
+export async function recordRentalUsage(tx, rental, now = new Date()) {
+  const items = await tx.rentalItem.findMany({ where: { rentalId: rental.id } });
+
+  const created = [];
+  for (const item of items) {
+    const due = await tx.maintenanceTask.findMany({
+      where: {
+        productId: item.productId,
+        status: "COMPLETED",
+        intervalRentals: { not: null },
+        nextTask: { is: null },
+        OR: [{ unitId: null }, { unitId: { in: item.unitIds } }],
+      },
+    });
+
+    for (const task of due) {
+      const completions = await tx.rentalHistory.count({
+        where: {
+          newStatus: "COMPLETED",
+          changedAt: { gt: task.completedAt },
+          rental: {
+            items: {
+              some: { productId: task.productId, ...(task.unitId && { unitIds: { has: task.unitId } }) },
+            },
+          },
+        },
+      });
+      if (completions >= task.intervalRentals) created.push(await createSuccessor(tx, task, now));
+    }
+  }
+  return created;
+}
@@ -0,0 +1,112 @@
+import { listQuerySchema } from "../validate/validate.js";
+
+// Turn a dotted path into a nested Prisma fragment,
+// e.g. ("customer.name", x) -> { customer: { name: x } }
+const nest = (path, value) =>
+  path.split(".").reduceRight((acc, key) => ({ [key]: acc }), value);
+
+const formatIssues = (issues, prefix) =>
+  issues.map((issue) => {
+    const path = [prefix, ...issue.path].filter(Boolean).join(".");
+    return path ? `${path}: ${issue.message}` : issue.message;
+  });
+
+/**
+ * Parse the shared list query (skip/take or cursor, sortBy/sortOrder, q,
+ * from/to) plus a route's own filters into Prisma findMany arguments.
+ *
+ * options:
+ * - sortable:    fields accepted by `sortBy` (dotted paths allowed)
+ * - defaultSort: { field, order } used when `sortBy` is absent
+ * - searchable:  dotted paths matched case-insensitively by `q`
+ * - dateField:   field bounded by `from`/`to`
+ * - filters:     { param: zodSchema } for equality on that field, or
+ *                { param: { schema, where: (value) => fragment } }
+ * - where:       fixed conditions, e.g. ownership
+ *
+ * Returns { success: true, args, skip, take } or { success: false, error }.
+ */
+export function parseListQuery(query, options = {}) {
+  const {
+    sortable = ["createdAt"],
+    defaultSort = { field: "createdAt", order: "desc" },
+    searchable = [],
+    dateField,
+    filters = {},
+    where: baseWhere,
+  } = options;
+
+  const parsed = listQuerySchema.safeParse(query);
+  if (!parsed.success) {
+    return {
+      success: false,
+      error: { error: "Validation error", details: formatIssues(parsed.error.issues) },
+    };
+  }
+
+  const { skip, take, cursor, sortBy, sortOrder, q, from, to } = parsed.data;
+  const details = [];
+  const conditions = baseWhere ? [baseWhere] : [];
+
+  if (sortBy && !sortable.includes(sortBy)) {
+    details.push(`sortBy: must be one of ${sortable.join(", ")}`);
+  }
+
+  if (q && searchable.length > 0) {
+    conditions.push({
+      OR: searchable.map((path) => nest(path, { contains: q, mode: "insensitive" })),
+    });
+  }
+
+  if (dateField && (from || to)) {
+    conditions.push({ [dateField]: { gte: from, lte: to } });
+  }
+
+  for (const [param, filter] of Object.entries(filters)) {
+    if (query[param] === undefined || query[param] === "") continue;
+
+    const schema = filter.schema ?? filter;
+    const result = schema.safeParse(query[param]);
+    if (!result.success) {
+      details.push(...formatIssues(result.error.issues, param));
+      continue;
+    }
+    conditions.push(filter.where ? filter.where(result.data) : { [param]: result.data });
+  }
+
+  if (details.length > 0) {
+    return { success: false, error: { error: "Validation error", details } };
+  }
+
+  const order = sortOrder ?? (sortBy ? "asc" : defaultSort.order);
+  const args = {
+    where: conditions.length > 0 ? { AND: conditions } : {},
+    // `id` breaks ties so cursors land on a stable position
+    orderBy: [nest(sortBy ?? defaultSort.field, order), { id: order }],
+    take,
+    ...(cursor ? { cursor: { id: cursor }, skip: 1 } : { skip }),
+  };
+
+  return { success: true, args, skip: cursor ? 0 : skip, take };
+}
+
+/**
+ * Run a parsed list query against a Prisma delegate (e.g. `prisma.rental`)
+ * and wrap the rows with the total count and the next cursor.
+ */
+export async function findPage(delegate, list, extra = {}) {
+  const [data, total] = await Promise.all([
+    delegate.findMany({ ...list.args, ...extra }),
+    delegate.count({ where: list.args.where }),
+  ]);
+
+  return {
+    data,
+    pagination: {
+      skip: list.skip,
+      take: list.take,
+      total,
+      nextCursor: data.length === list.take ? data[data.length - 1].id : null,
+    },
+  };
+}
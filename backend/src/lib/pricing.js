@@ -0,0 +1,213 @@
+// Rental pricing. A product's basePrice is its day rate; RentalDuration rows
+// ("hour", "week", "2 weeks", ...) add other tiers. A pricelist valid on the
+// rental's start date, for everyone or for one of the customer's groups, can
+// replace the day rate and take a percentage off. Quotes are itemised so the
+// quotation shows how its total was reached.
+//
+// When several pricelists apply, the one for the highest-priority group wins,
+// group pricelists beat general ones, and the cheapest breaks a tie. A promo
+// code comes off whatever is left after the pricelist discount.
+//
+// An order of several lines is priced line by line; its promo code comes off
+// the lines it applies to and tax is added on the order's total.
+import { promoAppliesTo } from "./promoCodes.js";
+
+const HOUR = 60 * 60 * 1000;
+const TIER_LENGTHS = { hour: HOUR, day: 24 * HOUR, week: 7 * 24 * HOUR, month: 30 * 24 * HOUR };
+
+// Percent added on top of the discounted subtotal
+export const TAX_RATE = Number(process.env.TAX_RATE) || 0;
+
+export const roundMoney = (amount) => Math.round(amount * 100) / 100;
+
+/**
+ * Length in ms of a RentalDuration label such as "week", "2 weeks" or
+ * "1 Day"; null for labels that aren't a count of hours, days, weeks or
+ * months.
+ */
+export function parseDuration(label) {
+  const match = /^\s*(\d+)?\s*(hour|day|week|month)s?\s*$/i.exec(label ?? "");
+  if (!match) return null;
+  return Number(match[1] ?? 1) * TIER_LENGTHS[match[2].toLowerCase()];
+}
+
+// The day rate plus every duration row we can read
+const productTiers = (durations, dayRate) => [
+  { label: "day", length: TIER_LENGTHS.day, price: dayRate },
+  ...durations
+    .map((row) => ({ label: row.duration, length: parseDuration(row.duration), price: row.price }))
+    .filter((tier) => tier.length),
+];
+
+// Cheapest single tier for `length` ms, billed in whole periods of the tier
+function bestTier(tiers, length) {
+  let best = null;
+  for (const tier of tiers) {
+    const periods = Math.max(1, Math.ceil(length / tier.length));
+    const amount = roundMoney(periods * tier.price);
+    if (!best || amount < best.amount) best = { ...tier, periods, amount };
+  }
+  return best;
+}
+
+/**
+ * Price of renting `product` for one hour, day, week and month from its own
+ * tiers, ignoring pricelists. Needs `product.rentalDurations`.
+ */
+export function listPrices(product) {
+  const tiers = productTiers(product.rentalDurations ?? [], product.basePrice);
+  return Object.fromEntries(
+    Object.entries(TIER_LENGTHS).map(([label, length]) => [label, bestTier(tiers, length).amount])
+  );
+}
+
+/**
+ * Amount `promo` takes off `amount`: a percentage of it, or a fixed sum that
+ * never exceeds it.
+ */
+export function promoDiscount(promo, amount) {
+  const discount = promo.discountType === "PERCENTAGE" ? (amount * promo.value) / 100 : promo.value;
+  return roundMoney(Math.min(Math.max(amount, 0), discount));
+}
+
+// Itemised price under one pricelist item (or none)
+function priceWith(product, durations, length, quantity, pricelist, promo) {
+  const item = pricelist?.items[0];
+  const tier = bestTier(productTiers(durations, item?.price ?? product.basePrice), length);
+  const subtotal = roundMoney(tier.amount * quantity);
+
+  const discounts = [];
+  if (item?.discount) {
+    discounts.push({
+      description: `${pricelist.name} (${item.discount}% off)`,
+      amount: roundMoney((subtotal * item.discount) / 100),
+    });
+  }
+  const sumDiscounts = () => roundMoney(discounts.reduce((sum, line) => sum + line.amount, 0));
+
+  let promoCode = null;
+  if (promo) {
+    const amount = promoDiscount(promo, subtotal - sumDiscounts());
+    promoCode = { id: promo.id, code: promo.code, discount: amount };
+    discounts.push({
+      description: `Promo ${promo.code}${promo.discountType === "PERCENTAGE" ? ` (${promo.value}% off)` : ""}`,
+      amount,
+    });
+  }
+  const discountTotal = sumDiscounts();
+  const tax = roundMoney(((subtotal - discountTotal) * TAX_RATE) / 100);
+
+  return {
+    tier: { label: tier.label, periods: tier.periods, unitPrice: tier.price },
+    pricelist: pricelist
+      ? { id: pricelist.id, name: pricelist.name, customerGroup: pricelist.customerGroup?.name ?? null }
+      : null,
+    promoCode,
+    lines: [
+      {
+        description: `${product.name}: ${tier.periods} × ${tier.label}${quantity > 1 ? ` × ${quantity}` : ""}`,
+        amount: subtotal,
+      },
+    ],
+    subtotal,
+    discounts,
+    discountTotal,
+    taxRate: TAX_RATE,
+    tax,
+    total: roundMoney(subtotal - discountTotal + tax),
+  };
+}
+
+// Pricelists for no group rank below every group's
+const rank = (pricelist) => pricelist?.customerGroup?.priority ?? -Infinity;
+
+/**
+ * Quote `quantity` units of `product` for [startDate, endDate). Pricelists
+ * apply when they're valid on the start date and are either for everyone or
+ * for one of `customerGroups` (from findCustomerGroups). `promo` is a code
+ * already accepted by checkPromoCode.
+ *
+ * Returns the breakdown: { productId, quantity, startDate, endDate, tier,
+ * pricelist, promoCode, lines, subtotal, discounts, discountTotal, taxRate,
+ * tax, total }.
+ */
+export async function quoteRental(
+  tx,
+  { product, startDate, endDate, quantity = 1, customerGroups = [], promo = null }
+) {
+  const [durations, pricelists] = await Promise.all([
+    tx.rentalDuration.findMany({ where: { productId: product.id } }),
+    tx.pricelist.findMany({
+      where: {
+        validFrom: { lte: startDate },
+        validTo: { gte: startDate },
+        items: { some: { productId: product.id } },
+        OR: [
+          { customerGroupId: null },
+          { customerGroupId: { in: customerGroups.map((group) => group.id) } },
+        ],
+      },
+      include: {
+        items: { where: { productId: product.id }, take: 1 },
+        customerGroup: { select: { name: true, priority: true } },
+      },
+    }),
+  ]);
+
+  // Only the top-ranked pricelists compete; with none, list prices apply
+  const top = Math.max(...pricelists.map(rank));
+  const applicable = pricelists.length > 0 ? pricelists.filter((pricelist) => rank(pricelist) === top) : [null];
+  const length = endDate.getTime() - startDate.getTime();
+  const best = applicable
+    .map((pricelist) => priceWith(product, durations, length, quantity, pricelist, promo))
+    .reduce((a, b) => (b.total < a.total ? b : a));
+
+  return { productId: product.id, quantity, startDate, endDate, ...best };
+}
+
+const sumAmounts = (rows, field) => roundMoney(rows.reduce((sum, row) => sum + row[field], 0));
+
+/**
+ * Quote an order of `items` ({ product, quantity, startDate, endDate }): each
+ * line priced by quoteRental, then `promo` taken off what's left of the lines
+ * it applies to.
+ *
+ * Returns { items, startDate, endDate, promoCode, lines, subtotal, discounts,
+ * discountTotal, taxRate, tax, total }; `items` holds each line's own quote.
+ */
+export async function quoteOrder(tx, { items, customerGroups = [], promo = null }) {
+  const quotes = [];
+  for (const item of items) {
+    quotes.push(await quoteRental(tx, { ...item, customerGroups }));
+  }
+
+  const discounts = quotes.flatMap((quote) => quote.discounts);
+  let promoCode = null;
+  if (promo) {
+    const eligible = quotes.filter((_, i) => promoAppliesTo(promo, items[i].product));
+    const left = sumAmounts(eligible, "subtotal") - sumAmounts(eligible, "discountTotal");
+    const amount = promoDiscount(promo, left);
+    promoCode = { id: promo.id, code: promo.code, discount: amount };
+    discounts.push({
+      description: `Promo ${promo.code}${promo.discountType === "PERCENTAGE" ? ` (${promo.value}% off)` : ""}`,
+      amount,
+    });
+  }
+
+  const subtotal = sumAmounts(quotes, "subtotal");
+  const discountTotal = sumAmounts(discounts, "amount");
+  const tax = roundMoney(((subtotal - discountTotal) * TAX_RATE) / 100);
+  return {
+    items: quotes,
+    startDate: new Date(Math.min(...items.map((item) => item.startDate.getTime()))),
+    endDate: new Date(Math.max(...items.map((item) => item.endDate.getTime()))),
+    promoCode,
+    lines: quotes.flatMap((quote) => quote.lines),
+    subtotal,
+    discounts,
+    discountTotal,
+    taxRate: TAX_RATE,
+    tax,
+    total: roundMoney(subtotal - discountTotal + tax),
+  };
+}
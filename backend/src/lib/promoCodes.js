@@ -0,0 +1,98 @@
+// Promo codes customers enter at checkout. A code is checked against its
+// expiry, usage limits, minimum rental length and product/category
+// restrictions; pricing then takes it off what's left after any pricelist
+// discount. A use counts from when its rental is created until that rental is
+// cancelled.
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export const normalizeCode = (code) => code.trim().toUpperCase();
+
+// Row lock held until the surrounding transaction ends
+const lockPromoCode = (tx, promoCodeId) =>
+  tx.$queryRaw`SELECT "id" FROM "public"."PromoCode" WHERE "id" = ${promoCodeId} FOR UPDATE`;
+
+const countUses = (tx, promo, { userId, excludeRentalId } = {}) =>
+  tx.promoRedemption.count({
+    where: {
+      promoCodeId: promo.id,
+      rental: { status: { not: "CANCELLED" } },
+      ...(userId && { userId }),
+      ...(excludeRentalId && { rentalId: { not: excludeRentalId } }),
+    },
+  });
+
+// Why `promo` has no uses left for `userId`, or null
+async function usageError(tx, promo, userId, excludeRentalId) {
+  if (promo.maxUses != null) {
+    const uses = await countUses(tx, promo, { excludeRentalId });
+    if (uses >= promo.maxUses) return "Promo code has been fully redeemed";
+  }
+  if (promo.maxUsesPerUser != null) {
+    const uses = await countUses(tx, promo, { userId, excludeRentalId });
+    if (uses >= promo.maxUsesPerUser) return "You have already used this promo code";
+  }
+  return null;
+}
+
+/**
+ * Whether `promo` takes money off `product`: it's unrestricted, or restricted
+ * to the product or its category.
+ */
+export function promoAppliesTo(promo, product) {
+  if (promo.productIds.length === 0 && promo.categories.length === 0) return true;
+  return (
+    promo.productIds.includes(product.id) ||
+    (product.category != null && promo.categories.includes(product.category))
+  );
+}
+
+/**
+ * Check `code` for `userId` renting `product` (or an order of `products`, at
+ * least one of which it must apply to) over [startDate, endDate).
+ * Restrictions are only checked for what's given, so a code can be tried
+ * before the product or dates are known. `excludeRentalId` leaves that
+ * rental's own use out of the limits when it's re-priced.
+ *
+ * Returns { promo } or { error } with a message for the customer.
+ */
+export async function checkPromoCode(
+  tx,
+  code,
+  { userId, product, products, startDate, endDate, excludeRentalId, now = new Date() } = {}
+) {
+  const promo = await tx.promoCode.findUnique({ where: { code: normalizeCode(code) } });
+  if (!promo || !promo.isActive) return { error: "Promo code not found" };
+  if (promo.expiresAt && promo.expiresAt <= now) return { error: "Promo code has expired" };
+
+  if (promo.minRentalDays != null && startDate && endDate) {
+    if (endDate.getTime() - startDate.getTime() < promo.minRentalDays * DAY) {
+      return { error: `Promo code needs a rental of at least ${promo.minRentalDays} days` };
+    }
+  }
+
+  const ordered = products ?? (product ? [product] : []);
+  if (ordered.length > 0 && !ordered.some((item) => promoAppliesTo(promo, item))) {
+    return {
+      error: `Promo code doesn't apply to ${ordered.length > 1 ? "any of these products" : "this product"}`,
+    };
+  }
+
+  const error = await usageError(tx, promo, userId, excludeRentalId);
+  if (error) return { error };
+  return { promo };
+}
+
+/**
+ * Re-check a promo code's usage limits with its row locked, so two checkouts
+ * can't both take its last use. Must run inside the transaction that records
+ * the redemption.
+ *
+ * Returns an error message, or null when the code can still be used.
+ */
+export async function reservePromoCode(tx, promoCodeId, userId, excludeRentalId) {
+  await lockPromoCode(tx, promoCodeId);
+  const promo = await tx.promoCode.findUnique({ where: { id: promoCodeId } });
+  if (!promo || !promo.isActive) return "Promo code not found";
+  return usageError(tx, promo, userId, excludeRentalId);
+}
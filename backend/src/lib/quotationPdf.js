@@ -0,0 +1,102 @@
+// Quotation PDFs: one revision of a rental's quotation laid out as a document
+// the customer can keep, rendered on request from what's stored, so every
+// version can be downloaded again later exactly as it was sent.
+import PDFDocument from "pdfkit";
+
+const MARGIN = 50;
+// Left edge and width of each column of the lines table
+const COLUMNS = {
+  description: { x: MARGIN, width: 270 },
+  quantity: { x: 330, width: 40 },
+  unitPrice: { x: 380, width: 80 },
+  amount: { x: 470, width: 75 },
+};
+
+const STATUS_LABELS = {
+  SENT: "Awaiting your answer",
+  ACCEPTED: "Accepted",
+  REJECTED: "Rejected",
+  COUNTERED: "Counter-offer sent",
+  EXPIRED: "Expired",
+  SUPERSEDED: "Replaced by a later version",
+};
+
+const day = (date) => date.toISOString().slice(0, 10);
+const money = (amount) => `${amount < 0 ? "-" : ""}$${Math.abs(amount).toFixed(2)}`;
+
+function tableRow(doc, cells, { bold = false } = {}) {
+  const y = doc.y;
+  doc.font(bold ? "Helvetica-Bold" : "Helvetica");
+  const height = Math.max(
+    ...Object.entries(cells).map(([column, text]) =>
+      doc.heightOfString(text, { width: COLUMNS[column].width })
+    )
+  );
+  for (const [column, text] of Object.entries(cells)) {
+    const { x, width } = COLUMNS[column];
+    doc.text(text, x, y, { width, align: column === "description" ? "left" : "right" });
+  }
+  doc.x = MARGIN;
+  doc.y = y + height + 6;
+}
+
+function rule(doc) {
+  doc.moveTo(MARGIN, doc.y).lineTo(COLUMNS.amount.x + COLUMNS.amount.width, doc.y).stroke();
+  doc.moveDown(0.5);
+}
+
+/**
+ * Render `revision` (with its lines) of the quotation for `rental` (with its
+ * customer) as a PDF document, ready to be piped to a response.
+ */
+export function renderQuotationPdf(rental, revision) {
+  const doc = new PDFDocument({ size: "A4", margin: MARGIN });
+
+  doc.font("Helvetica-Bold").fontSize(20).text("Quotation");
+  doc.font("Helvetica").fontSize(10).moveDown(0.5);
+  doc.text(`Order ${rental.orderReference} · version ${revision.version}`);
+  doc.text(`Issued ${day(revision.createdAt)}`);
+  if (revision.validTill) doc.text(`Valid until ${day(revision.validTill)}`);
+  doc.text(`Status: ${STATUS_LABELS[revision.status]}`);
+  doc.moveDown();
+
+  doc.font("Helvetica-Bold").text("Customer");
+  doc.font("Helvetica").text(rental.customer.name).text(rental.customer.email);
+  doc.moveDown(0.5);
+  doc.font("Helvetica-Bold").text("Rental period");
+  doc.font("Helvetica").text(`${day(rental.startDate)} to ${day(rental.endDate)}`);
+  doc.moveDown();
+
+  tableRow(
+    doc,
+    { description: "Description", quantity: "Qty", unitPrice: "Unit price", amount: "Amount" },
+    { bold: true }
+  );
+  rule(doc);
+  for (const line of revision.lines) {
+    tableRow(doc, {
+      description: line.description,
+      quantity: String(line.quantity),
+      unitPrice: money(line.unitPrice),
+      amount: money(line.amount),
+    });
+  }
+  rule(doc);
+  tableRow(doc, { description: "Total", amount: money(revision.price) }, { bold: true });
+
+  if (revision.notes) {
+    doc.moveDown();
+    doc.font("Helvetica-Bold").text("Notes");
+    doc.font("Helvetica").text(revision.notes);
+  }
+  if (revision.counterPrice !== null || revision.responseNote) {
+    doc.moveDown();
+    doc.font("Helvetica-Bold").text("Customer response");
+    doc.font("Helvetica");
+    if (revision.counterPrice !== null) doc.text(`Counter-offer: ${money(revision.counterPrice)}`);
+    if (revision.responseNote) doc.text(revision.responseNote);
+  }
+
+  doc.end();
+  return doc;
+}
@@ -0,0 +1,144 @@
+// Quotations. A rental has one quotation, revised rather than overwritten:
+// every version sent to the customer is kept as a QuotationRevision with its
+// priced lines, and the Quotation itself mirrors the latest one. The customer
+// answers the latest revision by accepting, rejecting or countering it; a new
+// revision supersedes one still unanswered. Revisions past their validTill
+// expire and can no longer be accepted.
+//
+//   SENT → ACCEPTED | REJECTED | COUNTERED | EXPIRED | SUPERSEDED
+import pkg from "@prisma/client";
+import { roundMoney } from "./pricing.js";
+
+const { Prisma } = pkg;
+
+const pricedLine = (description, amount) => ({ description, quantity: 1, unitPrice: amount, amount });
+
+/**
+ * The lines of a quote from the pricing engine: its priced lines, then each
+ * discount as a negative line, then the tax. They add up to `quote.total`.
+ */
+export const linesFromQuote = (quote) => [
+  ...quote.lines.map((line) => pricedLine(line.description, line.amount)),
+  ...quote.discounts.map((line) => pricedLine(line.description, -line.amount)),
+  ...(quote.tax ? [pricedLine(`Tax (${quote.taxRate}%)`, quote.tax)] : []),
+];
+
+/**
+ * Lines set by hand ({ description, quantity, unitPrice }), each with its
+ * amount.
+ */
+export const linesFromInput = (lines) =>
+  lines.map((line) => ({ ...line, amount: roundMoney(line.quantity * line.unitPrice) }));
+
+export const sumLines = (lines) => roundMoney(lines.reduce((sum, line) => sum + line.amount, 0));
+
+const createLines = (lines) => ({
+  create: lines.map((line, position) => ({ position, ...line })),
+});
+
+/**
+ * Nested create for the first quotation of a rental booked with `quote`.
+ */
+export const firstQuotation = (quote) => ({
+  price: quote.total,
+  breakdown: quote,
+  revisions: {
+    create: { version: 1, price: quote.total, breakdown: quote, lines: createLines(linesFromQuote(quote)) },
+  },
+});
+
+/**
+ * Send rental `rentalId` a new revision of its quotation (the first one if it
+ * has none), superseding the revision still waiting for an answer. `breakdown`
+ * is the quote the lines came from, if any. Accepted quotations aren't to be
+ * revised; callers check first.
+ *
+ * Returns the quotation with its new `revision`.
+ */
+export async function reviseQuotation(
+  tx,
+  rentalId,
+  { lines, breakdown = null, validTill = null, notes = null, userId = null }
+) {
+  const current = await tx.quotation.findUnique({ where: { rentalId } });
+  const version = (current?.version ?? 0) + 1;
+  const terms = { price: sumLines(lines), breakdown: breakdown ?? Prisma.DbNull, validTill, notes };
+  if (current) {
+    await tx.quotationRevision.updateMany({
+      where: { quotationId: current.id, status: "SENT" },
+      data: { status: "SUPERSEDED" },
+    });
+  }
+
+  const quotation = await tx.quotation.upsert({
+    where: { rentalId },
+    update: { ...terms, version, status: "SENT", isAccepted: false },
+    create: { rentalId, ...terms, version },
+  });
+  const revision = await tx.quotationRevision.create({
+    data: {
+      quotationId: quotation.id,
+      version,
+      ...terms,
+      createdById: userId,
+      lines: createLines(lines),
+    },
+    include: { lines: { orderBy: { position: "asc" } } },
+  });
+  return { ...quotation, revision };
+}
+
+export const isExpired = (quotation, now = new Date()) =>
+  !!quotation.validTill && quotation.validTill < now;
+
+/**
+ * Record the customer's answer to the latest revision of `quotation` inside
+ * transaction `tx`: status ACCEPTED, REJECTED or COUNTERED (with
+ * `counterPrice`), or EXPIRED. Callers hold the rental's lock and have read
+ * `quotation` under it, so its version is still the latest.
+ *
+ * Returns the updated quotation.
+ */
+export async function answerQuotation(
+  tx,
+  quotation,
+  status,
+  { counterPrice = null, note = null, now = new Date() } = {}
+) {
+  const answered = status !== "EXPIRED";
+  await tx.quotationRevision.update({
+    where: { quotationId_version: { quotationId: quotation.id, version: quotation.version } },
+    data: {
+      status,
+      ...(answered && { counterPrice, responseNote: note, respondedAt: now }),
+    },
+  });
+  return tx.quotation.update({
+    where: { id: quotation.id },
+    data: { status, isAccepted: status === "ACCEPTED" },
+  });
+}
+
+/**
+ * Expire every quotation still waiting for an answer past its validTill, on
+ * rentals not yet confirmed.
+ *
+ * Returns the number expired.
+ */
+export async function expireQuotations(prisma, now = new Date()) {
+  const stale = await prisma.quotation.findMany({
+    where: { status: "SENT", validTill: { lt: now }, rental: { status: "QUOTATION" } },
+    select: { id: true },
+  });
+  const ids = stale.map((quotation) => quotation.id);
+  if (!ids.length) return 0;
+
+  await prisma.$transaction([
+    prisma.quotation.updateMany({ where: { id: { in: ids } }, data: { status: "EXPIRED" } }),
+    prisma.quotationRevision.updateMany({
+      where: { quotationId: { in: ids }, status: "SENT" },
+      data: { status: "EXPIRED" },
+    }),
+  ]);
+  return ids.length;
+}
@@ -0,0 +1,225 @@
+// Rental state machine. Every status change goes through transitionRental,
+// which refuses moves the graph (or the caller's role) doesn't allow and runs
+// the side effects of the new status in the same transaction:
+//
+//   QUOTATION → CONFIRMED → ACTIVE → COMPLETED
+//       └───────────┴─────────┴────→ CANCELLED
+//
+// - CONFIRMED and ACTIVE hold units for every line (availability is checked
+//   again) and the deposit; CONFIRMED also schedules the pickup for the start
+// - ACTIVE marks the units RENTED and opens the return for the end date
+// - COMPLETED frees the units, counts towards usage-based maintenance and
+//   finalises the bill: the FULL invoice if none was raised, the late fee and
+//   the deposit
+// - CANCELLED frees the units, refunds under the cancellation policy and
+//   releases the deposit
+import { RESERVING_STATUSES, checkAvailability } from "./booking.js";
+import { recordRentalUsage } from "./maintenance.js";
+import { holdDeposit, releaseDeposit, settleDeposit } from "./deposits.js";
+import { refundCancellation } from "./cancellations.js";
+import { chargeLateFee } from "./lateFees.js";
+import { resolveCoverage } from "./serviceAreas.js";
+
+export const RENTAL_TRANSITIONS = {
+  QUOTATION: ["CONFIRMED", "CANCELLED"],
+  CONFIRMED: ["ACTIVE", "CANCELLED"],
+  ACTIVE: ["COMPLETED", "CANCELLED"],
+  COMPLETED: [],
+  CANCELLED: [],
+};
+
+// The part of the graph each role may use on its own rentals; ADMIN may use
+// all of it and roles not listed none. Customers confirm by accepting the
+// quotation, which runs without a role.
+const ROLE_TRANSITIONS = {
+  CUSTOMER: { QUOTATION: ["CANCELLED"], CONFIRMED: ["CANCELLED"] },
+  END_USER: { QUOTATION: ["CANCELLED"], CONFIRMED: ["CANCELLED"] },
+};
+
+/**
+ * Whether a rental may move `from` → `to`. Without a `role` only the graph
+ * is checked (system actions such as accepting a quotation).
+ */
+export function canTransition(from, to, role) {
+  if (!RENTAL_TRANSITIONS[from]?.includes(to)) return false;
+  if (!role || role === "ADMIN") return true;
+  return ROLE_TRANSITIONS[role]?.[from]?.includes(to) ?? false;
+}
+
+export const allowedTransitions = (from, role) =>
+  (RENTAL_TRANSITIONS[from] ?? []).filter((to) => canTransition(from, to, role));
+
+// Row lock held until the surrounding transaction ends, so two changes to the
+// same rental run one after the other
+export const lockRental = (tx, rentalId) =>
+  tx.$queryRaw`SELECT "id" FROM "public"."Rental" WHERE "id" = ${rentalId} FOR UPDATE`;
+
+// Pickup at the start date, to the rental's address or (pinned now, so later
+// changes to the default don't move it) the customer's default. Left to an
+// admin when there's no address or it's outside every service area.
+async function schedulePickup(tx, rental) {
+  const existing = await tx.pickup.findUnique({ where: { rentalId: rental.id } });
+  if (existing) return existing;
+
+  const address = rental.addressId
+    ? await tx.address.findUnique({ where: { id: rental.addressId } })
+    : await tx.address.findFirst({ where: { userId: rental.customerId, isDefault: true } });
+  if (!address) return null;
+  const coverage = await resolveCoverage(tx, address);
+  if (!coverage.serviceable) return null;
+
+  if (!rental.addressId) {
+    await tx.rental.update({ where: { id: rental.id }, data: { addressId: address.id } });
+  }
+  return tx.pickup.create({
+    data: {
+      rentalId: rental.id,
+      scheduled: rental.startDate,
+      completed: false,
+      surcharge: coverage.surcharge || null,
+    },
+  });
+}
+
+// Return at the end date, unless one is already scheduled
+const openReturn = (tx, rental) =>
+  tx.rentalReturn.upsert({
+    where: { rentalId: rental.id },
+    update: {},
+    create: { rentalId: rental.id, scheduled: rental.endDate, completed: false },
+  });
+
+// Bill what's still unbilled on a completed rental: a FULL invoice for the
+// accepted quotation (with its promo discount) when nothing was invoiced for
+// the rental itself, the late fee if it's still out past its end, and settle
+// the deposit. Each step is a no-op when already done.
+async function finaliseRental(tx, rental, userId) {
+  const billed = await tx.invoice.count({
+    where: { rentalId: rental.id, type: { in: ["FULL", "PARTIAL"] } },
+  });
+  if (!billed) {
+    const quotation = await tx.quotation.findUnique({ where: { rentalId: rental.id } });
+    const redemption = await tx.promoRedemption.findUnique({
+      where: { rentalId: rental.id },
+      include: { promoCode: true },
+    });
+    if (quotation) {
+      await tx.invoice.create({
+        data: {
+          rentalId: rental.id,
+          amount: quotation.price,
+          type: "FULL",
+          ...(redemption && {
+            discount: redemption.amount,
+            promoCode: redemption.promoCode.code,
+          }),
+        },
+      });
+    }
+  }
+
+  const rentalReturn = await tx.rentalReturn.findUnique({ where: { rentalId: rental.id } });
+  const now = new Date();
+  if (!rentalReturn?.completed && now > rental.endDate) await chargeLateFee(tx, rental, now);
+  await settleDeposit(tx, rental.id, userId);
+}
+
+/**
+ * Move `rental` to `status` as `userId` acting with `role` (none for system
+ * actions), and run the new status's side effects. Cancelling refunds under
+ * the product's cancellation policy, or `refundPercent` when given.
+ *
+ * Returns { rental, refund }, { alternatives, productId } for the first line
+ * with no units free, or { error, status } when the move isn't allowed.
+ */
+export function transitionRental(prisma, rental, status, options) {
+  return prisma.$transaction((tx) => moveRental(tx, rental, status, options));
+}
+
+/**
+ * transitionRental inside the caller's transaction `tx`, for changes that
+ * must commit together with the move.
+ */
+export async function moveRental(tx, rental, status, { userId, role, refundPercent } = {}) {
+  await lockRental(tx, rental.id);
+  const current = await tx.rental.findUnique({ where: { id: rental.id } });
+  if (!RENTAL_TRANSITIONS[current.status].includes(status)) {
+    return {
+      status: 409,
+      error: `A ${current.status.toLowerCase()} rental can't be moved to ${status.toLowerCase()}`,
+    };
+  }
+  if (!canTransition(current.status, status, role)) {
+    return {
+      status: 403,
+      error: `Not allowed to move a ${current.status.toLowerCase()} rental to ${status.toLowerCase()}`,
+    };
+  }
+
+  const items = await tx.rentalItem.findMany({
+    where: { rentalId: current.id },
+    include: { product: true },
+  });
+  const reserving = RESERVING_STATUSES.includes(status) && !RESERVING_STATUSES.includes(current.status);
+  if (reserving) {
+    // Products are locked in id order, as when booking
+    for (const item of [...items].sort((a, b) => a.productId.localeCompare(b.productId))) {
+      const availability = await checkAvailability(tx, item.product, item.startDate, item.endDate, {
+        excludeRentalId: current.id,
+        preferUnitIds: item.unitIds,
+        quantity: item.quantity,
+      });
+      if (!availability.available) {
+        return { alternatives: availability.alternatives, productId: item.productId };
+      }
+      item.unitIds = availability.unitIds;
+      await tx.rentalItem.update({ where: { id: item.id }, data: { unitIds: item.unitIds } });
+    }
+  }
+
+  const unitIds = items.flatMap((item) => item.unitIds);
+  if (unitIds.length > 0 && status === "ACTIVE") {
+    await tx.productUnit.updateMany({ where: { id: { in: unitIds } }, data: { status: "RENTED" } });
+  } else if (unitIds.length > 0 && current.status === "ACTIVE") {
+    // Leave units an admin has since moved to MAINTENANCE or RETIRED alone
+    await tx.productUnit.updateMany({
+      where: { id: { in: unitIds }, status: "RENTED" },
+      data: { status: "AVAILABLE" },
+    });
+  }
+
+  if (status === "CONFIRMED") await schedulePickup(tx, current);
+  const refund = status === "CANCELLED" ? await refundCancellation(tx, current, { refundPercent }) : null;
+
+  const updated = await tx.rental.update({
+    where: { id: current.id },
+    data: {
+      status,
+      unitId: items.find((item) => item.productId === current.productId)?.unitIds[0] ?? null,
+      rentalHistories: {
+        create: {
+          oldStatus: current.status,
+          newStatus: status,
+          changedById: userId,
+          ...(refund?.paid > 0 && {
+            note: `Refunded ${refund.refund.toFixed(2)} of ${refund.paid.toFixed(2)} paid (${refund.refundPercent}%)`,
+          }),
+        },
+      },
+    },
+  });
+
+  if (reserving) await holdDeposit(tx, updated, items, userId);
+  if (status === "ACTIVE") await openReturn(tx, updated);
+  if (status === "COMPLETED") {
+    await recordRentalUsage(tx, updated);
+    await finaliseRental(tx, updated, userId);
+  }
+  if (status === "CANCELLED") {
+    const deposit = await tx.deposit.findUnique({ where: { rentalId: current.id } });
+    if (deposit) {
+      await releaseDeposit(tx, deposit, { reason: "Rental cancelled", userId });
+    }
+  }
+  return { rental: updated, refund };
+}
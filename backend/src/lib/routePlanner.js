@@ -0,0 +1,143 @@
+// Offline route planning for a staff member's daily run. Everything here is
+// pure: distances are great-circle estimates and travel time assumes a flat
+// average speed, so no maps service is involved.
+
+const EARTH_RADIUS_KM = 6371;
+
+const toRadians = (degrees) => (degrees * Math.PI) / 180;
+
+/**
+ * Great-circle distance between two { lat, lng } points in kilometres.
+ */
+export function haversineKm(a, b) {
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(h));
+}
+
+const MINUTE = 60 * 1000;
+
+/**
+ * Drive an ordered list of stops from the depot and back. Arriving before a
+ * stop's window means waiting for it to open; arriving after it closes counts
+ * as lateness.
+ */
+function simulate(order, { depot, start, speedKmh, serviceMinutes }) {
+  let position = depot;
+  let clock = start.getTime();
+  let distanceKm = 0;
+  let lateMinutes = 0;
+
+  const legs = order.map((stop) => {
+    const legKm = haversineKm(position, stop);
+    const arrival = Math.max(clock + (legKm / speedKmh) * 60 * MINUTE, stop.windowStart.getTime());
+    const late = Math.max(0, (arrival - stop.windowEnd.getTime()) / MINUTE);
+
+    distanceKm += legKm;
+    lateMinutes += late;
+    clock = arrival + serviceMinutes * MINUTE;
+    position = stop;
+
+    return { stop, legKm, arrival: new Date(arrival), lateMinutes: late };
+  });
+
+  const returnKm = order.length > 0 ? haversineKm(position, depot) : 0;
+  return {
+    legs,
+    distanceKm: distanceKm + returnKm,
+    returnKm,
+    lateMinutes,
+    finish: new Date(clock + (returnKm / speedKmh) * 60 * MINUTE),
+  };
+}
+
+// Lateness dominates; distance only breaks ties between equally punctual runs.
+const EPSILON = 1e-9;
+const isBetter = (a, b) =>
+  a.lateMinutes < b.lateMinutes - EPSILON ||
+  (Math.abs(a.lateMinutes - b.lateMinutes) <= EPSILON && a.distanceKm < b.distanceKm - EPSILON);
+
+/**
+ * Build a first route by repeatedly going to the stop that can be served
+ * soonest from where we are (travel plus any wait for its window), so a
+ * nearby stop that only opens later doesn't jump the queue.
+ */
+function nearestNeighbour(stops, options) {
+  const remaining = [...stops];
+  const order = [];
+  let position = options.depot;
+  let clock = options.start.getTime();
+
+  while (remaining.length > 0) {
+    let bestIndex = 0;
+    let bestStart = Infinity;
+    let bestKm = Infinity;
+
+    remaining.forEach((stop, index) => {
+      const km = haversineKm(position, stop);
+      const serviceStart = Math.max(
+        clock + (km / options.speedKmh) * 60 * MINUTE,
+        stop.windowStart.getTime()
+      );
+      if (serviceStart < bestStart || (serviceStart === bestStart && km < bestKm)) {
+        bestIndex = index;
+        bestStart = serviceStart;
+        bestKm = km;
+      }
+    });
+
+    const [next] = remaining.splice(bestIndex, 1);
+    order.push(next);
+    position = next;
+    clock = bestStart + options.serviceMinutes * MINUTE;
+  }
+
+  return order;
+}
+
+/**
+ * Improve a route by reversing segments while that reduces lateness or
+ * distance, until no reversal helps.
+ */
+function twoOpt(order, options) {
+  let best = order;
+  let bestRun = simulate(best, options);
+  let improved = true;
+
+  while (improved) {
+    improved = false;
+    for (let i = 0; i < best.length - 1; i++) {
+      for (let j = i + 1; j < best.length; j++) {
+        const candidate = [
+          ...best.slice(0, i),
+          ...best.slice(i, j + 1).reverse(),
+          ...best.slice(j + 1),
+        ];
+        const run = simulate(candidate, options);
+        if (isBetter(run, bestRun)) {
+          best = candidate;
+          bestRun = run;
+          improved = true;
+        }
+      }
+    }
+  }
+
+  return bestRun;
+}
+
+/**
+ * Order stops for one run starting and ending at the depot.
+ *
+ * stops:   [{ lat, lng, windowStart: Date, windowEnd: Date, ... }]
+ * options: { depot: { lat, lng }, start: Date, speedKmh, serviceMinutes }
+ *
+ * Returns { legs: [{ stop, legKm, arrival, lateMinutes }], distanceKm,
+ * returnKm, lateMinutes, finish }.
+ */
+export function planRoute(stops, options) {
+  return twoOpt(nearestNeighbour(stops, options), options);
+}
@@ -0,0 +1,120 @@
+// Wishlists and carts: products a customer saved, each optionally for the
+// dates they want it. Saved items are checked again whenever they're read,
+// against the product's current price and the units free for their dates, so
+// they never promise what a booking would refuse. Availability is read
+// without locking; booking checks it again.
+import { fitCapacity, loadCapacity } from "./booking.js";
+import { quoteRental } from "./pricing.js";
+
+/**
+ * Whether `quantity` units of `product` are free for [startDate, endDate)
+ * right now.
+ */
+export async function isFree(prisma, product, startDate, endDate, quantity = 1) {
+  const capacity = await loadCapacity(prisma, product, startDate, endDate);
+  return fitCapacity(capacity, startDate, endDate, { quantity }).available;
+}
+
+/**
+ * `item` (a wishlist or cart entry with its product) as it stands now, with:
+ * - `rentable`: whether the product can still be booked
+ * - `priceChanged`: whether its base price moved since `savedPrice`
+ * - `datesPassed`: whether the saved dates have started; they're then ignored
+ * - `available`: whether the item's quantity is free for its dates
+ * - `quote`: the price for its dates with `customerGroups`' pricelists
+ * `available` and `quote` are null for items without upcoming dates.
+ */
+export async function revalidateSavedItem(prisma, item, customerGroups = [], now = new Date()) {
+  const { product } = item;
+  const quantity = item.quantity ?? 1;
+  const datesPassed = !!item.startDate && item.startDate < now;
+  const dated = !!item.startDate && !!item.endDate && !datesPassed;
+
+  const available = dated
+    ? product.isRentable && (await isFree(prisma, product, item.startDate, item.endDate, quantity))
+    : null;
+  const quote = dated
+    ? await quoteRental(prisma, {
+        product,
+        startDate: item.startDate,
+        endDate: item.endDate,
+        quantity,
+        customerGroups,
+      })
+    : null;
+
+  return {
+    ...item,
+    rentable: product.isRentable,
+    priceChanged: product.basePrice !== item.savedPrice,
+    datesPassed,
+    available,
+    quote,
+  };
+}
+
+// Free right now for a wishlisted item's dates, and still rentable
+const isItemFree = async (prisma, item) =>
+  item.product.isRentable && (await isFree(prisma, item.product, item.startDate, item.endDate));
+
+/**
+ * Record whether wishlisted `item` (with its product) is free for its dates
+ * as it's saved, so its notification only fires once they come free later.
+ * Items not watching their dates record nothing.
+ *
+ * Returns the updated item with its product.
+ */
+export async function recordWishlistAvailability(prisma, item) {
+  const watching = item.notifyWhenAvailable && !!item.startDate && !!item.endDate;
+  return prisma.wishlistItem.update({
+    where: { id: item.id },
+    data: { wasAvailable: watching ? await isItemFree(prisma, item) : null },
+    include: { product: true },
+  });
+}
+
+/**
+ * Notify customers whose wishlisted dates have come free. Each item asking
+ * for it is notified once, the first time its dates are found free after
+ * being taken when saved or on an earlier run; items whose dates have
+ * started are skipped.
+ *
+ * Returns the number of notifications sent.
+ */
+export async function notifyAvailableWishlistItems(prisma, now = new Date()) {
+  const items = await prisma.wishlistItem.findMany({
+    where: { notifyWhenAvailable: true, notifiedAt: null, startDate: { gt: now }, endDate: { not: null } },
+    include: { product: true },
+  });
+
+  let sent = 0;
+  for (const item of items) {
+    const free = await isItemFree(prisma, item);
+    if (!free || item.wasAvailable !== false) {
+      if (item.wasAvailable !== free) {
+        await prisma.wishlistItem.update({ where: { id: item.id }, data: { wasAvailable: free } });
+      }
+      continue;
+    }
+
+    const from = item.startDate.toISOString().slice(0, 10);
+    const to = item.endDate.toISOString().slice(0, 10);
+    await prisma.$transaction([
+      prisma.notification.create({
+        data: {
+          type: "WISHLIST_AVAILABLE",
+          message: `${item.product.name} is now available from ${from} to ${to}.`,
+          userId: item.userId,
+          sendDate: now,
+          isRead: false,
+        },
+      }),
+      prisma.wishlistItem.update({
+        where: { id: item.id },
+        data: { notifiedAt: now, wasAvailable: true },
+      }),
+    ]);
+    sent++;
+  }
+  return sent;
+}
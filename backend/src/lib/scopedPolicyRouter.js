@@ -0,0 +1,135 @@
+// Admin CRUD for policies scoped to one product or one category, each with a
+// list of bands (late-fee tiers, cancellation windows). A product's own
+// policy wins over its category's, and `findPolicy` falls back to a default
+// when neither exists.
+import express from "express";
+import { authMiddleware } from "../middlewares/authMiddleware.js";
+import { isAdmin } from "../middlewares/isAdmin.js";
+
+/**
+ * Router for the policies in `prisma[model]`:
+ * - `label`: the policy's name in messages, e.g. "Late-fee policy"
+ * - `bands`: the relation holding its bands; sent bands replace all of them
+ * - `include`: how its bands are loaded
+ * - `schema`, `updateSchema`: zod schemas for create and update
+ * - `findPolicy(tx, product)`: the policy that applies to `product`
+ */
+export function createScopedPolicyRouter(
+  prisma,
+  { model, label, bands, include, schema, updateSchema, findPolicy }
+) {
+  const router = express.Router();
+  const delegate = prisma[model];
+  const notFound = `${label} not found`;
+  const listInclude = {
+    ...include,
+    product: { select: { id: true, name: true, category: true } },
+  };
+
+  /**
+   * List policies, product policies first (Admin only)
+   */
+  router.get("/", authMiddleware, isAdmin, async (req, res) => {
+    try {
+      const policies = await delegate.findMany({
+        include: listInclude,
+        orderBy: [{ productId: { sort: "asc", nulls: "last" } }, { category: "asc" }],
+      });
+      res.json(policies);
+    } catch (error) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  /**
+   * The policy that applies to a product: its own, else its category's, else
+   * the default (no `id`)
+   */
+  router.get("/product/:productId", async (req, res) => {
+    try {
+      const product = await prisma.product.findUnique({ where: { id: req.params.productId } });
+      if (!product) return res.status(404).json({ error: "Product not found" });
+
+      res.json(await findPolicy(prisma, product));
+    } catch (error) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  /**
+   * Create a policy for a product or a category (Admin only)
+   */
+  router.post("/", authMiddleware, isAdmin, async (req, res) => {
+    try {
+      const parsed = schema.safeParse(req.body);
+      if (!parsed.success) return res.status(400).json({ error: parsed.error.issues });
+
+      const { [bands]: created, ...policy } = parsed.data;
+      if (policy.productId) {
+        const product = await prisma.product.findUnique({ where: { id: policy.productId } });
+        if (!product) return res.status(404).json({ error: "Product not found" });
+      }
+
+      const existing = await delegate.findFirst({
+        where: policy.productId ? { productId: policy.productId } : { category: policy.category },
+      });
+      if (existing) {
+        return res
+          .status(409)
+          .json({ error: `A ${label.toLowerCase()} already exists for this product or category` });
+      }
+
+      const result = await delegate.create({
+        data: { ...policy, [bands]: { create: created } },
+        include: listInclude,
+      });
+      res.status(201).json(result);
+    } catch (error) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  /**
+   * Update a policy (Admin only); its bands, when sent, replace all of them
+   */
+  router.put("/:id", authMiddleware, isAdmin, async (req, res) => {
+    try {
+      const parsed = updateSchema.safeParse(req.body);
+      if (!parsed.success) return res.status(400).json({ error: parsed.error.issues });
+
+      const policy = await delegate.findUnique({ where: { id: req.params.id } });
+      if (!policy) return res.status(404).json({ error: notFound });
+
+      const { [bands]: replaced, ...fields } = parsed.data;
+      const updated = await delegate.update({
+        where: { id: policy.id },
+        data: {
+          ...fields,
+          ...(replaced && { [bands]: { deleteMany: {}, create: replaced } }),
+        },
+        include: listInclude,
+      });
+      res.json(updated);
+    } catch (error) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  /**
+   * Delete a policy (Admin only); its product or category falls back to the
+   * next policy in line
+   */
+  router.delete("/:id", authMiddleware, isAdmin, async (req, res) => {
+    try {
+      const policy = await delegate.findUnique({ where: { id: req.params.id } });
+      if (!policy) return res.status(404).json({ error: notFound });
+
+      await delegate.delete({ where: { id: policy.id } });
+      res.json({ message: `${label} deleted` });
+    } catch (error) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,64 @@
+// Service areas decide where pickups can be scheduled. An address is served
+// by an active area when its postcode is listed or its coordinates fall inside
+// the area's polygon; the area's surcharge then applies.
+
+// Addresses outside every area are rejected unless this is set, in which case
+// they are served with this surcharge instead.
+const OUT_OF_AREA_SURCHARGE =
+  process.env.OUT_OF_AREA_SURCHARGE === undefined || process.env.OUT_OF_AREA_SURCHARGE === ""
+    ? null
+    : Number(process.env.OUT_OF_AREA_SURCHARGE);
+
+export const normalizePostalCode = (postalCode) =>
+  String(postalCode).replace(/\s+/g, "").toUpperCase();
+
+/**
+ * Ray-casting test for a { lat, lng } point inside a polygon of { lat, lng }
+ * vertices. Good enough at city scale, where the earth's curvature doesn't
+ * matter.
+ */
+export function pointInPolygon(point, polygon) {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    const crosses =
+      a.lat > point.lat !== b.lat > point.lat &&
+      point.lng < ((b.lng - a.lng) * (point.lat - a.lat)) / (b.lat - a.lat) + a.lng;
+    if (crosses) inside = !inside;
+  }
+  return inside;
+}
+
+const areaCovers = (area, address) => {
+  const postalCode = normalizePostalCode(address.postalCode);
+  if (area.postalCodes.some((code) => normalizePostalCode(code) === postalCode)) {
+    return true;
+  }
+  return (
+    Array.isArray(area.polygon) &&
+    address.latitude != null &&
+    address.longitude != null &&
+    pointInPolygon({ lat: address.latitude, lng: address.longitude }, area.polygon)
+  );
+};
+
+/**
+ * Resolve how an address is served: { serviceable, area, surcharge }.
+ * With no active areas configured everything is served at no surcharge;
+ * when several areas match, the cheapest one wins.
+ */
+export async function resolveCoverage(prisma, address) {
+  const areas = await prisma.serviceArea.findMany({ where: { isActive: true } });
+  if (areas.length === 0) return { serviceable: true, area: null, surcharge: 0 };
+
+  const [area] = areas
+    .filter((candidate) => areaCovers(candidate, address))
+    .sort((a, b) => a.surcharge - b.surcharge);
+  if (area) return { serviceable: true, area, surcharge: area.surcharge };
+
+  if (OUT_OF_AREA_SURCHARGE !== null) {
+    return { serviceable: true, area: null, surcharge: OUT_OF_AREA_SURCHARGE };
+  }
+  return { serviceable: false, area: null, surcharge: null };
+}
@@ -0,0 +1,220 @@
+// Rental timeline: everything recorded against a rental, from the status
+// history to payments and condition reports, merged into one chronological
+// feed. Pickups, returns and notifications that haven't happened yet are
+// included at their scheduled time and flagged `upcoming`.
+
+const userSelect = { select: { id: true, name: true } };
+
+const STATUS_TITLES = {
+  QUOTATION: "Rental requested",
+  CONFIRMED: "Rental confirmed",
+  ACTIVE: "Rental started",
+  COMPLETED: "Rental completed",
+  CANCELLED: "Rental cancelled",
+};
+
+const INVOICE_LABELS = {
+  FULL: "Rental",
+  PARTIAL: "Partial",
+  LATE_FEE: "Late fee",
+  DAMAGE: "Damage",
+  EXTENSION: "Extension",
+};
+
+const DEPOSIT_TITLES = {
+  HOLD: "Deposit held",
+  CAPTURE: "Deposit captured",
+  RELEASE: "Deposit released",
+};
+
+const event = (type, id, at, title, fields = {}) => ({
+  id: `${type}:${id}`,
+  type,
+  at,
+  title,
+  description: null,
+  amount: null,
+  status: null,
+  actor: null,
+  ...fields,
+});
+
+const statusEvents = (rental) =>
+  rental.rentalHistories.map((entry) => {
+    const title = entry.oldStatus === entry.newStatus ? "Rental updated" : STATUS_TITLES[entry.newStatus];
+    return event("STATUS", entry.id, entry.changedAt, title, {
+      description: entry.note,
+      status: entry.newStatus,
+      actor: entry.changedBy,
+    });
+  });
+
+const QUOTATION_ANSWER_TITLES = {
+  ACCEPTED: "Quotation accepted",
+  REJECTED: "Quotation rejected",
+  COUNTERED: "Counter-offer made",
+};
+
+// Each revision sent, then the customer's answer to it or its expiry
+function quotationEvents({ quotation }) {
+  if (!quotation) return [];
+  return quotation.revisions.flatMap((revision) => {
+    const id = `${quotation.id}:${revision.version}`;
+    const validTill = revision.validTill && `Valid until ${revision.validTill.toISOString().slice(0, 10)}`;
+    const events = [
+      event(
+        "QUOTATION",
+        id,
+        revision.createdAt,
+        revision.version === 1 ? "Quotation issued" : `Quotation revised (version ${revision.version})`,
+        {
+          description: validTill || null,
+          amount: revision.price,
+          status: revision.status,
+          actor: revision.createdBy,
+        }
+      ),
+    ];
+    if (revision.respondedAt) {
+      events.push(
+        event("QUOTATION", `${id}:answer`, revision.respondedAt, QUOTATION_ANSWER_TITLES[revision.status], {
+          description: revision.responseNote,
+          amount: revision.counterPrice,
+          status: revision.status,
+        })
+      );
+    } else if (revision.status === "EXPIRED" && revision.validTill) {
+      events.push(event("QUOTATION", `${id}:expired`, revision.validTill, "Quotation expired"));
+    }
+    return events;
+  });
+}
+
+// A field job: done at its actual time, else due at its scheduled one
+function jobEvent(type, job, actualAt, label) {
+  if (!job) return [];
+  const done = job.completed && actualAt;
+  return [
+    event(type, job.id, done ? actualAt : job.scheduled, `${label} ${done ? "completed" : "scheduled"}`, {
+      description: job.notes,
+      actor: job.staff,
+    }),
+  ];
+}
+
+function returnEvents(rental) {
+  const [returned] = jobEvent("RETURN", rental.returnRecord, rental.returnRecord?.actualReturn, "Return");
+  if (returned && rental.returnRecord.daysLate > 0) {
+    returned.description = [`${rental.returnRecord.daysLate} day(s) late`, returned.description]
+      .filter(Boolean)
+      .join(" · ");
+    returned.amount = rental.returnRecord.lateFee;
+  }
+  return returned ? [returned] : [];
+}
+
+const invoiceEvents = (rental) =>
+  rental.invoices.flatMap((invoice) => [
+    event("INVOICE", invoice.id, invoice.createdAt, `${INVOICE_LABELS[invoice.type]} invoice raised`, {
+      amount: invoice.amount,
+      status: invoice.status,
+    }),
+    ...invoice.payments.map((payment) => {
+      const title = payment.status === "REFUNDED" ? "Refund issued" : "Payment received";
+      return event("PAYMENT", payment.id, payment.createdAt, title, {
+        description: payment.method,
+        amount: payment.amount,
+        status: payment.status,
+      });
+    }),
+  ]);
+
+const notificationEvents = (notifications) =>
+  notifications.map((notification) =>
+    event("NOTIFICATION", notification.id, notification.sendDate, "Reminder", {
+      description: notification.message,
+    })
+  );
+
+const extensionEvents = (rental) =>
+  rental.extensions.flatMap((extension) => {
+    const until = extension.requestedEndDate.toISOString().slice(0, 10);
+    return [
+      event("EXTENSION", extension.id, extension.createdAt, "Extension requested", {
+        description: `Until ${until}${extension.note ? ` · ${extension.note}` : ""}`,
+        amount: extension.price,
+        actor: extension.requestedBy,
+      }),
+      ...(extension.decidedAt
+        ? [
+            event(
+              "EXTENSION",
+              `${extension.id}:decision`,
+              extension.decidedAt,
+              `Extension ${extension.status.toLowerCase()}`,
+              { description: extension.decisionNote, status: extension.status, actor: extension.decidedBy }
+            ),
+          ]
+        : []),
+    ];
+  });
+
+const depositEvents = ({ deposit }) =>
+  (deposit?.entries ?? []).map((entry) =>
+    event("DEPOSIT", entry.id, entry.createdAt, DEPOSIT_TITLES[entry.type], {
+      description: entry.reason,
+      amount: entry.amount,
+      actor: entry.createdBy,
+    })
+  );
+
+const conditionEvents = (logs) =>
+  logs.map((log) =>
+    event("CONDITION", log.id, log.recordedAt, `Condition recorded: ${log.newCondition.toLowerCase()}`, {
+      description: [log.unit?.serialNumber, log.notes].filter(Boolean).join(" · ") || null,
+      actor: log.recordedBy,
+    })
+  );
+
+/**
+ * The timeline of rental `rentalId`, oldest first. Notifications are limited
+ * to those sent to `viewerId` unless `allNotifications` is set (admins).
+ *
+ * Returns the events, or null when there's no such rental.
+ */
+export async function buildRentalTimeline(prisma, rentalId, { viewerId, allNotifications = false } = {}) {
+  const rental = await prisma.rental.findUnique({
+    where: { id: rentalId },
+    include: {
+      rentalHistories: { include: { changedBy: userSelect } },
+      quotation: { include: { revisions: { include: { createdBy: userSelect } } } },
+      pickup: { include: { staff: userSelect } },
+      returnRecord: { include: { staff: userSelect } },
+      invoices: { include: { payments: true } },
+      notifications: allNotifications ? true : { where: { userId: viewerId } },
+      extensions: { include: { requestedBy: userSelect, decidedBy: userSelect } },
+      deposit: { include: { entries: { include: { createdBy: userSelect } } } },
+    },
+  });
+  if (!rental) return null;
+
+  const conditionLogs = await prisma.unitConditionLog.findMany({
+    where: { rentalId },
+    include: { recordedBy: userSelect, unit: { select: { serialNumber: true } } },
+  });
+
+  const now = new Date();
+  return [
+    ...statusEvents(rental),
+    ...quotationEvents(rental),
+    ...jobEvent("PICKUP", rental.pickup, rental.pickup?.actualPickup, "Pickup"),
+    ...returnEvents(rental),
+    ...invoiceEvents(rental),
+    ...notificationEvents(rental.notifications),
+    ...extensionEvents(rental),
+    ...depositEvents(rental),
+    ...conditionEvents(conditionLogs),
+  ]
+    .map((item) => ({ ...item, upcoming: item.at > now }))
+    .sort((a, b) => a.at - b.at);
+}
@@ -0,0 +1,100 @@
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
+import dotenv from "dotenv";
+
+dotenv.config();
+
+const JWT_SECRET = process.env.JWT_SECRET || "secret";
+const ACCESS_TOKEN_TTL = process.env.ACCESS_TOKEN_TTL || "15m";
+const REFRESH_TOKEN_TTL_DAYS = Number(process.env.REFRESH_TOKEN_TTL_DAYS) || 30;
+
+const hashToken = (token) => crypto.createHash("sha256").update(token).digest("hex");
+
+const refreshExpiry = () => new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+const revokeFamily = (prisma, family) =>
+  prisma.refreshToken.updateMany({
+    where: { family, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+
+export const signAccessToken = (user) =>
+  jwt.sign({ id: user.id, role: user.role }, JWT_SECRET, { expiresIn: ACCESS_TOKEN_TTL });
+
+export const verifyAccessToken = (token) => jwt.verify(token, JWT_SECRET);
+
+// Only the hash is stored, so a leaked table cannot be replayed.
+async function createRefreshToken(db, userId, family) {
+  const refreshToken = crypto.randomBytes(48).toString("base64url");
+  const record = await db.refreshToken.create({
+    data: {
+      tokenHash: hashToken(refreshToken),
+      family,
+      userId,
+      expiresAt: refreshExpiry(),
+    },
+  });
+  return { refreshToken, record };
+}
+
+/**
+ * Start a new session for `user`: a short-lived access token plus the first
+ * refresh token of a new rotation family.
+ */
+export async function issueSession(prisma, user) {
+  const { refreshToken } = await createRefreshToken(prisma, user.id, crypto.randomUUID());
+  return { token: signAccessToken(user), refreshToken };
+}
+
+/**
+ * Swap a refresh token for a new access/refresh pair. Each refresh token is
+ * single-use: presenting one that was already rotated means it leaked, so
+ * the whole family is revoked and the user has to sign in again.
+ *
+ * Returns { token, refreshToken, user } or null when the token is unusable.
+ */
+export async function rotateSession(prisma, refreshToken) {
+  const existing = await prisma.refreshToken.findUnique({
+    where: { tokenHash: hashToken(refreshToken) },
+    include: { user: true },
+  });
+  if (!existing) return null;
+
+  if (existing.revokedAt) {
+    await revokeFamily(prisma, existing.family);
+    return null;
+  }
+  if (existing.expiresAt <= new Date()) return null;
+
+  return prisma.$transaction(async (tx) => {
+    // Guard against two concurrent refreshes both rotating the same token.
+    const { count } = await tx.refreshToken.updateMany({
+      where: { id: existing.id, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+    if (count === 0) return null;
+
+    const next = await createRefreshToken(tx, existing.userId, existing.family);
+    await tx.refreshToken.update({
+      where: { id: existing.id },
+      data: { replacedById: next.record.id },
+    });
+
+    return {
+      token: signAccessToken(existing.user),
+      refreshToken: next.refreshToken,
+      user: existing.user,
+    };
+  });
+}
+
+/**
+ * End the session a refresh token belongs to. Unknown tokens are ignored so
+ * logout always succeeds from the client's point of view.
+ */
+export async function revokeSession(prisma, refreshToken) {
+  const existing = await prisma.refreshToken.findUnique({
+    where: { tokenHash: hashToken(refreshToken) },
+  });
+  if (existing) await revokeFamily(prisma, existing.family);
+}
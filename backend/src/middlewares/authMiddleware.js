@@ -1,6 +1,7 @@
- import jwt from "jsonwebtoken";
+import jwt from "jsonwebtoken";
 import dotenv from "dotenv";
 import { PrismaClient } from "@prisma/client";
+import { verifyAccessToken } from "../lib/tokens.js";
 
 dotenv.config();
 const prisma = new PrismaClient();
@@ -14,7 +15,7 @@ export const authMiddleware = async (req, res, next) => {
   const token = authHeader.split(" ")[1]; // Extract token from "Bearer <token>"
 
   try {
-    const decoded = jwt.verify(token, process.env.JWT_SECRET || "Secret");
+    const decoded = verifyAccessToken(token);
     req.userId = decoded.id;
 
     const user = await prisma.user.findUnique({
@@ -30,7 +31,11 @@ export const authMiddleware = async (req, res, next) => {
     req.user = user;
     next();
   } catch (e) {
+    // 401 tells the client to refresh its access token and retry.
+    if (e instanceof jwt.TokenExpiredError) {
+      return res.status(401).json({ message: "Token expired" });
+    }
     console.error("JWT verification error:", e);
-    res.status(403).json({ message: "Invalid token" });
+    res.status(401).json({ message: "Invalid token" });
   }
 };
@@ -0,0 +1,6 @@
+export const isStaff = (req, res, next) => {
+  if (req.user.role !== "STAFF") {
+    return res.status(403).json({ message: "Access denied. Staff only." });
+  }
+  next();
+};
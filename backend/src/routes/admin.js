@@ -1,6 +1,8 @@
 import { Router } from "express";
 import prisma from "../prismaClient.js";
 import { z } from "zod";
+import { authMiddleware } from "../middlewares/authMiddleware.js";
+import { isAdmin } from "../middlewares/isAdmin.js";
 
 const router = Router();
 
@@ -31,6 +33,23 @@ router.get("/dashboard", async (req, res) => {
   }
 });
 
+// --------------------
+// GET /admin/staff
+// STAFF users available for dispatch
+// --------------------
+router.get("/staff", authMiddleware, isAdmin, async (req, res) => {
+  try {
+    const staff = await prisma.user.findMany({
+      where: { role: "STAFF" },
+      select: { id: true, name: true, email: true, phone: true, role: true },
+      orderBy: { name: "asc" },
+    });
+    res.json(staff);
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
 // --------------------
 // POST /admin/impersonate/:userId
 // --------------------
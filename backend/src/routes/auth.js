@@ -1,7 +1,6 @@
 // File: routes/auth.js
 import express from "express";
 import bcrypt from "bcryptjs";
-import jwt from "jsonwebtoken";
 import dotenv from "dotenv";
 import nodemailer from "nodemailer";
 import { PrismaClient, UserRole } from "@prisma/client";
@@ -10,8 +9,10 @@ import {
   userSchema,
   loginSchema,
   updateProfileSchema,
-  deleteUserSchema
+  deleteUserSchema,
+  refreshTokenSchema
 } from "../validate/validate.js";
+import { issueSession, rotateSession, revokeSession } from "../lib/tokens.js";
 import { authMiddleware } from "../middlewares/authMiddleware.js";
 import { isAdmin } from "../middlewares/isAdmin.js";
 import { z } from "zod";
@@ -161,16 +162,13 @@ router.post("/signup", async (req, res) => {
       },
     });
 
-    const token = jwt.sign(
-      { id: user.id, role: user.role },
-      process.env.JWT_SECRET || "secret",
-      { expiresIn: "1h" }
-    );
+    const { token, refreshToken } = await issueSession(prisma, user);
 
     await redis.del(`verified:${email}`);
 
     return res.status(201).json({
       token,
+      refreshToken,
       user: { id: user.id, email: user.email, name: user.name, role: user.role, phone, avatarUrl },
     });
   } catch (e) {
@@ -195,20 +193,51 @@ router.post("/signin", async (req, res) => {
     const isPasswordValid = await bcrypt.compare(parsed.data.password, user.passwordHash);
     if (!isPasswordValid) return res.status(401).json({ message: "Incorrect password" });
 
-    const token = jwt.sign(
-      { id: user.id, role: user.role },
-      process.env.JWT_SECRET || "secret",
-      { expiresIn: "1h" }
-    );
+    const { token, refreshToken } = await issueSession(prisma, user);
 
     const { passwordHash, ...userWithoutPassword } = user;
-    res.json({ message: "Login successful", token, user: userWithoutPassword });
+    res.json({ message: "Login successful", token, refreshToken, user: userWithoutPassword });
   } catch (error) {
     console.error(error);
     res.status(500).json({ message: "Login failed" });
   }
 });
 
+// =======================
+// REFRESH SESSION
+// =======================
+router.post("/refresh", async (req, res) => {
+  try {
+    const parsed = refreshTokenSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ errors: parsed.error.issues });
+
+    const session = await rotateSession(prisma, parsed.data.refreshToken);
+    if (!session) return res.status(401).json({ message: "Session expired, please sign in again" });
+
+    const { passwordHash, ...userWithoutPassword } = session.user;
+    res.json({ token: session.token, refreshToken: session.refreshToken, user: userWithoutPassword });
+  } catch (error) {
+    console.error("Error refreshing session:", error);
+    res.status(500).json({ message: "Failed to refresh session" });
+  }
+});
+
+// =======================
+// LOGOUT
+// =======================
+router.post("/logout", async (req, res) => {
+  try {
+    const parsed = refreshTokenSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ errors: parsed.error.issues });
+
+    await revokeSession(prisma, parsed.data.refreshToken);
+    res.json({ message: "Logged out" });
+  } catch (error) {
+    console.error("Error logging out:", error);
+    res.status(500).json({ message: "Failed to log out" });
+  }
+});
+
 // =======================
 // DELETE USER (Admin only)
 // =======================
@@ -1,39 +1,20 @@
 import express from "express";
 import { PrismaClient } from "@prisma/client";
+import { chargeOverdueRentals } from "../lib/lateFees.js";
+import { notifyAvailableWishlistItems } from "../lib/savedProducts.js";
+import { expireQuotations } from "../lib/quotations.js";
 
 const prisma = new PrismaClient();
 const router = express.Router();
 
-// Service: Apply late fees
-export async function applyLateFees() {
-  const today = new Date();
-
-  const overdueRentals = await prisma.rental.findMany({
-    where: {
-      endDate: { lt: today },
-      status: { not: "COMPLETED" }
-    },
-    include: { product: true }
-  });
+// Service: Apply late fees (policies and invoices in lib/lateFees.js)
+export const applyLateFees = () => chargeOverdueRentals(prisma);
 
-  for (const rental of overdueRentals) {
-    const daysLate = Math.ceil((today - rental.endDate) / (1000 * 60 * 60 * 24));
-    const lateFee = rental.product.basePrice * 0.1 * daysLate;
+// Service: Tell customers their wishlisted dates are free (lib/savedProducts.js)
+export const notifyWishlistAvailability = () => notifyAvailableWishlistItems(prisma);
 
-    await prisma.rentalReturn.upsert({
-      where: { rentalId: rental.id },
-      update: { lateFee },
-      create: {
-        rentalId: rental.id,
-        scheduled: today,
-        completed: false,
-        lateFee
-      }
-    });
-  }
-
-  return overdueRentals.length;
-}
+// Service: Expire quotations past their validTill (lib/quotations.js)
+export const expireStaleQuotations = () => expireQuotations(prisma);
 
 // Service: Send overdue reminders
 export async function sendOverdueReminders() {
@@ -88,4 +69,26 @@ router.post("/send-overdue-reminders", async (req, res) => {
   }
 });
 
+// Manual trigger wishlist availability notifications
+router.post("/notify-wishlist", async (req, res) => {
+  try {
+    const count = await notifyWishlistAvailability();
+    res.json({ message: `Sent ${count} wishlist notifications` });
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ error: "Failed to send wishlist notifications" });
+  }
+});
+
+// Manual trigger quotation expiry
+router.post("/expire-quotations", async (req, res) => {
+  try {
+    const count = await expireStaleQuotations();
+    res.json({ message: `Expired ${count} quotations` });
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ error: "Failed to expire quotations" });
+  }
+});
+
 export default router;
@@ -3,6 +3,7 @@ import express from "express";
 import { PrismaClient } from "@prisma/client";
 import { authMiddleware } from "../middlewares/authMiddleware.js";
 import { isAdmin } from "../middlewares/isAdmin.js";
+import { transitionRental } from "../lib/rentalStatus.js";
 import { z } from "zod";
 
 const prisma = new PrismaClient();
@@ -41,16 +42,28 @@ router.post("/delete", authMiddleware, isAdmin, async (req, res) => {
 // --------------------
 // Bulk update rental status
 // --------------------
+// Each rental goes through the state machine on its own, side effects and
+// history included; the ones it refuses are listed in `failed`
 router.post("/rental/status", authMiddleware, isAdmin, async (req, res) => {
   try {
     const { rentalIds, status } = bulkUpdateRentalStatusSchema.parse(req.body);
 
-    const updateResult = await prisma.rental.updateMany({
-      where: { id: { in: rentalIds } },
-      data: { status }
-    });
+    const rentals = await prisma.rental.findMany({ where: { id: { in: rentalIds } } });
+    const updated = [];
+    const failed = rentalIds
+      .filter((id) => !rentals.some((rental) => rental.id === id))
+      .map((id) => ({ id, error: "Rental not found" }));
+
+    for (const rental of rentals) {
+      const result = await transitionRental(prisma, rental, status, {
+        userId: req.user.id,
+        role: req.user.role
+      });
+      if (result.rental) updated.push(rental.id);
+      else failed.push({ id: rental.id, error: result.error ?? "No units available for this rental's dates" });
+    }
 
-    res.json({ message: `Updated ${updateResult.count} rentals to ${status}` });
+    res.json({ message: `Updated ${updated.length} rentals to ${status}`, updated, failed });
   } catch (error) {
     res.status(400).json({ error: error.message });
   }
@@ -0,0 +1,20 @@
+// routes/cancellationPolicy.routes.js
+// Cancellation policies per product or category. With neither, rentals are
+// refunded in full up to 48h before the start and half after. Refunds already
+// made stay as they are when a policy changes.
+import { PrismaClient } from "@prisma/client";
+import { createScopedPolicyRouter } from "../lib/scopedPolicyRouter.js";
+import { findCancellationPolicy, policyInclude } from "../lib/cancellations.js";
+import { cancellationPolicySchema, cancellationPolicyUpdateSchema } from "../validate/validate.js";
+
+const prisma = new PrismaClient();
+
+export default createScopedPolicyRouter(prisma, {
+  model: "cancellationPolicy",
+  label: "Cancellation policy",
+  bands: "windows",
+  include: policyInclude,
+  schema: cancellationPolicySchema,
+  updateSchema: cancellationPolicyUpdateSchema,
+  findPolicy: findCancellationPolicy,
+});
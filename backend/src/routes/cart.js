@@ -0,0 +1,121 @@
+// routes/cart.routes.js
+import express from "express";
+import { PrismaClient } from "@prisma/client";
+import { authMiddleware } from "../middlewares/authMiddleware.js";
+import { findCustomerGroups } from "../lib/customerGroups.js";
+import { revalidateSavedItem } from "../lib/savedProducts.js";
+import { cartItemSchema, cartItemUpdateSchema } from "../validate/validate.js";
+
+const prisma = new PrismaClient();
+const router = express.Router();
+
+/**
+ * The logged-in customer's cart, oldest line first, each checked against the
+ * product's current price and availability for its own dates
+ */
+router.get("/", authMiddleware, async (req, res) => {
+  try {
+    const items = await prisma.cartItem.findMany({
+      where: { userId: req.user.id },
+      include: { product: true },
+      orderBy: { createdAt: "asc" },
+    });
+    const customerGroups = await findCustomerGroups(prisma, req.user.id);
+
+    const checked = [];
+    for (const item of items) {
+      checked.push(await revalidateSavedItem(prisma, item, customerGroups));
+    }
+    res.json(checked);
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Add a product to the cart; adding one already there adds to its quantity
+ * and replaces its dates when new ones are given
+ */
+router.post("/", authMiddleware, async (req, res) => {
+  try {
+    const parsed = cartItemSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.issues });
+
+    const { productId, quantity, startDate, endDate } = parsed.data;
+    const product = await prisma.product.findUnique({ where: { id: productId } });
+    if (!product) return res.status(404).json({ error: "Product not found" });
+    if (!product.isRentable) {
+      return res.status(400).json({ error: "Product is not available for rent" });
+    }
+
+    const dates = startDate !== undefined ? { startDate, endDate } : {};
+    const item = await prisma.cartItem.upsert({
+      where: { userId_productId: { userId: req.user.id, productId } },
+      update: { quantity: { increment: quantity }, ...dates },
+      create: { userId: req.user.id, productId, quantity, ...dates, savedPrice: product.basePrice },
+      include: { product: true },
+    });
+
+    res.status(201).json(item);
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Change a cart line's quantity or dates (null dates follow the order's)
+ */
+router.put("/:productId", authMiddleware, async (req, res) => {
+  try {
+    const parsed = cartItemUpdateSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.issues });
+
+    const item = await prisma.cartItem.findUnique({
+      where: { userId_productId: { userId: req.user.id, productId: req.params.productId } },
+    });
+    if (!item) return res.status(404).json({ error: "Product is not in your cart" });
+
+    const { quantity, startDate, endDate } = parsed.data;
+    const updated = await prisma.cartItem.update({
+      where: { id: item.id },
+      data: {
+        ...(quantity !== undefined && { quantity }),
+        ...(startDate !== undefined && { startDate, endDate }),
+      },
+      include: { product: true },
+    });
+    res.json(updated);
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Remove a product from the cart
+ */
+router.delete("/:productId", authMiddleware, async (req, res) => {
+  try {
+    const { count } = await prisma.cartItem.deleteMany({
+      where: { userId: req.user.id, productId: req.params.productId },
+    });
+    if (!count) return res.status(404).json({ error: "Product is not in your cart" });
+
+    res.json({ message: "Removed from cart" });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Empty the cart
+ */
+router.delete("/", authMiddleware, async (req, res) => {
+  try {
+    await prisma.cartItem.deleteMany({ where: { userId: req.user.id } });
+    res.json({ message: "Cart emptied" });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+export default router;
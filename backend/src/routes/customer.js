@@ -2,11 +2,19 @@ import express from "express";
 import { PrismaClient, UserRole } from "@prisma/client";
 import { authMiddleware } from "../middlewares/authMiddleware.js";
 import { isAdmin } from "../middlewares/isAdmin.js";
-import { userSchema } from "../validate/validate.js";
+import { userSchema, addressSchema } from "../validate/validate.js";
+import { parseListQuery, findPage } from "../lib/pagination.js";
 
 const prisma = new PrismaClient();
 const router = express.Router();
 
+const customerListOptions = {
+  sortable: ["createdAt", "name", "email"],
+  searchable: ["name", "email", "phone"],
+  dateField: "createdAt",
+  where: { role: UserRole.CUSTOMER },
+};
+
 // Create customer profile
 router.post("/", authMiddleware, async (req, res) => {
   try {
@@ -85,15 +93,124 @@ router.delete("/me", authMiddleware, async (req, res) => {
   }
 });
 
-// Get all customers (Admin only)
+// Only one address per user is the default; setting one clears the rest.
+const saveAddress = (userId, addressId, data) =>
+  prisma.$transaction(async (tx) => {
+    if (data.isDefault) {
+      await tx.address.updateMany({
+        where: { userId, isDefault: true, ...(addressId && { id: { not: addressId } }) },
+        data: { isDefault: false },
+      });
+    }
+    return addressId
+      ? tx.address.update({ where: { id: addressId }, data })
+      : tx.address.create({ data: { ...data, userId } });
+  });
+
+const findOwnAddress = (req) =>
+  prisma.address.findFirst({ where: { id: req.params.id, userId: req.user.id } });
+
+// List logged-in user's addresses, default first
+router.get("/me/addresses", authMiddleware, async (req, res) => {
+  try {
+    const addresses = await prisma.address.findMany({
+      where: { userId: req.user.id },
+      orderBy: [{ isDefault: "desc" }, { createdAt: "desc" }],
+    });
+    res.json(addresses);
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Add an address; the first one becomes the default
+router.post("/me/addresses", authMiddleware, async (req, res) => {
+  try {
+    const parsed = addressSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.issues });
+
+    const existing = await prisma.address.count({ where: { userId: req.user.id } });
+    const address = await saveAddress(req.user.id, null, {
+      ...parsed.data,
+      isDefault: parsed.data.isDefault || existing === 0,
+    });
+
+    res.status(201).json(address);
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Update one of the logged-in user's addresses
+router.put("/me/addresses/:id", authMiddleware, async (req, res) => {
+  try {
+    const parsed = addressSchema.partial().safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.issues });
+
+    const address = await findOwnAddress(req);
+    if (!address) return res.status(404).json({ error: "Address not found" });
+
+    // Unsetting the default would leave the user without one
+    const { isDefault, ...data } = parsed.data;
+    const updated = await saveAddress(req.user.id, address.id, {
+      ...data,
+      ...(isDefault && { isDefault: true }),
+    });
+
+    res.json(updated);
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Make one of the logged-in user's addresses the default
+router.put("/me/addresses/:id/default", authMiddleware, async (req, res) => {
+  try {
+    const address = await findOwnAddress(req);
+    if (!address) return res.status(404).json({ error: "Address not found" });
+
+    const updated = await saveAddress(req.user.id, address.id, { isDefault: true });
+    res.json(updated);
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Delete an address; the newest remaining one inherits the default
+router.delete("/me/addresses/:id", authMiddleware, async (req, res) => {
+  try {
+    const address = await findOwnAddress(req);
+    if (!address) return res.status(404).json({ error: "Address not found" });
+
+    await prisma.$transaction(async (tx) => {
+      await tx.address.delete({ where: { id: address.id } });
+      if (!address.isDefault) return;
+
+      const next = await tx.address.findFirst({
+        where: { userId: req.user.id },
+        orderBy: { createdAt: "desc" },
+      });
+      if (next) {
+        await tx.address.update({ where: { id: next.id }, data: { isDefault: true } });
+      }
+    });
+
+    res.json({ message: "Address deleted" });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Get a page of customers (Admin only)
 router.get("/", authMiddleware, isAdmin, async (req, res) => {
   try {
-    const customers = await prisma.user.findMany({
-      where: { role: UserRole.CUSTOMER },
+    const list = parseListQuery(req.query, customerListOptions);
+    if (!list.success) return res.status(400).json(list.error);
+
+    const page = await findPage(prisma.user, list, {
       select: { id: true, name: true, email: true, phone: true, createdAt: true },
-      orderBy: { createdAt: "desc" },
     });
-    res.json(customers);
+    res.json(page);
   } catch (error) {
     res.status(500).json({ error: error.message });
   }
@@ -0,0 +1,184 @@
+// routes/customerGroup.routes.js
+import express from "express";
+import { PrismaClient } from "@prisma/client";
+import { authMiddleware } from "../middlewares/authMiddleware.js";
+import { isAdmin } from "../middlewares/isAdmin.js";
+import { findCustomerGroups, findRuleMembers } from "../lib/customerGroups.js";
+import {
+  customerGroupSchema,
+  customerGroupUpdateSchema,
+  customerGroupMemberSchema,
+} from "../validate/validate.js";
+
+const prisma = new PrismaClient();
+const router = express.Router();
+
+const groupInclude = { _count: { select: { members: true, pricelists: true } } };
+
+/**
+ * List customer groups, highest priority first (Admin only)
+ */
+router.get("/", authMiddleware, isAdmin, async (req, res) => {
+  try {
+    const groups = await prisma.customerGroup.findMany({
+      include: groupInclude,
+      orderBy: [{ priority: "desc" }, { name: "asc" }],
+    });
+    res.json(groups);
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Groups a customer belongs to, by hand or by rule (Admin only)
+ */
+router.get("/customer/:userId", authMiddleware, isAdmin, async (req, res) => {
+  try {
+    const user = await prisma.user.findUnique({ where: { id: req.params.userId } });
+    if (!user) return res.status(404).json({ error: "Customer not found" });
+
+    res.json(await findCustomerGroups(prisma, user.id));
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Create a customer group (Admin only)
+ * - `minCompletedRentals` makes customers with that many completed rentals
+ *   members automatically
+ */
+router.post("/", authMiddleware, isAdmin, async (req, res) => {
+  try {
+    const parsed = customerGroupSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.issues });
+
+    const existing = await prisma.customerGroup.findUnique({ where: { name: parsed.data.name } });
+    if (existing) return res.status(409).json({ error: "A group with this name already exists" });
+
+    const group = await prisma.customerGroup.create({ data: parsed.data, include: groupInclude });
+    res.status(201).json(group);
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Update a customer group (Admin only)
+ */
+router.put("/:id", authMiddleware, isAdmin, async (req, res) => {
+  try {
+    const parsed = customerGroupUpdateSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.issues });
+
+    const group = await prisma.customerGroup.findUnique({ where: { id: req.params.id } });
+    if (!group) return res.status(404).json({ error: "Customer group not found" });
+
+    if (parsed.data.name && parsed.data.name !== group.name) {
+      const clash = await prisma.customerGroup.findUnique({ where: { name: parsed.data.name } });
+      if (clash) return res.status(409).json({ error: "A group with this name already exists" });
+    }
+
+    const updated = await prisma.customerGroup.update({
+      where: { id: group.id },
+      data: parsed.data,
+      include: groupInclude,
+    });
+    res.json(updated);
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Delete a customer group (Admin only); refused while pricelists target it
+ */
+router.delete("/:id", authMiddleware, isAdmin, async (req, res) => {
+  try {
+    const group = await prisma.customerGroup.findUnique({
+      where: { id: req.params.id },
+      include: groupInclude,
+    });
+    if (!group) return res.status(404).json({ error: "Customer group not found" });
+    if (group._count.pricelists > 0) {
+      return res.status(409).json({ error: "Pricelists still target this group" });
+    }
+
+    await prisma.customerGroup.delete({ where: { id: group.id } });
+    res.json({ message: "Customer group deleted" });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Members of a group (Admin only)
+ * - `members` were added by hand; `ruleMembers` meet the group's rule
+ */
+router.get("/:id/members", authMiddleware, isAdmin, async (req, res) => {
+  try {
+    const group = await prisma.customerGroup.findUnique({ where: { id: req.params.id } });
+    if (!group) return res.status(404).json({ error: "Customer group not found" });
+
+    const [members, ruleMembers] = await Promise.all([
+      prisma.customerGroupMember.findMany({
+        where: { groupId: group.id },
+        include: { user: { select: { id: true, name: true, email: true } } },
+        orderBy: { createdAt: "asc" },
+      }),
+      findRuleMembers(prisma, group),
+    ]);
+    res.json({ members, ruleMembers });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Add a customer to a group (Admin only)
+ */
+router.post("/:id/members", authMiddleware, isAdmin, async (req, res) => {
+  try {
+    const parsed = customerGroupMemberSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.issues });
+
+    const group = await prisma.customerGroup.findUnique({ where: { id: req.params.id } });
+    if (!group) return res.status(404).json({ error: "Customer group not found" });
+
+    const user = await prisma.user.findUnique({ where: { id: parsed.data.userId } });
+    if (!user || user.role !== "CUSTOMER") {
+      return res.status(400).json({ error: "userId must belong to a CUSTOMER user" });
+    }
+
+    const key = { groupId: group.id, userId: user.id };
+    const existing = await prisma.customerGroupMember.findUnique({ where: { groupId_userId: key } });
+    if (existing) return res.status(409).json({ error: "Customer is already in this group" });
+
+    const member = await prisma.customerGroupMember.create({
+      data: key,
+      include: { user: { select: { id: true, name: true, email: true } } },
+    });
+    res.status(201).json(member);
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Remove a customer added by hand (Admin only)
+ */
+router.delete("/:id/members/:userId", authMiddleware, isAdmin, async (req, res) => {
+  try {
+    const where = { groupId_userId: { groupId: req.params.id, userId: req.params.userId } };
+    const member = await prisma.customerGroupMember.findUnique({ where });
+    if (!member) return res.status(404).json({ error: "Customer is not a member of this group" });
+
+    await prisma.customerGroupMember.delete({ where });
+    res.json({ message: "Customer removed from group" });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+export default router;
@@ -0,0 +1,197 @@
+// routes/deposit.routes.js
+import express from "express";
+import { PrismaClient } from "@prisma/client";
+import { authMiddleware } from "../middlewares/authMiddleware.js";
+import { isAdmin } from "../middlewares/isAdmin.js";
+import { parseListQuery, findPage } from "../lib/pagination.js";
+import { captureDeposit, lockDeposit, releaseDeposit } from "../lib/deposits.js";
+import {
+  DepositStatusEnum,
+  depositCaptureSchema,
+  depositReleaseSchema,
+  categoryDepositSchema,
+} from "../validate/validate.js";
+import { z } from "zod";
+
+const prisma = new PrismaClient();
+const router = express.Router();
+
+const depositListOptions = {
+  sortable: ["createdAt", "amount", "status"],
+  searchable: ["rental.orderReference", "rental.customer.name"],
+  dateField: "createdAt",
+  filters: {
+    status: DepositStatusEnum,
+    rentalId: z.string(),
+  },
+};
+
+const depositInclude = {
+  entries: {
+    include: {
+      invoice: { select: { id: true, type: true, amount: true, status: true } },
+      createdBy: { select: { id: true, name: true } },
+    },
+    orderBy: { createdAt: "asc" },
+  },
+};
+
+/**
+ * Get a page of deposits (Admin only)
+ */
+router.get("/", authMiddleware, isAdmin, async (req, res) => {
+  try {
+    const list = parseListQuery(req.query, depositListOptions);
+    if (!list.success) return res.status(400).json(list.error);
+
+    const page = await findPage(prisma.deposit, list, {
+      include: {
+        rental: {
+          select: {
+            id: true,
+            orderReference: true,
+            status: true,
+            customer: { select: { id: true, name: true, email: true } },
+            product: { select: { id: true, name: true } },
+          },
+        },
+      },
+    });
+    res.json(page);
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Deposits set per category (Admin only)
+ */
+router.get("/category", authMiddleware, isAdmin, async (req, res) => {
+  try {
+    const deposits = await prisma.categoryDeposit.findMany({ orderBy: { category: "asc" } });
+    res.json(deposits);
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Set the deposit for a category (Admin only); products with their own
+ * `deposit` ignore it
+ */
+router.put("/category/:category", authMiddleware, isAdmin, async (req, res) => {
+  try {
+    const parsed = categoryDepositSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.issues });
+
+    const { category } = req.params;
+    const deposit = await prisma.categoryDeposit.upsert({
+      where: { category },
+      update: parsed.data,
+      create: { category, ...parsed.data },
+    });
+    res.json(deposit);
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Remove a category's deposit (Admin only)
+ */
+router.delete("/category/:category", authMiddleware, isAdmin, async (req, res) => {
+  try {
+    const where = { category: req.params.category };
+    const deposit = await prisma.categoryDeposit.findUnique({ where });
+    if (!deposit) return res.status(404).json({ error: "Category deposit not found" });
+
+    await prisma.categoryDeposit.delete({ where });
+    res.json({ message: "Category deposit removed" });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * A rental's deposit with its ledger (Admin, or the rental's customer)
+ */
+router.get("/rental/:rentalId", authMiddleware, async (req, res) => {
+  try {
+    const rental = await prisma.rental.findUnique({ where: { id: req.params.rentalId } });
+    if (!rental) return res.status(404).json({ error: "Rental not found" });
+
+    if (req.user.role !== "ADMIN" && rental.customerId !== req.user.id) {
+      return res.status(403).json({ error: "Not authorized to view this deposit" });
+    }
+
+    const deposit = await prisma.deposit.findUnique({
+      where: { rentalId: rental.id },
+      include: depositInclude,
+    });
+    if (!deposit) return res.status(404).json({ error: "Deposit not found" });
+
+    res.json(deposit);
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Pay a damage or late-fee invoice from a deposit (Admin only)
+ * - Capped at what's still held and what the invoice still owes
+ */
+router.post("/:id/capture", authMiddleware, isAdmin, async (req, res) => {
+  try {
+    const parsed = depositCaptureSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.issues });
+
+    const { invoiceId, ...capture } = parsed.data;
+    const result = await prisma.$transaction(async (tx) => {
+      await lockDeposit(tx, req.params.id);
+      const deposit = await tx.deposit.findUnique({ where: { id: req.params.id } });
+      if (!deposit) return { status: 404, error: "Deposit not found" };
+      const invoice = await tx.invoice.findUnique({ where: { id: invoiceId } });
+      if (!invoice) return { status: 404, error: "Invoice not found" };
+
+      return captureDeposit(tx, deposit, invoice, { ...capture, userId: req.user.id });
+    });
+    if (result.error) return res.status(result.status ?? 400).json({ error: result.error });
+
+    const deposit = await prisma.deposit.findUnique({
+      where: { id: result.deposit.id },
+      include: depositInclude,
+    });
+    res.json(deposit);
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Give back what's left of a deposit (Admin only)
+ */
+router.post("/:id/release", authMiddleware, isAdmin, async (req, res) => {
+  try {
+    const parsed = depositReleaseSchema.safeParse(req.body ?? {});
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.issues });
+
+    const result = await prisma.$transaction(async (tx) => {
+      await lockDeposit(tx, req.params.id);
+      const deposit = await tx.deposit.findUnique({ where: { id: req.params.id } });
+      if (!deposit) return { status: 404, error: "Deposit not found" };
+
+      return releaseDeposit(tx, deposit, { ...parsed.data, userId: req.user.id });
+    });
+    if (result.error) return res.status(result.status ?? 400).json({ error: result.error });
+
+    const deposit = await prisma.deposit.findUnique({
+      where: { id: result.deposit.id },
+      include: depositInclude,
+    });
+    res.json(deposit);
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+export default router;
@@ -0,0 +1,144 @@
+// routes/dispatch.routes.js
+import express from "express";
+import { PrismaClient } from "@prisma/client";
+import { authMiddleware } from "../middlewares/authMiddleware.js";
+import { scheduledWindow, JOB_DURATION_MINUTES } from "../lib/fieldJobs.js";
+import { planRoute, haversineKm } from "../lib/routePlanner.js";
+import { routePlanQuerySchema } from "../validate/validate.js";
+
+const prisma = new PrismaClient();
+const router = express.Router();
+
+// Average driving speed for travel-time estimates
+const ROUTE_SPEED_KMH = Number(process.env.ROUTE_SPEED_KMH) || 30;
+// A stop may be served this many minutes either side of its scheduled time
+const ROUTE_WINDOW_MINUTES = Number(process.env.ROUTE_WINDOW_MINUTES) || 60;
+
+const round = (value) => Math.round(value * 100) / 100;
+
+const defaultDepot = () => {
+  const lat = Number(process.env.DEPOT_LAT);
+  const lng = Number(process.env.DEPOT_LNG);
+  return process.env.DEPOT_LAT && process.env.DEPOT_LNG && !isNaN(lat) && !isNaN(lng)
+    ? { lat, lng }
+    : null;
+};
+
+const jobInclude = {
+  rental: {
+    include: {
+      address: true,
+      customer: { select: { id: true, name: true, phone: true } },
+    },
+  },
+};
+
+const toStop = (kind) => (job) => ({
+  kind,
+  id: job.id,
+  rentalId: job.rentalId,
+  scheduled: job.scheduled,
+  customerName: job.rental.customer?.name ?? null,
+  address: job.rental.address,
+});
+
+/**
+ * Plan one staff member's run for a day
+ * - Admins may plan any staff member; staff only their own run
+ * - Stops without coordinates are returned as `unrouted`
+ */
+router.get("/route", authMiddleware, async (req, res) => {
+  try {
+    const parsed = routePlanQuerySchema.safeParse(req.query);
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.issues });
+
+    const { staffId = req.user.id, start, depotLat, depotLng } = parsed.data;
+    if (req.user.role !== "ADMIN" && !(req.user.role === "STAFF" && staffId === req.user.id)) {
+      return res.status(403).json({ error: "Not authorized to plan this route" });
+    }
+
+    const depot =
+      depotLat !== undefined && depotLng !== undefined
+        ? { lat: depotLat, lng: depotLng }
+        : defaultDepot();
+    if (!depot) {
+      return res.status(400).json({
+        error: "No depot configured; set DEPOT_LAT/DEPOT_LNG or pass depotLat/depotLng",
+      });
+    }
+
+    const where = { staffId, completed: false, scheduled: scheduledWindow(parsed.data) };
+    const [pickups, returns] = await Promise.all([
+      prisma.pickup.findMany({ where, include: jobInclude }),
+      prisma.rentalReturn.findMany({ where, include: jobInclude }),
+    ]);
+
+    const jobs = [...pickups.map(toStop("pickup")), ...returns.map(toStop("return"))];
+    const windowMs = ROUTE_WINDOW_MINUTES * 60 * 1000;
+    const stops = jobs
+      .filter((job) => job.address?.latitude != null && job.address?.longitude != null)
+      .map((job) => ({
+        ...job,
+        lat: job.address.latitude,
+        lng: job.address.longitude,
+        windowStart: new Date(job.scheduled.getTime() - windowMs),
+        windowEnd: new Date(job.scheduled.getTime() + windowMs),
+      }));
+    const unrouted = jobs
+      .filter((job) => !stops.some((stop) => stop.kind === job.kind && stop.id === job.id))
+      .map(({ address, ...job }) => ({
+        ...job,
+        reason: address ? "Address has no coordinates" : "Rental has no address",
+      }));
+
+    // Leave the depot just in time to reach the first window as it opens
+    const departure =
+      start ??
+      (stops.length > 0
+        ? new Date(
+            Math.min(
+              ...stops.map(
+                (stop) =>
+                  stop.windowStart.getTime() -
+                  (haversineKm(depot, stop) / ROUTE_SPEED_KMH) * 60 * 60 * 1000
+              )
+            )
+          )
+        : new Date(scheduledWindow(parsed.data).gte));
+
+    const plan = planRoute(stops, {
+      depot,
+      start: departure,
+      speedKmh: ROUTE_SPEED_KMH,
+      serviceMinutes: JOB_DURATION_MINUTES,
+    });
+
+    res.json({
+      staffId,
+      depot,
+      start: departure,
+      finish: plan.finish,
+      distanceKm: round(plan.distanceKm),
+      returnKm: round(plan.returnKm),
+      lateMinutes: Math.round(plan.lateMinutes),
+      stops: plan.legs.map(({ stop, legKm, arrival, lateMinutes }) => ({
+        kind: stop.kind,
+        id: stop.id,
+        rentalId: stop.rentalId,
+        scheduled: stop.scheduled,
+        windowStart: stop.windowStart,
+        windowEnd: stop.windowEnd,
+        eta: arrival,
+        legKm: round(legKm),
+        lateMinutes: Math.round(lateMinutes),
+        customerName: stop.customerName,
+        address: stop.address,
+      })),
+      unrouted,
+    });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+export default router;
@@ -3,28 +3,49 @@ import pkg from '@prisma/client';
 const { PrismaClient, NotificationTypeEnum } = pkg;  
 import { authMiddleware } from "../middlewares/authMiddleware.js";
 import { isAdmin } from "../middlewares/isAdmin.js";
+import { parseListQuery, findPage } from "../lib/pagination.js";
+import {
+  InvoiceTypeEnum as InvoiceTypeSchema,
+  PaymentStatusEnum,
+  invoiceSchema,
+} from "../validate/validate.js";
+import { z } from "zod";
 
 const prisma = new PrismaClient();
 const router = express.Router();
 
+const invoiceListOptions = {
+  sortable: ["createdAt", "amount", "status", "type"],
+  searchable: ["rental.orderReference", "rental.customer.name"],
+  dateField: "createdAt",
+  filters: {
+    status: PaymentStatusEnum,
+    type: InvoiceTypeSchema,
+    rentalId: z.string(),
+  },
+};
+
 // Create Invoice
+// A FULL invoice records the promo discount the rental's quotation was given
 router.post("/", authMiddleware, isAdmin, async (req, res) => {
   try {
-    const { rentalId, amount, type, status } = req.body;
+    const parsed = invoiceSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.issues });
 
-    if (!Object.values(InvoiceTypeEnum).includes(type)) {
-      return res.status(400).json({ error: "Invalid invoice type" });
-    }
-    if (status && !Object.values(InvoiceStatusEnum).includes(status)) {
-      return res.status(400).json({ error: "Invalid invoice status" });
-    }
+    const rental = await prisma.rental.findUnique({
+      where: { id: parsed.data.rentalId },
+      include: { promoRedemption: { include: { promoCode: true } } },
+    });
+    if (!rental) return res.status(404).json({ error: "Rental not found" });
 
+    const redemption = parsed.data.type === "FULL" ? rental.promoRedemption : null;
     const invoice = await prisma.invoice.create({
       data: {
-        rentalId,
-        amount,
-        type,
-        status: status || "PENDING",
+        ...parsed.data,
+        ...(redemption && {
+          discount: redemption.amount,
+          promoCode: redemption.promoCode.code,
+        }),
       },
     });
 
@@ -34,14 +55,16 @@ router.post("/", authMiddleware, isAdmin, async (req, res) => {
   }
 });
 
-// Get All Invoices (Admin)
+// Get a page of Invoices (Admin)
 router.get("/", authMiddleware, isAdmin, async (req, res) => {
   try {
-    const invoices = await prisma.invoice.findMany({
+    const list = parseListQuery(req.query, invoiceListOptions);
+    if (!list.success) return res.status(400).json(list.error);
+
+    const page = await findPage(prisma.invoice, list, {
       include: { rental: { include: { customer: true } } },
-      orderBy: { createdAt: "desc" },
     });
-    res.json(invoices);
+    res.json(page);
   } catch (error) {
     res.status(500).json({ error: error.message });
   }
@@ -0,0 +1,20 @@
+// routes/lateFeePolicy.routes.js
+// Late-fee policies per product or category. With neither, rentals are
+// charged 10% of the base price per day. Overdue rentals are re-charged under
+// an updated policy on the next late-fee run.
+import { PrismaClient } from "@prisma/client";
+import { createScopedPolicyRouter } from "../lib/scopedPolicyRouter.js";
+import { findLateFeePolicy, policyInclude } from "../lib/lateFees.js";
+import { lateFeePolicySchema, lateFeePolicyUpdateSchema } from "../validate/validate.js";
+
+const prisma = new PrismaClient();
+
+export default createScopedPolicyRouter(prisma, {
+  model: "lateFeePolicy",
+  label: "Late-fee policy",
+  bands: "tiers",
+  include: policyInclude,
+  schema: lateFeePolicySchema,
+  updateSchema: lateFeePolicyUpdateSchema,
+  findPolicy: findLateFeePolicy,
+});
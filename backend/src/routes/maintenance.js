@@ -0,0 +1,252 @@
+// routes/maintenance.routes.js
+import express from "express";
+import { PrismaClient } from "@prisma/client";
+import { authMiddleware } from "../middlewares/authMiddleware.js";
+import { isAdmin } from "../middlewares/isAdmin.js";
+import { isStaff } from "../middlewares/isStaff.js";
+import { canUpdateJob, isStaffUser } from "../lib/fieldJobs.js";
+import {
+  completeMaintenanceTask,
+  findRentalConflicts,
+  OPEN_MAINTENANCE_STATUSES,
+} from "../lib/maintenance.js";
+import {
+  maintenanceTaskSchema,
+  maintenanceTaskUpdateSchema,
+  maintenanceQuerySchema,
+  maintenanceCompleteSchema,
+} from "../validate/validate.js";
+
+const prisma = new PrismaClient();
+const router = express.Router();
+
+const taskInclude = {
+  product: { select: { id: true, name: true } },
+  unit: { select: { id: true, serialNumber: true, condition: true } },
+  staff: { select: { id: true, name: true } },
+};
+
+// Unit and staff member of a task must exist and fit; returns an error or null
+async function checkTaskRefs({ productId, unitId, staffId }) {
+  if (unitId) {
+    const unit = await prisma.productUnit.findUnique({ where: { id: unitId } });
+    if (!unit || unit.productId !== productId) return "Unit does not belong to the product";
+  }
+  if (staffId && !(await isStaffUser(prisma, staffId))) {
+    return "staffId must belong to a STAFF user";
+  }
+  return null;
+}
+
+/**
+ * List maintenance tasks (Admin only)
+ * - `from`/`to` return the tasks overlapping that range, for the calendar
+ */
+router.get("/", authMiddleware, isAdmin, async (req, res) => {
+  try {
+    const parsed = maintenanceQuerySchema.safeParse(req.query);
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.issues });
+
+    const { from, to, productId, status } = parsed.data;
+    const tasks = await prisma.maintenanceTask.findMany({
+      where: {
+        ...(productId && { productId }),
+        ...(status && { status }),
+        ...(to && { startDate: { lt: to } }),
+        ...(from && { endDate: { gt: from } }),
+      },
+      include: taskInclude,
+      orderBy: { startDate: "asc" },
+    });
+    res.json(tasks);
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Open tasks assigned to the caller (Staff only)
+ */
+router.get("/assigned", authMiddleware, isStaff, async (req, res) => {
+  try {
+    const tasks = await prisma.maintenanceTask.findMany({
+      where: { staffId: req.user.id, status: { in: OPEN_MAINTENANCE_STATUSES } },
+      include: taskInclude,
+      orderBy: { startDate: "asc" },
+    });
+    res.json(tasks);
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Schedule maintenance (Admin only)
+ * - Without a unit the whole product is out of service
+ * - Refused (409) while CONFIRMED/ACTIVE rentals hold the unit in that window
+ */
+router.post("/", authMiddleware, isAdmin, async (req, res) => {
+  try {
+    const parsed = maintenanceTaskSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.issues });
+
+    const product = await prisma.product.findUnique({ where: { id: parsed.data.productId } });
+    if (!product) return res.status(404).json({ error: "Product not found" });
+
+    const refError = await checkTaskRefs(parsed.data);
+    if (refError) return res.status(400).json({ error: refError });
+
+    const rentals = await findRentalConflicts(prisma, parsed.data);
+    if (rentals.length > 0) {
+      return res.status(409).json({ error: "Rentals are booked in this window", rentals });
+    }
+
+    const task = await prisma.maintenanceTask.create({
+      data: parsed.data,
+      include: taskInclude,
+    });
+    res.status(201).json(task);
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Reschedule or edit an open task (Admin only)
+ */
+router.put("/:id", authMiddleware, isAdmin, async (req, res) => {
+  try {
+    const parsed = maintenanceTaskUpdateSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.issues });
+
+    const task = await prisma.maintenanceTask.findUnique({ where: { id: req.params.id } });
+    if (!task) return res.status(404).json({ error: "Maintenance task not found" });
+    if (task.status === "COMPLETED") {
+      return res.status(400).json({ error: "Maintenance task already completed" });
+    }
+
+    const next = { ...task, ...parsed.data };
+    if (next.endDate <= next.startDate) {
+      return res.status(400).json({ error: "endDate must be after startDate" });
+    }
+
+    const refError = await checkTaskRefs(next);
+    if (refError) return res.status(400).json({ error: refError });
+
+    const moved =
+      next.startDate.getTime() !== task.startDate.getTime() ||
+      next.endDate.getTime() !== task.endDate.getTime() ||
+      next.unitId !== task.unitId;
+    if (moved) {
+      const rentals = await findRentalConflicts(prisma, next);
+      if (rentals.length > 0) {
+        return res.status(409).json({ error: "Rentals are booked in this window", rentals });
+      }
+    }
+
+    const updated = await prisma.maintenanceTask.update({
+      where: { id: task.id },
+      data: parsed.data,
+      include: taskInclude,
+    });
+    res.json(updated);
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Start work on a task (assigned staff or Admin)
+ */
+router.put("/:id/start", authMiddleware, async (req, res) => {
+  try {
+    const task = await prisma.maintenanceTask.findUnique({ where: { id: req.params.id } });
+    if (!task) return res.status(404).json({ error: "Maintenance task not found" });
+
+    if (!canUpdateJob(req.user, task)) {
+      return res.status(403).json({ error: "Not authorized to update maintenance task" });
+    }
+    if (task.status !== "SCHEDULED") {
+      return res.status(400).json({ error: `Maintenance task is ${task.status.toLowerCase()}` });
+    }
+
+    const updated = await prisma.maintenanceTask.update({
+      where: { id: task.id },
+      data: { status: "IN_PROGRESS" },
+      include: taskInclude,
+    });
+    res.json(updated);
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Close a task with notes (assigned staff or Admin)
+ * - Recurring tasks return the next occurrence as `nextTask` when one is due
+ * - `condition` regrades the unit and is added to its history
+ */
+router.put("/:id/complete", authMiddleware, async (req, res) => {
+  try {
+    const parsed = maintenanceCompleteSchema.safeParse(req.body ?? {});
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.issues });
+
+    const task = await prisma.maintenanceTask.findUnique({
+      where: { id: req.params.id },
+      include: { unit: true },
+    });
+    if (!task) return res.status(404).json({ error: "Maintenance task not found" });
+
+    if (!canUpdateJob(req.user, task)) {
+      return res.status(403).json({ error: "Not authorized to update maintenance task" });
+    }
+    if (task.status === "COMPLETED") {
+      return res.status(400).json({ error: "Maintenance task already completed" });
+    }
+
+    const { notes, condition } = parsed.data;
+    const result = await prisma.$transaction(async (tx) => {
+      if (task.unit && condition) {
+        await tx.productUnit.update({ where: { id: task.unit.id }, data: { condition } });
+        await tx.unitConditionLog.create({
+          data: {
+            unitId: task.unit.id,
+            oldCondition: task.unit.condition,
+            newCondition: condition,
+            notes: notes ?? `Maintenance: ${task.title}`,
+            recordedById: req.user.id,
+          },
+        });
+      }
+      return completeMaintenanceTask(tx, task, { completedById: req.user.id, notes });
+    });
+
+    const completed = await prisma.maintenanceTask.findUnique({
+      where: { id: result.task.id },
+      include: taskInclude,
+    });
+    res.json({ ...completed, nextTask: result.next });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Delete an open task (Admin only); completed ones stay as history
+ */
+router.delete("/:id", authMiddleware, isAdmin, async (req, res) => {
+  try {
+    const task = await prisma.maintenanceTask.findUnique({ where: { id: req.params.id } });
+    if (!task) return res.status(404).json({ error: "Maintenance task not found" });
+    if (task.status === "COMPLETED") {
+      return res.status(400).json({ error: "Completed maintenance can't be deleted" });
+    }
+
+    await prisma.maintenanceTask.delete({ where: { id: task.id } });
+    res.json({ message: "Maintenance task deleted" });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+export default router;
@@ -3,10 +3,24 @@ import pkg from '@prisma/client';
 const { PrismaClient, InvoiceTypeEnum, InvoiceStatusEnum } = pkg;
 import { authMiddleware } from "../middlewares/authMiddleware.js";
 import { isAdmin } from "../middlewares/isAdmin.js";
+import { parseListQuery, findPage } from "../lib/pagination.js";
+import { PaymentStatusEnum as PaymentStatusSchema } from "../validate/validate.js";
+import { z } from "zod";
 
 const prisma = new PrismaClient();
 const router = express.Router();
 
+const paymentListOptions = {
+  sortable: ["createdAt", "amount", "status"],
+  searchable: ["transactionId", "method"],
+  dateField: "createdAt",
+  filters: {
+    status: PaymentStatusSchema,
+    method: z.string(),
+    invoiceId: z.string(),
+  },
+};
+
 /**
  * Create a payment record
  */
@@ -84,15 +98,17 @@ router.get("/my", authMiddleware, async (req, res) => {
 });
 
 /**
- * Get all payments (Admin only)
+ * Get a page of payments (Admin only)
  */
 router.get("/", authMiddleware, isAdmin, async (req, res) => {
   try {
-    const payments = await prisma.payment.findMany({
+    const list = parseListQuery(req.query, paymentListOptions);
+    if (!list.success) return res.status(400).json(list.error);
+
+    const page = await findPage(prisma.payment, list, {
       include: { invoice: true },
-      orderBy: { createdAt: "desc" },
     });
-    res.json(payments);
+    res.json(page);
   } catch (error) {
     res.status(500).json({ error: error.message });
   }
@@ -3,13 +3,43 @@ import express from "express";
 import { PrismaClient } from "@prisma/client";
 import { authMiddleware } from "../middlewares/authMiddleware.js";
 import { isAdmin } from "../middlewares/isAdmin.js";
+import { isStaff } from "../middlewares/isStaff.js";
+import { parseListQuery, findPage } from "../lib/pagination.js";
+import {
+  canUpdateJob,
+  scheduledWindow,
+  findStaffConflicts,
+  isStaffUser,
+} from "../lib/fieldJobs.js";
+import { resolveCoverage } from "../lib/serviceAreas.js";
+import {
+  queryBoolean,
+  jobArrivalSchema,
+  pickupCompleteSchema,
+  assignedJobsQuerySchema,
+  jobAssignSchema,
+} from "../validate/validate.js";
+import { z } from "zod";
 
 const prisma = new PrismaClient();
 const router = express.Router();
 
+const pickupListOptions = {
+  sortable: ["scheduled", "actualPickup"],
+  defaultSort: { field: "scheduled", order: "desc" },
+  searchable: ["rental.orderReference", "rental.customer.name", "rental.product.name"],
+  dateField: "scheduled",
+  filters: {
+    completed: queryBoolean,
+    staffId: z.string(),
+  },
+};
+
 /**
  * Schedule a pickup for a rental
  * - Only provider or admin can schedule pickup
+ * - The rental's address (or the customer's default) must be in a service area;
+ *   the area's surcharge is recorded on the pickup
  */
 router.post("/", authMiddleware, async (req, res) => {
   try {
@@ -17,7 +47,7 @@ router.post("/", authMiddleware, async (req, res) => {
 
     const rental = await prisma.rental.findUnique({
       where: { id: rentalId },
-      include: { product: true },
+      include: { product: true, address: true },
     });
     if (!rental) return res.status(404).json({ error: "Rental not found" });
 
@@ -25,35 +55,131 @@ router.post("/", authMiddleware, async (req, res) => {
       return res.status(403).json({ error: "Not authorized to schedule pickup" });
     }
 
-    const pickup = await prisma.pickup.create({
+    const address =
+      rental.address ??
+      (await prisma.address.findFirst({
+        where: { userId: rental.customerId, isDefault: true },
+      }));
+    if (!address) {
+      return res.status(400).json({ error: "Rental has no delivery address" });
+    }
+
+    const coverage = await resolveCoverage(prisma, address);
+    if (!coverage.serviceable) {
+      return res.status(422).json({ error: "Address is outside the service area" });
+    }
+
+    const [pickup] = await prisma.$transaction([
+      prisma.pickup.create({
+        data: {
+          rentalId,
+          scheduled: new Date(scheduled),
+          completed: false,
+          surcharge: coverage.surcharge || null,
+        },
+      }),
+      // Pin the fallback address so later changes to the default don't move the job
+      prisma.rental.update({
+        where: { id: rentalId },
+        data: { addressId: address.id },
+      }),
+    ]);
+
+    res.status(201).json(pickup);
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Assign a pickup to a staff member and time slot (Admin only)
+ * - Responds with the pickup plus any overlapping jobs of that staff member
+ */
+router.put("/:id/assign", authMiddleware, isAdmin, async (req, res) => {
+  try {
+    const parsed = jobAssignSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.issues });
+
+    const pickup = await prisma.pickup.findUnique({ where: { id: req.params.id } });
+    if (!pickup) return res.status(404).json({ error: "Pickup not found" });
+
+    if (pickup.completed) {
+      return res.status(400).json({ error: "Pickup already completed" });
+    }
+
+    const { staffId, scheduled = pickup.scheduled } = parsed.data;
+    if (staffId && !(await isStaffUser(prisma, staffId))) {
+      return res.status(400).json({ error: "staffId must belong to a STAFF user" });
+    }
+
+    const updatedPickup = await prisma.pickup.update({
+      where: { id: pickup.id },
+      data: { staffId, scheduled },
+      include: { staff: { select: { id: true, name: true, email: true } } },
+    });
+
+    const conflicts = staffId
+      ? await findStaffConflicts(prisma, staffId, scheduled, { kind: "pickup", id: pickup.id })
+      : [];
+
+    res.json({ ...updatedPickup, conflicts });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Mark arrival at the customer for a pickup
+ * - Only the assigned staff member or admin
+ */
+router.put("/:id/arrive", authMiddleware, async (req, res) => {
+  try {
+    const parsed = jobArrivalSchema.safeParse(req.body ?? {});
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.issues });
+
+    const pickup = await prisma.pickup.findUnique({ where: { id: req.params.id } });
+    if (!pickup) return res.status(404).json({ error: "Pickup not found" });
+
+    if (!canUpdateJob(req.user, pickup)) {
+      return res.status(403).json({ error: "Not authorized to update pickup" });
+    }
+
+    if (pickup.completed) {
+      return res.status(400).json({ error: "Pickup already completed" });
+    }
+
+    // Only while still open, so it can't land on a pickup completed meanwhile
+    const { count } = await prisma.pickup.updateMany({
+      where: { id: pickup.id, completed: false },
       data: {
-        rentalId,
-        scheduled: new Date(scheduled),
-        completed: false,
+        arrivedAt: parsed.data.arrivedAt ?? new Date(),
+        ...(parsed.data.notes !== undefined && { notes: parsed.data.notes }),
       },
     });
+    if (!count) return res.status(400).json({ error: "Pickup already completed" });
 
-    res.status(201).json(pickup);
+    const updatedPickup = await prisma.pickup.findUnique({ where: { id: pickup.id } });
+    res.json(updatedPickup);
   } catch (error) {
     res.status(500).json({ error: error.message });
   }
 });
 
 /**
- * Mark pickup as completed
- * - Only provider or admin
+ * Mark pickup as completed, recording when it actually happened
+ * - Only the assigned staff member or admin
  */
 router.put("/:id/complete", authMiddleware, async (req, res) => {
   try {
+    const parsed = pickupCompleteSchema.safeParse(req.body ?? {});
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.issues });
+
     const pickupId = req.params.id;
 
-    const pickup = await prisma.pickup.findUnique({
-      where: { id: pickupId },
-      include: { rental: { include: { product: true } } },
-    });
+    const pickup = await prisma.pickup.findUnique({ where: { id: pickupId } });
     if (!pickup) return res.status(404).json({ error: "Pickup not found" });
 
-    if (req.user.role !== "ADMIN" && pickup.rental.product.providerId !== req.user.id) {
+    if (!canUpdateJob(req.user, pickup)) {
       return res.status(403).json({ error: "Not authorized to update pickup" });
     }
 
@@ -61,10 +187,26 @@ router.put("/:id/complete", authMiddleware, async (req, res) => {
       return res.status(400).json({ error: "Pickup already completed" });
     }
 
-    const updatedPickup = await prisma.pickup.update({
-      where: { id: pickupId },
-      data: { completed: true },
+    const actualPickup = parsed.data.actualPickup ?? new Date();
+    // Completed only if still open, so of two completions at once the second
+    // gets a 400 instead of overwriting the first
+    const updatedPickup = await prisma.$transaction(async (tx) => {
+      const { count } = await tx.pickup.updateMany({
+        where: { id: pickupId, completed: false },
+        data: {
+          completed: true,
+          actualPickup,
+          ...(parsed.data.notes !== undefined && { notes: parsed.data.notes }),
+        },
+      });
+      if (!count) return null;
+      await tx.pickup.updateMany({
+        where: { id: pickupId, arrivedAt: null },
+        data: { arrivedAt: actualPickup },
+      });
+      return tx.pickup.findUnique({ where: { id: pickupId } });
     });
+    if (!updatedPickup) return res.status(400).json({ error: "Pickup already completed" });
 
     res.json(updatedPickup);
   } catch (error) {
@@ -73,27 +215,64 @@ router.put("/:id/complete", authMiddleware, async (req, res) => {
 });
 
 /**
- * Get all pickups (Admin only)
+ * Get the caller's assigned pickups for a day, in visiting order (Staff only)
+ * - `from`/`to` bound the window; defaults to today
  */
-router.get("/", authMiddleware, isAdmin, async (req, res) => {
+router.get("/assigned", authMiddleware, isStaff, async (req, res) => {
   try {
+    const parsed = assignedJobsQuerySchema.safeParse(req.query);
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.issues });
+
     const pickups = await prisma.pickup.findMany({
+      where: {
+        staffId: req.user.id,
+        scheduled: scheduledWindow(parsed.data),
+      },
       include: {
         rental: {
           include: {
             product: true,
-            customer: true, // Assuming rental.customerId exists
+            address: true,
+            unit: { select: { id: true, serialNumber: true, condition: true } },
+            customer: { select: { id: true, name: true, email: true, phone: true } },
           },
         },
       },
-      orderBy: { scheduled: "desc" },
+      orderBy: { scheduled: "asc" },
     });
+
     res.json(pickups);
   } catch (error) {
     res.status(500).json({ error: error.message });
   }
 });
 
+/**
+ * Get a page of pickups (Admin only)
+ */
+router.get("/", authMiddleware, isAdmin, async (req, res) => {
+  try {
+    const list = parseListQuery(req.query, pickupListOptions);
+    if (!list.success) return res.status(400).json(list.error);
+
+    const page = await findPage(prisma.pickup, list, {
+      include: {
+        staff: { select: { id: true, name: true, email: true } },
+        rental: {
+          include: {
+            product: true,
+            customer: true,
+            address: true,
+          },
+        },
+      },
+    });
+    res.json(page);
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
 /**
  * Get pickups for logged-in provider or customer
  */
@@ -3,6 +3,8 @@ import express from "express";
 import { PrismaClient } from "@prisma/client";
 import { authMiddleware } from "../middlewares/authMiddleware.js";
 import { isAdmin } from "../middlewares/isAdmin.js";
+import { parseListQuery, findPage } from "../lib/pagination.js";
+import { z } from "zod";
 
 const prisma = new PrismaClient();
 const router = express.Router();
@@ -12,12 +14,32 @@ const router = express.Router();
  */
 const isValidDate = (d) => !isNaN(new Date(d).getTime());
 
+const pricelistListOptions = {
+  sortable: ["validFrom", "validTo", "name"],
+  defaultSort: { field: "validFrom", order: "desc" },
+  searchable: ["name", "description"],
+  dateField: "validFrom",
+  filters: { customerGroupId: z.string() },
+};
+
+const pricelistInclude = {
+  customerGroup: { select: { id: true, name: true, priority: true } },
+  items: { include: { product: true } },
+};
+
+// A pricelist's group must exist; returns an error or null
+async function checkCustomerGroup(customerGroupId) {
+  if (!customerGroupId) return null;
+  const group = await prisma.customerGroup.findUnique({ where: { id: customerGroupId } });
+  return group ? null : "Customer group not found";
+}
+
 /**
  * Create a new pricelist
  */
 router.post("/", authMiddleware, isAdmin, async (req, res) => {
   try {
-    const { name, description, validFrom, validTo } = req.body;
+    const { name, description, validFrom, validTo, customerGroupId } = req.body;
 
     if (!name || !validFrom || !validTo) {
       return res.status(400).json({ error: "Name, validFrom, and validTo are required" });
@@ -27,13 +49,18 @@ router.post("/", authMiddleware, isAdmin, async (req, res) => {
       return res.status(400).json({ error: "Invalid date format" });
     }
 
+    const groupError = await checkCustomerGroup(customerGroupId);
+    if (groupError) return res.status(400).json({ error: groupError });
+
     const pricelist = await prisma.pricelist.create({
       data: {
         name,
         description: description || "",
         validFrom: new Date(validFrom),
         validTo: new Date(validTo),
+        customerGroupId: customerGroupId || null,
       },
+      include: pricelistInclude,
     });
 
     res.status(201).json(pricelist);
@@ -43,20 +70,16 @@ router.post("/", authMiddleware, isAdmin, async (req, res) => {
 });
 
 /**
- * Get all pricelists (with optional pagination)
+ * Get a page of pricelists
  */
 router.get("/", async (req, res) => {
   try {
-    const { skip = 0, take = 20 } = req.query;
+    const list = parseListQuery(req.query, pricelistListOptions);
+    if (!list.success) return res.status(400).json(list.error);
 
-    const pricelists = await prisma.pricelist.findMany({
-      skip: parseInt(skip),
-      take: parseInt(take),
-      include: { items: { include: { product: true } } },
-      orderBy: { validFrom: "desc" },
-    });
+    const page = await findPage(prisma.pricelist, list, { include: pricelistInclude });
 
-    res.json(pricelists);
+    res.json(page);
   } catch (error) {
     res.status(500).json({ error: error.message });
   }
@@ -69,7 +92,7 @@ router.get("/:id", async (req, res) => {
   try {
     const pricelist = await prisma.pricelist.findUnique({
       where: { id: req.params.id },
-      include: { items: { include: { product: true } } },
+      include: pricelistInclude,
     });
 
     if (!pricelist) return res.status(404).json({ error: "Pricelist not found" });
@@ -85,7 +108,7 @@ router.get("/:id", async (req, res) => {
  */
 router.put("/:id", authMiddleware, isAdmin, async (req, res) => {
   try {
-    const { name, description, validFrom, validTo } = req.body;
+    const { name, description, validFrom, validTo, customerGroupId } = req.body;
 
     if (validFrom && !isValidDate(validFrom)) {
       return res.status(400).json({ error: "Invalid validFrom date" });
@@ -94,6 +117,9 @@ router.put("/:id", authMiddleware, isAdmin, async (req, res) => {
       return res.status(400).json({ error: "Invalid validTo date" });
     }
 
+    const groupError = await checkCustomerGroup(customerGroupId);
+    if (groupError) return res.status(400).json({ error: groupError });
+
     const updated = await prisma.pricelist.update({
       where: { id: req.params.id },
       data: {
@@ -101,7 +127,9 @@ router.put("/:id", authMiddleware, isAdmin, async (req, res) => {
         description,
         validFrom: validFrom ? new Date(validFrom) : undefined,
         validTo: validTo ? new Date(validTo) : undefined,
+        customerGroupId: customerGroupId === undefined ? undefined : customerGroupId || null,
       },
+      include: pricelistInclude,
     });
 
     res.json(updated);
@@ -6,11 +6,35 @@ import {
   productSchema,
   rentalDurationSchema,
   productAvailabilitySchema,
+  productUnitSchema,
+  productUnitUpdateSchema,
+  availabilityQuerySchema,
+  productBlackoutSchema,
+  priceQuoteQuerySchema,
+  queryBoolean,
 } from "../validate/validate.js";
+import { parseListQuery, findPage } from "../lib/pagination.js";
+import { availabilitySlots, syncProductStock } from "../lib/booking.js";
+import { findRentalConflicts } from "../lib/maintenance.js";
+import { listPrices, quoteRental } from "../lib/pricing.js";
+import { findCustomerGroups } from "../lib/customerGroups.js";
+import { checkPromoCode } from "../lib/promoCodes.js";
+import { z } from "zod";
 
 const prisma = new PrismaClient();
 const router = express.Router();
 
+const productListOptions = {
+  sortable: ["createdAt", "name", "basePrice", "stock"],
+  searchable: ["name", "description", "category"],
+  filters: {
+    category: z.string(),
+    isRentable: queryBoolean,
+    minPrice: { schema: z.coerce.number().nonnegative(), where: (v) => ({ basePrice: { gte: v } }) },
+    maxPrice: { schema: z.coerce.number().nonnegative(), where: (v) => ({ basePrice: { lte: v } }) },
+  },
+};
+
 /**
  * Create a new product (Admin only)
  */
@@ -27,25 +51,51 @@ router.post("/", authMiddleware, isAdmin, async (req, res) => {
 });
 
 /**
- * Get all products with rental durations and availability
+ * Get a page of products with rental durations and availability
+ * - `prices` is the list price for an hour, day, week and month
  */
 router.get("/", async (req, res) => {
   try {
-    const { skip = 0, take = 20 } = req.query;
+    const list = parseListQuery(req.query, productListOptions);
+    if (!list.success) return res.status(400).json(list.error);
 
-    const products = await prisma.product.findMany({
-      skip: Number(skip),
-      take: Number(take),
+    const page = await findPage(prisma.product, list, {
       include: {
         rentalDurations: true,
         availability: {
           orderBy: { startDate: "asc" },
         },
+        _count: { select: { units: true } },
+        maintenance: {
+          where: { status: "COMPLETED" },
+          orderBy: { completedAt: "desc" },
+          take: 1,
+          select: { completedAt: true },
+        },
       },
-      orderBy: { createdAt: "desc" },
     });
 
-    res.json(products);
+    res.json({
+      ...page,
+      data: page.data.map((product) => ({ ...product, prices: listPrices(product) })),
+    });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Product counts per category, for catalog facets
+ */
+router.get("/categories", async (req, res) => {
+  try {
+    const groups = await prisma.product.groupBy({
+      by: ["category"],
+      where: { isRentable: true },
+      _count: { id: true },
+    });
+
+    res.json(groups.map((g) => ({ category: g.category, count: g._count.id })));
   } catch (error) {
     res.status(500).json({ error: error.message });
   }
@@ -63,10 +113,53 @@ router.get("/:id", async (req, res) => {
         availability: {
           orderBy: { startDate: "asc" },
         },
+        _count: { select: { units: true } },
+        maintenance: {
+          where: { status: "COMPLETED" },
+          orderBy: { completedAt: "desc" },
+          take: 1,
+          select: { completedAt: true },
+        },
       },
     });
     if (!product) return res.status(404).json({ error: "Product not found" });
-    res.json(product);
+    res.json({ ...product, prices: listPrices(product) });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Itemised price for renting a product over a range, with the pricelists of
+ * the caller's customer groups
+ * - Admins can price for another customer with `customerId`
+ * - `promoCode` is taken off too; 400 when it doesn't apply
+ */
+router.get("/:id/quote", authMiddleware, async (req, res) => {
+  try {
+    const parsed = priceQuoteQuerySchema.safeParse(req.query);
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.issues });
+
+    const product = await prisma.product.findUnique({ where: { id: req.params.id } });
+    if (!product) return res.status(404).json({ error: "Product not found" });
+
+    const { customerId, promoCode, ...range } = parsed.data;
+    const userId = req.user.role === "ADMIN" && customerId ? customerId : req.user.id;
+
+    let promo = null;
+    if (promoCode) {
+      const check = await checkPromoCode(prisma, promoCode, { userId, product, ...range });
+      if (check.error) return res.status(400).json({ error: check.error });
+      promo = check.promo;
+    }
+
+    const quote = await quoteRental(prisma, {
+      product,
+      ...range,
+      customerGroups: await findCustomerGroups(prisma, userId),
+      promo,
+    });
+    res.json(quote);
   } catch (error) {
     res.status(500).json({ error: error.message });
   }
@@ -78,6 +171,12 @@ router.get("/:id", async (req, res) => {
 router.put("/:id", authMiddleware, isAdmin, async (req, res) => {
   try {
     const parsed = productSchema.partial().parse(req.body);
+    if (parsed.stock !== undefined) {
+      const units = await prisma.productUnit.count({ where: { productId: req.params.id } });
+      if (units > 0) {
+        return res.status(400).json({ error: "Stock is counted from the product's units" });
+      }
+    }
     const product = await prisma.product.update({
       where: { id: req.params.id },
       data: parsed,
@@ -163,6 +262,28 @@ router.post("/:id/availability", authMiddleware, isAdmin, async (req, res) => {
   }
 });
 
+/**
+ * Free capacity per day or hour, computed from stock, reserving rentals,
+ * open maintenance and blackouts
+ */
+router.get("/:id/availability", async (req, res) => {
+  try {
+    const parsed = availabilityQuerySchema.safeParse(req.query);
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.issues });
+
+    const product = await prisma.product.findUnique({ where: { id: req.params.id } });
+    if (!product) return res.status(404).json({ error: "Product not found" });
+
+    const { from, to, granularity } = parsed.data;
+    const slotMs = (granularity === "hour" ? 1 : 24) * 60 * 60 * 1000;
+    const { stock, slots } = await availabilitySlots(prisma, product, from, to, slotMs);
+
+    res.json({ productId: product.id, granularity, from, to, stock, slots });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
 /**
  * Update availability slot (Admin only)
  */
@@ -201,4 +322,250 @@ router.delete("/availability/:availabilityId", authMiddleware, isAdmin, async (r
   }
 });
 
+/**
+ * List a product's blackout periods, earliest first
+ */
+router.get("/:id/blackouts", async (req, res) => {
+  try {
+    const blackouts = await prisma.productBlackout.findMany({
+      where: { productId: req.params.id },
+      orderBy: { startDate: "asc" },
+    });
+    res.json(blackouts);
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Block a product from rental for a period (Admin only)
+ * - Refused (409) while CONFIRMED/ACTIVE rentals overlap it
+ */
+router.post("/:id/blackouts", authMiddleware, isAdmin, async (req, res) => {
+  try {
+    const parsed = productBlackoutSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.issues });
+
+    const product = await prisma.product.findUnique({ where: { id: req.params.id } });
+    if (!product) return res.status(404).json({ error: "Product not found" });
+
+    const rentals = await findRentalConflicts(prisma, { productId: product.id, ...parsed.data });
+    if (rentals.length > 0) {
+      return res.status(409).json({ error: "Rentals are booked in this period", rentals });
+    }
+
+    const blackout = await prisma.productBlackout.create({
+      data: { ...parsed.data, productId: product.id },
+    });
+    res.status(201).json(blackout);
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Remove a blackout period (Admin only)
+ */
+router.delete("/blackouts/:blackoutId", authMiddleware, isAdmin, async (req, res) => {
+  try {
+    const blackout = await prisma.productBlackout.findUnique({ where: { id: req.params.blackoutId } });
+    if (!blackout) return res.status(404).json({ error: "Blackout not found" });
+
+    await prisma.productBlackout.delete({ where: { id: blackout.id } });
+    res.json({ message: "Blackout removed" });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Reserving rentals bound to a unit that haven't ended yet
+const upcomingRentalsWhere = () => ({
+  status: { in: ["CONFIRMED", "ACTIVE"] },
+  endDate: { gt: new Date() },
+});
+
+/**
+ * List a product's units with their upcoming rentals (Admin only)
+ */
+router.get("/:id/units", authMiddleware, isAdmin, async (req, res) => {
+  try {
+    const product = await prisma.product.findUnique({ where: { id: req.params.id } });
+    if (!product) return res.status(404).json({ error: "Product not found" });
+
+    const units = await prisma.productUnit.findMany({
+      where: { productId: req.params.id },
+      orderBy: { serialNumber: "asc" },
+    });
+    const rentals = await prisma.rental.findMany({
+      where: {
+        ...upcomingRentalsWhere(),
+        items: { some: { productId: product.id, unitIds: { hasSome: units.map((unit) => unit.id) } } },
+      },
+      orderBy: { startDate: "asc" },
+      select: {
+        id: true,
+        orderReference: true,
+        status: true,
+        startDate: true,
+        endDate: true,
+        customer: { select: { id: true, name: true } },
+        items: { where: { productId: product.id }, select: { unitIds: true } },
+      },
+    });
+    // A rental is listed under every unit its lines hold
+    res.json(
+      units.map((unit) => ({
+        ...unit,
+        rentals: rentals
+          .filter((rental) => rental.items.some((item) => item.unitIds.includes(unit.id)))
+          .map(({ items, ...rental }) => rental),
+      }))
+    );
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Add a serial-numbered unit to a product (Admin only)
+ * - The product's stock becomes its number of bookable units
+ */
+router.post("/:id/units", authMiddleware, isAdmin, async (req, res) => {
+  try {
+    const parsed = productUnitSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.issues });
+
+    const product = await prisma.product.findUnique({ where: { id: req.params.id } });
+    if (!product) return res.status(404).json({ error: "Product not found" });
+
+    const duplicate = await prisma.productUnit.findUnique({
+      where: { serialNumber: parsed.data.serialNumber },
+    });
+    if (duplicate) return res.status(409).json({ error: "Serial number already registered" });
+
+    const unit = await prisma.$transaction(async (tx) => {
+      const created = await tx.productUnit.create({
+        data: {
+          ...parsed.data,
+          productId: product.id,
+          conditionLogs: {
+            create: { oldCondition: null, newCondition: parsed.data.condition, recordedById: req.user.id },
+          },
+        },
+      });
+      await syncProductStock(tx, product.id);
+      return created;
+    });
+
+    res.status(201).json(unit);
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Update a unit (Admin only)
+ * - Condition changes are added to the unit's history
+ * - A unit out on a rental can't change status by hand, and one with
+ *   upcoming bookings can't be taken out of service
+ */
+router.put("/units/:unitId", authMiddleware, isAdmin, async (req, res) => {
+  try {
+    const parsed = productUnitUpdateSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.issues });
+
+    const unit = await prisma.productUnit.findUnique({ where: { id: req.params.unitId } });
+    if (!unit) return res.status(404).json({ error: "Unit not found" });
+
+    const { conditionNotes, ...data } = parsed.data;
+
+    if (data.serialNumber && data.serialNumber !== unit.serialNumber) {
+      const duplicate = await prisma.productUnit.findUnique({
+        where: { serialNumber: data.serialNumber },
+      });
+      if (duplicate) return res.status(409).json({ error: "Serial number already registered" });
+    }
+
+    if (data.status && data.status !== unit.status) {
+      const rentals = await prisma.rental.findMany({
+        where: { items: { some: { unitIds: { has: unit.id } } }, ...upcomingRentalsWhere() },
+        select: { id: true, orderReference: true, status: true, startDate: true, endDate: true },
+      });
+      if (unit.status === "RENTED" || (data.status !== "AVAILABLE" && rentals.length > 0)) {
+        return res.status(409).json({
+          error: unit.status === "RENTED"
+            ? "Unit is out on a rental"
+            : "Unit has upcoming rentals; cancel or move them first",
+          rentals,
+        });
+      }
+    }
+
+    const updated = await prisma.$transaction(async (tx) => {
+      const saved = await tx.productUnit.update({ where: { id: unit.id }, data });
+      if (data.condition && data.condition !== unit.condition) {
+        await tx.unitConditionLog.create({
+          data: {
+            unitId: unit.id,
+            oldCondition: unit.condition,
+            newCondition: data.condition,
+            notes: conditionNotes,
+            recordedById: req.user.id,
+          },
+        });
+      }
+      if (data.status) await syncProductStock(tx, unit.productId);
+      return saved;
+    });
+
+    res.json(updated);
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Delete a unit that was never rented (Admin only); retire it otherwise
+ */
+router.delete("/units/:unitId", authMiddleware, isAdmin, async (req, res) => {
+  try {
+    const unit = await prisma.productUnit.findUnique({ where: { id: req.params.unitId } });
+    if (!unit) return res.status(404).json({ error: "Unit not found" });
+
+    const rented = await prisma.rentalItem.count({ where: { unitIds: { has: unit.id } } });
+    if (rented > 0) {
+      return res.status(409).json({ error: "Unit has rental history; retire it instead" });
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.productUnit.delete({ where: { id: unit.id } });
+      // Deleting the last unit leaves the product on its final stock count
+      await syncProductStock(tx, unit.productId);
+    });
+
+    res.json({ message: "Unit deleted" });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Condition history of a unit, newest first (Admin only)
+ */
+router.get("/units/:unitId/history", authMiddleware, isAdmin, async (req, res) => {
+  try {
+    const unit = await prisma.productUnit.findUnique({ where: { id: req.params.unitId } });
+    if (!unit) return res.status(404).json({ error: "Unit not found" });
+
+    const history = await prisma.unitConditionLog.findMany({
+      where: { unitId: unit.id },
+      orderBy: { recordedAt: "desc" },
+      include: { recordedBy: { select: { id: true, name: true } } },
+    });
+    res.json(history);
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
 export default router;
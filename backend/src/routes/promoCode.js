@@ -0,0 +1,147 @@
+// routes/promoCode.routes.js
+import express from "express";
+import { PrismaClient } from "@prisma/client";
+import { authMiddleware } from "../middlewares/authMiddleware.js";
+import { isAdmin } from "../middlewares/isAdmin.js";
+import { checkPromoCode } from "../lib/promoCodes.js";
+import { promoDiscount, roundMoney } from "../lib/pricing.js";
+import {
+  promoCodeSchema,
+  promoCodeUpdateSchema,
+  promoCodeCheckSchema,
+  promoPercentageIsValid,
+} from "../validate/validate.js";
+
+const prisma = new PrismaClient();
+const router = express.Router();
+
+const promoInclude = { _count: { select: { redemptions: true } } };
+
+/**
+ * List promo codes, newest first (Admin only)
+ */
+router.get("/", authMiddleware, isAdmin, async (req, res) => {
+  try {
+    const promoCodes = await prisma.promoCode.findMany({
+      include: promoInclude,
+      orderBy: { createdAt: "desc" },
+    });
+    res.json(promoCodes);
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Try a code before booking (Protected)
+ * - Restrictions are checked against whichever of `productId`, `startDate`
+ *   and `endDate` are given
+ * - With `amount`, returns the discount and the total after it
+ */
+router.post("/check", authMiddleware, async (req, res) => {
+  try {
+    const parsed = promoCodeCheckSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.issues });
+
+    const { code, amount, productId, startDate, endDate } = parsed.data;
+    let product;
+    if (productId) {
+      product = await prisma.product.findUnique({ where: { id: productId } });
+      if (!product) return res.status(404).json({ error: "Product not found" });
+    }
+
+    const check = await checkPromoCode(prisma, code, {
+      userId: req.user.id,
+      product,
+      startDate,
+      endDate,
+    });
+    if (check.error) return res.status(400).json({ error: check.error });
+
+    const { promo } = check;
+    const discount = amount === undefined ? null : promoDiscount(promo, amount);
+    res.json({
+      code: promo.code,
+      description: promo.description,
+      discountType: promo.discountType,
+      value: promo.value,
+      discount,
+      total: discount === null ? null : roundMoney(amount - discount),
+    });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Create a promo code (Admin only)
+ */
+router.post("/", authMiddleware, isAdmin, async (req, res) => {
+  try {
+    const parsed = promoCodeSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.issues });
+
+    const existing = await prisma.promoCode.findUnique({ where: { code: parsed.data.code } });
+    if (existing) return res.status(409).json({ error: "A promo code with this code already exists" });
+
+    const promoCode = await prisma.promoCode.create({ data: parsed.data, include: promoInclude });
+    res.status(201).json(promoCode);
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Update a promo code (Admin only)
+ * - Redemptions already made keep the discount they were given
+ */
+router.put("/:id", authMiddleware, isAdmin, async (req, res) => {
+  try {
+    const parsed = promoCodeUpdateSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.issues });
+
+    const promoCode = await prisma.promoCode.findUnique({ where: { id: req.params.id } });
+    if (!promoCode) return res.status(404).json({ error: "Promo code not found" });
+
+    if (!promoPercentageIsValid({ ...promoCode, ...parsed.data })) {
+      return res.status(400).json({ error: "A percentage discount can't exceed 100" });
+    }
+    if (parsed.data.code && parsed.data.code !== promoCode.code) {
+      const clash = await prisma.promoCode.findUnique({ where: { code: parsed.data.code } });
+      if (clash) return res.status(409).json({ error: "A promo code with this code already exists" });
+    }
+
+    const updated = await prisma.promoCode.update({
+      where: { id: promoCode.id },
+      data: parsed.data,
+      include: promoInclude,
+    });
+    res.json(updated);
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Delete a promo code (Admin only); one that has been used can only be
+ * deactivated
+ */
+router.delete("/:id", authMiddleware, isAdmin, async (req, res) => {
+  try {
+    const promoCode = await prisma.promoCode.findUnique({
+      where: { id: req.params.id },
+      include: promoInclude,
+    });
+    if (!promoCode) return res.status(404).json({ error: "Promo code not found" });
+    if (promoCode._count.redemptions > 0) {
+      return res.status(409).json({ error: "Promo code has been used; deactivate it instead" });
+    }
+
+    await prisma.promoCode.delete({ where: { id: promoCode.id } });
+    res.json({ message: "Promo code deleted" });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+export default router;
@@ -1,9 +1,27 @@
 // routes/quotation.routes.js
 import express from "express";
 import pkg from '@prisma/client';
-const { PrismaClient, RentalStatus, Role } = pkg; 
+const { PrismaClient, RentalStatus } = pkg;
 import { authMiddleware } from "../middlewares/authMiddleware.js";
 import { isAdmin } from "../middlewares/isAdmin.js";
+import { lockRental, moveRental } from "../lib/rentalStatus.js";
+import { quoteOrder } from "../lib/pricing.js";
+import { findCustomerGroups } from "../lib/customerGroups.js";
+import { checkPromoCode, reservePromoCode } from "../lib/promoCodes.js";
+import {
+  answerQuotation,
+  isExpired,
+  linesFromInput,
+  linesFromQuote,
+  reviseQuotation,
+  sumLines,
+} from "../lib/quotations.js";
+import { renderQuotationPdf } from "../lib/quotationPdf.js";
+import {
+  quotationCounterSchema,
+  quotationRejectSchema,
+  quotationSchema,
+} from "../validate/validate.js";
 
 const prisma = new PrismaClient();
 const router = express.Router();
@@ -13,107 +31,262 @@ const router = express.Router();
  */
 const parseId = (id) => id?.toString().trim();
 
+const revisionsInclude = {
+  revisions: { include: { lines: { orderBy: { position: "asc" } } }, orderBy: { version: "desc" } },
+};
+
+// Why the customer can't answer a quotation in each status but SENT
+const CLOSED_MESSAGES = {
+  ACCEPTED: "Quotation already accepted",
+  REJECTED: "Quotation was rejected; wait for a revised one",
+  COUNTERED: "Your counter-offer is waiting for a revised quotation",
+  EXPIRED: "Quotation has expired",
+};
+
 /**
- * Create or update a quotation for a rental
- * - Only provider or admin can create/update quotation
+ * Answer the quotation `req.params.id` as the logged-in customer with
+ * `status` (ACCEPTED, REJECTED or COUNTERED), in one transaction holding the
+ * rental's lock. Under the lock the quotation is read again and refused with
+ * 409 when it was revised since the customer's request first read it, was
+ * already answered, or the rental no longer awaits confirmation. One past its
+ * validTill is expired on the spot. Accepting confirms the rental in the same
+ * transaction.
+ *
+ * Returns { quotation }, { alternatives, productId } when accepting found no
+ * units free, or { error, status }.
  */
-router.post("/", authMiddleware, async (req, res) => {
-  try {
-    const rentalId = parseId(req.body.rentalId);
-    const { price, validTill } = req.body;
+async function answerOpenQuotation(req, status, { counterPrice, note } = {}) {
+  const seen = await prisma.quotation.findUnique({
+    where: { id: parseId(req.params.id) },
+    include: { rental: true },
+  });
+  if (!seen) return { status: 404, error: "Quotation not found" };
 
-    if (!rentalId || !price) {
-      return res.status(400).json({ error: "rentalId and price are required" });
+  // Only the customer who created the rental can answer
+  if (seen.rental.customerId !== req.user.id) {
+    return { status: 403, error: "Not authorized to answer this quotation" };
+  }
+
+  return prisma.$transaction(async (tx) => {
+    await lockRental(tx, seen.rentalId);
+    const quotation = await tx.quotation.findUnique({ where: { id: seen.id }, include: { rental: true } });
+    if (!quotation) return { status: 404, error: "Quotation not found" };
+    if (quotation.version !== seen.version) {
+      return {
+        status: 409,
+        error: `The quotation was revised in the meantime; review version ${quotation.version} first`,
+      };
+    }
+    if (quotation.status !== "SENT") return { status: 409, error: CLOSED_MESSAGES[quotation.status] };
+    if (quotation.rental.status !== RentalStatus.QUOTATION) {
+      return { status: 409, error: "This rental is no longer awaiting confirmation" };
     }
+    if (isExpired(quotation)) {
+      await answerQuotation(tx, quotation, "EXPIRED");
+      return {
+        status: 409,
+        error: `Quotation expired on ${quotation.validTill.toISOString().slice(0, 10)}`,
+      };
+    }
+
+    if (status === "ACCEPTED") {
+      // Confirming reserves units, so it can fail when the dates filled up
+      const moved = await moveRental(tx, quotation.rental, RentalStatus.CONFIRMED, { userId: req.user.id });
+      if (!moved.rental) return moved;
+    }
+    return { quotation: await answerQuotation(tx, quotation, status, { counterPrice, note }) };
+  });
+}
+
+/**
+ * The quotation `req.params.id` with its rental when the logged-in user may
+ * see it (Admin, or the rental's customer).
+ *
+ * Returns { quotation } or { error, status }.
+ */
+async function findVisibleQuotation(req, include = {}) {
+  const quotation = await prisma.quotation.findUnique({
+    where: { id: parseId(req.params.id) },
+    include: { rental: { include: { customer: true } }, ...include },
+  });
+  if (!quotation) return { status: 404, error: "Quotation not found" };
+  if (req.user.role !== "ADMIN" && quotation.rental.customerId !== req.user.id) {
+    return { status: 403, error: "Not authorized" };
+  }
+  return { quotation };
+}
+
+/**
+ * Send a rental a new revision of its quotation (Admin only); earlier
+ * revisions are kept, and one still awaiting an answer is superseded
+ * - Without `price` or `lines`, each line of the rental is priced by the
+ *   pricing engine with the pricelists of the customer's groups, and its promo
+ *   code comes off the total: `promoCode` replaces the one it has, null
+ *   removes it
+ * - `lines` are priced by hand; a `price` alone becomes a single line. Either
+ *   drops the rental's promo code
+ * - Refused with 409 once the quotation was accepted or the rental no longer
+ *   awaits confirmation
+ */
+router.post("/", authMiddleware, isAdmin, async (req, res) => {
+  try {
+    const parsed = quotationSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.issues });
+
+    const { rentalId, price, validTill, notes, promoCode } = parsed.data;
+    const computed = price === undefined && parsed.data.lines === undefined;
 
     // Fetch rental with product info
     const rental = await prisma.rental.findUnique({
       where: { id: rentalId },
-      include: { product: true },
+      include: {
+        items: { include: { product: true } },
+        promoRedemption: { include: { promoCode: true } },
+        quotation: true,
+      },
     });
 
     if (!rental) {
       return res.status(404).json({ error: "Rental not found" });
     }
+    if (rental.quotation?.status === "ACCEPTED") {
+      return res.status(409).json({ error: "This quotation was accepted and can't be revised" });
+    }
+    if (rental.status !== RentalStatus.QUOTATION) {
+      return res.status(409).json({ error: "This rental is no longer awaiting confirmation" });
+    }
 
-    // Only provider or admin can create/update quotation
-    if (
-      req.user.role !== Role.ADMIN &&
-      rental.product.providerId !== req.user.id
-    ) {
-      return res.status(403).json({ error: "Not authorized to quote this rental" });
+    let promo = null;
+    if (computed && promoCode) {
+      const check = await checkPromoCode(prisma, promoCode, {
+        userId: rental.customerId,
+        products: rental.items.map((item) => item.product),
+        startDate: rental.startDate,
+        endDate: rental.endDate,
+        excludeRentalId: rental.id,
+      });
+      if (check.error) return res.status(400).json({ error: check.error });
+      promo = check.promo;
+    } else if (computed && promoCode === undefined) {
+      promo = rental.promoRedemption?.promoCode ?? null;
     }
 
-    // Check if quotation already exists for this rental
-    const existingQuotation = await prisma.quotation.findUnique({
-      where: { rentalId },
-    });
+    const breakdown = computed
+      ? await quoteOrder(prisma, {
+          items: rental.items,
+          customerGroups: await findCustomerGroups(prisma, rental.customerId),
+          promo,
+        })
+      : null;
+    const lines = breakdown
+      ? linesFromQuote(breakdown)
+      : linesFromInput(parsed.data.lines ?? [{ description: "Rental", quantity: 1, unitPrice: price }]);
+    if (sumLines(lines) < 0) {
+      return res.status(400).json({ error: "The quotation's lines add up to less than zero" });
+    }
 
-    let quotation;
-    if (existingQuotation) {
-      quotation = await prisma.quotation.update({
-        where: { rentalId },
-        data: {
-          price,
-          validTill: validTill ? new Date(validTill) : null,
-          isAccepted: false,
-        },
-      });
-    } else {
-      quotation = await prisma.quotation.create({
-        data: {
-          rentalId,
-          price,
-          validTill: validTill ? new Date(validTill) : null,
-          isAccepted: false,
-        },
+    const result = await prisma.$transaction(async (tx) => {
+      // Serialised with the customer answering, so an accepted quotation
+      // can't be revised
+      await lockRental(tx, rentalId);
+      const current = await tx.quotation.findUnique({ where: { rentalId } });
+      if (current?.status === "ACCEPTED") {
+        return { error: "This quotation was accepted and can't be revised" };
+      }
+
+      // A code the rental already had is counted already
+      const applied = breakdown?.promoCode;
+      if (applied && applied.id !== rental.promoRedemption?.promoCodeId) {
+        const error = await reservePromoCode(tx, applied.id, rental.customerId, rental.id);
+        if (error) return { error };
+      }
+      await tx.promoRedemption.deleteMany({ where: { rentalId } });
+      if (applied) {
+        await tx.promoRedemption.create({
+          data: {
+            promoCodeId: applied.id,
+            rentalId,
+            userId: rental.customerId,
+            amount: applied.discount,
+          },
+        });
+      }
+
+      const quotation = await reviseQuotation(tx, rentalId, {
+        lines,
+        breakdown,
+        validTill: validTill ?? null,
+        notes: notes ?? null,
+        userId: req.user.id,
       });
-    }
+      return { quotation };
+    });
+    if (result.error) return res.status(409).json({ error: result.error });
 
-    res.status(200).json(quotation);
+    res.status(200).json(result.quotation);
   } catch (error) {
     res.status(500).json({ error: error.message });
   }
 });
 
 /**
- * Accept a quotation (Customer action)
+ * Accept the latest revision of a quotation (Customer action), which
+ * confirms the rental
+ * - Refused with 409 once it was answered or revised in the meantime, or
+ *   when its validTill has passed (it's then marked EXPIRED)
  */
 router.post("/:id/accept", authMiddleware, async (req, res) => {
   try {
-    const quotationId = parseId(req.params.id);
+    const result = await answerOpenQuotation(req, "ACCEPTED");
+    if (result.error) return res.status(result.status).json({ error: result.error });
+    if (!result.quotation) {
+      return res.status(409).json({
+        error: "No units available for this rental's dates",
+        productId: result.productId,
+        alternatives: result.alternatives,
+      });
+    }
 
-    const quotation = await prisma.quotation.findUnique({
-      where: { id: quotationId },
-      include: { rental: true },
-    });
+    res.json(result.quotation);
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
 
-    if (!quotation) {
-      return res.status(404).json({ error: "Quotation not found" });
-    }
+/**
+ * Reject the latest revision of a quotation (Customer action); the rental
+ * stays open for a revised one
+ */
+router.post("/:id/reject", authMiddleware, async (req, res) => {
+  try {
+    const parsed = quotationRejectSchema.safeParse(req.body ?? {});
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.issues });
 
-    // Only the customer who created the rental can accept
-    if (quotation.rental.customerId !== req.user.id) {
-      return res.status(403).json({ error: "Not authorized to accept this quotation" });
-    }
+    const result = await answerOpenQuotation(req, "REJECTED", { note: parsed.data.note ?? null });
+    if (result.error) return res.status(result.status).json({ error: result.error });
 
-    if (quotation.isAccepted) {
-      return res.status(400).json({ error: "Quotation already accepted" });
-    }
+    res.json(result.quotation);
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
 
-    // Accept quotation
-    const updatedQuotation = await prisma.quotation.update({
-      where: { id: quotationId },
-      data: { isAccepted: true },
-    });
+/**
+ * Answer the latest revision of a quotation with the price the customer would
+ * pay instead (Customer action); an admin replies with a new revision
+ */
+router.post("/:id/counter", authMiddleware, async (req, res) => {
+  try {
+    const parsed = quotationCounterSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.issues });
 
-    // Update rental status
-    await prisma.rental.update({
-      where: { id: quotation.rentalId },
-      data: { status: RentalStatus.CONFIRMED },
+    const result = await answerOpenQuotation(req, "COUNTERED", {
+      counterPrice: parsed.data.price,
+      note: parsed.data.note ?? null,
     });
+    if (result.error) return res.status(result.status).json({ error: result.error });
 
-    res.json(updatedQuotation);
+    res.json(result.quotation);
   } catch (error) {
     res.status(500).json({ error: error.message });
   }
@@ -142,30 +315,16 @@ router.get("/", authMiddleware, isAdmin, async (req, res) => {
 });
 
 /**
- * Get quotations for the logged-in user
+ * Get quotations for the logged-in user, with their revisions newest first
+ * (Admins see every quotation)
  */
 router.get("/my", authMiddleware, async (req, res) => {
   try {
-    let quotations;
-
-    if (req.user.role === Role.CUSTOMER) {
-      quotations = await prisma.quotation.findMany({
-        where: { rental: { customerId: req.user.id } },
-        include: { rental: { include: { product: true } } },
-        orderBy: { createdAt: "desc" },
-      });
-    } else if (req.user.role === Role.PROVIDER) {
-      quotations = await prisma.quotation.findMany({
-        where: { rental: { product: { providerId: req.user.id } } },
-        include: { rental: { include: { customer: true, product: true } } },
-        orderBy: { createdAt: "desc" },
-      });
-    } else {
-      quotations = await prisma.quotation.findMany({
-        include: { rental: { include: { product: true, customer: true } } },
-        orderBy: { createdAt: "desc" },
-      });
-    }
+    const quotations = await prisma.quotation.findMany({
+      where: req.user.role === "ADMIN" ? {} : { rental: { customerId: req.user.id } },
+      include: { rental: { include: { product: true, customer: true } }, ...revisionsInclude },
+      orderBy: { createdAt: "desc" },
+    });
 
     res.json(quotations);
   } catch (error) {
@@ -173,6 +332,48 @@ router.get("/my", authMiddleware, async (req, res) => {
   }
 });
 
+/**
+ * Every revision of a quotation, newest first, with its lines (Admin, or the
+ * rental's customer)
+ */
+router.get("/:id/revisions", authMiddleware, async (req, res) => {
+  try {
+    const { quotation, error, status } = await findVisibleQuotation(req, revisionsInclude);
+    if (error) return res.status(status).json({ error });
+
+    res.json(quotation.revisions);
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * One revision of a quotation as a PDF download (Admin, or the rental's
+ * customer)
+ */
+router.get("/:id/revisions/:version/pdf", authMiddleware, async (req, res) => {
+  try {
+    const { quotation, error, status } = await findVisibleQuotation(req);
+    if (error) return res.status(status).json({ error });
+
+    const version = Number(req.params.version);
+    const revision = Number.isInteger(version)
+      ? await prisma.quotationRevision.findUnique({
+          where: { quotationId_version: { quotationId: quotation.id, version } },
+          include: { lines: { orderBy: { position: "asc" } } },
+        })
+      : null;
+    if (!revision) return res.status(404).json({ error: "Revision not found" });
+
+    const filename = `quotation-${quotation.rental.orderReference}-v${revision.version}.pdf`;
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+    renderQuotationPdf(quotation.rental, revision).pipe(res);
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
 /**
  * Delete a quotation (Admin only)
  */
@@ -1,84 +1,173 @@
 // routes/rental.routes.js
 import express from "express";
-import { PrismaClient, RentalStatus } from "@prisma/client";
+import { PrismaClient } from "@prisma/client";
 import { authMiddleware } from "../middlewares/authMiddleware.js";
 import { isAdmin } from "../middlewares/isAdmin.js";
+import { parseListQuery, findPage } from "../lib/pagination.js";
+import { bookRental, orderSpan } from "../lib/booking.js";
+import { allowedTransitions, canTransition, transitionRental } from "../lib/rentalStatus.js";
+import { canExtend } from "../lib/extensions.js";
+import { quoteCancellation } from "../lib/cancellations.js";
+import { buildRentalTimeline } from "../lib/timeline.js";
+import { quoteOrder } from "../lib/pricing.js";
+import { findCustomerGroups } from "../lib/customerGroups.js";
+import { checkPromoCode } from "../lib/promoCodes.js";
+import {
+  RentalStatusEnum,
+  rentalBookingSchema,
+  rentalStatusUpdateSchema,
+} from "../validate/validate.js";
+import { z } from "zod";
 
 const prisma = new PrismaClient();
 const router = express.Router();
 
+const rentalListOptions = {
+  sortable: ["createdAt", "startDate", "endDate", "status", "customer.name", "product.name"],
+  searchable: ["orderReference", "customer.name", "customer.email", "product.name"],
+  dateField: "startDate",
+  filters: {
+    status: RentalStatusEnum,
+    customerId: z.string(),
+    productId: z.string(),
+  },
+};
+
+// The lines of a booking request with their products, its address and its
+// quote, or { status, error } when it can't be booked
+async function prepareOrder(userId, { productId, items, startDate, endDate, addressId, promoCode }) {
+  const lines = (items ?? [{ productId, quantity: 1 }]).map((item) => ({
+    productId: item.productId,
+    quantity: item.quantity,
+    startDate: item.startDate ?? startDate,
+    endDate: item.endDate ?? endDate,
+  }));
+
+  if (lines.some((line) => line.startDate < new Date(new Date().setHours(0, 0, 0, 0)))) {
+    return { status: 400, error: "startDate cannot be in the past" };
+  }
+
+  // Validate products exist
+  const products = await prisma.product.findMany({
+    where: { id: { in: lines.map((line) => line.productId) } },
+  });
+  for (const line of lines) {
+    line.product = products.find((product) => product.id === line.productId);
+    if (!line.product) return { status: 404, error: "Product not found", productId: line.productId };
+    if (!line.product.isRentable) {
+      return { status: 400, error: "Product is not available for rent", productId: line.productId };
+    }
+  }
+
+  // Deliver to the chosen address, or the customer's default
+  const address = await prisma.address.findFirst({
+    where: addressId ? { id: addressId, userId } : { userId, isDefault: true },
+  });
+  if (addressId && !address) {
+    return { status: 400, error: "Address not found" };
+  }
+
+  let promo = null;
+  if (promoCode) {
+    const check = await checkPromoCode(prisma, promoCode, {
+      userId,
+      products,
+      ...orderSpan(lines),
+    });
+    if (check.error) return { status: 400, error: check.error };
+    promo = check.promo;
+  }
+
+  const quote = await quoteOrder(prisma, {
+    items: lines,
+    customerGroups: await findCustomerGroups(prisma, userId),
+    promo,
+  });
+  return { items: lines, address, quote };
+}
+
 /**
- * Create a rental booking
+ * Create a rental booking, for one `productId` or an order of several `items`
+ * - Each line runs for the order's dates unless it has its own
+ * - Holds no stock yet (QUOTATION), but is refused with 409 and nearby free
+ *   windows for the first line whose units are all reserved for its range
+ * - Comes with one priced quotation for the whole order, less any
+ *   `promoCode`; a code that doesn't apply is refused with 400
+ * - Takes the booked products out of the customer's cart
  */
 router.post("/", authMiddleware, async (req, res) => {
   try {
-    const { productId, availabilityId, startDate, endDate, price } = req.body;
-
-    // Validate product exists
-    const product = await prisma.product.findUnique({
-      where: { id: productId },
-    });
-    if (!product) return res.status(404).json({ error: "Product not found" });
+    const parsed = rentalBookingSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.issues });
 
-    // Check if availability slot exists and is free
-    const availability = await prisma.productAvailability.findUnique({
-      where: { id: availabilityId },
-    });
-
-    if (!availability || availability.isBooked) {
-      return res.status(400).json({ error: "Slot unavailable" });
+    const order = await prepareOrder(req.user.id, parsed.data);
+    if (order.error) {
+      const { status, ...body } = order;
+      return res.status(status).json(body);
     }
 
-    // Create rental with initial status QUOTATION
-    const rental = await prisma.rental.create({
-      data: {
-        customerId: req.user.id,
-        productId,
-        availabilityId,
-        startDate: new Date(startDate),
-        endDate: new Date(endDate),
-        price,
-        status: RentalStatus.QUOTATION,
-      },
+    const booking = await bookRental(prisma, {
+      customerId: req.user.id,
+      items: order.items,
+      addressId: order.address?.id,
+      quote: order.quote,
     });
+    if (booking.error) return res.status(409).json({ error: booking.error });
+    if (!booking.rental) {
+      return res.status(409).json({
+        error: "No units available for the requested dates",
+        productId: booking.productId,
+        alternatives: booking.alternatives,
+      });
+    }
 
-    // Mark availability as booked
-    await prisma.productAvailability.update({
-      where: { id: availabilityId },
-      data: { isBooked: true },
+    await prisma.cartItem.deleteMany({
+      where: { userId: req.user.id, productId: { in: order.items.map((item) => item.productId) } },
     });
+    res.status(201).json(booking.rental);
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
 
-    // Log rental history
-    await prisma.rentalHistory.create({
-      data: {
-        rentalId: rental.id,
-        oldStatus: null,
-        newStatus: RentalStatus.QUOTATION,
-        changedById: req.user.id,
-      },
-    });
+/**
+ * Price a booking request without booking it: the body of POST /rental
+ */
+router.post("/quote", authMiddleware, async (req, res) => {
+  try {
+    const parsed = rentalBookingSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.issues });
 
-    res.status(201).json(rental);
+    const order = await prepareOrder(req.user.id, parsed.data);
+    if (order.error) {
+      const { status, ...body } = order;
+      return res.status(status).json(body);
+    }
+    res.json(order.quote);
   } catch (error) {
     res.status(500).json({ error: error.message });
   }
 });
 
 /**
- * Get all rentals (Admin only)
+ * Get a page of rentals (Admin only)
  */
 router.get("/", authMiddleware, isAdmin, async (req, res) => {
   try {
-    const rentals = await prisma.rental.findMany({
+    const list = parseListQuery(req.query, rentalListOptions);
+    if (!list.success) return res.status(400).json(list.error);
+
+    const page = await findPage(prisma.rental, list, {
       include: {
         product: true,
+        items: { include: { product: true } },
+        unit: true,
         customer: true,
-        history: true,
+        rentalHistories: true,
         quotation: true,
       },
-      orderBy: { createdAt: "desc" },
     });
-    res.json(rentals);
+    res.json(page);
   } catch (error) {
     res.status(500).json({ error: error.message });
   }
@@ -96,12 +185,28 @@ router.get("/my", authMiddleware, async (req, res) => {
         where: { customerId: req.user.id },
         include: {
           product: true,
+          items: { include: { product: true } },
           rentalHistories: true, // <-- FIXED
-          quotation: true,
+          quotation: {
+            include: {
+              revisions: { include: { lines: { orderBy: { position: "asc" } } }, orderBy: { version: "desc" } },
+            },
+          },
+          address: true,
+          unit: { select: { id: true, serialNumber: true, condition: true } },
+          deposit: { include: { entries: { orderBy: { createdAt: "asc" } } } },
+          extensions: { orderBy: { createdAt: "desc" } },
         },
         orderBy: { createdAt: "desc" },
       });
-    res.json(rentals);
+    // Whether the customer may ask for another extension, or cancel, right now
+    res.json(
+      rentals.map((rental) => ({
+        ...rental,
+        canExtend: canExtend(rental) && !rental.extensions.some((ext) => ext.status === "PENDING"),
+        canCancel: canTransition(rental.status, "CANCELLED", req.user.role),
+      }))
+    );
   } catch (error) {
     console.error("Error in /api/rental/my:", error);
     res.status(500).json({ error: error.message });
@@ -109,48 +214,107 @@ router.get("/my", authMiddleware, async (req, res) => {
 });
 
 /**
- * Update rental status
+ * What cancelling the rental now would refund (Admin, or the rental's customer)
  */
-router.put("/:id/status", authMiddleware, async (req, res) => {
+router.get("/:id/cancellation", authMiddleware, async (req, res) => {
   try {
-    const { status } = req.body;
+    const rental = await prisma.rental.findUnique({ where: { id: req.params.id } });
+    if (!rental) return res.status(404).json({ error: "Rental not found" });
+    if (req.user.role !== "ADMIN" && rental.customerId !== req.user.id) {
+      return res.status(403).json({ error: "Not authorized" });
+    }
 
-    const rental = await prisma.rental.findUnique({
-      where: { id: req.params.id },
+    res.json({
+      rentalId: rental.id,
+      canCancel: canTransition(rental.status, "CANCELLED", req.user.role),
+      ...(await quoteCancellation(prisma, rental)),
     });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Everything that happened to the rental, oldest first (Admin, or the
+ * rental's customer): status changes, quotation, pickup and return, invoices
+ * and payments, notifications, extensions, deposit and condition reports
+ */
+router.get("/:id/timeline", authMiddleware, async (req, res) => {
+  try {
+    const rental = await prisma.rental.findUnique({ where: { id: req.params.id } });
     if (!rental) return res.status(404).json({ error: "Rental not found" });
+    const isAdminUser = req.user.role === "ADMIN";
+    if (!isAdminUser && rental.customerId !== req.user.id) {
+      return res.status(403).json({ error: "Not authorized" });
+    }
 
-    // Only admin or customer can update their own rental
+    const events = await buildRentalTimeline(prisma, rental.id, {
+      viewerId: req.user.id,
+      allNotifications: isAdminUser,
+    });
+    res.json({ rentalId: rental.id, status: rental.status, events });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Statuses the caller may move the rental to next (Admin, or the rental's customer)
+ */
+router.get("/:id/transitions", authMiddleware, async (req, res) => {
+  try {
+    const rental = await prisma.rental.findUnique({ where: { id: req.params.id } });
+    if (!rental) return res.status(404).json({ error: "Rental not found" });
     if (req.user.role !== "ADMIN" && rental.customerId !== req.user.id) {
       return res.status(403).json({ error: "Not authorized" });
     }
 
-    const oldStatus = rental.status;
+    res.json({ status: rental.status, transitions: allowedTransitions(rental.status, req.user.role) });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Update rental status through the rental state machine
+ * - 409 for moves the lifecycle doesn't allow, 403 for ones the caller's role
+ *   doesn't (customers may only cancel quotations and confirmed rentals)
+ * - Confirming or activating re-checks stock; 409 with alternatives if full
+ * - Cancelling refunds under the cancellation policy; an admin may set
+ *   `refundPercent` instead
+ */
+router.put("/:id/status", authMiddleware, async (req, res) => {
+  try {
+    const parsed = rentalStatusUpdateSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.issues });
 
-    const updatedRental = await prisma.rental.update({
+    const rental = await prisma.rental.findUnique({
       where: { id: req.params.id },
-      data: { status },
     });
+    if (!rental) return res.status(404).json({ error: "Rental not found" });
 
-    // Log rental status change
-    await prisma.rentalHistory.create({
-      data: {
-        rentalId: rental.id,
-        oldStatus,
-        newStatus: status,
-        changedById: req.user.id,
-      },
-    });
+    // Only admin or customer can update their own rental
+    const isAdminUser = req.user.role === "ADMIN";
+    if (!isAdminUser && rental.customerId !== req.user.id) {
+      return res.status(403).json({ error: "Not authorized" });
+    }
+    const { status, refundPercent } = parsed.data;
 
-    // If cancelled/completed, free up the availability slot
-    if ([RentalStatus.CANCELLED, RentalStatus.COMPLETED].includes(status)) {
-      await prisma.productAvailability.update({
-        where: { id: rental.availabilityId },
-        data: { isBooked: false },
+    const result = await transitionRental(prisma, rental, status, {
+      userId: req.user.id,
+      role: req.user.role,
+      refundPercent: isAdminUser ? refundPercent : undefined,
+    });
+    if (result.error) return res.status(result.status).json({ error: result.error });
+    if (!result.rental) {
+      return res.status(409).json({
+        error: "No units available for this rental's dates",
+        productId: result.productId,
+        alternatives: result.alternatives,
       });
     }
 
-    res.json(updatedRental);
+    res.json({ ...result.rental, refund: result.refund });
   } catch (error) {
     res.status(500).json({ error: error.message });
   }
@@ -168,14 +332,6 @@ router.delete("/:id", authMiddleware, isAdmin, async (req, res) => {
 
     await prisma.rental.delete({ where: { id: req.params.id } });
 
-    // Free slot if booked
-    if (rental.availabilityId) {
-      await prisma.productAvailability.update({
-        where: { id: rental.availabilityId },
-        data: { isBooked: false },
-      });
-    }
-
     res.json({ message: "Rental deleted" });
   } catch (error) {
     res.status(500).json({ error: error.message });
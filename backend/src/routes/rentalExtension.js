@@ -0,0 +1,265 @@
+// routes/rentalExtension.routes.js
+import express from "express";
+import { PrismaClient } from "@prisma/client";
+import { authMiddleware } from "../middlewares/authMiddleware.js";
+import { isAdmin } from "../middlewares/isAdmin.js";
+import { parseListQuery, findPage } from "../lib/pagination.js";
+import { approveExtension, checkExtension, isAutoApproved } from "../lib/extensions.js";
+import { lockRental } from "../lib/rentalStatus.js";
+import {
+  ExtensionStatusEnum,
+  rentalExtensionSchema,
+  extensionDecisionSchema,
+} from "../validate/validate.js";
+import { z } from "zod";
+
+const prisma = new PrismaClient();
+const router = express.Router();
+
+const extensionListOptions = {
+  sortable: ["createdAt", "requestedEndDate", "status"],
+  searchable: ["rental.orderReference", "rental.customer.name"],
+  dateField: "createdAt",
+  filters: {
+    status: ExtensionStatusEnum,
+    rentalId: z.string(),
+  },
+};
+
+const extensionInclude = {
+  rental: {
+    select: {
+      id: true,
+      orderReference: true,
+      status: true,
+      startDate: true,
+      endDate: true,
+      customer: { select: { id: true, name: true, email: true } },
+      product: { select: { id: true, name: true } },
+    },
+  },
+  invoice: { select: { id: true, amount: true, status: true } },
+};
+
+/**
+ * Close `extension` with `data` if it's still PENDING, under its rental's
+ * lock so it can't race an approval.
+ *
+ * Returns the updated request, or null when it was decided in the meantime.
+ */
+const closeExtension = (extension, data) =>
+  prisma.$transaction(async (tx) => {
+    await lockRental(tx, extension.rentalId);
+    const { count } = await tx.rentalExtension.updateMany({
+      where: { id: extension.id, status: "PENDING" },
+      data,
+    });
+    if (!count) return null;
+    return tx.rentalExtension.findUnique({ where: { id: extension.id }, include: extensionInclude });
+  });
+
+const canRequest = (user, rental) => user.role === "ADMIN" || rental.customerId === user.id;
+
+/**
+ * Get a page of extension requests (Admin only)
+ */
+router.get("/", authMiddleware, isAdmin, async (req, res) => {
+  try {
+    const list = parseListQuery(req.query, extensionListOptions);
+    if (!list.success) return res.status(400).json(list.error);
+
+    const page = await findPage(prisma.rentalExtension, list, { include: extensionInclude });
+    res.json(page);
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Extension requests on the logged-in customer's rentals
+ */
+router.get("/my", authMiddleware, async (req, res) => {
+  try {
+    const extensions = await prisma.rentalExtension.findMany({
+      where: { rental: { customerId: req.user.id } },
+      include: extensionInclude,
+      orderBy: { createdAt: "desc" },
+    });
+    res.json(extensions);
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Price an extension before asking for it (Admin, or the rental's customer)
+ * - 409 when the extra time is booked or under maintenance
+ */
+router.post("/check", authMiddleware, async (req, res) => {
+  try {
+    const parsed = rentalExtensionSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.issues });
+
+    const { rentalId, endDate } = parsed.data;
+    const rental = await prisma.rental.findUnique({ where: { id: rentalId } });
+    if (!rental) return res.status(404).json({ error: "Rental not found" });
+    if (!canRequest(req.user, rental)) {
+      return res.status(403).json({ error: "Not authorized to extend this rental" });
+    }
+
+    const check = await prisma.$transaction((tx) => checkExtension(tx, rental, endDate));
+    if (check.error) return res.status(check.status).json({ error: check.error });
+
+    res.json({
+      rentalId,
+      currentEndDate: rental.endDate,
+      requestedEndDate: endDate,
+      price: check.quote.total,
+      breakdown: check.quote,
+      autoApproved: isAutoApproved({ currentEndDate: rental.endDate, requestedEndDate: endDate }),
+    });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Ask to move a rental's end later (Admin, or the rental's customer)
+ * - One pending request per rental
+ * - Priced when requested; approved at once when short enough
+ *   (EXTENSION_AUTO_APPROVE_DAYS), otherwise left PENDING for an admin
+ */
+router.post("/", authMiddleware, async (req, res) => {
+  try {
+    const parsed = rentalExtensionSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.issues });
+
+    const { rentalId, endDate, note } = parsed.data;
+    const rental = await prisma.rental.findUnique({ where: { id: rentalId } });
+    if (!rental) return res.status(404).json({ error: "Rental not found" });
+    if (!canRequest(req.user, rental)) {
+      return res.status(403).json({ error: "Not authorized to extend this rental" });
+    }
+
+    const result = await prisma.$transaction(async (tx) => {
+      // Checked under the rental's lock, so two requests at once can't both
+      // find none pending
+      await lockRental(tx, rentalId);
+      const pending = await tx.rentalExtension.findFirst({ where: { rentalId, status: "PENDING" } });
+      if (pending) {
+        return { status: 409, error: "This rental already has a pending extension request" };
+      }
+
+      const current = await tx.rental.findUnique({ where: { id: rentalId } });
+      const check = await checkExtension(tx, current, endDate);
+      if (check.error) return check;
+
+      const extension = await tx.rentalExtension.create({
+        data: {
+          rentalId,
+          currentEndDate: current.endDate,
+          requestedEndDate: endDate,
+          price: check.quote.total,
+          breakdown: check.quote,
+          note,
+          requestedById: req.user.id,
+        },
+      });
+      if (!isAutoApproved(extension)) return { extension };
+      return approveExtension(tx, extension, { autoApproved: true });
+    });
+    if (result.error) return res.status(result.status).json({ error: result.error });
+
+    const extension = await prisma.rentalExtension.findUnique({
+      where: { id: result.extension.id },
+      include: extensionInclude,
+    });
+    res.status(201).json(extension);
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Approve a pending request (Admin only)
+ * - Dates are re-checked; 409 if they've been taken since
+ */
+router.put("/:id/approve", authMiddleware, isAdmin, async (req, res) => {
+  try {
+    const parsed = extensionDecisionSchema.safeParse(req.body ?? {});
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.issues });
+
+    const extension = await prisma.rentalExtension.findUnique({ where: { id: req.params.id } });
+    if (!extension) return res.status(404).json({ error: "Extension request not found" });
+    if (extension.status !== "PENDING") {
+      return res.status(400).json({ error: `Extension request is already ${extension.status.toLowerCase()}` });
+    }
+
+    const result = await prisma.$transaction((tx) =>
+      approveExtension(tx, extension, { decidedById: req.user.id, decisionNote: parsed.data.note })
+    );
+    if (result.error) return res.status(result.status).json({ error: result.error });
+
+    const approved = await prisma.rentalExtension.findUnique({
+      where: { id: extension.id },
+      include: extensionInclude,
+    });
+    res.json(approved);
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Turn down a pending request (Admin only)
+ */
+router.put("/:id/reject", authMiddleware, isAdmin, async (req, res) => {
+  try {
+    const parsed = extensionDecisionSchema.safeParse(req.body ?? {});
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.issues });
+
+    const extension = await prisma.rentalExtension.findUnique({ where: { id: req.params.id } });
+    if (!extension) return res.status(404).json({ error: "Extension request not found" });
+    if (extension.status !== "PENDING") {
+      return res.status(400).json({ error: `Extension request is already ${extension.status.toLowerCase()}` });
+    }
+
+    const rejected = await closeExtension(extension, {
+      status: "REJECTED",
+      decidedById: req.user.id,
+      decidedAt: new Date(),
+      decisionNote: parsed.data.note,
+    });
+    if (!rejected) return res.status(400).json({ error: "Extension request was already decided" });
+    res.json(rejected);
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Withdraw a pending request (Admin, or the rental's customer)
+ */
+router.put("/:id/cancel", authMiddleware, async (req, res) => {
+  try {
+    const extension = await prisma.rentalExtension.findUnique({
+      where: { id: req.params.id },
+      include: { rental: true },
+    });
+    if (!extension) return res.status(404).json({ error: "Extension request not found" });
+    if (!canRequest(req.user, extension.rental)) {
+      return res.status(403).json({ error: "Not authorized to cancel this request" });
+    }
+    if (extension.status !== "PENDING") {
+      return res.status(400).json({ error: `Extension request is already ${extension.status.toLowerCase()}` });
+    }
+
+    const cancelled = await closeExtension(extension, { status: "CANCELLED" });
+    if (!cancelled) return res.status(400).json({ error: "Extension request was already decided" });
+    res.json(cancelled);
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+export default router;
@@ -3,9 +3,27 @@ import express from "express";
 import { PrismaClient } from "@prisma/client";
 import { authMiddleware } from "../middlewares/authMiddleware.js";
 import { isAdmin } from "../middlewares/isAdmin.js";
+import { isStaff } from "../middlewares/isStaff.js";
 import {
-  rentalReturnSchema
-} from "../validate/validate.js"; // adjust path if needed
+  rentalReturnSchema,
+  queryBoolean,
+  jobArrivalSchema,
+  returnCompleteSchema,
+  assignedJobsQuerySchema,
+  jobAssignSchema,
+} from "../validate/validate.js";
+import { parseListQuery, findPage } from "../lib/pagination.js";
+import {
+  canUpdateJob,
+  scheduledWindow,
+  daysLate,
+  findStaffConflicts,
+  isStaffUser,
+} from "../lib/fieldJobs.js";
+import { settleDeposit } from "../lib/deposits.js";
+import { chargeLateFee } from "../lib/lateFees.js";
+import { refundEarlyReturn } from "../lib/cancellations.js";
+import { lockRental, moveRental } from "../lib/rentalStatus.js";
 import { z } from "zod";
 
 const prisma = new PrismaClient();
@@ -14,6 +32,17 @@ const router = express.Router();
 // Derived schema for updates
 const rentalReturnUpdateSchema = rentalReturnSchema.partial();
 
+const returnListOptions = {
+  sortable: ["scheduled", "actualReturn", "daysLate", "lateFee"],
+  defaultSort: { field: "scheduled", order: "desc" },
+  searchable: ["rental.orderReference", "rental.customer.name", "rental.product.name"],
+  dateField: "scheduled",
+  filters: {
+    completed: queryBoolean,
+    staffId: z.string(),
+  },
+};
+
 // ===== Create a rental return =====
 router.post("/", authMiddleware, async (req, res) => {
   try {
@@ -48,18 +77,95 @@ router.post("/", authMiddleware, async (req, res) => {
   }
 });
 
+// ===== Assign a return to a staff member and time slot (Admin only) =====
+router.put("/:id/assign", authMiddleware, isAdmin, async (req, res) => {
+  try {
+    const parsed = jobAssignSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.issues });
+
+    const rentalReturn = await prisma.rentalReturn.findUnique({ where: { id: req.params.id } });
+    if (!rentalReturn) return res.status(404).json({ error: "Rental return not found" });
+
+    if (rentalReturn.completed) {
+      return res.status(400).json({ error: "Return already completed" });
+    }
+
+    const { staffId, scheduled = rentalReturn.scheduled } = parsed.data;
+    if (staffId && !(await isStaffUser(prisma, staffId))) {
+      return res.status(400).json({ error: "staffId must belong to a STAFF user" });
+    }
+
+    const updatedReturn = await prisma.rentalReturn.update({
+      where: { id: rentalReturn.id },
+      data: { staffId, scheduled },
+      include: { staff: { select: { id: true, name: true, email: true } } }
+    });
+
+    const conflicts = staffId
+      ? await findStaffConflicts(prisma, staffId, scheduled, { kind: "return", id: rentalReturn.id })
+      : [];
+
+    res.json({ ...updatedReturn, conflicts });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// ===== Mark arrival at the customer for a return =====
+router.put("/:id/arrive", authMiddleware, async (req, res) => {
+  try {
+    const parsed = jobArrivalSchema.safeParse(req.body ?? {});
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.issues });
+
+    const rentalReturn = await prisma.rentalReturn.findUnique({ where: { id: req.params.id } });
+    if (!rentalReturn) return res.status(404).json({ error: "Rental return not found" });
+
+    if (!canUpdateJob(req.user, rentalReturn)) {
+      return res.status(403).json({ error: "Not authorized to update return" });
+    }
+
+    if (rentalReturn.completed) {
+      return res.status(400).json({ error: "Return already completed" });
+    }
+
+    // Only while still open, so it can't land on a return completed meanwhile
+    const { count } = await prisma.rentalReturn.updateMany({
+      where: { id: rentalReturn.id, completed: false },
+      data: {
+        arrivedAt: parsed.data.arrivedAt ?? new Date(),
+        ...(parsed.data.notes !== undefined && { notes: parsed.data.notes })
+      }
+    });
+    if (!count) return res.status(400).json({ error: "Return already completed" });
+
+    const updatedReturn = await prisma.rentalReturn.findUnique({ where: { id: rentalReturn.id } });
+    res.json(updatedReturn);
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
 // ===== Mark rental return as completed =====
+// A late return is charged its final late fee as of `actualReturn`, and a
+// `damageCharge` is billed on a DAMAGE invoice. The deposit then pays the
+// rental's unpaid damage and late-fee invoices and the rest is released, so
+// with no damage or late fees it all goes back to the customer. An early
+// return refunds part of the unused days under the cancellation policy. An
+// ACTIVE rental then moves to COMPLETED in the same transaction.
 router.put("/:id/complete", authMiddleware, async (req, res) => {
   try {
+    const parsed = returnCompleteSchema.safeParse(req.body ?? {});
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.issues });
+
     const returnId = req.params.id;
 
     const rentalReturn = await prisma.rentalReturn.findUnique({
       where: { id: returnId },
-      include: { rental: { include: { product: true } } }
+      include: { rental: true }
     });
     if (!rentalReturn) return res.status(404).json({ error: "Rental return not found" });
 
-    if (req.user.role !== "ADMIN" && rentalReturn.rental.product.providerId !== req.user.id) {
+    if (!canUpdateJob(req.user, rentalReturn)) {
       return res.status(403).json({ error: "Not authorized to update return" });
     }
 
@@ -67,10 +173,75 @@ router.put("/:id/complete", authMiddleware, async (req, res) => {
       return res.status(400).json({ error: "Return already completed" });
     }
 
-    const updatedReturn = await prisma.rentalReturn.update({
-      where: { id: returnId },
-      data: { completed: true }
+    const { condition } = parsed.data;
+    const actualReturn = parsed.data.actualReturn ?? new Date();
+    const updatedReturn = await prisma.$transaction(async (tx) => {
+      // Read again under the rental's lock, so two completions can't both
+      // bill and settle the rental
+      await lockRental(tx, rentalReturn.rentalId);
+      const open = await tx.rentalReturn.findFirst({
+        where: { id: returnId, completed: false },
+        include: { rental: true }
+      });
+      if (!open) return null;
+
+      const items = await tx.rentalItem.findMany({ where: { rentalId: open.rentalId } });
+      const units = condition
+        ? await tx.productUnit.findMany({
+            where: { id: { in: items.flatMap((item) => item.unitIds) } }
+          })
+        : [];
+
+      // The condition graded at the door goes into the history of every unit
+      // on the order
+      for (const unit of units) {
+        await tx.productUnit.update({ where: { id: unit.id }, data: { condition } });
+        await tx.unitConditionLog.create({
+          data: {
+            unitId: unit.id,
+            oldCondition: unit.condition,
+            newCondition: condition,
+            notes: parsed.data.notes,
+            rentalId: open.rentalId,
+            recordedById: req.user.id
+          }
+        });
+      }
+
+      // Each line is late from its own end
+      if (items.some((item) => actualReturn > item.endDate)) {
+        await chargeLateFee(tx, open.rental, actualReturn);
+      }
+      if (parsed.data.damageCharge) {
+        await tx.invoice.create({
+          data: { rentalId: open.rentalId, amount: parsed.data.damageCharge, type: "DAMAGE" }
+        });
+      }
+      // Back early: part of the unused days is refunded under the cancellation policy
+      const refund = actualReturn < open.rental.endDate
+        ? await refundEarlyReturn(tx, open.rental, actualReturn)
+        : null;
+      const deposit = await settleDeposit(tx, open.rentalId, req.user.id);
+
+      const completed = await tx.rentalReturn.update({
+        where: { id: returnId },
+        data: {
+          completed: true,
+          actualReturn,
+          arrivedAt: open.arrivedAt ?? actualReturn,
+          daysLate: Math.max(0, ...items.map((item) => daysLate(item.endDate, actualReturn))),
+          ...(parsed.data.notes !== undefined && { notes: parsed.data.notes })
+        }
+      });
+      // The rental is done once it's back, so the overdue job leaves it alone.
+      // An admin may already have completed or cancelled it.
+      if (open.rental.status === "ACTIVE") {
+        const moved = await moveRental(tx, open.rental, "COMPLETED", { userId: req.user.id });
+        if (moved.error) throw new Error(moved.error);
+      }
+      return { ...completed, deposit, refund };
     });
+    if (!updatedReturn) return res.status(400).json({ error: "Return already completed" });
 
     res.json(updatedReturn);
   } catch (error) {
@@ -78,13 +249,48 @@ router.put("/:id/complete", authMiddleware, async (req, res) => {
   }
 });
 
-// ===== Get all rental returns (Admin only) =====
+// ===== Get a page of rental returns (Admin only) =====
 router.get("/", authMiddleware, isAdmin, async (req, res) => {
   try {
+    const list = parseListQuery(req.query, returnListOptions);
+    if (!list.success) return res.status(400).json(list.error);
+
+    const page = await findPage(prisma.rentalReturn, list, {
+      include: {
+        staff: { select: { id: true, name: true, email: true } },
+        rental: { include: { product: true, customer: true, address: true } }
+      }
+    });
+    res.json(page);
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// ===== Get the caller's assigned returns for a day (Staff only) =====
+router.get("/assigned", authMiddleware, isStaff, async (req, res) => {
+  try {
+    const parsed = assignedJobsQuerySchema.safeParse(req.query);
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.issues });
+
     const returns = await prisma.rentalReturn.findMany({
-      include: { rental: { include: { product: true, customer: true } } },
-      orderBy: { scheduled: "desc" }
+      where: {
+        staffId: req.user.id,
+        scheduled: scheduledWindow(parsed.data)
+      },
+      include: {
+        rental: {
+          include: {
+            product: true,
+            address: true,
+            unit: { select: { id: true, serialNumber: true, condition: true } },
+            customer: { select: { id: true, name: true, email: true, phone: true } }
+          }
+        }
+      },
+      orderBy: { scheduled: "asc" }
     });
+
     res.json(returns);
   } catch (error) {
     res.status(500).json({ error: error.message });
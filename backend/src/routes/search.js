@@ -2,18 +2,23 @@ import { Router } from "express";
 import pkg from "@prisma/client";
 const { PrismaClient, RentalStatus } = pkg;
 import { z } from "zod";
+import { fitCapacity, loadCapacity } from "../lib/booking.js";
 
+const prisma = new PrismaClient();
 const router = Router();
 
 // Product search filters
 const productSearchSchema = z.object({
   keyword: z.string().optional(),
   category: z.string().optional(),
-  minPrice: z.number().nonnegative().optional(),
-  maxPrice: z.number().nonnegative().optional(),
+  minPrice: z.coerce.number().nonnegative().optional(),
+  maxPrice: z.coerce.number().nonnegative().optional(),
   availableFrom: z.coerce.date().optional(),
   availableTo: z.coerce.date().optional(),
-});
+}).refine(
+  (data) => !data.availableFrom || !data.availableTo || data.availableTo > data.availableFrom,
+  { message: "availableTo must be after availableFrom", path: ["availableTo"] }
+);
 
 // Rental filter
 const rentalFilterSchema = z.object({   
@@ -25,10 +30,13 @@ const rentalFilterSchema = z.object({
 
 // --------------------
 // GET /products/search
+// availableFrom + availableTo keep only rentable products with a unit free
+// for the whole range, judged like a booking would be
 // --------------------
 router.get("/products/search", async (req, res) => {
   try {
     const filters = productSearchSchema.parse(req.query);
+    const byAvailability = Boolean(filters.availableFrom && filters.availableTo);
 
     const products = await prisma.product.findMany({
       where: {
@@ -38,10 +46,19 @@ router.get("/products/search", async (req, res) => {
           gte: filters.minPrice || undefined,
           lte: filters.maxPrice || undefined,
         },
+        ...(byAvailability && { isRentable: true }),
       },
     });
 
-    res.json(products);
+    if (!byAvailability) return res.json(products);
+
+    const { availableFrom: from, availableTo: to } = filters;
+    const available = [];
+    for (const product of products) {
+      const capacity = await loadCapacity(prisma, product, from, to);
+      if (fitCapacity(capacity, from, to).available) available.push(product);
+    }
+    res.json(available);
   } catch (error) {
     res.status(400).json({ error: error.message });
   }
@@ -0,0 +1,102 @@
+// routes/serviceArea.routes.js
+import express from "express";
+import { PrismaClient, Prisma } from "@prisma/client";
+import { authMiddleware } from "../middlewares/authMiddleware.js";
+import { isAdmin } from "../middlewares/isAdmin.js";
+import { resolveCoverage } from "../lib/serviceAreas.js";
+import { serviceAreaSchema, serviceAreaCheckSchema } from "../validate/validate.js";
+
+const prisma = new PrismaClient();
+const router = express.Router();
+
+// Prisma needs DbNull rather than null to clear a Json column
+const toAreaData = ({ polygon, ...data }) => ({ ...data, polygon: polygon ?? Prisma.DbNull });
+
+/**
+ * List service areas
+ */
+router.get("/", authMiddleware, async (req, res) => {
+  try {
+    const areas = await prisma.serviceArea.findMany({ orderBy: { name: "asc" } });
+    res.json(areas);
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Check whether one of the caller's addresses is served, and at what surcharge
+ */
+router.post("/check", authMiddleware, async (req, res) => {
+  try {
+    const parsed = serviceAreaCheckSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.issues });
+
+    const address = await prisma.address.findUnique({ where: { id: parsed.data.addressId } });
+    if (!address || (req.user.role !== "ADMIN" && address.userId !== req.user.id)) {
+      return res.status(404).json({ error: "Address not found" });
+    }
+
+    const { serviceable, area, surcharge } = await resolveCoverage(prisma, address);
+    res.json({
+      serviceable,
+      surcharge,
+      area: area && { id: area.id, name: area.name },
+    });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Create a service area (Admin only)
+ */
+router.post("/", authMiddleware, isAdmin, async (req, res) => {
+  try {
+    const parsed = serviceAreaSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.issues });
+
+    const area = await prisma.serviceArea.create({ data: toAreaData(parsed.data) });
+    res.status(201).json(area);
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Replace a service area (Admin only)
+ */
+router.put("/:id", authMiddleware, isAdmin, async (req, res) => {
+  try {
+    const parsed = serviceAreaSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.issues });
+
+    const existing = await prisma.serviceArea.findUnique({ where: { id: req.params.id } });
+    if (!existing) return res.status(404).json({ error: "Service area not found" });
+
+    const area = await prisma.serviceArea.update({
+      where: { id: existing.id },
+      data: toAreaData(parsed.data),
+    });
+    res.json(area);
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Delete a service area (Admin only)
+ */
+router.delete("/:id", authMiddleware, isAdmin, async (req, res) => {
+  try {
+    const existing = await prisma.serviceArea.findUnique({ where: { id: req.params.id } });
+    if (!existing) return res.status(404).json({ error: "Service area not found" });
+
+    await prisma.serviceArea.delete({ where: { id: existing.id } });
+    res.json({ message: "Service area deleted" });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+export default router;
@@ -0,0 +1,175 @@
+// routes/wishlist.routes.js
+import express from "express";
+import { PrismaClient } from "@prisma/client";
+import { authMiddleware } from "../middlewares/authMiddleware.js";
+import { findCustomerGroups } from "../lib/customerGroups.js";
+import { recordWishlistAvailability, revalidateSavedItem } from "../lib/savedProducts.js";
+import {
+  moveToCartSchema,
+  wishlistItemSchema,
+  wishlistItemUpdateSchema,
+} from "../validate/validate.js";
+
+const prisma = new PrismaClient();
+const router = express.Router();
+
+const findOwnItem = (req) =>
+  prisma.wishlistItem.findUnique({
+    where: { userId_productId: { userId: req.user.id, productId: req.params.productId } },
+    include: { product: true },
+  });
+
+// New dates (or asking again) re-arm the availability notification; the
+// route then records whether the dates are free now
+const rearms = ({ startDate, notifyWhenAvailable }) => startDate !== undefined || !!notifyWhenAvailable;
+
+const savedFields = ({ startDate, endDate, notifyWhenAvailable }) => ({
+  ...(startDate !== undefined && { startDate, endDate }),
+  ...(notifyWhenAvailable !== undefined && { notifyWhenAvailable }),
+  ...(rearms({ startDate, notifyWhenAvailable }) && { notifiedAt: null }),
+});
+
+const NO_DATES_TO_WATCH = "Save dates for this product to be notified when it's available";
+
+/**
+ * The logged-in customer's wishlist, newest first, each item checked against
+ * the product's current price and availability for its dates
+ */
+router.get("/", authMiddleware, async (req, res) => {
+  try {
+    const items = await prisma.wishlistItem.findMany({
+      where: { userId: req.user.id },
+      include: { product: true },
+      orderBy: { createdAt: "desc" },
+    });
+    const customerGroups = await findCustomerGroups(prisma, req.user.id);
+
+    const checked = [];
+    for (const item of items) {
+      checked.push(await revalidateSavedItem(prisma, item, customerGroups));
+    }
+    res.json(checked);
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Save a product, optionally for dates; saving it again updates the entry
+ * - `notifyWhenAvailable` needs dates
+ */
+router.post("/", authMiddleware, async (req, res) => {
+  try {
+    const parsed = wishlistItemSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.issues });
+
+    const { productId, ...data } = parsed.data;
+    if (data.notifyWhenAvailable && !data.startDate) {
+      return res.status(400).json({ error: NO_DATES_TO_WATCH });
+    }
+
+    const product = await prisma.product.findUnique({ where: { id: productId } });
+    if (!product) return res.status(404).json({ error: "Product not found" });
+
+    const item = await prisma.wishlistItem.upsert({
+      where: { userId_productId: { userId: req.user.id, productId } },
+      update: savedFields(data),
+      create: {
+        userId: req.user.id,
+        productId,
+        startDate: data.startDate ?? null,
+        endDate: data.endDate ?? null,
+        notifyWhenAvailable: data.notifyWhenAvailable ?? false,
+        savedPrice: product.basePrice,
+      },
+      include: { product: true },
+    });
+
+    res.status(201).json(await recordWishlistAvailability(prisma, item));
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Change a wishlisted product's dates or availability notification
+ */
+router.put("/:productId", authMiddleware, async (req, res) => {
+  try {
+    const parsed = wishlistItemUpdateSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.issues });
+
+    const item = await findOwnItem(req);
+    if (!item) return res.status(404).json({ error: "Product is not on your wishlist" });
+
+    const startDate = parsed.data.startDate === undefined ? item.startDate : parsed.data.startDate;
+    const notify = parsed.data.notifyWhenAvailable ?? item.notifyWhenAvailable;
+    if (notify && !startDate) return res.status(400).json({ error: NO_DATES_TO_WATCH });
+
+    const updated = await prisma.wishlistItem.update({
+      where: { id: item.id },
+      data: savedFields(parsed.data),
+      include: { product: true },
+    });
+    res.json(rearms(parsed.data) ? await recordWishlistAvailability(prisma, updated) : updated);
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Move a wishlisted product to the cart with its dates, adding `quantity`
+ * to any already there
+ */
+router.post("/:productId/move-to-cart", authMiddleware, async (req, res) => {
+  try {
+    const parsed = moveToCartSchema.safeParse(req.body ?? {});
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.issues });
+
+    const item = await findOwnItem(req);
+    if (!item) return res.status(404).json({ error: "Product is not on your wishlist" });
+    if (!item.product.isRentable) {
+      return res.status(400).json({ error: "Product is not available for rent" });
+    }
+
+    const { quantity } = parsed.data;
+    const dates = item.startDate > new Date() ? { startDate: item.startDate, endDate: item.endDate } : {};
+    const [cartItem] = await prisma.$transaction([
+      prisma.cartItem.upsert({
+        where: { userId_productId: { userId: req.user.id, productId: item.productId } },
+        update: { quantity: { increment: quantity }, ...dates },
+        create: {
+          userId: req.user.id,
+          productId: item.productId,
+          quantity,
+          ...dates,
+          savedPrice: item.product.basePrice,
+        },
+        include: { product: true },
+      }),
+      prisma.wishlistItem.delete({ where: { id: item.id } }),
+    ]);
+
+    res.status(201).json(cartItem);
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Remove a product from the wishlist
+ */
+router.delete("/:productId", authMiddleware, async (req, res) => {
+  try {
+    const { count } = await prisma.wishlistItem.deleteMany({
+      where: { userId: req.user.id, productId: req.params.productId },
+    });
+    if (!count) return res.status(404).json({ error: "Product is not on your wishlist" });
+
+    res.json({ message: "Removed from wishlist" });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+export default router;
@@ -2,7 +2,12 @@ import express from "express";
 import dotenv from "dotenv";
 import cron from "node-cron";
 import { PrismaClient } from "@prisma/client";
-import automationRoutes, { applyLateFees, sendOverdueReminders } from "./routes/automation.js";
+import automationRoutes, {
+  applyLateFees,
+  expireStaleQuotations,
+  notifyWishlistAvailability,
+  sendOverdueReminders,
+} from "./routes/automation.js";
 import cors from "cors"
 
 // Load env variables
@@ -35,18 +40,29 @@ app.use((req, res, next) => {
 import adminRoutes from "./routes/admin.js";
 import authRoutes from "./routes/auth.js";
 import bulkRoutes from "./routes/bulk.js";
+import cancellationPolicyRoutes from "./routes/cancellationPolicy.js";
+import cartRoutes from "./routes/cart.js";
 import customerRoutes from "./routes/customer.js";
+import customerGroupRoutes from "./routes/customerGroup.js";
+import depositRoutes from "./routes/deposit.js";
+import dispatchRoutes from "./routes/dispatch.js";
 import invoiceRoutes from "./routes/invoice.js";
+import lateFeePolicyRoutes from "./routes/lateFeePolicy.js";
+import maintenanceRoutes from "./routes/maintenance.js";
 import notificationRoutes from "./routes/notification.js";
 import paymentRoutes from "./routes/payment.js";
 import pickupRoutes from "./routes/pickup.js";
 import pricelistRoutes from "./routes/pricelist.js";
 import productRoutes from "./routes/product.js";
+import promoCodeRoutes from "./routes/promoCode.js";
 import quotationRoutes from "./routes/quotation.js";
 import rentalRoutes from "./routes/rental.js";
+import rentalExtensionRoutes from "./routes/rentalExtension.js";
 import rentalReturnRoutes from "./routes/rentalReturn.js";
 import reportRoutes from "./routes/report.js";
 import searchRoutes from "./routes/search.js";
+import serviceAreaRoutes from "./routes/serviceArea.js";
+import wishlistRoutes from "./routes/wishlist.js";
 import eventRoutes from "./routes/event.js";
 import contractRoutes from "./routes/contract.js";
 
@@ -54,18 +70,29 @@ app.use("/api/admin", adminRoutes);
 app.use("/api/auth", authRoutes);
 app.use("/api/automation", automationRoutes);
 app.use("/api/bulk", bulkRoutes);
+app.use("/api/cancellation-policy", cancellationPolicyRoutes);
+app.use("/api/cart", cartRoutes);
 app.use("/api/customer", customerRoutes);
+app.use("/api/customer-group", customerGroupRoutes);
+app.use("/api/deposit", depositRoutes);
+app.use("/api/dispatch", dispatchRoutes);
 app.use("/api/invoice", invoiceRoutes);
+app.use("/api/late-fee-policy", lateFeePolicyRoutes);
+app.use("/api/maintenance", maintenanceRoutes);
 app.use("/api/notification", notificationRoutes);
 app.use("/api/payment", paymentRoutes);
 app.use("/api/pickup", pickupRoutes);
 app.use("/api/pricelist", pricelistRoutes);
 app.use("/api/product", productRoutes);
+app.use("/api/promo-code", promoCodeRoutes);
 app.use("/api/quotation", quotationRoutes);
 app.use("/api/rental", rentalRoutes);
+app.use("/api/rental-extension", rentalExtensionRoutes);
 app.use("/api/rental-return", rentalReturnRoutes);
 app.use("/api/report", reportRoutes);
 app.use("/api/search", searchRoutes);
+app.use("/api/service-area", serviceAreaRoutes);
+app.use("/api/wishlist", wishlistRoutes);
 app.use("/api/event", eventRoutes);
 app.use("/api/contract", contractRoutes);
 
@@ -87,6 +114,20 @@ cron.schedule("0 8 * * *", async () => {
   console.log(`Sent ${count} reminders`);
 });
 
+// Hourly wishlist availability notifications
+cron.schedule("30 * * * *", async () => {
+  console.log("Running wishlist availability job...");
+  const count = await notifyWishlistAvailability();
+  console.log(`Sent ${count} wishlist notifications`);
+});
+
+// Hourly expiry of quotations past their validTill
+cron.schedule("45 * * * *", async () => {
+  console.log("Running quotation expiry job...");
+  const count = await expireStaleQuotations();
+  console.log(`Expired ${count} quotations`);
+});
+
 // ----------------------
 // START SERVER
 // ----------------------
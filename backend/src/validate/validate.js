@@ -3,7 +3,7 @@ import { z } from "zod";
 // -------------------
 // Enums
 // -------------------
-export const UserRoleEnum = z.enum(["CUSTOMER", "END_USER", "PROVIDER", "ADMIN"]);
+export const UserRoleEnum = z.enum(["CUSTOMER", "END_USER", "ADMIN", "STAFF"]);
 export const RentalStatusEnum = z.enum([
   "QUOTATION",
   "CONFIRMED",
@@ -17,11 +17,37 @@ export const PaymentStatusEnum = z.enum([
   "PARTIAL",
   "REFUNDED",
 ]);
-export const InvoiceTypeEnum = z.enum(["FULL", "PARTIAL", "LATE_FEE"]);
+export const InvoiceTypeEnum = z.enum(["FULL", "PARTIAL", "LATE_FEE", "DAMAGE", "EXTENSION"]);
 export const NotificationTypeEnum = z.enum([
   "CUSTOMER_REMINDER",
   "END_USER_REMINDER",
+  "WISHLIST_AVAILABLE",
 ]);
+export const UnitStatusEnum = z.enum(["AVAILABLE", "RENTED", "MAINTENANCE", "RETIRED"]);
+export const UnitConditionEnum = z.enum(["NEW", "EXCELLENT", "GOOD", "FAIR", "POOR"]);
+export const PromoDiscountTypeEnum = z.enum(["PERCENTAGE", "FIXED"]);
+export const DepositStatusEnum = z.enum(["HELD", "PARTIALLY_CAPTURED", "CAPTURED", "RELEASED"]);
+export const LateFeeUnitEnum = z.enum(["HOUR", "DAY"]);
+export const ExtensionStatusEnum = z.enum(["PENDING", "APPROVED", "REJECTED", "CANCELLED"]);
+
+// -------------------
+// List queries (pagination, sorting, search)
+// -------------------
+export const MAX_PAGE_SIZE = 100;
+
+export const listQuerySchema = z.object({
+  skip: z.coerce.number().int().nonnegative().default(0),
+  take: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).default(20),
+  cursor: z.string().min(1).optional(),
+  sortBy: z.string().optional(),
+  sortOrder: z.enum(["asc", "desc"]).optional(),
+  q: z.string().trim().min(1).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+// Query-string booleans arrive as "true"/"false"
+export const queryBoolean = z.enum(["true", "false"]).transform((v) => v === "true");
 
 // -------------------
 // User
@@ -50,6 +76,10 @@ export const deleteUserSchema = z.object({
   userId: z.string().cuid(),
 });
 
+export const refreshTokenSchema = z.object({
+  refreshToken: z.string().min(1),
+});
+
 // -------------------
 // Product
 // -------------------
@@ -60,6 +90,85 @@ export const productSchema = z.object({
   isRentable: z.boolean().default(true),
   unitType: z.string().min(1),
   basePrice: z.number().nonnegative(),
+  // Security deposit per rental; null uses the category's
+  deposit: z.number().nonnegative().nullable().optional(),
+  stock: z.number().int().nonnegative().optional(),
+});
+
+// -------------------
+// Product Unit
+// -------------------
+// RENTED is set by the booking engine, not by hand
+const unitFields = {
+  serialNumber: z.string().trim().min(1),
+  condition: UnitConditionEnum,
+  status: UnitStatusEnum.exclude(["RENTED"]),
+  acquisitionCost: z.number().nonnegative().nullable().optional(),
+  acquiredAt: z.coerce.date().nullable().optional(),
+  notes: z.string().trim().max(1000).nullable().optional(),
+};
+
+export const productUnitSchema = z.object({
+  ...unitFields,
+  condition: unitFields.condition.default("NEW"),
+  status: unitFields.status.default("AVAILABLE"),
+});
+
+// Update a unit; a condition change is logged with the optional notes
+export const productUnitUpdateSchema = z
+  .object(unitFields)
+  .partial()
+  .extend({ conditionNotes: z.string().trim().max(1000).optional() });
+
+// -------------------
+// Maintenance
+// -------------------
+// Recurs by calendar interval or by usage, not both
+const maintenanceFields = {
+  productId: z.string().cuid(),
+  unitId: z.string().cuid().nullable().optional(),
+  title: z.string().trim().min(1),
+  description: z.string().trim().max(1000).optional(),
+  startDate: z.coerce.date(),
+  endDate: z.coerce.date(),
+  intervalDays: z.number().int().positive().nullable().optional(),
+  intervalRentals: z.number().int().positive().nullable().optional(),
+  staffId: z.string().cuid().nullable().optional(),
+};
+
+/**
+ * @template {z.ZodType} T
+ * @param {T} schema
+ */
+const maintenanceRules = (schema) =>
+  schema
+    .refine((task) => !(task.startDate && task.endDate) || task.endDate > task.startDate, {
+      message: "endDate must be after startDate",
+      path: ["endDate"],
+    })
+    .refine((task) => !(task.intervalDays && task.intervalRentals), {
+      message: "Recur by intervalDays or intervalRentals, not both",
+      path: ["intervalRentals"],
+    });
+
+export const maintenanceTaskSchema = maintenanceRules(z.object(maintenanceFields));
+
+// The product can't change; schedule a new task instead
+export const maintenanceTaskUpdateSchema = maintenanceRules(
+  z.object(maintenanceFields).omit({ productId: true }).partial()
+);
+
+export const maintenanceQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  productId: z.string().cuid().optional(),
+  status: z.enum(["SCHEDULED", "IN_PROGRESS", "COMPLETED"]).optional(),
+});
+
+export const maintenanceCompleteSchema = z.object({
+  notes: z.string().trim().max(1000).optional(),
+  // Grade of the unit after the work, recorded in its condition history
+  condition: UnitConditionEnum.optional(),
 });
 
 // -------------------
@@ -81,6 +190,39 @@ export const productAvailabilitySchema = z.object({
   isBooked: z.boolean().default(false),
 });
 
+// Computed free capacity; hourly slots only make sense over a short range
+export const AVAILABILITY_MAX_DAYS = { day: 366, hour: 14 };
+
+export const availabilityQuerySchema = z
+  .object({
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+    granularity: z.enum(["day", "hour"]).default("day"),
+  })
+  // Defaults: from today, for 30 days (or 1 day of hourly slots)
+  .transform(({ from, to, granularity }) => {
+    const start = from ?? new Date(new Date().setHours(0, 0, 0, 0));
+    const days = granularity === "hour" ? 1 : 30;
+    return { granularity, from: start, to: to ?? new Date(start.getTime() + days * 24 * 60 * 60 * 1000) };
+  })
+  .refine((query) => query.to > query.from, { message: "to must be after from", path: ["to"] })
+  .refine(
+    (query) =>
+      query.to - query.from <= AVAILABILITY_MAX_DAYS[query.granularity] * 24 * 60 * 60 * 1000,
+    { message: "Range too long for this granularity", path: ["to"] }
+  );
+
+export const productBlackoutSchema = z
+  .object({
+    startDate: z.coerce.date(),
+    endDate: z.coerce.date(),
+    reason: z.string().trim().max(200).optional(),
+  })
+  .refine((blackout) => blackout.endDate > blackout.startDate, {
+    message: "endDate must be after startDate",
+    path: ["endDate"],
+  });
+
 // -------------------
 // Rental
 // -------------------
@@ -92,6 +234,148 @@ export const rentalSchema = z.object({
   status: RentalStatusEnum.default("QUOTATION"),
 });
 
+// One line of an order; without its own dates it runs for the order's
+const rentalItemSchema = z
+  .object({
+    productId: z.string().cuid(),
+    quantity: z.number().int().min(1).default(1),
+    startDate: z.coerce.date().optional(),
+    endDate: z.coerce.date().optional(),
+  })
+  .refine((item) => !item.startDate === !item.endDate, {
+    message: "Give both startDate and endDate, or neither",
+    path: ["endDate"],
+  })
+  .refine((item) => !item.startDate || item.endDate > item.startDate, {
+    message: "endDate must be after startDate",
+    path: ["endDate"],
+  });
+
+// Customer booking request, for one `productId` or an order of `items`; the
+// booking engine picks the units
+export const rentalBookingSchema = z
+  .object({
+    productId: z.string().cuid().optional(),
+    items: z.array(rentalItemSchema).min(1).optional(),
+    startDate: z.coerce.date(),
+    endDate: z.coerce.date(),
+    addressId: z.string().cuid().optional(),
+    promoCode: z.string().trim().min(1).optional(),
+  })
+  .refine((booking) => booking.endDate > booking.startDate, {
+    message: "endDate must be after startDate",
+    path: ["endDate"],
+  })
+  .refine((booking) => !booking.productId !== !booking.items, {
+    message: "Give either productId or items",
+    path: ["items"],
+  })
+  .refine(
+    (booking) =>
+      !booking.items ||
+      new Set(booking.items.map((item) => item.productId)).size === booking.items.length,
+    { message: "Each product may only appear on one line", path: ["items"] }
+  );
+
+export const rentalStatusUpdateSchema = z.object({
+  status: RentalStatusEnum,
+  // Admin only: overrides the cancellation policy's refund
+  refundPercent: z.number().min(0).max(100).optional(),
+});
+
+// -------------------
+// Wishlist and Cart
+// -------------------
+// Dates a saved product is wanted for, given together; null clears them
+const savedDates = {
+  startDate: z.coerce.date().nullable().optional(),
+  endDate: z.coerce.date().nullable().optional(),
+};
+
+/**
+ * @template {z.ZodType} T
+ * @param {T} schema
+ */
+const withSavedDates = (schema) =>
+  schema
+    .refine((item) => !item.startDate === !item.endDate, {
+      message: "Give both startDate and endDate, or neither",
+      path: ["endDate"],
+    })
+    .refine((item) => !item.startDate || item.endDate > item.startDate, {
+      message: "endDate must be after startDate",
+      path: ["endDate"],
+    });
+
+export const wishlistItemSchema = withSavedDates(
+  z.object({
+    productId: z.string().cuid(),
+    ...savedDates,
+    notifyWhenAvailable: z.boolean().optional(),
+  })
+);
+
+export const wishlistItemUpdateSchema = withSavedDates(
+  z.object({ ...savedDates, notifyWhenAvailable: z.boolean().optional() })
+);
+
+export const cartItemSchema = withSavedDates(
+  z.object({
+    productId: z.string().cuid(),
+    quantity: z.number().int().min(1).default(1),
+    ...savedDates,
+  })
+);
+
+export const cartItemUpdateSchema = withSavedDates(
+  z.object({ quantity: z.number().int().min(1).optional(), ...savedDates })
+);
+
+export const moveToCartSchema = z.object({
+  quantity: z.number().int().min(1).default(1),
+});
+
+// -------------------
+// Address
+// -------------------
+export const addressSchema = z.object({
+  label: z.string().trim().max(50).optional(),
+  line1: z.string().trim().min(1),
+  line2: z.string().trim().optional(),
+  city: z.string().trim().min(1),
+  region: z.string().trim().optional(),
+  postalCode: z.string().trim().min(1),
+  country: z.string().trim().min(2),
+  latitude: z.number().min(-90).max(90).optional(),
+  longitude: z.number().min(-180).max(180).optional(),
+  isDefault: z.boolean().optional(),
+});
+
+// -------------------
+// Service Area
+// -------------------
+const polygonPointSchema = z.object({
+  lat: z.number().min(-90).max(90),
+  lng: z.number().min(-180).max(180),
+});
+
+export const serviceAreaSchema = z
+  .object({
+    name: z.string().trim().min(1),
+    postalCodes: z.array(z.string().trim().min(1)).default([]),
+    polygon: z.array(polygonPointSchema).min(3).nullable().optional(),
+    surcharge: z.number().nonnegative().default(0),
+    isActive: z.boolean().default(true),
+  })
+  .refine((area) => area.postalCodes.length > 0 || area.polygon, {
+    message: "Provide postalCodes or a polygon",
+    path: ["postalCodes"],
+  });
+
+export const serviceAreaCheckSchema = z.object({
+  addressId: z.string().cuid(),
+});
+
 // -------------------
 // Rental History
 // -------------------
@@ -105,13 +389,55 @@ export const rentalHistorySchema = z.object({
 // -------------------
 // Quotation
 // -------------------
-export const quotationSchema = z.object({
-  rentalId: z.string().cuid(),
+const quotationLineSchema = z.object({
+  description: z.string().trim().min(1).max(200),
+  quantity: z.number().int().positive().default(1),
+  // Negative for discounts
+  unitPrice: z.number(),
+});
+
+export const quotationSchema = z
+  .object({
+    rentalId: z.string().cuid(),
+    // Left out (with `lines`), the price comes from the pricing engine
+    price: z.number().nonnegative().optional(),
+    lines: z.array(quotationLineSchema).min(1).optional(),
+    validTill: z.coerce.date().optional(),
+    notes: z.string().trim().max(2000).optional(),
+    // Left out, the rental keeps the code it has; null removes it
+    promoCode: z.string().trim().min(1).nullable().optional(),
+  })
+  .refine((data) => data.price === undefined || data.lines === undefined, {
+    message: "Give either a price or lines, not both",
+    path: ["lines"],
+  })
+  .refine((data) => !data.validTill || data.validTill > new Date(), {
+    message: "validTill must be in the future",
+    path: ["validTill"],
+  });
+
+export const quotationRejectSchema = z.object({
+  note: z.string().trim().max(500).optional(),
+});
+
+export const quotationCounterSchema = z.object({
   price: z.number().nonnegative(),
-  validTill: z.coerce.date().optional(),
-  isAccepted: z.boolean().default(false),
+  note: z.string().trim().max(500).optional(),
 });
 
+export const priceQuoteQuerySchema = z
+  .object({
+    startDate: z.coerce.date(),
+    endDate: z.coerce.date(),
+    quantity: z.coerce.number().int().positive().default(1),
+    customerId: z.string().cuid().optional(),
+    promoCode: z.string().trim().min(1).optional(),
+  })
+  .refine((query) => query.endDate > query.startDate, {
+    message: "endDate must be after startDate",
+    path: ["endDate"],
+  });
+
 // -------------------
 // Pickup
 // -------------------
@@ -121,6 +447,39 @@ export const pickupSchema = z.object({
   completed: z.boolean().default(false),
 });
 
+// Field updates from assigned staff; timestamps default to "now"
+const jobNotesSchema = z.string().trim().max(1000).optional();
+
+export const jobArrivalSchema = z.object({
+  arrivedAt: z.coerce.date().optional(),
+  notes: jobNotesSchema,
+});
+
+export const pickupCompleteSchema = z.object({
+  actualPickup: z.coerce.date().optional(),
+  notes: jobNotesSchema,
+});
+
+// Dispatch: assign (or unassign with null) a job and optionally move its slot
+export const jobAssignSchema = z.object({
+  staffId: z.string().cuid().nullable(),
+  scheduled: z.coerce.date().optional(),
+});
+
+// Window of assigned jobs to list; defaults to the current day
+export const assignedJobsQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+// Route plan for one staff member's run; the depot defaults to DEPOT_LAT/DEPOT_LNG
+export const routePlanQuerySchema = assignedJobsQuerySchema.extend({
+  staffId: z.string().cuid().optional(),
+  start: z.coerce.date().optional(),
+  depotLat: z.coerce.number().min(-90).max(90).optional(),
+  depotLng: z.coerce.number().min(-180).max(180).optional(),
+});
+
 // -------------------
 // Rental Return
 // -------------------
@@ -131,6 +490,15 @@ export const rentalReturnSchema = z.object({
   lateFee: z.number().nonnegative().optional(),
 });
 
+export const returnCompleteSchema = z.object({
+  actualReturn: z.coerce.date().optional(),
+  notes: jobNotesSchema,
+  // Grade of the returned unit, recorded in its condition history
+  condition: UnitConditionEnum.optional(),
+  // Billed on a DAMAGE invoice, paid from the deposit first
+  damageCharge: z.number().positive().optional(),
+});
+
 // Bulk complete returns
 export const bulkCompleteReturnsSchema = z.object({
   returnIds: z.array(z.string().cuid()).min(1, "At least one return ID is required"),
@@ -142,6 +510,93 @@ export const lateFeeAutomationSchema = z.object({
   lateFeePerDay: z.number().nonnegative().default(50), // default fee per day
 });
 
+// -------------------
+// Rental Extension
+// -------------------
+export const rentalExtensionSchema = z.object({
+  rentalId: z.string().cuid(),
+  endDate: z.coerce.date(),
+  note: z.string().trim().max(500).optional(),
+});
+
+export const extensionDecisionSchema = z.object({
+  note: z.string().trim().max(500).optional(),
+});
+
+// -------------------
+// Late Fee Policy
+// -------------------
+const lateFeeTierSchema = z.object({
+  // The tier's rate applies after this many late hours or days
+  afterUnits: z.number().int().positive(),
+  rate: z.number().nonnegative(),
+});
+
+const lateFeePolicyFields = {
+  graceHours: z.number().int().nonnegative(),
+  unit: LateFeeUnitEnum,
+  rate: z.number().nonnegative(),
+  maxFee: z.number().positive().nullable().optional(),
+  tiers: z
+    .array(lateFeeTierSchema)
+    .refine(
+      (tiers) => new Set(tiers.map((tier) => tier.afterUnits)).size === tiers.length,
+      "Each tier needs its own starting point"
+    ),
+};
+
+// Scoped to one product or one category; the scope can't change later
+export const lateFeePolicySchema = z
+  .object({
+    productId: z.string().cuid().optional(),
+    category: z.string().trim().min(1).optional(),
+    ...lateFeePolicyFields,
+    graceHours: lateFeePolicyFields.graceHours.default(0),
+    unit: lateFeePolicyFields.unit.default("DAY"),
+    tiers: lateFeePolicyFields.tiers.default([]),
+  })
+  .refine((policy) => !policy.productId !== !policy.category, {
+    message: "Set either productId or category",
+    path: ["productId"],
+  });
+
+export const lateFeePolicyUpdateSchema = z.object(lateFeePolicyFields).partial();
+
+// -------------------
+// Cancellation Policy
+// -------------------
+const cancellationWindowSchema = z.object({
+  // Applies when cancelled at least this many hours before the start
+  hoursBefore: z.number().int().nonnegative(),
+  refundPercent: z.number().min(0).max(100),
+});
+
+const cancellationPolicyFields = {
+  windows: z
+    .array(cancellationWindowSchema)
+    .refine(
+      (windows) => new Set(windows.map((w) => w.hoursBefore)).size === windows.length,
+      "Each window needs its own number of hours"
+    ),
+  earlyReturnPercent: z.number().min(0).max(100),
+};
+
+// Scoped to one product or one category; the scope can't change later
+export const cancellationPolicySchema = z
+  .object({
+    productId: z.string().cuid().optional(),
+    category: z.string().trim().min(1).optional(),
+    ...cancellationPolicyFields,
+    windows: cancellationPolicyFields.windows.default([]),
+    earlyReturnPercent: cancellationPolicyFields.earlyReturnPercent.default(0),
+  })
+  .refine((policy) => !policy.productId !== !policy.category, {
+    message: "Set either productId or category",
+    path: ["productId"],
+  });
+
+export const cancellationPolicyUpdateSchema = z.object(cancellationPolicyFields).partial();
+
 // -------------------
 // Pricelist
 // -------------------
@@ -150,6 +605,82 @@ export const pricelistSchema = z.object({
   description: z.string().optional(),
   validFrom: z.coerce.date(),
   validTo: z.coerce.date(),
+  customerGroupId: z.string().min(1).nullable().optional(),
+});
+
+// -------------------
+// Customer Group
+// -------------------
+const customerGroupFields = {
+  name: z.string().trim().min(1).max(60),
+  description: z.string().trim().max(500).nullable().optional(),
+  priority: z.number().int(),
+  minCompletedRentals: z.number().int().positive().nullable().optional(),
+};
+
+export const customerGroupSchema = z.object({
+  ...customerGroupFields,
+  priority: customerGroupFields.priority.default(0),
+});
+
+export const customerGroupUpdateSchema = z.object(customerGroupFields).partial();
+
+export const customerGroupMemberSchema = z.object({
+  userId: z.string().cuid(),
+});
+
+// -------------------
+// Promo Code
+// -------------------
+const promoCodeFields = {
+  code: z
+    .string()
+    .trim()
+    .regex(/^[A-Za-z0-9_-]{3,32}$/, "Use 3-32 letters, digits, dashes or underscores")
+    .transform((code) => code.toUpperCase()),
+  description: z.string().trim().max(500).nullable().optional(),
+  discountType: PromoDiscountTypeEnum,
+  value: z.number().positive(),
+  expiresAt: z.coerce.date().nullable().optional(),
+  maxUses: z.number().int().positive().nullable().optional(),
+  maxUsesPerUser: z.number().int().positive().nullable().optional(),
+  minRentalDays: z.number().int().positive().nullable().optional(),
+  productIds: z.array(z.string().cuid()),
+  categories: z.array(z.string().trim().min(1)),
+  isActive: z.boolean(),
+};
+
+export const promoPercentageIsValid = (promo) =>
+  promo.discountType !== "PERCENTAGE" || promo.value === undefined || promo.value <= 100;
+
+/**
+ * @template {z.ZodType} T
+ * @param {T} schema
+ */
+const promoCodeRules = (schema) =>
+  schema.refine(promoPercentageIsValid, {
+    message: "A percentage discount can't exceed 100",
+    path: ["value"],
+  });
+
+export const promoCodeSchema = promoCodeRules(
+  z.object({
+    ...promoCodeFields,
+    productIds: promoCodeFields.productIds.default([]),
+    categories: promoCodeFields.categories.default([]),
+    isActive: promoCodeFields.isActive.default(true),
+  })
+);
+
+export const promoCodeUpdateSchema = promoCodeRules(z.object(promoCodeFields).partial());
+
+// Try a code before booking; restrictions are checked for what's given
+export const promoCodeCheckSchema = z.object({
+  code: z.string().trim().min(1),
+  amount: z.number().nonnegative().optional(),
+  productId: z.string().cuid().optional(),
+  startDate: z.coerce.date().optional(),
+  endDate: z.coerce.date().optional(),
 });
 
 // -------------------
@@ -172,6 +703,24 @@ export const invoiceSchema = z.object({
   status: PaymentStatusEnum.default("PENDING"),
 });
 
+// -------------------
+// Deposit
+// -------------------
+export const depositCaptureSchema = z.object({
+  invoiceId: z.string().cuid(),
+  // Left out, captures all the invoice still owes
+  amount: z.number().positive().optional(),
+  reason: z.string().trim().min(1).max(500),
+});
+
+export const depositReleaseSchema = z.object({
+  reason: z.string().trim().max(500).optional(),
+});
+
+export const categoryDepositSchema = z.object({
+  amount: z.number().nonnegative(),
+});
+
 // -------------------
 // Payment
 // -------------------
@@ -0,0 +1,88 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { findAlternatives, fitCapacity, orderSpan, peakUsage } from "../src/lib/booking.js";
+
+const day = (n) => new Date(Date.UTC(2025, 10, n));
+const block = (from, to, unitId = null) => ({ startDate: day(from), endDate: day(to), unitId });
+
+test("peakUsage counts the most units held at one instant", () => {
+  const rentals = [block(1, 5), block(3, 8), block(4, 6), block(7, 9)];
+
+  assert.equal(peakUsage(rentals, day(1), day(10)), 3);
+  assert.equal(peakUsage(rentals, day(6), day(10)), 2);
+  assert.equal(peakUsage(rentals, day(9), day(12)), 0);
+});
+
+test("peakUsage lets back-to-back rentals share a unit", () => {
+  assert.equal(peakUsage([block(1, 3), block(3, 5)], day(1), day(5)), 1);
+  // Ends exactly when the window starts
+  assert.equal(peakUsage([block(1, 3)], day(3), day(5)), 0);
+});
+
+test("fitCapacity counts plain stock for products without units", () => {
+  const capacity = { stock: 2, units: [], bookable: [], rentals: [block(1, 5)] };
+
+  assert.deepEqual(fitCapacity(capacity, day(2), day(4)), { available: true, unitIds: [] });
+  assert.equal(fitCapacity(capacity, day(2), day(4), { quantity: 2 }).available, false);
+  assert.equal(fitCapacity(capacity, day(5), day(7), { quantity: 2 }).available, true);
+});
+
+test("fitCapacity binds free units, preferring the ones asked for", () => {
+  const units = [{ id: "u1" }, { id: "u2" }, { id: "u3" }];
+  const capacity = { stock: 3, units, bookable: units, rentals: [block(1, 5, "u1")] };
+
+  assert.deepEqual(fitCapacity(capacity, day(2), day(4)).unitIds, ["u2"]);
+  assert.deepEqual(fitCapacity(capacity, day(2), day(4), { preferUnitIds: ["u3"] }).unitIds, ["u3"]);
+  // A preferred unit that's taken is skipped
+  assert.deepEqual(fitCapacity(capacity, day(2), day(4), { preferUnitIds: ["u1"] }).unitIds, ["u2"]);
+  assert.deepEqual(fitCapacity(capacity, day(2), day(4), { quantity: 2 }).unitIds, ["u2", "u3"]);
+  assert.equal(fitCapacity(capacity, day(2), day(4), { quantity: 3 }).available, false);
+});
+
+test("fitCapacity treats blocks on every unit as holding each of them", () => {
+  const units = [{ id: "u1" }, { id: "u2" }];
+  const blackout = [block(3, 4, "*"), block(3, 4, "*")];
+  const capacity = { stock: 2, units, bookable: units, rentals: blackout };
+
+  assert.equal(fitCapacity(capacity, day(1), day(5)).available, false);
+  assert.deepEqual(fitCapacity(capacity, day(4), day(6)).unitIds, ["u1"]);
+});
+
+test("findAlternatives offers the free windows closest to the request", () => {
+  // One unit, booked 5–10 and 12–20; asking for 3 days from the 8th
+  const rentals = [block(5, 10), block(12, 20)];
+
+  const alternatives = findAlternatives(rentals, 1, day(8), day(11), day(1));
+
+  assert.deepEqual(alternatives, [
+    { startDate: day(2), endDate: day(5) },
+    { startDate: day(20), endDate: day(23) },
+  ]);
+});
+
+test("findAlternatives skips windows in the past and has none without stock", () => {
+  const rentals = [block(5, 10)];
+
+  // 3–5 would fit before the booking, but it's already the 4th
+  assert.deepEqual(findAlternatives(rentals, 1, day(6), day(8), day(4)), [
+    { startDate: day(10), endDate: day(12) },
+  ]);
+  assert.deepEqual(findAlternatives(rentals, 0, day(6), day(8), day(1)), []);
+});
+
+test("findAlternatives returns at most three, earliest first", () => {
+  const rentals = [block(2, 3), block(4, 5), block(6, 7), block(8, 9), block(10, 11)];
+
+  const alternatives = findAlternatives(rentals, 1, day(6), day(7), day(1));
+
+  assert.equal(alternatives.length, 3);
+  const starts = alternatives.map((window) => window.startDate.getTime());
+  assert.deepEqual(starts, [...starts].sort((a, b) => a - b));
+  assert.ok(alternatives.every((window) => peakUsage(rentals, window.startDate, window.endDate) === 0));
+});
+
+test("orderSpan covers every line", () => {
+  const items = [block(5, 8), block(3, 6), block(4, 9)];
+
+  assert.deepEqual(orderSpan(items), { startDate: day(3), endDate: day(9) });
+});
@@ -0,0 +1,134 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  cancellationRefundPercent,
+  earlyReturnRefundPercent,
+  findCancellationPolicy,
+  quoteCancellation,
+  refundRental,
+} from "../src/lib/cancellations.js";
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+const start = new Date("2025-11-10T09:00:00Z");
+const hoursBefore = (hours) => new Date(start.getTime() - hours * HOUR);
+
+const policy = {
+  // Listed out of order on purpose
+  windows: [
+    { hoursBefore: 24, refundPercent: 50 },
+    { hoursBefore: 72, refundPercent: 100 },
+  ],
+  earlyReturnPercent: 80,
+};
+
+test("cancelling refunds the percent of the earliest window still open", () => {
+  assert.equal(cancellationRefundPercent(policy, start, hoursBefore(100)), 100);
+  assert.equal(cancellationRefundPercent(policy, start, hoursBefore(72)), 100);
+  assert.equal(cancellationRefundPercent(policy, start, hoursBefore(71)), 50);
+  assert.equal(cancellationRefundPercent(policy, start, hoursBefore(24)), 50);
+});
+
+test("nothing is refunded once past every window", () => {
+  assert.equal(cancellationRefundPercent(policy, start, hoursBefore(23)), 0);
+  assert.equal(cancellationRefundPercent(policy, start, hoursBefore(-5)), 0);
+  assert.equal(cancellationRefundPercent({ windows: [] }, start, hoursBefore(100)), 0);
+});
+
+test("early returns refund the share of whole days left unused", () => {
+  const rental = { startDate: start, endDate: new Date(start.getTime() + 10 * DAY) };
+  const at = (days) => new Date(start.getTime() + days * DAY);
+
+  // 4 of 10 days unused, at 80%
+  assert.equal(earlyReturnRefundPercent(policy, rental, at(6)), 32);
+  // A started day counts as used
+  assert.equal(earlyReturnRefundPercent(policy, rental, at(5.5)), 32);
+  assert.equal(earlyReturnRefundPercent(policy, rental, at(0)), 80);
+  assert.equal(earlyReturnRefundPercent(policy, rental, at(9.5)), 0);
+  assert.equal(earlyReturnRefundPercent(policy, rental, at(11)), 0);
+});
+
+// In-memory stand-in for the prisma calls cancellations.js makes
+function fakeDb({ policies = [], items = [], invoices = [] } = {}) {
+  const payments = [];
+  return {
+    payments,
+    invoices,
+    cancellationPolicy: {
+      findUnique: async ({ where }) =>
+        policies.find((row) =>
+          where.productId ? row.productId === where.productId : row.category === where.category
+        ) ?? null,
+    },
+    rentalItem: {
+      findMany: async ({ where }) => items.filter((item) => item.rentalId === where.rentalId),
+    },
+    invoice: {
+      findMany: async ({ where }) =>
+        invoices.filter((row) => row.rentalId === where.rentalId && where.type.in.includes(row.type)),
+      update: async ({ where, data }) => Object.assign(invoices.find((row) => row.id === where.id), data),
+    },
+    payment: {
+      create: async ({ data }) => {
+        payments.push(data);
+        return data;
+      },
+    },
+  };
+}
+
+test("a product's own policy wins over its category's, then the default applies", async () => {
+  const own = { productId: "p1", ...policy };
+  const category = { category: "Tools", ...policy };
+  const db = fakeDb({ policies: [own, category] });
+
+  assert.equal(await findCancellationPolicy(db, { id: "p1", category: "Tools" }), own);
+  assert.equal(await findCancellationPolicy(db, { id: "p2", category: "Tools" }), category);
+
+  const fallback = await findCancellationPolicy(db, { id: "p3", category: null });
+  assert.equal(cancellationRefundPercent(fallback, start, hoursBefore(48)), 100);
+  assert.equal(cancellationRefundPercent(fallback, start, hoursBefore(1)), 50);
+  assert.equal(fallback.earlyReturnPercent, 0);
+});
+
+const invoice = (id, type, amount, payments) => ({ id, rentalId: "r1", type, amount, payments });
+const paid = (amount, status = "PAID") => ({ amount, status });
+
+test("an order is cancelled under the strictest of its products' policies", async () => {
+  const db = fakeDb({
+    policies: [{ productId: "p1", ...policy }],
+    items: [
+      { rentalId: "r1", product: { id: "p1", category: null } },
+      // Under the default: 50% from 48 hours before
+      { rentalId: "r1", product: { id: "p2", category: null } },
+    ],
+    invoices: [invoice("i1", "FULL", 200, [paid(200)])],
+  });
+
+  const quote = await quoteCancellation(db, { id: "r1", startDate: start }, hoursBefore(80));
+
+  assert.deepEqual(quote, { refundPercent: 100, paid: 200, refund: 200, fee: 0 });
+  const later = await quoteCancellation(db, { id: "r1", startDate: start }, hoursBefore(60));
+  assert.deepEqual(later, { refundPercent: 50, paid: 200, refund: 100, fee: 100 });
+});
+
+test("refunds pay back the rental's own invoices, less what was refunded", async () => {
+  const db = fakeDb({
+    invoices: [
+      invoice("i1", "FULL", 200, [paid(200), paid(50, "REFUNDED")]),
+      invoice("i2", "EXTENSION", 40, [paid(40)]),
+      invoice("i3", "LATE_FEE", 30, [paid(30)]),
+    ],
+  });
+
+  assert.deepEqual(await refundRental(db, "r1", 100), { paid: 190, refund: 190 });
+  assert.deepEqual(
+    db.payments.map((payment) => [payment.invoiceId, payment.amount]),
+    [
+      ["i1", 150],
+      ["i2", 40],
+    ]
+  );
+  assert.equal(db.invoices[0].status, "REFUNDED");
+  assert.equal(db.invoices[2].status, undefined);
+});
@@ -0,0 +1,182 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  chargeLateFee,
+  chargeOverdueRentals,
+  computeLateFee,
+  findLateFeePolicy,
+} from "../src/lib/lateFees.js";
+
+const HOUR = 60 * 60 * 1000;
+const end = new Date("2025-11-10T12:00:00Z");
+const after = (hours) => new Date(end.getTime() + hours * HOUR);
+
+const dailyPolicy = { graceHours: 0, unit: "DAY", rate: 10, maxFee: null, tiers: [] };
+
+test("nothing is due before the end or within the grace period", () => {
+  const policy = { ...dailyPolicy, graceHours: 4 };
+
+  assert.deepEqual(computeLateFee(policy, end, after(-1)), { units: 0, fee: 0 });
+  assert.deepEqual(computeLateFee(policy, end, after(4)), { units: 0, fee: 0 });
+  // Past the grace period, it counts from the end
+  assert.deepEqual(computeLateFee(policy, end, after(5)), { units: 1, fee: 10 });
+});
+
+test("every started day or hour is charged", () => {
+  assert.deepEqual(computeLateFee(dailyPolicy, end, after(25)), { units: 2, fee: 20 });
+  const hourly = { ...dailyPolicy, unit: "HOUR", rate: 1.5 };
+  assert.deepEqual(computeLateFee(hourly, end, after(2.25)), { units: 3, fee: 4.5 });
+});
+
+test("tiers charge each unit at the rate of the band it falls in", () => {
+  const policy = {
+    ...dailyPolicy,
+    // Listed out of order on purpose
+    tiers: [
+      { afterUnits: 5, rate: 30 },
+      { afterUnits: 2, rate: 20 },
+    ],
+  };
+
+  // Days 1–2 at 10, 3–5 at 20, 6–7 at 30
+  assert.deepEqual(computeLateFee(policy, end, after(7 * 24)), { units: 7, fee: 20 + 60 + 60 });
+  assert.deepEqual(computeLateFee(policy, end, after(2 * 24)), { units: 2, fee: 20 });
+});
+
+test("the total is capped at maxFee", () => {
+  const policy = { ...dailyPolicy, maxFee: 25 };
+
+  assert.equal(computeLateFee(policy, end, after(2 * 24)).fee, 20);
+  assert.equal(computeLateFee(policy, end, after(10 * 24)).fee, 25);
+});
+
+// In-memory stand-in for the prisma calls lateFees.js makes
+function fakeDb({ policies = [], rentals = [], items = [] } = {}) {
+  const returns = [];
+  const invoices = [];
+  const db = {
+    returns,
+    invoices,
+    rentals,
+    $queryRaw: async () => [],
+    $transaction: (fn) => fn(db),
+    lateFeePolicy: {
+      findUnique: async ({ where }) =>
+        policies.find((policy) =>
+          where.productId ? policy.productId === where.productId : policy.category === where.category
+        ) ?? null,
+    },
+    rentalItem: {
+      findMany: async ({ where }) => items.filter((item) => item.rentalId === where.rentalId),
+    },
+    rentalReturn: {
+      upsert: async ({ where, update, create }) => {
+        const existing = returns.find((row) => row.rentalId === where.rentalId);
+        if (existing) return Object.assign(existing, update);
+        const row = { id: `ret${returns.length + 1}`, lateFeeInvoiceId: null, ...create };
+        returns.push(row);
+        return row;
+      },
+      update: async ({ where, data }) => Object.assign(returns.find((row) => row.id === where.id), data),
+    },
+    invoice: {
+      create: async ({ data }) => {
+        const row = { id: `inv${invoices.length + 1}`, status: "PENDING", ...data };
+        invoices.push(row);
+        return row;
+      },
+      findUnique: async ({ where }) => invoices.find((row) => row.id === where.id),
+      update: async ({ where, data }) => Object.assign(invoices.find((row) => row.id === where.id), data),
+    },
+    payment: {
+      aggregate: async () => ({ _sum: { amount: null } }),
+    },
+    rental: {
+      findMany: async () => rentals.map(({ id }) => ({ id })),
+      findFirst: async ({ where }) => {
+        const rental = rentals.find((row) => row.id === where.id);
+        const returned = returns.find((row) => row.rentalId === where.id)?.completed;
+        return rental && where.status.in.includes(rental.status) && !returned ? rental : null;
+      },
+    },
+  };
+  return db;
+}
+
+const product = (id, extra = {}) => ({ id, category: null, basePrice: 100, ...extra });
+
+test("a product's own policy wins over its category's, then the default applies", async () => {
+  const own = { ...dailyPolicy, productId: "p1", rate: 7, tiers: [] };
+  const category = { ...dailyPolicy, category: "Tools", rate: 3, tiers: [] };
+  const db = fakeDb({ policies: [own, category] });
+
+  assert.equal(await findLateFeePolicy(db, product("p1", { category: "Tools" })), own);
+  assert.equal(await findLateFeePolicy(db, product("p2", { category: "Tools" })), category);
+  assert.deepEqual(await findLateFeePolicy(db, product("p3", { basePrice: 45 })), {
+    graceHours: 0,
+    unit: "DAY",
+    rate: 4.5,
+    maxFee: null,
+    tiers: [],
+  });
+});
+
+test("each line of an order is late from its own end", async () => {
+  const rental = { id: "r1", endDate: after(0), status: "ACTIVE" };
+  const items = [
+    // Ended two days before the order's last line
+    { rentalId: "r1", quantity: 2, endDate: after(-48), product: product("p1") },
+    { rentalId: "r1", quantity: 1, endDate: after(0), product: product("p2") },
+  ];
+  const db = fakeDb({ items });
+
+  const charged = await chargeLateFee(db, rental, after(1));
+
+  // p1: 3 started days × 10 × 2 units; p2: 1 day × 10
+  assert.equal(charged.lateFee, 70);
+  assert.equal(charged.daysLate, 3);
+  assert.equal(db.invoices.length, 1);
+  assert.equal(db.invoices[0].amount, 70);
+  assert.equal(charged.lateFeeInvoiceId, db.invoices[0].id);
+});
+
+test("charging again brings the same invoice up to date", async () => {
+  const rental = { id: "r1", endDate: end, status: "ACTIVE" };
+  const db = fakeDb({ items: [{ rentalId: "r1", quantity: 1, endDate: end, product: product("p1") }] });
+
+  await chargeLateFee(db, rental, after(1));
+  await chargeLateFee(db, rental, after(1));
+  assert.equal(db.invoices.length, 1);
+  assert.equal(db.invoices[0].amount, 10);
+
+  await chargeLateFee(db, rental, after(30));
+  assert.equal(db.invoices.length, 1);
+  assert.equal(db.invoices[0].amount, 20);
+});
+
+test("the overdue run skips rentals returned after they were listed", async () => {
+  const rentals = [
+    { id: "r1", endDate: end, status: "ACTIVE" },
+    { id: "r2", endDate: end, status: "ACTIVE" },
+  ];
+  const items = rentals.map((rental) => ({
+    rentalId: rental.id,
+    quantity: 1,
+    endDate: end,
+    product: product(`p-${rental.id}`),
+  }));
+  const db = fakeDb({ rentals, items });
+  // r2 is returned and completed between the listing and its turn
+  const list = db.rental.findMany;
+  db.rental.findMany = async (args) => {
+    const listed = await list(args);
+    rentals[1].status = "COMPLETED";
+    return listed;
+  };
+
+  assert.equal(await chargeOverdueRentals(db, after(1)), 1);
+  assert.deepEqual(
+    db.returns.map((row) => row.rentalId),
+    ["r1"]
+  );
+});
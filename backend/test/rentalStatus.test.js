@@ -0,0 +1,81 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  RENTAL_TRANSITIONS,
+  allowedTransitions,
+  canTransition,
+  moveRental,
+} from "../src/lib/rentalStatus.js";
+
+const STATUSES = Object.keys(RENTAL_TRANSITIONS);
+
+test("rentals only move forward along the lifecycle, or to cancelled", () => {
+  assert.deepEqual(allowedTransitions("QUOTATION"), ["CONFIRMED", "CANCELLED"]);
+  assert.deepEqual(allowedTransitions("CONFIRMED"), ["ACTIVE", "CANCELLED"]);
+  assert.deepEqual(allowedTransitions("ACTIVE"), ["COMPLETED", "CANCELLED"]);
+
+  assert.equal(canTransition("CONFIRMED", "QUOTATION"), false);
+  assert.equal(canTransition("QUOTATION", "ACTIVE"), false);
+  assert.equal(canTransition("ACTIVE", "ACTIVE"), false);
+  assert.equal(canTransition("UNKNOWN", "CANCELLED"), false);
+});
+
+test("completed and cancelled rentals are final", () => {
+  for (const from of ["COMPLETED", "CANCELLED"]) {
+    assert.deepEqual(allowedTransitions(from), []);
+    for (const to of STATUSES) assert.equal(canTransition(from, to, "ADMIN"), false);
+  }
+});
+
+test("admins may use the whole graph", () => {
+  for (const from of STATUSES) {
+    assert.deepEqual(allowedTransitions(from, "ADMIN"), RENTAL_TRANSITIONS[from]);
+  }
+});
+
+test("customers may only cancel before the rental starts", () => {
+  for (const role of ["CUSTOMER", "END_USER"]) {
+    assert.deepEqual(allowedTransitions("QUOTATION", role), ["CANCELLED"]);
+    assert.deepEqual(allowedTransitions("CONFIRMED", role), ["CANCELLED"]);
+    assert.deepEqual(allowedTransitions("ACTIVE", role), []);
+  }
+});
+
+test("roles without a part of the graph may not move rentals", () => {
+  for (const from of STATUSES) assert.deepEqual(allowedTransitions(from, "PROVIDER"), []);
+});
+
+// Just enough of a transaction to reach the checks before any side effect
+function fakeTx(status) {
+  const calls = [];
+  return {
+    calls,
+    $queryRaw: async () => {
+      calls.push("lock");
+      return [];
+    },
+    rental: {
+      findUnique: async ({ where }) => {
+        calls.push("reload");
+        return { id: where.id, status };
+      },
+    },
+  };
+}
+
+test("moves are checked against the locked, reloaded rental", async () => {
+  // The caller's copy is stale: the rental was completed meanwhile
+  const tx = fakeTx("COMPLETED");
+  const result = await moveRental(tx, { id: "r1", status: "ACTIVE" }, "CANCELLED", { role: "ADMIN" });
+
+  assert.equal(result.status, 409);
+  assert.match(result.error, /completed rental can't be moved to cancelled/);
+  assert.deepEqual(tx.calls, ["lock", "reload"]);
+});
+
+test("moves the role may not make are forbidden", async () => {
+  const result = await moveRental(fakeTx("ACTIVE"), { id: "r1" }, "CANCELLED", { role: "CUSTOMER" });
+
+  assert.equal(result.status, 403);
+  assert.match(result.error, /Not allowed to move a active rental to cancelled/);
+});
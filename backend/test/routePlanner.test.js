@@ -0,0 +1,84 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { haversineKm, planRoute } from "../src/lib/routePlanner.js";
+
+const start = new Date("2025-10-20T08:00:00Z");
+const at = (minutes) => new Date(start.getTime() + minutes * 60 * 1000);
+const depot = { lat: 0, lng: 0 };
+const options = { depot, start, speedKmh: 60, serviceMinutes: 0 };
+
+const stop = (id, lng, fromMinutes, toMinutes) => ({
+  id,
+  lat: 0,
+  lng,
+  windowStart: at(fromMinutes),
+  windowEnd: at(toMinutes),
+});
+
+const order = (plan) => plan.legs.map((leg) => leg.stop.id);
+
+test("haversineKm measures great-circle distance", () => {
+  assert.equal(haversineKm(depot, depot), 0);
+  // One degree along the equator
+  assert.ok(Math.abs(haversineKm(depot, { lat: 0, lng: 1 }) - 111.19) < 0.01);
+  const a = { lat: 10, lng: 20 };
+  const b = { lat: -5, lng: 3 };
+  assert.equal(haversineKm(a, b), haversineKm(b, a));
+});
+
+test("an empty run goes nowhere", () => {
+  const plan = planRoute([], options);
+
+  assert.deepEqual(plan.legs, []);
+  assert.equal(plan.distanceKm, 0);
+  assert.equal(plan.lateMinutes, 0);
+  assert.equal(plan.finish.getTime(), start.getTime());
+});
+
+test("stops along one road are visited outwards and the run drives back", () => {
+  const stops = [stop("c", 0.3, 0, 600), stop("a", 0.1, 0, 600), stop("b", 0.2, 0, 600)];
+
+  const plan = planRoute(stops, options);
+
+  assert.deepEqual(order(plan), ["a", "b", "c"]);
+  const out = haversineKm(depot, { lat: 0, lng: 0.3 });
+  assert.ok(Math.abs(plan.returnKm - out) < 1e-9);
+  assert.ok(Math.abs(plan.distanceKm - 2 * out) < 1e-9);
+});
+
+test("arriving before a window opens waits for it", () => {
+  const plan = planRoute([stop("late-opening", 0.1, 120, 180)], options);
+
+  assert.equal(plan.legs[0].arrival.getTime(), at(120).getTime());
+  assert.equal(plan.lateMinutes, 0);
+});
+
+test("a nearby stop that opens later doesn't jump the queue", () => {
+  const stops = [stop("near", 0.05, 240, 600), stop("far", 0.3, 0, 600)];
+
+  assert.deepEqual(order(planRoute(stops, options)), ["far", "near"]);
+});
+
+test("lateness outweighs distance when reordering", () => {
+  // Nearest-first reaches "far" (about 55 km the other way) after its window
+  // closes; serving it first makes both on time
+  const stops = [stop("near", 0.1, 0, 480), stop("far", -0.5, 0, 60)];
+
+  const plan = planRoute(stops, options);
+
+  assert.deepEqual(order(plan), ["far", "near"]);
+  assert.equal(plan.lateMinutes, 0);
+});
+
+test("lateness is reported when no order avoids it", () => {
+  const stops = [stop("a", 0.5, 0, 30), stop("b", -0.5, 0, 30)];
+
+  const plan = planRoute(stops, options);
+
+  // ~55 minutes to the first, then ~111 more to the second
+  assert.ok(plan.lateMinutes > 100);
+  assert.equal(
+    plan.lateMinutes,
+    plan.legs.reduce((sum, leg) => sum + leg.lateMinutes, 0)
+  );
+});
@@ -0,0 +1,102 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { issueSession, rotateSession, revokeSession, verifyAccessToken } from "../src/lib/tokens.js";
+
+// In-memory stand-in for the prisma calls tokens.js makes
+function fakeDb(user) {
+  const tokens = [];
+  const matches = (row, where) => Object.entries(where).every(([key, value]) => row[key] === value);
+  const db = {
+    tokens,
+    refreshToken: {
+      create: async ({ data }) => {
+        const row = { id: `rt${tokens.length + 1}`, revokedAt: null, replacedById: null, ...data };
+        tokens.push(row);
+        return row;
+      },
+      findUnique: async ({ where, include }) => {
+        const row = tokens.find((token) => matches(token, where));
+        return row && (include?.user ? { ...row, user } : { ...row });
+      },
+      update: async ({ where, data }) => Object.assign(tokens.find((token) => matches(token, where)), data),
+      updateMany: async ({ where, data }) => {
+        const rows = tokens.filter((token) => matches(token, where));
+        rows.forEach((row) => Object.assign(row, data));
+        return { count: rows.length };
+      },
+    },
+    $transaction: (fn) => fn(db),
+  };
+  return db;
+}
+
+const user = { id: "u1", role: "CUSTOMER" };
+
+test("a new session's access token carries the user", async () => {
+  const db = fakeDb(user);
+  const { token, refreshToken } = await issueSession(db, user);
+
+  const payload = verifyAccessToken(token);
+  assert.equal(payload.id, "u1");
+  assert.equal(payload.role, "CUSTOMER");
+  assert.equal(db.tokens.length, 1);
+  assert.notEqual(db.tokens[0].tokenHash, refreshToken, "only the hash is stored");
+});
+
+test("rotating retires the refresh token for a new one in the same family", async () => {
+  const db = fakeDb(user);
+  const { refreshToken } = await issueSession(db, user);
+
+  const rotated = await rotateSession(db, refreshToken);
+
+  assert.ok(rotated.token);
+  assert.notEqual(rotated.refreshToken, refreshToken);
+  const [first, second] = db.tokens;
+  assert.ok(first.revokedAt);
+  assert.equal(first.replacedById, second.id);
+  assert.equal(second.family, first.family);
+  assert.equal(second.revokedAt, null);
+});
+
+test("reusing a rotated refresh token revokes its whole family", async () => {
+  const db = fakeDb(user);
+  const { refreshToken } = await issueSession(db, user);
+  const rotated = await rotateSession(db, refreshToken);
+
+  assert.equal(await rotateSession(db, refreshToken), null);
+  assert.ok(db.tokens.every((token) => token.revokedAt));
+  assert.equal(await rotateSession(db, rotated.refreshToken), null);
+});
+
+test("other sessions survive a family being revoked", async () => {
+  const db = fakeDb(user);
+  const stolen = await issueSession(db, user);
+  const other = await issueSession(db, user);
+  await rotateSession(db, stolen.refreshToken);
+
+  await rotateSession(db, stolen.refreshToken);
+
+  assert.ok(await rotateSession(db, other.refreshToken));
+});
+
+test("unknown and expired refresh tokens are refused", async () => {
+  const db = fakeDb(user);
+  const { refreshToken } = await issueSession(db, user);
+  db.tokens[0].expiresAt = new Date(Date.now() - 1000);
+
+  assert.equal(await rotateSession(db, "not-a-token"), null);
+  assert.equal(await rotateSession(db, refreshToken), null);
+  assert.equal(db.tokens[0].revokedAt, null, "expiry alone doesn't revoke the family");
+});
+
+test("logging out revokes the session's family and ignores unknown tokens", async () => {
+  const db = fakeDb(user);
+  const { refreshToken } = await issueSession(db, user);
+  const rotated = await rotateSession(db, refreshToken);
+
+  await revokeSession(db, rotated.refreshToken);
+  await revokeSession(db, "not-a-token");
+
+  assert.ok(db.tokens.every((token) => token.revokedAt));
+  assert.equal(await rotateSession(db, rotated.refreshToken), null);
+});
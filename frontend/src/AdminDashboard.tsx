@@ -1,17 +1,25 @@
 import React, { useState } from "react";
+import { Navigate, Route, Routes } from "react-router-dom";
 import Sidebar from "./components/common/Sidebar";
 import Header from "./components/common/Header";
 import Dashboard from "./pages/Dashboard";
 import Products from "./pages/Products";
+import AvailabilityCalendar from "./pages/AvailabilityCalendar";
+import CustomerGroups from "./pages/CustomerGroups";
+import PromoCodes from "./pages/PromoCodes";
+import LateFeePolicies from "./pages/LateFeePolicies";
+import CancellationPolicies from "./pages/CancellationPolicies";
+import RentalExtensions from "./pages/RentalExtensions";
 import Delivery from "./pages/Delivery";
 import Sustainability from "./pages/Sustainability";
 import ComingSoon from "./pages/ComingSoon";
 import DamageChecker from "./pages/Damage-detector";
 import { sidebarItems } from "./data/mockData";
 import { useAuth } from "./contexts/AuthContext";
+import { usePortalSection } from "./hooks/usePortalSection";
 
 const AdminDashboard: React.FC = () => {
-  const [activeTab, setActiveTab] = useState("dashboard");
+  const [activeTab = "dashboard", setActiveTab] = usePortalSection("/admin");
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const { logout } = useAuth();
 
@@ -21,22 +29,23 @@ const AdminDashboard: React.FC = () => {
     );
   };
 
-  const renderContent = () => {
-    switch (activeTab) {
-      case "dashboard":
-        return <Dashboard />;
-      case "products":
-        return <Products />;
-      case "delivery":
-        return <Delivery />;
-      case "sustainability":
-        return <Sustainability />;
-      case "scans":
-        return <DamageChecker />;
-      default:
-        return <ComingSoon title={getPageTitle()} />;
-    }
-  };
+  const renderContent = () => (
+    <Routes>
+      <Route index element={<Navigate to="dashboard" replace />} />
+      <Route path="dashboard" element={<Dashboard />} />
+      <Route path="products" element={<Products />} />
+      <Route path="availability" element={<AvailabilityCalendar />} />
+      <Route path="delivery" element={<Delivery />} />
+      <Route path="sustainability" element={<Sustainability />} />
+      <Route path="customer-groups" element={<CustomerGroups />} />
+      <Route path="promo-codes" element={<PromoCodes />} />
+      <Route path="late-fees" element={<LateFeePolicies />} />
+      <Route path="cancellations" element={<CancellationPolicies />} />
+      <Route path="extensions" element={<RentalExtensions />} />
+      <Route path="scans" element={<DamageChecker />} />
+      <Route path="*" element={<ComingSoon title={getPageTitle()} />} />
+    </Routes>
+  );
 
   return (
     <div className="flex h-screen bg-gray-50 relative">
@@ -1,16 +1,20 @@
-import React, { useState, useEffect } from "react";
-import { Routes, Route, Navigate } from "react-router-dom";
+import { useState } from "react";
+import { Routes, Route, Navigate, useLocation } from "react-router-dom";
 import AdminDashboard from "./AdminDashboard";
 import CustomerPortal from "./CustomerPortal";
 import EndUserPortal from "./EndUserPortal";
+import StaffPortal from "./StaffPortal";
 import Chatbot from "./components/Chatbot";
 import { MessageCircle, X } from "lucide-react";
 import Login from "./pages/Login";
 import Signup from "./pages/Signup";
 import { AuthProvider, useAuth } from "./contexts/AuthContext";
+import RequireRole from "./components/common/RequireRole";
+import { PORTAL_HOME } from "./routes/paths";
 
 function AppContent() {
   const { user, loading } = useAuth();
+  const location = useLocation();
   const [isChatOpen, setIsChatOpen] = useState(false);
 
   if (loading) {
@@ -21,42 +25,42 @@ function AppContent() {
     );
   }
 
-  const renderPortalByRole = () => {
-    if (!user) return null;
-
-    switch (user.role) {
-      case "ADMIN":
-        return <AdminDashboard />;
-      case "CUSTOMER":
-        return <CustomerPortal />;
-      case "END_USER":
-        return <EndUserPortal />;
-      default:
-        return <AdminDashboard />;
-    }
-  };
+  const home = user ? PORTAL_HOME[user.role] : "/login";
+  // Set by RequireRole when a guest opens a deep link.
+  const from = (location.state as { from?: { pathname: string } } | null)?.from?.pathname;
 
   return (
     <div className="bg-gray-50 min-h-screen">
       <Routes>
         <Route
           path="/login"
-          element={user ? <Navigate to="/dashboard" /> : <Login />}
+          element={user ? <Navigate to={from || home} replace /> : <Login />}
         />
         <Route
           path="/signup"
-          element={user ? <Navigate to="/dashboard" /> : <Signup />}
+          element={user ? <Navigate to={home} /> : <Signup />}
         />
         {/* Redirect /register to /signup for legacy/bookmark support */}
         <Route path="/register" element={<Navigate to="/signup" replace />} />
-        <Route
-          path="/dashboard"
-          element={user ? renderPortalByRole() : <Navigate to="/login" />}
-        />
-        <Route
-          path="/"
-          element={<Navigate to={user ? "/dashboard" : "/login"} />}
-        />
+
+        {/* Each portal owns its sections as nested routes */}
+        <Route element={<RequireRole roles={["ADMIN"]} />}>
+          <Route path="/admin/*" element={<AdminDashboard />} />
+        </Route>
+        <Route element={<RequireRole roles={["CUSTOMER"]} />}>
+          <Route path="/customer/*" element={<CustomerPortal />} />
+        </Route>
+        <Route element={<RequireRole roles={["END_USER"]} />}>
+          <Route path="/enduser/*" element={<EndUserPortal />} />
+        </Route>
+        <Route element={<RequireRole roles={["STAFF"]} />}>
+          <Route path="/staff/*" element={<StaffPortal />} />
+        </Route>
+
+        {/* /dashboard predates per-role URLs; keep old bookmarks working */}
+        <Route path="/dashboard" element={<Navigate to={home} replace />} />
+        <Route path="/" element={<Navigate to={home} />} />
+        <Route path="*" element={<Navigate to={home} replace />} />
       </Routes>
 
       {/* Chatbot - only show when logged in */}
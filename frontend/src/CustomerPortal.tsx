@@ -1,4 +1,5 @@
 import React, { useState } from "react";
+import { Navigate, Route, Routes } from "react-router-dom";
 import {
   Search,
   ShoppingBag,
@@ -19,6 +20,7 @@ import Sidebar from "./components/common/Sidebar";
 import Header from "./components/common/Header";
 import Browse from "./pages/customer/Browse";
 import Rentals from "./pages/customer/Rentals";
+import RentalDetail from "./pages/customer/RentalDetail";
 import CalendarPage from "./pages/customer/Calendar";
 import Contracts from "./pages/customer/Contracts";
 import Payments from "./pages/customer/Payments";
@@ -27,6 +29,7 @@ import DamageChecker from "./pages/Damage-detector";
 import { sustainabilityData } from "./data/customerData";
 import { SidebarItem } from "./types";
 import { useAuth } from "./contexts/AuthContext";
+import { usePortalSection } from "./hooks/usePortalSection";
 import Wishlist from "./pages/customer/Wishlist";
 import Sustainability from "./pages/Sustainability";
 
@@ -34,35 +37,11 @@ import Sustainability from "./pages/Sustainability";
 import Notifications from "./pages/customer/Notifications";
 import Profile from "./pages/customer/Profile";
 
-interface WishlistItem {
-  id: number;
-  name: string;
-  description: string;
-  imageUrl?: string;
-  price?: string;
-}
-
-interface CustomerPortalProps {
-  onLogout: () => void;
-}
-
-const CustomerPortal: React.FC<CustomerPortalProps> = ({ onLogout }) => {
+const CustomerPortal: React.FC = () => {
   const { logout } = useAuth();
-  const [activeTab, setActiveTab] = useState("browse");
+  const [activeTab = "browse", setActiveTab] = usePortalSection("/customer");
   const [sidebarOpen, setSidebarOpen] = useState(false);
 
-  // Cart state (items added from wishlist)
-  const [cartItems, setCartItems] = useState<WishlistItem[]>([]);
-
-  // Add item to cart from wishlist
-  const handleAddToCart = (item: WishlistItem) => {
-    setCartItems((prev) => {
-      if (prev.find((i) => i.id === item.id)) return prev; // prevent duplicates
-      return [...prev, item];
-    });
-    setActiveTab("contracts"); // Switch to Contracts tab
-  };
-
   const sidebarItems: SidebarItem[] = [
     { id: "browse", label: "Browse Products", icon: Search },
     { id: "rentals", label: "My Rentals", icon: ShoppingBag },
@@ -83,32 +62,26 @@ const CustomerPortal: React.FC<CustomerPortalProps> = ({ onLogout }) => {
     );
   };
 
-  const renderContent = () => {
-    switch (activeTab) {
-      case "browse":
-        return <Browse />;
-      case "rentals":
-        return <Rentals />;
-      case "wishlist":
-        return <Wishlist onAddToCart={handleAddToCart} />;
-      case "calendar":
-        return <CalendarPage />;
-      case "contracts":
-        return <Contracts cartItems={cartItems} />;
-      case "payments":
-        return <Payments />;
-      case "scans":
-        return <DamageChecker />;
-      case "sustainability":
-        return <Sustainability />;
-      case "notifications":
-        return <Notifications />;
-      case "profile":
-        return <Profile />;
-      default:
-        return <ComingSoon title={getPageTitle()} />;
-    }
-  };
+  const renderContent = () => (
+    <Routes>
+      <Route index element={<Navigate to="browse" replace />} />
+      <Route path="browse" element={<Browse />} />
+      <Route path="rentals" element={<Rentals />} />
+      <Route path="rentals/:id" element={<RentalDetail />} />
+      <Route
+        path="wishlist"
+        element={<Wishlist onMovedToCart={() => setActiveTab("contracts")} />}
+      />
+      <Route path="calendar" element={<CalendarPage />} />
+      <Route path="contracts" element={<Contracts />} />
+      <Route path="payments" element={<Payments />} />
+      <Route path="scans" element={<DamageChecker />} />
+      <Route path="sustainability" element={<Sustainability />} />
+      <Route path="notifications" element={<Notifications />} />
+      <Route path="profile" element={<Profile />} />
+      <Route path="*" element={<ComingSoon title={getPageTitle()} />} />
+    </Routes>
+  );
 
   const CustomSidebar = () => (
     <div className="w-64 bg-white shadow-lg flex flex-col h-full">
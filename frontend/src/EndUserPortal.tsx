@@ -1,4 +1,9 @@
 import React, { useState, useEffect } from "react";
+import { Navigate } from "react-router-dom";
+import { useAuth } from "./contexts/AuthContext";
+import { usePortalSection } from "./hooks/usePortalSection";
+import { getErrorMessage, useApi, useMutation } from "./hooks/useApi";
+import { rentalExtensionAPI, rentalsAPI } from "./services/api";
 import { Calendar, FileText, Camera, Leaf, Bell, User, LogOut, Award, Phone, HelpCircle, ChevronDown, ChevronRight, CheckCircle, AlertCircle, Clock, Loader } from "lucide-react";
 
 // Mock database
@@ -69,12 +74,9 @@ const mockDatabase = {
   ],
 };
 
-interface EndUserPortalProps {
-  onLogout: () => void;
-}
-
-const EndUserPortal: React.FC<EndUserPortalProps> = ({ onLogout }) => {
-  const [activeTab, setActiveTab] = useState("schedule");
+const EndUserPortal: React.FC = () => {
+  const { logout } = useAuth();
+  const [activeTab, setActiveTab] = usePortalSection("/enduser");
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const [expandedGuidelines, setExpandedGuidelines] = useState<string[]>([]);
   const [reportDescription, setReportDescription] = useState("");
@@ -97,6 +99,19 @@ const EndUserPortal: React.FC<EndUserPortalProps> = ({ onLogout }) => {
     promotions: false,
     ecoTips: true,
   });
+  const [extensionDay, setExtensionDay] = useState("");
+  const [extensionError, setExtensionError] = useState<string | null>(null);
+
+  // The rental the user has out now, for extension requests
+  const { data: myRentals } = useApi(() => rentalsAPI.getMy(), { key: ["rentals", "my"] });
+  const liveRental = myRentals?.find((rental) => rental.status === "ACTIVE" || rental.status === "CONFIRMED");
+  const { data: liveTimeline } = useApi(
+    () => rentalsAPI.getTimeline(liveRental?.id as string),
+    { immediate: !!liveRental, key: ["rentals", "timeline", liveRental?.id] }
+  );
+  const { mutate: submitExtension, loading: extending } = useMutation(rentalExtensionAPI.request, {
+    invalidates: [["rentals"], ["rental-extensions"]],
+  });
 
   // Simulate API calls
   useEffect(() => {
@@ -216,26 +231,34 @@ const EndUserPortal: React.FC<EndUserPortalProps> = ({ onLogout }) => {
   };
 
   const requestExtension = async () => {
-    setIsLoading(true);
-    
-    // Simulate API call
-    await new Promise(resolve => setTimeout(resolve, 2000));
-    
-    // Update mock database
-    mockDatabase.currentRental.endDate = "June 15, 2023";
-    setCurrentRental({ ...mockDatabase.currentRental });
-    
-    // Add notification
-    const newNotification = {
-      id: notifications.length + 1,
-      title: "Extension Requested",
-      message: "Your rental extension request has been submitted for approval.",
-      time: "Just now",
-      read: false,
-    };
-    
-    setNotifications([newNotification, ...notifications]);
-    setIsLoading(false);
+    if (!liveRental || !extensionDay) return;
+    setExtensionError(null);
+
+    // Same time of day as the current end, on the chosen day
+    const [year, month, date] = extensionDay.split("-").map(Number);
+    const endDate = new Date(liveRental.endDate);
+    endDate.setFullYear(year, month - 1, date);
+
+    try {
+      const extension = await submitExtension({
+        rentalId: liveRental.id,
+        endDate: endDate.toISOString(),
+      });
+      const approved = extension.status === "APPROVED";
+      const newNotification = {
+        id: notifications.length + 1,
+        title: approved ? "Rental Extension Approved" : "Extension Requested",
+        message: approved
+          ? `Your rental has been extended until ${endDate.toLocaleDateString()}.`
+          : "Your rental extension request has been submitted for approval.",
+        time: "Just now",
+        read: false,
+      };
+      setNotifications([newNotification, ...notifications]);
+      setExtensionDay("");
+    } catch (error) {
+      setExtensionError(getErrorMessage(error, "Could not request the extension"));
+    }
   };
 
   const usageGuidelines = [
@@ -269,7 +292,7 @@ const EndUserPortal: React.FC<EndUserPortalProps> = ({ onLogout }) => {
     { id: "other", label: "Other Issue" },
   ];
 
-  const timelineSteps = [
+  const sampleTimelineSteps = [
     {
       id: "delivery",
       title: "Delivery Completed",
@@ -300,6 +323,17 @@ const EndUserPortal: React.FC<EndUserPortalProps> = ({ onLogout }) => {
     },
   ];
 
+  // The live rental's own timeline once it has loaded, the sample until then
+  const timelineSteps = liveTimeline
+    ? liveTimeline.events.map((event) => ({
+        id: event.id,
+        title: event.title,
+        date: new Date(event.at).toLocaleDateString(),
+        completed: !event.upcoming,
+        description: event.description ?? "",
+      }))
+    : sampleTimelineSteps;
+
   const ecoTips = [
     {
       category: "Energy Saving",
@@ -355,7 +389,9 @@ const EndUserPortal: React.FC<EndUserPortalProps> = ({ onLogout }) => {
                 <div className="border rounded-lg p-4">
                   <h3 className="font-medium text-gray-500">Rental Period</h3>
                   <p className="text-lg mt-1">
-                    {currentRental.startDate} - {currentRental.endDate}
+                    {liveRental
+                      ? `${new Date(liveRental.startDate).toLocaleDateString()} - ${new Date(liveRental.endDate).toLocaleDateString()}`
+                      : `${currentRental.startDate} - ${currentRental.endDate}`}
                   </p>
                 </div>
                 <div className="border rounded-lg p-4">
@@ -405,15 +441,30 @@ const EndUserPortal: React.FC<EndUserPortalProps> = ({ onLogout }) => {
             <div className="bg-white rounded-lg shadow p-6">
               <h2 className="text-xl font-semibold mb-4">Actions</h2>
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                <button 
-                  onClick={requestExtension}
-                  disabled={isLoading}
-                  className={`border border-green-500 text-green-600 hover:bg-green-50 rounded-lg p-4 text-center transition-colors ${
-                    isLoading ? "opacity-50 cursor-not-allowed" : ""
-                  }`}
-                >
-                  {isLoading ? "Processing..." : "Request Extension"}
-                </button>
+                <div className="border border-green-500 rounded-lg p-4 space-y-2">
+                  <div className="flex gap-2">
+                    <input
+                      type="date"
+                      value={extensionDay}
+                      onChange={(e) => setExtensionDay(e.target.value)}
+                      disabled={!liveRental?.canExtend}
+                      className="flex-1 px-3 py-2 border border-gray-300 rounded-lg disabled:bg-gray-100"
+                    />
+                    <button
+                      onClick={requestExtension}
+                      disabled={extending || !extensionDay || !liveRental?.canExtend}
+                      className={`text-green-600 hover:bg-green-50 rounded-lg px-4 text-center transition-colors ${
+                        extending || !extensionDay || !liveRental?.canExtend ? "opacity-50 cursor-not-allowed" : ""
+                      }`}
+                    >
+                      {extending ? "Processing..." : "Request Extension"}
+                    </button>
+                  </div>
+                  {liveRental && !liveRental.canExtend && (
+                    <p className="text-sm text-gray-500">An extension request is already waiting for approval.</p>
+                  )}
+                  {extensionError && <p className="text-sm text-red-600">{extensionError}</p>}
+                </div>
                 <button className="border border-blue-500 text-blue-600 hover:bg-blue-50 rounded-lg p-4 text-center transition-colors">
                   Download Rental Agreement
                 </button>
@@ -1033,6 +1084,10 @@ const EndUserPortal: React.FC<EndUserPortalProps> = ({ onLogout }) => {
     { id: "support", label: "Support", icon: HelpCircle },
   ];
 
+  if (!sidebarItems.some((item) => item.id === activeTab)) {
+    return <Navigate to="/enduser/schedule" replace />;
+  }
+
   return (
     <div className="flex h-screen bg-gray-50">
       {/* Sidebar */}
@@ -1107,7 +1162,7 @@ const EndUserPortal: React.FC<EndUserPortalProps> = ({ onLogout }) => {
 
         <div className="p-4 border-t">
           <button
-            onClick={onLogout}
+            onClick={logout}
             className="w-full flex items-center text-gray-700 hover:bg-gray-100 rounded-lg p-3"
           >
             <LogOut className="h-5 w-5" />
@@ -0,0 +1,81 @@
+import React, { useState } from "react";
+import { Navigate, Route, Routes } from "react-router-dom";
+import { ClipboardList, Wrench } from "lucide-react";
+import Sidebar from "./components/common/Sidebar";
+import Header from "./components/common/Header";
+import Jobs from "./pages/staff/Jobs";
+import Maintenance from "./pages/staff/Maintenance";
+import { SidebarItem } from "./types";
+import { useAuth } from "./contexts/AuthContext";
+import { usePortalSection } from "./hooks/usePortalSection";
+
+const staffSidebarItems: SidebarItem[] = [
+  { id: "jobs", label: "My Jobs", icon: ClipboardList },
+  { id: "maintenance", label: "Maintenance", icon: Wrench },
+];
+
+const StaffPortal: React.FC = () => {
+  const [activeTab = "jobs", setActiveTab] = usePortalSection("/staff");
+  const [sidebarOpen, setSidebarOpen] = useState(false);
+  const { logout } = useAuth();
+
+  const getPageTitle = () => {
+    return (
+      staffSidebarItems.find((item) => item.id === activeTab)?.label || "My Jobs"
+    );
+  };
+
+  return (
+    <div className="flex h-screen bg-gray-50 relative">
+      {/* Mobile sidebar overlay */}
+      {sidebarOpen && (
+        <div
+          className="fixed inset-0 bg-black bg-opacity-50 z-40 lg:hidden"
+          onClick={() => setSidebarOpen(false)}
+        />
+      )}
+
+      {/* Sidebar */}
+      <div className={`fixed lg:static inset-y-0 left-0 z-50 transform ${
+        sidebarOpen ? 'translate-x-0' : '-translate-x-full'
+      } lg:translate-x-0 transition-transform duration-300 ease-in-out`}>
+        <Sidebar
+          activeTab={activeTab}
+          onTabChange={(tab) => {
+            setActiveTab(tab);
+            setSidebarOpen(false);
+          }}
+          onLogout={logout}
+          sidebarItems={staffSidebarItems}
+          portalName="Staff Portal"
+        />
+      </div>
+
+      <div className="flex-1 overflow-auto lg:ml-0">
+        {/* Mobile menu button */}
+        <div className="lg:hidden bg-white border-b p-4">
+          <button
+            onClick={() => setSidebarOpen(true)}
+            className="text-gray-600 hover:text-gray-900"
+          >
+            <svg className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h16M4 18h16" />
+            </svg>
+          </button>
+        </div>
+
+        <Header title={getPageTitle()} showQuickAction={false} />
+        <main className="p-4 md:p-6">
+          <Routes>
+            <Route index element={<Navigate to="jobs" replace />} />
+            <Route path="jobs" element={<Jobs />} />
+            <Route path="maintenance" element={<Maintenance />} />
+            <Route path="*" element={<Navigate to="jobs" replace />} />
+          </Routes>
+        </main>
+      </div>
+    </div>
+  );
+};
+
+export default StaffPortal;
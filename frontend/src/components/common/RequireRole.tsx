@@ -0,0 +1,28 @@
+import React from 'react';
+import { Navigate, Outlet, useLocation } from 'react-router-dom';
+import { useAuth } from '../../contexts/AuthContext';
+import { PORTAL_HOME } from '../../routes/paths';
+import type { UserRole } from '../../types/api';
+
+interface RequireRoleProps {
+  roles: UserRole[];
+}
+
+// Layout route that only renders its children for the given roles. Guests go
+// to /login (and come back afterwards); other roles go to their own portal.
+const RequireRole: React.FC<RequireRoleProps> = ({ roles }) => {
+  const { user } = useAuth();
+  const location = useLocation();
+
+  if (!user) {
+    return <Navigate to="/login" replace state={{ from: location }} />;
+  }
+
+  if (!roles.includes(user.role)) {
+    return <Navigate to={PORTAL_HOME[user.role]} replace />;
+  }
+
+  return <Outlet />;
+};
+
+export default RequireRole;
@@ -0,0 +1,344 @@
+import React, { useState } from "react";
+import { AxiosResponse } from "axios";
+import { AlertCircle, LucideIcon, Pencil, Plus, Trash2, X } from "lucide-react";
+import { getErrorMessage, useApi, useMutation } from "../../hooks/useApi";
+import { productsAPI } from "../../services/api";
+import type { Product } from "../../types/api";
+
+// A policy for one product or one category (late fees, cancellations)
+interface ScopedPolicy {
+  id?: string;
+  productId?: string | null;
+  category?: string | null;
+  product?: Pick<Product, "id" | "name" | "category"> | null;
+}
+
+// The scope is set on create only
+interface PolicyScope {
+  productId?: string;
+  category?: string;
+}
+
+interface ScopeForm {
+  scope: "product" | "category";
+  productId: string;
+  category: string;
+}
+
+interface ScopedPolicyPageProps<P extends ScopedPolicy, F, I> {
+  title: string;
+  description: string;
+  /** Lower-case name in messages, e.g. "late-fee policy". */
+  noun: string;
+  emptyMessage: string;
+  icon: LucideIcon;
+  queryKey: string;
+  api: {
+    getAll: () => Promise<AxiosResponse<P[]>>;
+    create: (data: I & PolicyScope) => Promise<AxiosResponse<P>>;
+    update: (id: string, data: I) => Promise<AxiosResponse<P>>;
+    delete: (id: string) => Promise<AxiosResponse<unknown>>;
+  };
+  /** The policy's own form fields, as strings while edited. */
+  emptyFields: F;
+  toFields: (policy: P) => F;
+  toInput: (fields: F) => I;
+  /** The policy's own inputs; `fieldClass` styles them like the rest. */
+  renderFields: (fields: F, setFields: (fields: F) => void, fieldClass: string) => React.ReactNode;
+  describe: (policy: P) => React.ReactNode;
+  /** Grid columns of the form, and the span of a full row. */
+  columns: string;
+  fullRow: string;
+}
+
+const fieldClass = "px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500";
+
+const emptyScope: ScopeForm = { scope: "category", productId: "", category: "" };
+
+/**
+ * Admin list and form for product- or category-scoped policies; the page
+ * supplies the policy's own fields and how it's summarised.
+ */
+function ScopedPolicyPage<P extends ScopedPolicy, F, I>({
+  title,
+  description,
+  noun,
+  emptyMessage,
+  icon: Icon,
+  queryKey,
+  api,
+  emptyFields,
+  toFields,
+  toInput,
+  renderFields,
+  describe,
+  columns,
+  fullRow,
+}: ScopedPolicyPageProps<P, F, I>) {
+  const [scope, setScope] = useState<ScopeForm>(emptyScope);
+  const [fields, setFields] = useState<F>(emptyFields);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const policyInvalidates = { invalidates: [[queryKey]] };
+  const { data: policies, loading, error } = useApi(() => api.getAll(), {
+    immediate: true,
+    key: [queryKey],
+  });
+  const { data: products } = useApi(
+    () => productsAPI.getAll({ take: 100 }),
+    { immediate: showForm, key: ["products", "list", { take: 100 }] }
+  );
+
+  const { mutate: createPolicy, loading: creating } = useMutation(
+    (data: I & PolicyScope) => api.create(data),
+    policyInvalidates
+  );
+  const { mutate: updatePolicy, loading: updating } = useMutation(
+    (data: { id: string; input: I }) => api.update(data.id, data.input),
+    policyInvalidates
+  );
+  const { mutate: deletePolicy } = useMutation((id: string) => api.delete(id), policyInvalidates);
+
+  const openForm = (policy?: P) => {
+    setFormError(null);
+    setEditingId(policy?.id ?? null);
+    setScope(
+      policy
+        ? {
+            scope: policy.productId ? "product" : "category",
+            productId: policy.productId ?? "",
+            category: policy.category ?? "",
+          }
+        : emptyScope
+    );
+    setFields(policy ? toFields(policy) : emptyFields);
+    setShowForm(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setFormError(null);
+    const input = toInput(fields);
+    try {
+      if (editingId) {
+        await updatePolicy({ id: editingId, input });
+      } else {
+        await createPolicy({
+          ...input,
+          ...(scope.scope === "product"
+            ? { productId: scope.productId }
+            : { category: scope.category.trim() }),
+        });
+      }
+      setShowForm(false);
+      setScope(emptyScope);
+      setFields(emptyFields);
+    } catch (err) {
+      setFormError(getErrorMessage(err, `Could not save ${noun}`));
+    }
+  };
+
+  const handleDelete = async (policy: P) => {
+    if (!policy.id) return;
+    const name = policy.product?.name ?? policy.category;
+    if (!window.confirm(`Delete the ${noun} for ${name}?`)) return;
+    setFormError(null);
+    try {
+      await deletePolicy(policy.id);
+    } catch (err) {
+      setFormError(getErrorMessage(err, "Delete failed"));
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">{title}</h1>
+          <p className="text-gray-600">{description}</p>
+        </div>
+        <button
+          onClick={() => openForm()}
+          className="bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 transition-colors flex items-center gap-2"
+        >
+          <Plus className="h-4 w-4" />
+          New Policy
+        </button>
+      </div>
+
+      {formError && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 flex items-center gap-2 text-sm text-red-700">
+          <AlertCircle className="h-4 w-4" />
+          {formError}
+        </div>
+      )}
+
+      {showForm && (
+        <form
+          onSubmit={handleSubmit}
+          className={`bg-white rounded-xl shadow-sm border border-gray-200 p-6 grid grid-cols-1 ${columns} gap-4`}
+        >
+          <select
+            value={scope.scope}
+            disabled={!!editingId}
+            onChange={(e) => setScope({ ...scope, scope: e.target.value as ScopeForm["scope"] })}
+            className={`${fieldClass} disabled:bg-gray-100`}
+          >
+            <option value="category">For a category</option>
+            <option value="product">For a product</option>
+          </select>
+          {scope.scope === "product" ? (
+            <select
+              required
+              disabled={!!editingId}
+              value={scope.productId}
+              onChange={(e) => setScope({ ...scope, productId: e.target.value })}
+              className={`${fieldClass} disabled:bg-gray-100`}
+            >
+              <option value="">Select a product</option>
+              {(products?.data || []).map((product) => (
+                <option key={product.id} value={product.id}>
+                  {product.name}
+                </option>
+              ))}
+            </select>
+          ) : (
+            <input
+              required
+              disabled={!!editingId}
+              value={scope.category}
+              onChange={(e) => setScope({ ...scope, category: e.target.value })}
+              placeholder="Category"
+              className={`${fieldClass} disabled:bg-gray-100`}
+            />
+          )}
+
+          {renderFields(fields, setFields, fieldClass)}
+
+          <div className={`${fullRow} flex justify-end gap-3`}>
+            <button
+              type="button"
+              onClick={() => setShowForm(false)}
+              className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={creating || updating}
+              className="bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 disabled:opacity-50"
+            >
+              {editingId ? "Save Policy" : "Create Policy"}
+            </button>
+          </div>
+        </form>
+      )}
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+        {loading ? (
+          <div className="p-6 space-y-2">
+            {[...Array(3)].map((_, i) => (
+              <div key={i} className="h-12 bg-gray-200 rounded animate-pulse"></div>
+            ))}
+          </div>
+        ) : error ? (
+          <div className="p-6 text-sm text-red-700">{error}</div>
+        ) : !policies?.length ? (
+          <div className="p-12 text-center">
+            <Icon className="h-12 w-12 text-gray-300 mx-auto mb-3" />
+            <p className="text-gray-600">{emptyMessage}</p>
+          </div>
+        ) : (
+          <ul className="divide-y">
+            {policies.map((policy) => (
+              <li key={policy.id} className="p-4 flex items-center gap-3">
+                <div className="flex-1">
+                  <div className="font-medium text-gray-900">
+                    {policy.product?.name ?? policy.category}
+                    <span className="ml-2 text-xs text-gray-500">
+                      {policy.productId ? "Product" : "Category"}
+                    </span>
+                  </div>
+                  <div className="text-xs text-gray-500">{describe(policy)}</div>
+                </div>
+                <button
+                  onClick={() => openForm(policy)}
+                  className="text-gray-400 hover:text-gray-600"
+                  title="Edit policy"
+                >
+                  <Pencil className="h-4 w-4" />
+                </button>
+                <button
+                  onClick={() => handleDelete(policy)}
+                  className="text-gray-400 hover:text-red-600"
+                  title="Delete policy"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface PolicyBandsProps<R> {
+  title: string;
+  rows: R[];
+  onChange: (rows: R[]) => void;
+  emptyRow: R;
+  /** e.g. "tier"; labels the add and remove buttons. */
+  noun: string;
+  renderRow: (row: R, update: (patch: Partial<R>) => void) => React.ReactNode;
+  footer?: React.ReactNode;
+  className: string;
+}
+
+/**
+ * Editable list of a policy's bands (late-fee tiers, cancellation windows).
+ */
+export function PolicyBands<R>({
+  title,
+  rows,
+  onChange,
+  emptyRow,
+  noun,
+  renderRow,
+  footer,
+  className,
+}: PolicyBandsProps<R>) {
+  return (
+    <div className={`${className} space-y-2`}>
+      <div className="text-sm font-medium text-gray-700">{title}</div>
+      {rows.map((row, index) => (
+        <div key={index} className="flex items-center gap-2 text-sm text-gray-600">
+          {renderRow(row, (patch) =>
+            onChange(rows.map((other, i) => (i === index ? { ...other, ...patch } : other)))
+          )}
+          <button
+            type="button"
+            onClick={() => onChange(rows.filter((_, i) => i !== index))}
+            className="text-gray-400 hover:text-red-600"
+            title={`Remove ${noun}`}
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      ))}
+      <button
+        type="button"
+        onClick={() => onChange([...rows, emptyRow])}
+        className="text-sm text-green-700 hover:text-green-800"
+      >
+        + Add {noun}
+      </button>
+      {footer}
+    </div>
+  );
+}
+
+export default ScopedPolicyPage;
@@ -7,9 +7,16 @@ interface SidebarProps {
   onTabChange: (tab: string) => void;
   onLogout: () => void;
   sidebarItems: SidebarItem[];
+  portalName?: string;
 }
 
-const Sidebar: React.FC<SidebarProps> = ({ activeTab, onTabChange, onLogout, sidebarItems }) => {
+const Sidebar: React.FC<SidebarProps> = ({
+  activeTab,
+  onTabChange,
+  onLogout,
+  sidebarItems,
+  portalName = 'Admin Portal',
+}) => {
   return (
     <div className="w-64 bg-white shadow-lg flex flex-col h-full">
       <div className="p-6 border-b">
@@ -17,7 +24,7 @@ const Sidebar: React.FC<SidebarProps> = ({ activeTab, onTabChange, onLogout, sid
           <Leaf className="h-8 w-8 text-green-600 mr-3" />
           <div>
             <h2 className="text-xl font-bold text-gray-900">EcoRent</h2>
-            <p className="text-sm text-gray-500">Admin Portal</p>
+            <p className="text-sm text-gray-500">{portalName}</p>
           </div>
         </div>
       </div>
@@ -0,0 +1,396 @@
+import React, { useState } from "react";
+import { AlertCircle, Calendar, CheckCircle, MapPin, Plus, Tag } from "lucide-react";
+import { getErrorMessage, useApi, useMutation } from "../../hooks/useApi";
+import { customersAPI, productsAPI, rentalsAPI, serviceAreaAPI } from "../../services/api";
+import type { AddressInput, BookingWindow, Product, RentalConflict, RentalInput } from "../../types/api";
+import { formatAddress } from "../../utils/address";
+import DateRangePicker from "./DateRangePicker";
+import { addDays, formatDate, toDateInput } from "../../utils/date";
+
+interface CheckoutModalProps {
+  product: Product;
+  onClose: () => void;
+  onBooked?: () => void;
+}
+
+const emptyAddress: AddressInput = {
+  label: "",
+  line1: "",
+  line2: "",
+  city: "",
+  region: "",
+  postalCode: "",
+  country: "",
+};
+
+const CheckoutModal: React.FC<CheckoutModalProps> = ({ product, onClose, onBooked }) => {
+  const today = toDateInput(new Date());
+  const [startDay, setStartDay] = useState(() => addDays(today, 1));
+  const [endDay, setEndDay] = useState(() => addDays(today, 2));
+  const [alternatives, setAlternatives] = useState<BookingWindow[]>([]);
+  const [chosenAddressId, setChosenAddressId] = useState<string | null>(null);
+  const [addingAddress, setAddingAddress] = useState(false);
+  const [newAddress, setNewAddress] = useState<AddressInput>(emptyAddress);
+  const [makeDefault, setMakeDefault] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [booked, setBooked] = useState(false);
+  const [promoInput, setPromoInput] = useState("");
+  const [promoCode, setPromoCode] = useState<string | null>(null);
+
+  const { data: addresses, loading: addressesLoading } = useApi(
+    () => customersAPI.getAddresses(),
+    { immediate: true, key: ["addresses"] }
+  );
+
+  // Until the customer picks one, preselect their default address.
+  const addressId =
+    chosenAddressId ?? addresses?.find((address) => address.isDefault)?.id ?? addresses?.[0]?.id ?? null;
+
+  const { data: coverage, loading: coverageLoading } = useApi(
+    () => serviceAreaAPI.check(addressId as string),
+    { immediate: !!addressId, key: ["service-areas", "check", addressId] }
+  );
+
+  const rangeStart = new Date(`${startDay}T00:00:00`).toISOString();
+  const rangeEnd = new Date(`${endDay}T00:00:00`).toISOString();
+  const { data: quote, loading: quoteLoading, error: quoteError } = useApi(
+    () =>
+      productsAPI.getQuote(product.id, {
+        startDate: rangeStart,
+        endDate: rangeEnd,
+        ...(promoCode && { promoCode }),
+      }),
+    {
+      immediate: endDay > startDay,
+      key: ["products", "quote", product.id, startDay, endDay, promoCode],
+    }
+  );
+  // The quote is refused while the code doesn't apply to these dates
+  const promoError = promoCode ? quoteError : null;
+
+  const { mutate: createAddress, loading: savingAddress } = useMutation(
+    (data: AddressInput) => customersAPI.createAddress(data),
+    { invalidates: [["addresses"]] }
+  );
+  const { mutate: createRental, loading: booking } = useMutation(
+    (data: RentalInput) => rentalsAPI.create(data),
+    { invalidates: [["rentals"], ["products"]] }
+  );
+
+  const handleSaveAddress = async () => {
+    setFormError(null);
+    const { line1, city, postalCode, country } = newAddress;
+    if (!line1.trim() || !city.trim() || !postalCode.trim() || !country.trim()) {
+      setFormError("Street, city, postcode and country are required");
+      return;
+    }
+
+    try {
+      // Drop blank optional fields so the server doesn't store empty strings
+      const input = Object.fromEntries(
+        Object.entries(newAddress).filter(([, value]) => value !== "")
+      ) as unknown as AddressInput;
+      const address = await createAddress({ ...input, isDefault: makeDefault });
+      setChosenAddressId(address.id);
+      setAddingAddress(false);
+      setNewAddress(emptyAddress);
+      setMakeDefault(false);
+    } catch (error) {
+      setFormError(getErrorMessage(error, "Could not save address"));
+    }
+  };
+
+  const handleBook = async () => {
+    if (!addressId) return;
+
+    setFormError(null);
+    setAlternatives([]);
+    try {
+      await createRental({
+        productId: product.id,
+        startDate: rangeStart,
+        endDate: rangeEnd,
+        addressId,
+        ...(promoCode && { promoCode }),
+      });
+      setBooked(true);
+      onBooked?.();
+    } catch (error) {
+      const conflict = (error as { response?: { status?: number; data?: RentalConflict } }).response;
+      if (conflict?.status === 409 && conflict.data) {
+        setAlternatives(conflict.data.alternatives);
+      }
+      setFormError(getErrorMessage(error, "Booking failed"));
+    }
+  };
+
+  const pickAlternative = (option: BookingWindow) => {
+    setStartDay(toDateInput(new Date(option.startDate)));
+    setEndDay(toDateInput(new Date(option.endDate)));
+    setAlternatives([]);
+    setFormError(null);
+  };
+
+  const outsideArea = coverage && !coverage.serviceable;
+  const validDates = startDay >= today && endDay > startDay;
+  const canBook =
+    validDates && !!addressId && !outsideArea && !coverageLoading && !promoError && !booking;
+
+  const field = (name: keyof AddressInput, placeholder: string, className = "") => (
+    <input
+      value={(newAddress[name] as string) ?? ""}
+      onChange={(e) => setNewAddress({ ...newAddress, [name]: e.target.value })}
+      placeholder={placeholder}
+      className={`px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 ${className}`}
+    />
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6 border-b">
+          <div className="flex items-center justify-between">
+            <h3 className="text-xl font-semibold text-gray-900">Rent {product.name}</h3>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+              ×
+            </button>
+          </div>
+        </div>
+
+        {booked ? (
+          <div className="p-12 text-center">
+            <CheckCircle className="h-16 w-16 text-green-500 mx-auto mb-4" />
+            <h3 className="text-xl font-semibold text-gray-900 mb-2">Request sent</h3>
+            <p className="text-gray-600 mb-6">We'll confirm your rental with a quotation shortly.</p>
+            <button
+              onClick={onClose}
+              className="bg-blue-600 text-white px-6 py-2 rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              Done
+            </button>
+          </div>
+        ) : (
+          <div className="p-6 space-y-6">
+            {formError && (
+              <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
+                <div className="flex items-center gap-2">
+                  <AlertCircle className="h-4 w-4" />
+                  {formError}
+                </div>
+                {alternatives.length > 0 && (
+                  <div className="mt-3">
+                    <div className="text-gray-700 mb-2">These dates are free:</div>
+                    <div className="flex flex-wrap gap-2">
+                      {alternatives.map((option) => (
+                        <button
+                          key={option.startDate}
+                          onClick={() => pickAlternative(option)}
+                          className="px-3 py-1 bg-white border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50"
+                        >
+                          {formatDate(option.startDate)} – {formatDate(option.endDate)}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* Rental period */}
+            <div>
+              <h4 className="font-medium text-gray-900 mb-3 flex items-center gap-2">
+                <Calendar className="h-4 w-4" />
+                Rental period
+              </h4>
+              <DateRangePicker
+                productId={product.id}
+                startDay={startDay}
+                endDay={endDay}
+                onChange={(start, end) => {
+                  setStartDay(start);
+                  setEndDay(end);
+                }}
+              />
+              <p className="mt-2 text-sm text-gray-600">
+                {formatDate(rangeStart)} – {formatDate(rangeEnd)}
+              </p>
+              {quoteLoading ? (
+                <div className="mt-3 h-16 bg-gray-200 rounded animate-pulse"></div>
+              ) : (
+                quote && (
+                  <div className="mt-3 p-3 bg-gray-50 rounded-lg text-sm space-y-1">
+                    {quote.lines.map((line) => (
+                      <div key={line.description} className="flex justify-between text-gray-700">
+                        <span>{line.description}</span>
+                        <span>${line.amount.toFixed(2)}</span>
+                      </div>
+                    ))}
+                    {quote.discounts.map((line) => (
+                      <div key={line.description} className="flex justify-between text-green-700">
+                        <span>{line.description}</span>
+                        <span>−${line.amount.toFixed(2)}</span>
+                      </div>
+                    ))}
+                    {quote.tax > 0 && (
+                      <div className="flex justify-between text-gray-600">
+                        <span>Tax ({quote.taxRate}%)</span>
+                        <span>${quote.tax.toFixed(2)}</span>
+                      </div>
+                    )}
+                    <div className="flex justify-between pt-1 border-t font-semibold text-gray-900">
+                      <span>Estimated total</span>
+                      <span>${quote.total.toFixed(2)}</span>
+                    </div>
+                  </div>
+                )
+              )}
+
+              <div className="mt-3 flex gap-2">
+                <input
+                  value={promoInput}
+                  onChange={(e) => setPromoInput(e.target.value)}
+                  placeholder="Promo code"
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm uppercase focus:ring-2 focus:ring-blue-500"
+                />
+                <button
+                  onClick={() => setPromoCode(promoInput.trim().toUpperCase() || null)}
+                  disabled={!promoInput.trim()}
+                  className="px-3 py-2 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 flex items-center gap-1"
+                >
+                  <Tag className="h-4 w-4" />
+                  Apply
+                </button>
+              </div>
+              {promoCode && (
+                <p className={`mt-2 text-sm ${promoError ? "text-red-600" : "text-green-700"}`}>
+                  {promoError ?? `${promoCode} applied.`}{" "}
+                  <button
+                    onClick={() => {
+                      setPromoCode(null);
+                      setPromoInput("");
+                    }}
+                    className="underline"
+                  >
+                    Remove
+                  </button>
+                </p>
+              )}
+            </div>
+
+            {/* Delivery address */}
+            <div>
+              <h4 className="font-medium text-gray-900 mb-3 flex items-center gap-2">
+                <MapPin className="h-4 w-4" />
+                Delivery address
+              </h4>
+              {addressesLoading ? (
+                <div className="h-12 bg-gray-200 rounded animate-pulse"></div>
+              ) : (
+                <div className="space-y-2">
+                  {(addresses || []).map((address) => (
+                    <label
+                      key={address.id}
+                      className={`flex items-start gap-3 p-3 border rounded-lg cursor-pointer ${
+                        address.id === addressId ? "border-blue-500 bg-blue-50" : "border-gray-200"
+                      }`}
+                    >
+                      <input
+                        type="radio"
+                        name="address"
+                        checked={address.id === addressId}
+                        onChange={() => setChosenAddressId(address.id)}
+                        className="mt-1"
+                      />
+                      <div className="text-sm">
+                        <div className="font-medium text-gray-900">
+                          {address.label || "Address"}
+                          {address.isDefault && <span className="ml-2 text-xs text-gray-500">Default</span>}
+                        </div>
+                        <div className="text-gray-600">{formatAddress(address)}</div>
+                      </div>
+                    </label>
+                  ))}
+
+                  {addingAddress ? (
+                    <div className="p-3 border border-gray-200 rounded-lg space-y-2">
+                      <div className="grid grid-cols-2 gap-2">
+                        {field("label", "Label (e.g. Home)", "col-span-2")}
+                        {field("line1", "Street address", "col-span-2")}
+                        {field("line2", "Apartment, suite (optional)", "col-span-2")}
+                        {field("city", "City")}
+                        {field("region", "State / region")}
+                        {field("postalCode", "Postcode")}
+                        {field("country", "Country")}
+                      </div>
+                      <div className="flex items-center justify-between">
+                        <label className="flex items-center gap-2 text-sm text-gray-700">
+                          <input
+                            type="checkbox"
+                            checked={makeDefault}
+                            onChange={(e) => setMakeDefault(e.target.checked)}
+                          />
+                          Make this my default address
+                        </label>
+                        <div className="flex gap-2">
+                          <button
+                            onClick={() => setAddingAddress(false)}
+                            className="px-3 py-1 text-sm border border-gray-300 rounded-lg hover:bg-gray-50"
+                          >
+                            Cancel
+                          </button>
+                          <button
+                            onClick={handleSaveAddress}
+                            disabled={savingAddress}
+                            className="px-3 py-1 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+                          >
+                            Save address
+                          </button>
+                        </div>
+                      </div>
+                    </div>
+                  ) : (
+                    <button
+                      onClick={() => setAddingAddress(true)}
+                      className="text-sm text-blue-600 hover:text-blue-800 flex items-center gap-1"
+                    >
+                      <Plus className="h-4 w-4" />
+                      Add a new address
+                    </button>
+                  )}
+                </div>
+              )}
+
+              {addressId && coverage && (
+                <p className={`mt-3 text-sm ${outsideArea ? "text-red-600" : "text-gray-600"}`}>
+                  {outsideArea
+                    ? "Sorry, we don't deliver to this address yet."
+                    : coverage.surcharge
+                      ? `A $${coverage.surcharge.toFixed(2)} delivery surcharge applies${coverage.area ? ` (${coverage.area.name})` : ""}.`
+                      : "Free delivery to this address."}
+                </p>
+              )}
+            </div>
+
+            <div className="flex justify-end gap-3 pt-2 border-t">
+              <button
+                onClick={onClose}
+                className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleBook}
+                disabled={!canBook}
+                className="bg-blue-600 text-white px-6 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+              >
+                {booking ? "Booking..." : "Request Rental"}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CheckoutModal;
@@ -0,0 +1,129 @@
+import React, { useState } from "react";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { useApi } from "../../hooks/useApi";
+import { productsAPI } from "../../services/api";
+import { addDays, toDateInput } from "../../utils/date";
+
+interface DateRangePickerProps {
+  productId: string;
+  // YYYY-MM-DD; `endDay` is exclusive, the day the rental ends
+  startDay: string;
+  endDay: string;
+  onChange: (startDay: string, endDay: string) => void;
+}
+
+const dayNames = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const DateRangePicker: React.FC<DateRangePickerProps> = ({ productId, startDay, endDay, onChange }) => {
+  const today = toDateInput(new Date());
+  const [month, setMonth] = useState(() => new Date(`${startDay.slice(0, 7)}-01T00:00:00`));
+  // First day clicked while waiting for the last one
+  const [anchor, setAnchor] = useState<string | null>(null);
+
+  const monthStart = toDateInput(month);
+  const nextMonth = new Date(month.getFullYear(), month.getMonth() + 1, 1);
+  const { data: capacity, loading } = useApi(
+    () =>
+      productsAPI.getCapacity(productId, {
+        from: month.toISOString(),
+        to: nextMonth.toISOString(),
+        granularity: "day",
+      }),
+    { immediate: true, key: ["products", "availability", productId, monthStart] }
+  );
+
+  // Slots come back one per day from the first of the month; index them by
+  // position so a DST shift can't move a slot onto the wrong day.
+  const freeByDay = new Map<string, number>();
+  capacity?.slots.forEach((slot, i) => freeByDay.set(addDays(monthStart, i), slot.free));
+
+  const isUnavailable = (day: string) => day < today || freeByDay.get(day) === 0;
+
+  const handleClick = (day: string) => {
+    if (isUnavailable(day)) return;
+
+    if (!anchor || day < anchor) {
+      setAnchor(day);
+      onChange(day, addDays(day, 1));
+      return;
+    }
+
+    // The range may not run through a day that's already taken
+    for (let d = anchor; d <= day; d = addDays(d, 1)) {
+      if (isUnavailable(d)) {
+        setAnchor(day);
+        onChange(day, addDays(day, 1));
+        return;
+      }
+    }
+    setAnchor(null);
+    onChange(anchor, addDays(day, 1));
+  };
+
+  const days: (string | null)[] = Array(month.getDay()).fill(null);
+  for (let d = monthStart; d < toDateInput(nextMonth); d = addDays(d, 1)) days.push(d);
+
+  const shiftMonth = (delta: number) => setMonth(new Date(month.getFullYear(), month.getMonth() + delta, 1));
+  const lastDay = addDays(endDay, -1);
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-3">
+      <div className="flex items-center justify-between mb-2">
+        <button
+          type="button"
+          onClick={() => shiftMonth(-1)}
+          disabled={monthStart <= today.slice(0, 7) + "-01"}
+          className="p-1 text-gray-500 hover:text-gray-700 disabled:opacity-30"
+        >
+          <ChevronLeft className="h-4 w-4" />
+        </button>
+        <span className="text-sm font-medium text-gray-900">
+          {month.toLocaleDateString(undefined, { month: "long", year: "numeric" })}
+        </span>
+        <button
+          type="button"
+          onClick={() => shiftMonth(1)}
+          className="p-1 text-gray-500 hover:text-gray-700"
+        >
+          <ChevronRight className="h-4 w-4" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-7 gap-1 text-center text-xs">
+        {dayNames.map((name) => (
+          <div key={name} className="py-1 text-gray-500">{name}</div>
+        ))}
+        {days.map((day, i) => {
+          if (!day) return <div key={`empty-${i}`} />;
+
+          const unavailable = isUnavailable(day);
+          const selected = day >= startDay && day <= lastDay;
+          return (
+            <button
+              key={day}
+              type="button"
+              onClick={() => handleClick(day)}
+              disabled={unavailable || loading}
+              title={unavailable ? "Unavailable" : `${freeByDay.get(day) ?? "?"} available`}
+              className={`py-2 rounded text-sm ${
+                unavailable
+                  ? "bg-gray-100 text-gray-300 line-through cursor-not-allowed"
+                  : selected
+                    ? "bg-blue-600 text-white"
+                    : "text-gray-700 hover:bg-blue-50"
+              }`}
+            >
+              {Number(day.slice(8))}
+            </button>
+          );
+        })}
+      </div>
+
+      <p className="mt-2 text-xs text-gray-500">
+        {anchor ? "Now pick the last day of the rental." : "Pick the first day, then the last day."}
+      </p>
+    </div>
+  );
+};
+
+export default DateRangePicker;
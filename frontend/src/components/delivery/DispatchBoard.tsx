@@ -0,0 +1,293 @@
+import React, { useState } from "react";
+import { AlertCircle, AlertTriangle, User as UserIcon } from "lucide-react";
+import { getErrorMessage, useApi, useMutation } from "../../hooks/useApi";
+import { pickupAPI, returnAPI } from "../../services/api";
+import type { ISODateString, JobAssignInput, StaffConflict, User } from "../../types/api";
+import { dayWindow, formatTime, toDateInput } from "../../utils/date";
+
+type JobKind = "pickup" | "return";
+
+interface BoardJob {
+  kind: JobKind;
+  id: string;
+  scheduled: ISODateString;
+  staffId?: string | null;
+  reference: string;
+  customer: string;
+  product: string;
+}
+
+interface DispatchBoardProps {
+  staff: User[];
+}
+
+// Hourly slots shown on the board, in local time.
+const FIRST_HOUR = 8;
+const LAST_HOUR = 18;
+const HOURS = Array.from({ length: LAST_HOUR - FIRST_HOUR + 1 }, (_, i) => FIRST_HOUR + i);
+
+// Mirrors JOB_DURATION_MINUTES on the server: jobs closer together than this
+// double-book the staff member.
+const JOB_DURATION_MS = 60 * 60 * 1000;
+
+const jobKey = (job: { kind: JobKind; id: string }) => `${job.kind}:${job.id}`;
+
+// Keys of every job that overlaps another job of the same staff member.
+const findDoubleBooked = (jobs: BoardJob[]) => {
+  const flagged = new Set<string>();
+  const byStaff = new Map<string, BoardJob[]>();
+  for (const job of jobs) {
+    if (!job.staffId) continue;
+    byStaff.set(job.staffId, [...(byStaff.get(job.staffId) ?? []), job]);
+  }
+  for (const staffJobs of byStaff.values()) {
+    staffJobs.forEach((job, i) => {
+      for (const other of staffJobs.slice(i + 1)) {
+        const gap = Math.abs(new Date(job.scheduled).getTime() - new Date(other.scheduled).getTime());
+        if (gap < JOB_DURATION_MS) {
+          flagged.add(jobKey(job));
+          flagged.add(jobKey(other));
+        }
+      }
+    });
+  }
+  return flagged;
+};
+
+const jobInvalidates = { invalidates: [["pickups"], ["returns"]] };
+
+const DispatchBoard: React.FC<DispatchBoardProps> = ({ staff }) => {
+  const [day, setDay] = useState(() => toDateInput(new Date()));
+  const [dragging, setDragging] = useState<string | null>(null);
+  const [warning, setWarning] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const range = dayWindow(day);
+  const params = { ...range, completed: false, take: 100 };
+
+  const { data: pickupsData, loading: pickupsLoading } = useApi(
+    () => pickupAPI.getAll(params),
+    { immediate: true, key: ["pickups", "board", day] }
+  );
+  const { data: returnsData, loading: returnsLoading } = useApi(
+    () => returnAPI.getAll(params),
+    { immediate: true, key: ["returns", "board", day] }
+  );
+
+  const { mutate: assignPickup } = useMutation(
+    (data: { id: string } & JobAssignInput) =>
+      pickupAPI.assign(data.id, { staffId: data.staffId, scheduled: data.scheduled }),
+    jobInvalidates
+  );
+  const { mutate: assignReturn } = useMutation(
+    (data: { id: string } & JobAssignInput) =>
+      returnAPI.assign(data.id, { staffId: data.staffId, scheduled: data.scheduled }),
+    jobInvalidates
+  );
+
+  const jobs: BoardJob[] = [
+    ...(pickupsData?.data || []).map((pickup) => ({
+      kind: "pickup" as const,
+      id: pickup.id,
+      scheduled: pickup.scheduled,
+      staffId: pickup.staffId,
+      reference: pickup.rental.orderReference || pickup.rentalId,
+      customer: pickup.rental.customer?.name,
+      product: pickup.rental.product?.name,
+    })),
+    ...(returnsData?.data || []).map((returnItem) => ({
+      kind: "return" as const,
+      id: returnItem.id,
+      scheduled: returnItem.scheduled,
+      staffId: returnItem.staffId,
+      reference: returnItem.rental.orderReference || returnItem.rentalId,
+      customer: returnItem.rental.customer?.name,
+      product: returnItem.rental.product?.name,
+    })),
+  ].sort((a, b) => new Date(a.scheduled).getTime() - new Date(b.scheduled).getTime());
+
+  const doubleBooked = findDoubleBooked(jobs);
+
+  // Jobs outside the board's hours stay in the first/last column.
+  const slotOf = (job: BoardJob) =>
+    Math.min(LAST_HOUR, Math.max(FIRST_HOUR, new Date(job.scheduled).getHours()));
+
+  const handleDrop = async (staffId: string | null, hour?: number) => {
+    const job = jobs.find((j) => jobKey(j) === dragging);
+    setDragging(null);
+    if (!job) return;
+
+    // Dropping on a slot keeps the minutes and moves the hour; dropping on
+    // the unassigned pool keeps the time.
+    let scheduled: ISODateString | undefined;
+    if (hour !== undefined) {
+      const next = new Date(`${day}T00:00:00`);
+      next.setHours(hour, new Date(job.scheduled).getMinutes(), 0, 0);
+      scheduled = next.toISOString();
+    }
+    if (job.staffId === staffId && (!scheduled || slotOf(job) === hour)) return;
+
+    setActionError(null);
+    setWarning(null);
+    try {
+      const assign = job.kind === "pickup" ? assignPickup : assignReturn;
+      const result = await assign({ id: job.id, staffId, scheduled });
+      const conflicts: StaffConflict[] = result?.conflicts ?? [];
+      if (conflicts.length > 0) {
+        const name = staff.find((s) => s.id === staffId)?.name ?? "This staff member";
+        setWarning(
+          `${name} is double-booked: ${conflicts
+            .map((c) => `${c.kind} at ${formatTime(c.scheduled)}`)
+            .join(", ")}`
+        );
+      }
+    } catch (error) {
+      setActionError(getErrorMessage(error, "Assignment failed"));
+    }
+  };
+
+  const dropTarget = (staffId: string | null, hour?: number) => ({
+    onDragOver: (e: React.DragEvent) => e.preventDefault(),
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      handleDrop(staffId, hour);
+    },
+  });
+
+  const renderJob = (job: BoardJob) => {
+    const key = jobKey(job);
+    const conflict = doubleBooked.has(key);
+    return (
+      <div
+        key={key}
+        draggable
+        onDragStart={(e) => {
+          e.dataTransfer.effectAllowed = "move";
+          setDragging(key);
+        }}
+        onDragEnd={() => setDragging(null)}
+        title={`${job.customer} · ${job.product}`}
+        className={`p-2 rounded-lg border text-xs cursor-move select-none ${
+          job.kind === "pickup" ? "bg-blue-50 border-blue-200" : "bg-green-50 border-green-200"
+        } ${conflict ? "ring-2 ring-red-400" : ""} ${dragging === key ? "opacity-50" : ""}`}
+      >
+        <div className="flex items-center justify-between gap-1">
+          <span className="font-medium text-gray-900 truncate">{job.reference}</span>
+          {conflict && <AlertTriangle className="h-3 w-3 text-red-500 flex-shrink-0" />}
+        </div>
+        <div className="text-gray-600 truncate">
+          {job.kind === "pickup" ? "Pickup" : "Return"} · {formatTime(job.scheduled)}
+        </div>
+        <div className="text-gray-500 truncate">{job.customer}</div>
+      </div>
+    );
+  };
+
+  const unassigned = jobs.filter((job) => !job.staffId);
+  const loading = pickupsLoading || returnsLoading;
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+      <div className="p-6 border-b flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900">Dispatch Board</h2>
+          <p className="text-gray-600 mt-1">
+            Drag open pickups and returns onto a staff member and time slot
+          </p>
+        </div>
+        <input
+          type="date"
+          value={day}
+          onChange={(e) => e.target.value && setDay(e.target.value)}
+          className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+        />
+      </div>
+
+      {(actionError || warning) && (
+        <div className="px-6 pt-4">
+          <div className={`rounded-lg p-3 flex items-center gap-2 text-sm border ${
+            actionError ? "bg-red-50 border-red-200 text-red-700" : "bg-yellow-50 border-yellow-200 text-yellow-800"
+          }`}>
+            <AlertCircle className="h-4 w-4" />
+            {actionError || warning}
+          </div>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="p-6 animate-pulse space-y-3">
+          {[...Array(3)].map((_, i) => (
+            <div key={i} className="h-16 bg-gray-200 rounded"></div>
+          ))}
+        </div>
+      ) : (
+        <div className="p-6 space-y-6">
+          {/* Unassigned pool */}
+          <div
+            {...dropTarget(null)}
+            className="border-2 border-dashed border-gray-300 rounded-lg p-4 min-h-[5rem]"
+          >
+            <h3 className="text-sm font-medium text-gray-700 mb-3">
+              Unassigned ({unassigned.length})
+            </h3>
+            <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 gap-2">
+              {unassigned.map(renderJob)}
+            </div>
+          </div>
+
+          {/* Staff x hour grid */}
+          {staff.length === 0 ? (
+            <p className="text-sm text-gray-600">No staff accounts yet.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full border-collapse text-sm">
+                <thead>
+                  <tr>
+                    <th className="sticky left-0 bg-white text-left font-medium text-gray-700 p-2 w-40">Staff</th>
+                    {HOURS.map((hour) => (
+                      <th key={hour} className="font-medium text-gray-500 p-2 min-w-[8rem] text-left">
+                        {`${String(hour).padStart(2, "0")}:00`}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {staff.map((member) => {
+                    const memberJobs = jobs.filter((job) => job.staffId === member.id);
+                    const booked = memberJobs.some((job) => doubleBooked.has(jobKey(job)));
+                    return (
+                      <tr key={member.id} className="border-t border-gray-200">
+                        <td className="sticky left-0 bg-white p-2 align-top">
+                          <div className="flex items-center gap-2">
+                            <UserIcon className="h-4 w-4 text-gray-400" />
+                            <span className="font-medium text-gray-900">{member.name}</span>
+                          </div>
+                          <div className={`text-xs ${booked ? "text-red-600" : "text-gray-500"}`}>
+                            {memberJobs.length} job{memberJobs.length === 1 ? "" : "s"}
+                            {booked && " · double-booked"}
+                          </div>
+                        </td>
+                        {HOURS.map((hour) => (
+                          <td
+                            key={hour}
+                            {...dropTarget(member.id, hour)}
+                            className={`p-1 align-top border-l border-gray-100 ${dragging ? "bg-gray-50" : ""}`}
+                          >
+                            <div className="space-y-1 min-h-[3rem]">
+                              {memberJobs.filter((job) => slotOf(job) === hour).map(renderJob)}
+                            </div>
+                          </td>
+                        ))}
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DispatchBoard;
@@ -0,0 +1,160 @@
+import React, { useState } from "react";
+import { AlertCircle, AlertTriangle, Navigation, Route } from "lucide-react";
+import { useApi } from "../../hooks/useApi";
+import { dispatchAPI } from "../../services/api";
+import type { User } from "../../types/api";
+import { formatAddress } from "../../utils/address";
+import { dayWindow, formatTime, toDateInput } from "../../utils/date";
+
+interface RoutePlanProps {
+  staff: User[];
+}
+
+const RoutePlan: React.FC<RoutePlanProps> = ({ staff }) => {
+  const [day, setDay] = useState(() => toDateInput(new Date()));
+  const [chosenStaffId, setChosenStaffId] = useState<string | null>(null);
+  const staffId = chosenStaffId ?? staff[0]?.id ?? null;
+
+  const { data: plan, loading, error, refetch } = useApi(
+    () => dispatchAPI.getRoute({ ...dayWindow(day), staffId: staffId as string }),
+    { immediate: !!staffId, key: ["pickups", "route", staffId, day] }
+  );
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+      <div className="p-6 border-b flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900">Route Plan</h2>
+          <p className="text-gray-600 mt-1">
+            Optimised stop order for one staff member's open jobs, from and back to the depot
+          </p>
+        </div>
+        <div className="flex gap-3">
+          <select
+            value={staffId ?? ""}
+            onChange={(e) => setChosenStaffId(e.target.value)}
+            className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+          >
+            {staff.map((member) => (
+              <option key={member.id} value={member.id}>{member.name}</option>
+            ))}
+          </select>
+          <input
+            type="date"
+            value={day}
+            onChange={(e) => e.target.value && setDay(e.target.value)}
+            className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+      </div>
+
+      {!staffId ? (
+        <div className="p-12 text-center text-gray-600">No staff accounts yet.</div>
+      ) : loading ? (
+        <div className="p-6 animate-pulse space-y-3">
+          {[...Array(4)].map((_, i) => (
+            <div key={i} className="h-12 bg-gray-200 rounded"></div>
+          ))}
+        </div>
+      ) : error ? (
+        <div className="p-6">
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-center justify-between gap-3">
+            <span className="flex items-center gap-2 text-red-700">
+              <AlertCircle className="h-5 w-5" />
+              {error}
+            </span>
+            <button onClick={() => refetch().catch(() => {})} className="text-red-700 font-medium">
+              Retry
+            </button>
+          </div>
+        </div>
+      ) : plan && (
+        <div className="p-6 space-y-6">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div>
+              <div className="text-sm text-gray-500">Stops</div>
+              <div className="text-lg font-semibold text-gray-900">{plan.stops.length}</div>
+            </div>
+            <div>
+              <div className="text-sm text-gray-500">Est. distance</div>
+              <div className="text-lg font-semibold text-gray-900">{plan.distanceKm.toFixed(1)} km</div>
+            </div>
+            <div>
+              <div className="text-sm text-gray-500">Leave depot</div>
+              <div className="text-lg font-semibold text-gray-900">{formatTime(plan.start)}</div>
+            </div>
+            <div>
+              <div className="text-sm text-gray-500">Back at depot</div>
+              <div className="text-lg font-semibold text-gray-900">{formatTime(plan.finish)}</div>
+            </div>
+          </div>
+
+          {plan.lateMinutes > 0 && (
+            <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3 flex items-center gap-2 text-sm text-yellow-800">
+              <AlertTriangle className="h-4 w-4" />
+              No order meets every time window; stops run {plan.lateMinutes} min late in total.
+            </div>
+          )}
+
+          {plan.stops.length === 0 ? (
+            <div className="text-center py-8">
+              <Route className="h-12 w-12 text-gray-300 mx-auto mb-3" />
+              <p className="text-gray-600">No routable stops for this day.</p>
+            </div>
+          ) : (
+            <ol className="space-y-3">
+              {plan.stops.map((stop, index) => (
+                <li key={`${stop.kind}:${stop.id}`} className="flex items-start gap-4 p-3 border border-gray-200 rounded-lg">
+                  <div className="w-8 h-8 rounded-full bg-blue-100 text-blue-700 flex items-center justify-center text-sm font-semibold">
+                    {index + 1}
+                  </div>
+                  <div className="flex-1 text-sm">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="font-medium text-gray-900">{stop.customerName}</span>
+                      <span className={`px-2 py-1 rounded-full text-xs font-medium ${
+                        stop.kind === "pickup" ? "bg-blue-100 text-blue-800" : "bg-green-100 text-green-800"
+                      }`}>
+                        {stop.kind === "pickup" ? "Pickup" : "Return"}
+                      </span>
+                      {stop.lateMinutes > 0 && (
+                        <span className="px-2 py-1 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                          {stop.lateMinutes} min late
+                        </span>
+                      )}
+                    </div>
+                    <div className="text-gray-600">{formatAddress(stop.address)}</div>
+                    <div className="text-gray-500">
+                      ETA {formatTime(stop.eta)} · window {formatTime(stop.windowStart)}–{formatTime(stop.windowEnd)}
+                    </div>
+                  </div>
+                  <div className="text-sm text-gray-500 flex items-center gap-1 whitespace-nowrap">
+                    <Navigation className="h-3 w-3" />
+                    {stop.legKm.toFixed(1)} km
+                  </div>
+                </li>
+              ))}
+              <li className="text-sm text-gray-500 pl-12">
+                Return to depot · {plan.returnKm.toFixed(1)} km
+              </li>
+            </ol>
+          )}
+
+          {plan.unrouted.length > 0 && (
+            <div>
+              <h3 className="text-sm font-medium text-gray-700 mb-2">Not routed</h3>
+              <ul className="space-y-1 text-sm text-gray-600">
+                {plan.unrouted.map((stop) => (
+                  <li key={`${stop.kind}:${stop.id}`}>
+                    {stop.customerName} ({stop.kind}, {formatTime(stop.scheduled)}): {stop.reason}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RoutePlan;
@@ -0,0 +1,237 @@
+import React, { useState } from "react";
+import { AlertCircle, MapPin, Plus, Trash2 } from "lucide-react";
+import { getErrorMessage, useApi, useMutation } from "../../hooks/useApi";
+import { serviceAreaAPI } from "../../services/api";
+import type { PolygonPoint, ServiceArea, ServiceAreaInput } from "../../types/api";
+
+interface AreaForm {
+  name: string;
+  postalCodes: string;
+  polygon: string;
+  surcharge: string;
+  isActive: boolean;
+}
+
+const emptyForm: AreaForm = { name: "", postalCodes: "", polygon: "", surcharge: "0", isActive: true };
+
+const toForm = (area: ServiceArea): AreaForm => ({
+  name: area.name,
+  postalCodes: area.postalCodes.join(", "),
+  polygon: area.polygon ? JSON.stringify(area.polygon) : "",
+  surcharge: String(area.surcharge),
+  isActive: area.isActive,
+});
+
+// The polygon is edited as JSON: [{"lat": 51.5, "lng": -0.1}, ...]
+const toInput = (form: AreaForm): ServiceAreaInput => ({
+  name: form.name.trim(),
+  postalCodes: form.postalCodes.split(/[,\n]/).map((code) => code.trim()).filter(Boolean),
+  polygon: form.polygon.trim() ? (JSON.parse(form.polygon) as PolygonPoint[]) : null,
+  surcharge: Number(form.surcharge) || 0,
+  isActive: form.isActive,
+});
+
+const areaInvalidates = { invalidates: [["service-areas"]] };
+
+const ServiceAreas: React.FC = () => {
+  const [editing, setEditing] = useState<string | null>(null);
+  const [form, setForm] = useState<AreaForm>(emptyForm);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const { data: areas, loading, error } = useApi(
+    () => serviceAreaAPI.getAll(),
+    { immediate: true, key: ["service-areas"] }
+  );
+
+  const { mutate: createArea, loading: creating } = useMutation(
+    (data: ServiceAreaInput) => serviceAreaAPI.create(data),
+    areaInvalidates
+  );
+  const { mutate: updateArea, loading: updating } = useMutation(
+    (data: { id: string; input: ServiceAreaInput }) => serviceAreaAPI.update(data.id, data.input),
+    areaInvalidates
+  );
+  const { mutate: deleteArea } = useMutation(
+    (id: string) => serviceAreaAPI.delete(id),
+    areaInvalidates
+  );
+
+  const startEdit = (area?: ServiceArea) => {
+    setEditing(area ? area.id : "new");
+    setForm(area ? toForm(area) : emptyForm);
+    setFormError(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setFormError(null);
+
+    let input: ServiceAreaInput;
+    try {
+      input = toInput(form);
+    } catch {
+      setFormError("Polygon must be a JSON array of {\"lat\", \"lng\"} points");
+      return;
+    }
+
+    try {
+      if (editing === "new") {
+        await createArea(input);
+      } else if (editing) {
+        await updateArea({ id: editing, input });
+      }
+      setEditing(null);
+    } catch (err) {
+      setFormError(getErrorMessage(err, "Save failed"));
+    }
+  };
+
+  const handleDelete = async (area: ServiceArea) => {
+    if (!window.confirm(`Delete service area "${area.name}"?`)) return;
+    await deleteArea(area.id).catch(() => {});
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+      <div className="p-6 border-b flex items-center justify-between">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900">Service Areas</h2>
+          <p className="text-gray-600 mt-1">
+            Pickups are only scheduled for addresses inside an active area. With no areas, every address is served.
+          </p>
+        </div>
+        <button
+          onClick={() => startEdit()}
+          className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors flex items-center gap-2"
+        >
+          <Plus className="h-4 w-4" />
+          Add Area
+        </button>
+      </div>
+
+      {editing && (
+        <form onSubmit={handleSubmit} className="p-6 border-b bg-gray-50 space-y-4">
+          {formError && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3 flex items-center gap-2 text-sm text-red-700">
+              <AlertCircle className="h-4 w-4" />
+              {formError}
+            </div>
+          )}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <input
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              placeholder="Name"
+              required
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+            />
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              value={form.surcharge}
+              onChange={(e) => setForm({ ...form, surcharge: e.target.value })}
+              placeholder="Surcharge"
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <textarea
+            value={form.postalCodes}
+            onChange={(e) => setForm({ ...form, postalCodes: e.target.value })}
+            placeholder="Postcodes, comma separated"
+            rows={2}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+          />
+          <textarea
+            value={form.polygon}
+            onChange={(e) => setForm({ ...form, polygon: e.target.value })}
+            placeholder='Optional polygon: [{"lat": 51.5, "lng": -0.12}, ...]'
+            rows={2}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg font-mono text-sm focus:ring-2 focus:ring-blue-500"
+          />
+          <div className="flex items-center justify-between">
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={form.isActive}
+                onChange={(e) => setForm({ ...form, isActive: e.target.checked })}
+              />
+              Active
+            </label>
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={() => setEditing(null)}
+                className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-100"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={creating || updating}
+                className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50"
+              >
+                Save
+              </button>
+            </div>
+          </div>
+        </form>
+      )}
+
+      {loading ? (
+        <div className="p-6 animate-pulse space-y-3">
+          {[...Array(3)].map((_, i) => (
+            <div key={i} className="h-12 bg-gray-200 rounded"></div>
+          ))}
+        </div>
+      ) : error ? (
+        <div className="p-6 text-red-700">{error}</div>
+      ) : !areas || areas.length === 0 ? (
+        <div className="p-12 text-center">
+          <MapPin className="h-16 w-16 text-gray-300 mx-auto mb-4" />
+          <p className="text-gray-600">No service areas configured.</p>
+        </div>
+      ) : (
+        <div className="divide-y divide-gray-200">
+          {areas.map((area) => (
+            <div key={area.id} className="p-6 flex items-start justify-between gap-4">
+              <div>
+                <div className="flex items-center gap-2">
+                  <span className="font-medium text-gray-900">{area.name}</span>
+                  {!area.isActive && (
+                    <span className="px-2 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-600">Inactive</span>
+                  )}
+                </div>
+                <div className="text-sm text-gray-600 mt-1">
+                  {area.postalCodes.length > 0 && <>Postcodes: {area.postalCodes.join(", ")}</>}
+                  {area.postalCodes.length > 0 && area.polygon && " · "}
+                  {area.polygon && <>Polygon with {area.polygon.length} points</>}
+                </div>
+                <div className="text-sm text-gray-500">
+                  {area.surcharge > 0 ? `$${area.surcharge.toFixed(2)} surcharge` : "No surcharge"}
+                </div>
+              </div>
+              <div className="flex gap-3">
+                <button
+                  onClick={() => startEdit(area)}
+                  className="text-blue-600 hover:text-blue-800 text-sm font-medium"
+                >
+                  Edit
+                </button>
+                <button
+                  onClick={() => handleDelete(area)}
+                  className="text-red-600 hover:text-red-800"
+                  aria-label={`Delete ${area.name}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ServiceAreas;
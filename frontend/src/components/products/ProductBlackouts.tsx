@@ -0,0 +1,144 @@
+import React, { useState } from "react";
+import { AlertCircle, CalendarOff, Plus, Trash2 } from "lucide-react";
+import { getErrorMessage, useApi, useMutation } from "../../hooks/useApi";
+import { productsAPI } from "../../services/api";
+import type { Product, ProductBlackout, ProductBlackoutInput } from "../../types/api";
+import { formatDate } from "../../utils/date";
+
+interface ProductBlackoutsProps {
+  product: Product;
+}
+
+const emptyBlackout = { startDay: "", endDay: "", reason: "" };
+
+const ProductBlackouts: React.FC<ProductBlackoutsProps> = ({ product }) => {
+  const [form, setForm] = useState(emptyBlackout);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const { data: blackouts, loading, error } = useApi(
+    () => productsAPI.getBlackouts(product.id),
+    { immediate: true, key: ["products", "blackouts", product.id] }
+  );
+
+  // Blackouts change what customers can book, so refresh availability too
+  const blackoutInvalidates = { invalidates: [["products"]] };
+  const { mutate: addBlackout, loading: adding } = useMutation(
+    (data: ProductBlackoutInput) => productsAPI.addBlackout(product.id, data),
+    blackoutInvalidates
+  );
+  const { mutate: deleteBlackout } = useMutation(
+    (id: string) => productsAPI.deleteBlackout(id),
+    blackoutInvalidates
+  );
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setFormError(null);
+    try {
+      await addBlackout({
+        startDate: new Date(`${form.startDay}T00:00:00`).toISOString(),
+        endDate: new Date(`${form.endDay}T00:00:00`).toISOString(),
+        ...(form.reason.trim() && { reason: form.reason.trim() }),
+      });
+      setForm(emptyBlackout);
+    } catch (err) {
+      setFormError(getErrorMessage(err, "Could not add blackout"));
+    }
+  };
+
+  const handleDelete = async (blackout: ProductBlackout) => {
+    if (!window.confirm("Reopen these dates for booking?")) return;
+    setFormError(null);
+    try {
+      await deleteBlackout(blackout.id);
+    } catch (err) {
+      setFormError(getErrorMessage(err, "Delete failed"));
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600">
+        No unit of {product.name} can be booked during a blackout. The end date is the first day it's bookable again.
+      </p>
+
+      {formError && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 flex items-center gap-2 text-sm text-red-700">
+          <AlertCircle className="h-4 w-4" />
+          {formError}
+        </div>
+      )}
+
+      <form onSubmit={handleAdd} className="grid grid-cols-1 sm:grid-cols-4 gap-2">
+        <input
+          type="date"
+          value={form.startDay}
+          onChange={(e) => setForm({ ...form, startDay: e.target.value })}
+          required
+          title="From"
+          className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-green-500"
+        />
+        <input
+          type="date"
+          value={form.endDay}
+          min={form.startDay || undefined}
+          onChange={(e) => setForm({ ...form, endDay: e.target.value })}
+          required
+          title="Until"
+          className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-green-500"
+        />
+        <input
+          value={form.reason}
+          onChange={(e) => setForm({ ...form, reason: e.target.value })}
+          placeholder="Reason (optional)"
+          className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-green-500"
+        />
+        <button
+          type="submit"
+          disabled={adding}
+          className="bg-green-600 text-white px-4 py-2 rounded-lg text-sm hover:bg-green-700 disabled:opacity-50 flex items-center justify-center gap-2"
+        >
+          <Plus className="h-4 w-4" />
+          Add Blackout
+        </button>
+      </form>
+
+      {loading ? (
+        <div className="space-y-2">
+          {[...Array(2)].map((_, i) => (
+            <div key={i} className="h-12 bg-gray-200 rounded animate-pulse"></div>
+          ))}
+        </div>
+      ) : error ? (
+        <div className="text-sm text-red-700">{error}</div>
+      ) : !blackouts?.length ? (
+        <div className="text-center py-8">
+          <CalendarOff className="h-12 w-12 text-gray-300 mx-auto mb-3" />
+          <p className="text-gray-600">No blackout periods.</p>
+        </div>
+      ) : (
+        <div className="border border-gray-200 rounded-lg divide-y">
+          {blackouts.map((blackout) => (
+            <div key={blackout.id} className="p-3 flex items-center gap-3">
+              <div className="flex-1">
+                <div className="font-medium text-gray-900">
+                  {formatDate(blackout.startDate)} – {formatDate(blackout.endDate)}
+                </div>
+                {blackout.reason && <div className="text-xs text-gray-500">{blackout.reason}</div>}
+              </div>
+              <button
+                onClick={() => handleDelete(blackout)}
+                className="text-gray-400 hover:text-red-600"
+                title="Delete blackout"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProductBlackouts;
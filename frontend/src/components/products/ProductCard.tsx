@@ -1,27 +1,10 @@
 import React from "react";
-import { Star, Trash2, Edit, Eye, Package, Calendar, DollarSign } from "lucide-react";
+import { Trash2, Edit, Eye, Package, Calendar, Boxes } from "lucide-react";
+import type { Product } from "../../types/api";
+import { formatDate } from "../../utils/date";
 
-interface Product {
-  id: number;
-  name: string;
-  category: string;
-  image: string;
-  price: {
-    hour: number;
-    day: number;
-    week: number;
-    month: number;
-  };
-  stock: number;
-  available: number;
-  rented: number;
-  ecoScore: number;
-  rating: number;
-  totalRentals: number;
-  revenue: string;
-  condition: 'Excellent' | 'Good' | 'Fair';
-  lastMaintenance: string;
-}
+const placeholderImage =
+  "https://images.pexels.com/photos/162553/keys-workshop-mechanic-tools-162553.jpeg?auto=compress&cs=tinysrgb&w=400";
 
 interface ProductCardProps {
   product: Product;
@@ -44,69 +27,42 @@ const ProductCard: React.FC<ProductCardProps> = ({
     );
   }
 
-  const availabilityPercentage = product.stock > 0 ? (product.available / product.stock) * 100 : 0;
+  // Server list prices; without them anything under a day is billed as a day
+  const prices = product.prices ?? {
+    hour: product.basePrice,
+    day: product.basePrice,
+    week: product.basePrice * 7,
+    month: product.basePrice * 30,
+  };
+  const lastMaintenance = product.maintenance?.[0];
 
   return (
     <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden hover:shadow-lg transition-all duration-300 group">
       <div className="relative">
         <img
-          src={product.image}
+          src={placeholderImage}
           alt={product.name}
           className="w-full h-48 object-cover group-hover:scale-105 transition-transform duration-300"
         />
-        <div className="absolute top-3 right-3 flex flex-col gap-2">
-          <span className="bg-green-500 text-white px-2 py-1 rounded-full text-xs font-medium">
-            Eco: {product.ecoScore}
-          </span>
-          <span
-            className={`px-2 py-1 rounded-full text-xs font-medium ${
-              product.condition === "Excellent"
-                ? "bg-green-100 text-green-800"
-                : product.condition === "Good"
-                ? "bg-blue-100 text-blue-800"
-                : "bg-yellow-100 text-yellow-800"
-            }`}
-          >
-            {product.condition}
-          </span>
-        </div>
-        <div className="absolute top-3 left-3">
-          <div className="bg-black bg-opacity-50 text-white px-2 py-1 rounded-full text-xs">
-            ID: {product.id}
+        {!product.isRentable && (
+          <div className="absolute top-3 right-3">
+            <span className="bg-gray-100 text-gray-700 px-2 py-1 rounded-full text-xs font-medium">
+              Not rentable
+            </span>
           </div>
-        </div>
+        )}
       </div>
 
       <div className="p-6">
         <div className="flex items-center justify-between mb-3">
           <span className="text-sm text-gray-500 bg-gray-100 px-2 py-1 rounded-full">
-            {product.category}
+            {product.category || "Uncategorized"}
           </span>
-          <div className="flex items-center gap-1">
-            <Star className="h-4 w-4 text-yellow-400 fill-current" />
-            <span className="text-sm font-medium">{product.rating}</span>
-          </div>
+          <span className="text-sm text-gray-500">per {product.unitType}</span>
         </div>
 
         <h3 className="font-semibold text-gray-900 mb-3 line-clamp-2">{product.name}</h3>
 
-        {/* Availability Bar */}
-        <div className="mb-4">
-          <div className="flex justify-between text-sm mb-1">
-            <span className="text-gray-600">Availability</span>
-            <span className="font-medium">{product.available}/{product.stock}</span>
-          </div>
-          <div className="w-full bg-gray-200 rounded-full h-2">
-            <div 
-              className={`h-2 rounded-full transition-all duration-300 ${
-                availabilityPercentage > 50 ? 'bg-green-500' : 
-                availabilityPercentage > 20 ? 'bg-yellow-500' : 'bg-red-500'
-              }`}
-              style={{ width: `${availabilityPercentage}%` }}
-            ></div>
-          </div>
-        </div>
-
         {/* Stats Grid */}
         <div className="grid grid-cols-2 gap-4 mb-4">
           <div className="bg-blue-50 p-3 rounded-lg">
@@ -118,10 +74,10 @@ const ProductCard: React.FC<ProductCardProps> = ({
           </div>
           <div className="bg-green-50 p-3 rounded-lg">
             <div className="flex items-center gap-2 mb-1">
-              <DollarSign className="h-4 w-4 text-green-600" />
-              <span className="text-xs text-green-600 font-medium">Revenue</span>
+              <Boxes className="h-4 w-4 text-green-600" />
+              <span className="text-xs text-green-600 font-medium">Units</span>
             </div>
-            <div className="text-lg font-bold text-green-900">{product.revenue}</div>
+            <div className="text-lg font-bold text-green-900">{product._count?.units ?? 0}</div>
           </div>
         </div>
 
@@ -131,11 +87,11 @@ const ProductCard: React.FC<ProductCardProps> = ({
           <div className="grid grid-cols-2 gap-2 text-sm">
             <div className="flex justify-between">
               <span className="text-gray-600">Day:</span>
-              <span className="font-medium">${product.price.day}</span>
+              <span className="font-medium">${prices.day}</span>
             </div>
             <div className="flex justify-between">
               <span className="text-gray-600">Week:</span>
-              <span className="font-medium">${product.price.week}</span>
+              <span className="font-medium">${prices.week}</span>
             </div>
           </div>
         </div>
@@ -146,7 +102,7 @@ const ProductCard: React.FC<ProductCardProps> = ({
             <Calendar className="h-4 w-4" />
             <span>Last Maintenance:</span>
           </div>
-          <span className="font-medium text-gray-900">{product.lastMaintenance}</span>
+          <span className="font-medium text-gray-900">{lastMaintenance ? formatDate(lastMaintenance.completedAt) : "N/A"}</span>
         </div>
 
         {/* Action Buttons */}
@@ -1,8 +1,9 @@
 import React from "react";
 import ProductCard from "./ProductCard";
+import type { Product } from "../../types/api";
 
 interface ProductGridProps {
-  products: any[];
+  products: Product[];
 }
 
 const ProductGrid: React.FC<ProductGridProps> = ({ products }) => {
@@ -11,8 +12,8 @@ const ProductGrid: React.FC<ProductGridProps> = ({ products }) => {
   }
   return (
     <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-      {products.map((product, idx) => (
-        <ProductCard key={product.id || idx} product={product} />
+      {products.map((product) => (
+        <ProductCard key={product.id} product={product} />
       ))}
     </div>
   );
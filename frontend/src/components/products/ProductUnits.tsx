@@ -0,0 +1,246 @@
+import React, { useState } from "react";
+import { AlertCircle, History, Package, Plus, Trash2 } from "lucide-react";
+import { getErrorMessage, useApi, useMutation } from "../../hooks/useApi";
+import { productsAPI } from "../../services/api";
+import type {
+  Product,
+  ProductUnitInput,
+  ProductUnitUpdateInput,
+  ProductUnitWithRentals,
+  UnitCondition,
+  UnitStatus,
+} from "../../types/api";
+import { formatDate } from "../../utils/date";
+
+interface ProductUnitsProps {
+  product: Product;
+}
+
+const CONDITIONS: UnitCondition[] = ["NEW", "EXCELLENT", "GOOD", "FAIR", "POOR"];
+// RENTED is set by the booking engine, so it's never offered by hand
+const MANUAL_STATUSES: Exclude<UnitStatus, "RENTED">[] = ["AVAILABLE", "MAINTENANCE", "RETIRED"];
+
+const statusStyles: Record<UnitStatus, string> = {
+  AVAILABLE: "bg-green-100 text-green-800",
+  RENTED: "bg-blue-100 text-blue-800",
+  MAINTENANCE: "bg-yellow-100 text-yellow-800",
+  RETIRED: "bg-gray-100 text-gray-600",
+};
+
+const label = (value: string) => value.charAt(0) + value.slice(1).toLowerCase();
+const emptyUnit = { serialNumber: "", condition: "NEW" as UnitCondition, acquisitionCost: "" };
+
+const UnitHistory: React.FC<{ unitId: string }> = ({ unitId }) => {
+  const { data: history, loading } = useApi(
+    () => productsAPI.getUnitHistory(unitId),
+    { immediate: true, key: ["products", "units", unitId, "history"] }
+  );
+
+  if (loading) return <div className="h-6 bg-gray-200 rounded animate-pulse"></div>;
+  if (!history?.length) return <p className="text-sm text-gray-500">No condition history.</p>;
+
+  return (
+    <ul className="space-y-1 text-sm text-gray-600">
+      {history.map((entry) => (
+        <li key={entry.id}>
+          {formatDate(entry.recordedAt)}:{" "}
+          {entry.oldCondition ? `${label(entry.oldCondition)} → ` : "Registered as "}
+          {label(entry.newCondition)}
+          {entry.recordedBy && ` by ${entry.recordedBy.name}`}
+          {entry.rentalId && " (on return)"}
+          {entry.notes && <span className="text-gray-500"> · {entry.notes}</span>}
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+const ProductUnits: React.FC<ProductUnitsProps> = ({ product }) => {
+  const [form, setForm] = useState(emptyUnit);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [historyFor, setHistoryFor] = useState<string | null>(null);
+
+  const { data: units, loading, error } = useApi(
+    () => productsAPI.getUnits(product.id),
+    { immediate: true, key: ["products", "units", product.id] }
+  );
+
+  // Unit changes move the product's stock, so refresh the catalogue too
+  const unitInvalidates = { invalidates: [["products"]] };
+  const { mutate: addUnit, loading: adding } = useMutation(
+    (data: ProductUnitInput) => productsAPI.addUnit(product.id, data),
+    unitInvalidates
+  );
+  const { mutate: updateUnit } = useMutation(
+    (data: { id: string; input: ProductUnitUpdateInput }) => productsAPI.updateUnit(data.id, data.input),
+    unitInvalidates
+  );
+  const { mutate: deleteUnit } = useMutation(
+    (id: string) => productsAPI.deleteUnit(id),
+    unitInvalidates
+  );
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setFormError(null);
+    try {
+      await addUnit({
+        serialNumber: form.serialNumber.trim(),
+        condition: form.condition,
+        ...(form.acquisitionCost !== "" && { acquisitionCost: Number(form.acquisitionCost) }),
+      });
+      setForm(emptyUnit);
+    } catch (err) {
+      setFormError(getErrorMessage(err, "Could not add unit"));
+    }
+  };
+
+  const handleUpdate = async (unit: ProductUnitWithRentals, input: ProductUnitUpdateInput) => {
+    setFormError(null);
+    try {
+      await updateUnit({ id: unit.id, input });
+    } catch (err) {
+      setFormError(`${unit.serialNumber}: ${getErrorMessage(err, "Update failed")}`);
+    }
+  };
+
+  const handleDelete = async (unit: ProductUnitWithRentals) => {
+    if (!window.confirm(`Delete unit ${unit.serialNumber}?`)) return;
+    setFormError(null);
+    try {
+      await deleteUnit(unit.id);
+    } catch (err) {
+      setFormError(`${unit.serialNumber}: ${getErrorMessage(err, "Delete failed")}`);
+    }
+  };
+
+  const bookable = (units || []).filter((unit) => unit.status === "AVAILABLE" || unit.status === "RENTED");
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600">
+        {units?.length
+          ? `${bookable.length} of ${units.length} units can be booked; stock follows this count.`
+          : `No units registered yet, so bookings use the stock count (${product.stock}).`}
+      </p>
+
+      {formError && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 flex items-center gap-2 text-sm text-red-700">
+          <AlertCircle className="h-4 w-4" />
+          {formError}
+        </div>
+      )}
+
+      <form onSubmit={handleAdd} className="grid grid-cols-1 sm:grid-cols-4 gap-2">
+        <input
+          value={form.serialNumber}
+          onChange={(e) => setForm({ ...form, serialNumber: e.target.value })}
+          placeholder="Serial number"
+          required
+          className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-green-500"
+        />
+        <select
+          value={form.condition}
+          onChange={(e) => setForm({ ...form, condition: e.target.value as UnitCondition })}
+          className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-green-500"
+        >
+          {CONDITIONS.map((condition) => (
+            <option key={condition} value={condition}>{label(condition)}</option>
+          ))}
+        </select>
+        <input
+          type="number"
+          min="0"
+          step="0.01"
+          value={form.acquisitionCost}
+          onChange={(e) => setForm({ ...form, acquisitionCost: e.target.value })}
+          placeholder="Acquisition cost"
+          className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-green-500"
+        />
+        <button
+          type="submit"
+          disabled={adding}
+          className="bg-green-600 text-white px-4 py-2 rounded-lg text-sm hover:bg-green-700 disabled:opacity-50 flex items-center justify-center gap-2"
+        >
+          <Plus className="h-4 w-4" />
+          Add Unit
+        </button>
+      </form>
+
+      {loading ? (
+        <div className="space-y-2">
+          {[...Array(3)].map((_, i) => (
+            <div key={i} className="h-12 bg-gray-200 rounded animate-pulse"></div>
+          ))}
+        </div>
+      ) : error ? (
+        <div className="text-sm text-red-700">{error}</div>
+      ) : !units?.length ? (
+        <div className="text-center py-8">
+          <Package className="h-12 w-12 text-gray-300 mx-auto mb-3" />
+          <p className="text-gray-600">Register each physical item by its serial number.</p>
+        </div>
+      ) : (
+        <div className="border border-gray-200 rounded-lg divide-y">
+          {units.map((unit) => (
+            <div key={unit.id} className="p-3 space-y-2">
+              <div className="flex flex-wrap items-center gap-3">
+                <div className="flex-1 min-w-[8rem]">
+                  <div className="font-medium text-gray-900">{unit.serialNumber}</div>
+                  <div className="text-xs text-gray-500">
+                    {unit.acquisitionCost != null ? `Cost $${unit.acquisitionCost.toFixed(2)}` : "Cost not recorded"}
+                    {unit.rentals[0] &&
+                      ` · ${unit.rentals[0].status === "ACTIVE" ? "Out with" : "Next:"} ${unit.rentals[0].customer.name} until ${formatDate(unit.rentals[0].endDate)}`}
+                  </div>
+                </div>
+                <select
+                  value={unit.condition}
+                  onChange={(e) => handleUpdate(unit, { condition: e.target.value as UnitCondition })}
+                  className="px-2 py-1 border border-gray-300 rounded-lg text-sm"
+                >
+                  {CONDITIONS.map((condition) => (
+                    <option key={condition} value={condition}>{label(condition)}</option>
+                  ))}
+                </select>
+                {unit.status === "RENTED" ? (
+                  <span className={`px-2 py-1 rounded-full text-xs font-medium ${statusStyles.RENTED}`}>
+                    Rented
+                  </span>
+                ) : (
+                  <select
+                    value={unit.status}
+                    onChange={(e) =>
+                      handleUpdate(unit, { status: e.target.value as Exclude<UnitStatus, "RENTED"> })
+                    }
+                    className={`px-2 py-1 rounded-lg text-sm border-0 ${statusStyles[unit.status]}`}
+                  >
+                    {MANUAL_STATUSES.map((status) => (
+                      <option key={status} value={status}>{label(status)}</option>
+                    ))}
+                  </select>
+                )}
+                <button
+                  onClick={() => setHistoryFor(historyFor === unit.id ? null : unit.id)}
+                  className="text-gray-400 hover:text-gray-600"
+                  title="Condition history"
+                >
+                  <History className="h-4 w-4" />
+                </button>
+                <button
+                  onClick={() => handleDelete(unit)}
+                  className="text-gray-400 hover:text-red-600"
+                  title="Delete unit"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+              {historyFor === unit.id && <UnitHistory unitId={unit.id} />}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProductUnits;
@@ -1,23 +1,16 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { authAPI } from '../services/api';
-
-interface User {
-  id: string;
-  name: string;
-  email: string;
-  role: 'ADMIN' | 'CUSTOMER' | 'END_USER' | 'STAFF';
-  phone?: string;
-  avatarUrl?: string;
-}
+import { authAPI, clearSession, getRefreshToken, onSessionChange, setSession } from '../services/api';
+import { clearQueryCache } from '../services/queryCache';
+import type { SignupInput, UpdateProfileInput, User } from '../types/api';
 
 interface AuthContextType {
   user: User | null;
   token: string | null;
   login: (email: string, password: string) => Promise<void>;
-  signup: (userData: any) => Promise<void>;
-  logout: () => void;
+  signup: (userData: SignupInput) => Promise<void>;
+  logout: () => Promise<void>;
   loading: boolean;
-  updateUser: (userData: Partial<User>) => Promise<void>;
+  updateUser: (userData: UpdateProfileInput) => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -39,6 +32,19 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const [token, setToken] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
 
+  // Follow silent refreshes and forced sign-outs from the API client.
+  useEffect(
+    () =>
+      onSessionChange((nextToken) => {
+        setToken(nextToken);
+        if (!nextToken) {
+          setUser(null);
+          clearQueryCache();
+        }
+      }),
+    []
+  );
+
   useEffect(() => {
     const initAuth = async () => {
       const storedToken = localStorage.getItem('authToken');
@@ -51,14 +57,12 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
           setUser(parsedUser);
           
           // Verify token is still valid
+          // An expired access token is renewed by the API client here.
           const response = await authAPI.getMe();
           setUser(response.data.user);
         } catch (error) {
           console.error('Token validation failed:', error);
-          localStorage.removeItem('authToken');
-          localStorage.removeItem('user');
-          setToken(null);
-          setUser(null);
+          clearSession();
         }
       }
       setLoading(false);
@@ -70,25 +74,23 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const login = async (email: string, password: string) => {
     try {
       const response = await authAPI.signin({ email, password });
-      const { token: newToken, user: newUser } = response.data;
+      const { token: newToken, refreshToken, user: newUser } = response.data;
       
-      setToken(newToken);
+      setSession({ token: newToken, refreshToken });
       setUser(newUser);
-      localStorage.setItem('authToken', newToken);
       localStorage.setItem('user', JSON.stringify(newUser));
     } catch (error: any) {
       throw new Error(error.response?.data?.message || 'Login failed');
     }
   };
 
-  const signup = async (userData: any) => {
+  const signup = async (userData: SignupInput) => {
     try {
       const response = await authAPI.signup(userData);
-      const { token: newToken, user: newUser } = response.data;
+      const { token: newToken, refreshToken, user: newUser } = response.data;
       
-      setToken(newToken);
+      setSession({ token: newToken, refreshToken });
       setUser(newUser);
-      localStorage.setItem('authToken', newToken);
       localStorage.setItem('user', JSON.stringify(newUser));
     } catch (error: any) {
       throw new Error(error.response?.data?.message || 'Signup failed');
@@ -96,16 +98,19 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   };
 
   const logout = async () => {
-    try {
-      await fetch('/api/auth/logout', { method: 'POST', credentials: 'include' });
-    } catch (e) {}
-    setUser(null);
-    setToken(null);
-    localStorage.removeItem('authToken');
-    localStorage.removeItem('user');
+    const refreshToken = getRefreshToken();
+    if (refreshToken) {
+      try {
+        // Revoke the session server-side; sign out locally even if this fails.
+        await authAPI.logout(refreshToken);
+      } catch (error) {
+        console.error('Logout request failed:', error);
+      }
+    }
+    clearSession();
   };
 
-  const updateUser = async (userData: Partial<User>) => {
+  const updateUser = async (userData: UpdateProfileInput) => {
     try {
       const response = await authAPI.updateProfile(userData);
       const updatedUser = response.data.user;
@@ -7,6 +7,11 @@ import {
   BarChart3,
   Leaf,
   Users,
+  UserCheck,
+  Tag,
+  Timer,
+  CalendarPlus,
+  Ban,
   DollarSign,
   AlertCircle,
   Settings,
@@ -82,5 +87,10 @@ export const sidebarItems: SidebarItem[] = [
   { id: "analytics", label: "Reports & Analytics", icon: BarChart3 },
   { id: "sustainability", label: "Sustainability", icon: Leaf },
   { id: "customers", label: "Customer Management", icon: Users },
+  { id: "customer-groups", label: "Customer Groups", icon: UserCheck },
+  { id: "promo-codes", label: "Promo Codes", icon: Tag },
+  { id: "late-fees", label: "Late Fees", icon: Timer },
+  { id: "cancellations", label: "Cancellations", icon: Ban },
+  { id: "extensions", label: "Extensions", icon: CalendarPlus },
   { id: "settings", label: "Settings", icon: Settings },
 ];
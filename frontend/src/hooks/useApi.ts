@@ -1,5 +1,14 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { AxiosResponse } from 'axios';
+import {
+  QueryKey,
+  fetchQuery,
+  getQuerySnapshot,
+  hashKey,
+  invalidateQueries,
+  isQueryStale,
+  subscribeQuery,
+} from '../services/queryCache';
 
 interface UseApiState<T> {
   data: T | null;
@@ -7,47 +16,131 @@ interface UseApiState<T> {
   error: string | null;
 }
 
+interface UseQueryState<T> extends UseApiState<T> {
+  /** True while cached data is on screen and a background refresh runs. */
+  validating: boolean;
+}
+
 interface UseApiOptions {
   immediate?: boolean;
+  /** Cache key. Hooks sharing a key share one request and one cached result. */
+  key?: QueryKey;
+  /** How long cached data stays fresh before a mount triggers a refresh (ms). */
+  staleTime?: number;
+}
+
+interface UseMutationOptions {
+  /** Query key prefixes to refresh after a successful mutation. */
+  invalidates?: QueryKey[];
 }
 
+const DEFAULT_STALE_TIME = 30_000;
+
+/**
+ * What to show for a failed request: the server's `message` or `error` (a
+ * zod validation failure's issues joined), else the error's own message.
+ */
+export const getErrorMessage = (error: unknown, fallback = 'An error occurred'): string => {
+  const err = error as {
+    response?: { data?: { message?: string; error?: unknown } };
+    message?: string;
+  };
+  const detail = err?.response?.data?.error;
+  if (Array.isArray(detail)) {
+    return detail.map((issue: { message?: string }) => issue.message).join(', ');
+  }
+  return (
+    err?.response?.data?.message ||
+    (typeof detail === 'string' ? detail : '') ||
+    err?.message ||
+    fallback
+  );
+};
+
+const snapshotToState = <T>(key: QueryKey): UseQueryState<T> => {
+  const snapshot = getQuerySnapshot<T>(key);
+  const hasData = snapshot.data !== undefined;
+  return {
+    data: hasData ? (snapshot.data as T) : null,
+    loading: !hasData && snapshot.fetching,
+    validating: hasData && snapshot.fetching,
+    error: snapshot.error ? getErrorMessage(snapshot.error) : null,
+  };
+};
+
 export function useApi<T>(
   apiCall: () => Promise<AxiosResponse<T>>,
   options: UseApiOptions = { immediate: true }
 ) {
-  const [state, setState] = useState<UseApiState<T>>({
-    data: null,
-    loading: options.immediate || false,
-    error: null,
-  });
+  const { immediate = true, key, staleTime = DEFAULT_STALE_TIME } = options;
+  const hash = key ? hashKey(key) : null;
+
+  const apiCallRef = useRef(apiCall);
+  apiCallRef.current = apiCall;
+  const keyRef = useRef(key);
+  keyRef.current = key;
+  const mountedRef = useRef(true);
+
+  const [state, setState] = useState<UseQueryState<T>>(() =>
+    key
+      ? { ...snapshotToState<T>(key), loading: getQuerySnapshot(key).data === undefined && immediate }
+      : { data: null, loading: immediate, error: null, validating: false }
+  );
+
+  const fetcher = useCallback(
+    () => apiCallRef.current().then((response) => response.data),
+    []
+  );
+
+  const execute = useCallback(async () => {
+    const currentKey = keyRef.current;
+    if (currentKey) {
+      // State follows the cache through the subscription below.
+      return fetchQuery(currentKey, fetcher);
+    }
 
-  const execute = async () => {
     setState(prev => ({ ...prev, loading: true, error: null }));
-    
     try {
-      const response = await apiCall();
-      setState({
-        data: response.data,
-        loading: false,
-        error: null,
-      });
-      return response.data;
-    } catch (error: any) {
-      const errorMessage = error.response?.data?.message || error.message || 'An error occurred';
-      setState({
-        data: null,
-        loading: false,
-        error: errorMessage,
-      });
+      const data = await fetcher();
+      if (mountedRef.current) {
+        setState({ data, loading: false, error: null, validating: false });
+      }
+      return data;
+    } catch (error) {
+      if (mountedRef.current) {
+        setState({ data: null, loading: false, error: getErrorMessage(error), validating: false });
+      }
       throw error;
     }
-  };
+  }, [fetcher]);
 
   useEffect(() => {
-    if (options.immediate) {
-      execute();
+    mountedRef.current = true;
+    const currentKey = keyRef.current;
+
+    if (!currentKey) {
+      if (immediate) execute().catch(() => {});
+      return () => {
+        mountedRef.current = false;
+      };
     }
-  }, []);
+
+    const sync = () => {
+      if (mountedRef.current) setState(snapshotToState<T>(currentKey));
+    };
+    const unsubscribe = subscribeQuery(currentKey, sync, fetcher);
+    if (getQuerySnapshot(currentKey).data !== undefined) sync();
+
+    // Serve what is cached and refresh in the background once it goes stale.
+    if (immediate && isQueryStale(currentKey, staleTime)) {
+      fetchQuery(currentKey, fetcher).catch(() => {});
+    }
+
+    return () => {
+      mountedRef.current = false;
+      unsubscribe();
+    };
+  }, [hash, immediate, staleTime, execute, fetcher]);
 
   return {
     ...state,
@@ -56,33 +149,48 @@ export function useApi<T>(
   };
 }
 
-export function useMutation<T, P = any>(
-  apiCall: (params: P) => Promise<AxiosResponse<T>>
+export function useMutation<T, P = void>(
+  apiCall: (params: P) => Promise<AxiosResponse<T>>,
+  options: UseMutationOptions = {}
 ) {
   const [state, setState] = useState<UseApiState<T>>({
     data: null,
     loading: false,
     error: null,
   });
+  const mountedRef = useRef(true);
+  const invalidatesRef = useRef(options.invalidates);
+  invalidatesRef.current = options.invalidates;
+
+  useEffect(() => {
+    mountedRef.current = true;
+    return () => {
+      mountedRef.current = false;
+    };
+  }, []);
 
   const mutate = async (params: P) => {
     setState(prev => ({ ...prev, loading: true, error: null }));
-    
+
     try {
       const response = await apiCall(params);
-      setState({
-        data: response.data,
-        loading: false,
-        error: null,
-      });
+      if (mountedRef.current) {
+        setState({
+          data: response.data,
+          loading: false,
+          error: null,
+        });
+      }
+      invalidatesRef.current?.forEach((prefix) => invalidateQueries(prefix));
       return response.data;
-    } catch (error: any) {
-      const errorMessage = error.response?.data?.message || error.message || 'An error occurred';
-      setState({
-        data: null,
-        loading: false,
-        error: errorMessage,
-      });
+    } catch (error) {
+      if (mountedRef.current) {
+        setState({
+          data: null,
+          loading: false,
+          error: getErrorMessage(error),
+        });
+      }
       throw error;
     }
   };
@@ -91,4 +199,4 @@ export function useMutation<T, P = any>(
     ...state,
     mutate,
   };
-}
\ No newline at end of file
+}
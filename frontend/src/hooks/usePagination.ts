@@ -1,7 +1,11 @@
-import { useState, useMemo } from 'react';
+import { useState, useMemo, useRef } from 'react';
+import { AxiosResponse } from 'axios';
+import { useApi } from './useApi';
+import { QueryKey, hashKey } from '../services/queryCache';
+import type { ListQueryParams, Paginated } from '../types/api';
 
-export interface UsePaginationProps {
-  data: any[];
+export interface UsePaginationProps<T> {
+  data: T[];
   itemsPerPage?: number;
 }
 
@@ -23,7 +27,7 @@ export interface UsePaginationReturn<T> {
 export function usePagination<T>({ 
   data, 
   itemsPerPage = 10 
-}: UsePaginationProps): UsePaginationReturn<T> {
+}: UsePaginationProps<T>): UsePaginationReturn<T> {
   const [currentPage, setCurrentPage] = useState(1);
 
   const totalPages = Math.ceil(data.length / itemsPerPage);
@@ -67,4 +71,68 @@ export function usePagination<T>({
     startIndex,
     endIndex,
   };
-}
\ No newline at end of file
+}
+
+export interface UseServerPaginationProps<T, P extends ListQueryParams> {
+  /** Cache key prefix; the page window and params are appended to it. */
+  key: QueryKey;
+  fetchPage: (params?: P) => Promise<AxiosResponse<Paginated<T>>>;
+  /** Filters and sort sent with every page. Changing them returns to page 1. */
+  params?: NoInfer<Omit<P, 'skip' | 'take' | 'cursor'>>;
+  itemsPerPage?: number;
+}
+
+export interface UseServerPaginationReturn<T> extends UsePaginationReturn<T> {
+  loading: boolean;
+  validating: boolean;
+  error: string | null;
+  refetch: () => Promise<Paginated<T>>;
+}
+
+export function useServerPagination<T, P extends ListQueryParams = ListQueryParams>({
+  key,
+  fetchPage,
+  params,
+  itemsPerPage = 10,
+}: UseServerPaginationProps<T, P>): UseServerPaginationReturn<T> {
+  const paramsHash = hashKey([params ?? {}]);
+  const [pageState, setPageState] = useState({ paramsHash, page: 1 });
+  const currentPage = pageState.paramsHash === paramsHash ? pageState.page : 1;
+
+  const skip = (currentPage - 1) * itemsPerPage;
+  const query = { ...params, skip, take: itemsPerPage } as P;
+  const { data, loading, validating, error, refetch } = useApi(() => fetchPage(query), {
+    key: [...key, query],
+  });
+
+  // Keep the previous page on screen while the next one loads.
+  const lastPageRef = useRef<Paginated<T> | null>(null);
+  if (data) lastPageRef.current = data;
+  const page = data ?? lastPageRef.current;
+
+  const totalItems = page?.pagination.total ?? 0;
+  const totalPages = Math.ceil(totalItems / itemsPerPage);
+
+  const goToPage = (target: number) => {
+    setPageState({ paramsHash, page: Math.max(1, Math.min(target, totalPages)) });
+  };
+
+  return {
+    currentData: page?.data ?? [],
+    currentPage,
+    totalPages,
+    totalItems,
+    itemsPerPage,
+    goToPage,
+    nextPage: () => goToPage(currentPage + 1),
+    prevPage: () => goToPage(currentPage - 1),
+    canGoNext: currentPage < totalPages,
+    canGoPrev: currentPage > 1,
+    startIndex: skip,
+    endIndex: Math.min(skip + itemsPerPage, totalItems),
+    loading: loading && !page,
+    validating: validating || (loading && !!page),
+    error,
+    refetch,
+  };
+}
@@ -0,0 +1,18 @@
+import { useCallback } from 'react';
+import { useMatch, useNavigate } from 'react-router-dom';
+
+/**
+ * The section of a portal named by the URL (`/customer/rentals/123` ->
+ * `rentals`) and a function that navigates to another section.
+ */
+export function usePortalSection(basePath: string) {
+  const navigate = useNavigate();
+  const match = useMatch(`${basePath}/:section/*`);
+
+  const goToSection = useCallback(
+    (section: string) => navigate(`${basePath}/${section}`),
+    [navigate, basePath]
+  );
+
+  return [match?.params.section, goToSection] as const;
+}
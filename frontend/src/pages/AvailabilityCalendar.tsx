@@ -0,0 +1,388 @@
+import React, { useState } from "react";
+import { AlertCircle, ChevronLeft, ChevronRight, Plus, Trash2, Wrench } from "lucide-react";
+import { getErrorMessage, useApi, useMutation } from "../hooks/useApi";
+import { adminAPI, maintenanceAPI, productsAPI } from "../services/api";
+import type { MaintenanceStatus, MaintenanceTask, MaintenanceTaskInput } from "../types/api";
+import { addDays, formatDate, toDateInput } from "../utils/date";
+
+type Recurrence = "none" | "days" | "rentals";
+
+interface TaskForm {
+  productId: string;
+  unitId: string;
+  title: string;
+  startDay: string;
+  endDay: string;
+  recurrence: Recurrence;
+  interval: string;
+  staffId: string;
+}
+
+const emptyForm = (): TaskForm => {
+  const today = toDateInput(new Date());
+  return {
+    productId: "",
+    unitId: "",
+    title: "",
+    startDay: today,
+    endDay: addDays(today, 1),
+    recurrence: "none",
+    interval: "",
+    staffId: "",
+  };
+};
+
+const statusStyles: Record<MaintenanceStatus, string> = {
+  SCHEDULED: "bg-yellow-100 text-yellow-800",
+  IN_PROGRESS: "bg-orange-100 text-orange-800",
+  COMPLETED: "bg-gray-100 text-gray-600",
+};
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const taskLabel = (task: MaintenanceTask) =>
+  `${task.product.name}${task.unit ? ` #${task.unit.serialNumber}` : ""}`;
+
+const maintenanceInvalidates = { invalidates: [["maintenance"]] };
+
+const AvailabilityCalendar: React.FC = () => {
+  const [month, setMonth] = useState(() => {
+    const now = new Date();
+    return new Date(now.getFullYear(), now.getMonth(), 1);
+  });
+  const [form, setForm] = useState<TaskForm>(emptyForm);
+  const [showForm, setShowForm] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const monthEnd = new Date(month.getFullYear(), month.getMonth() + 1, 1);
+  const monthKey = toDateInput(month);
+
+  const { data: tasks, loading, error } = useApi(
+    () => maintenanceAPI.getAll({ from: month.toISOString(), to: monthEnd.toISOString() }),
+    { immediate: true, key: ["maintenance", "calendar", monthKey] }
+  );
+  const { data: products } = useApi(
+    () => productsAPI.getAll({ take: 100 }),
+    { immediate: showForm, key: ["products", "list", { take: 100 }] }
+  );
+  const { data: units } = useApi(
+    () => productsAPI.getUnits(form.productId),
+    { immediate: showForm && !!form.productId, key: ["products", "units", form.productId] }
+  );
+  const { data: staff } = useApi(
+    () => adminAPI.getStaff(),
+    { immediate: showForm, key: ["admin", "staff"] }
+  );
+
+  const { mutate: createTask, loading: creating } = useMutation(
+    (data: MaintenanceTaskInput) => maintenanceAPI.create(data),
+    maintenanceInvalidates
+  );
+  const { mutate: startTask } = useMutation(
+    (id: string) => maintenanceAPI.start(id),
+    maintenanceInvalidates
+  );
+  const { mutate: completeTask } = useMutation(
+    (id: string) => maintenanceAPI.complete(id),
+    maintenanceInvalidates
+  );
+  const { mutate: deleteTask } = useMutation(
+    (id: string) => maintenanceAPI.delete(id),
+    maintenanceInvalidates
+  );
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setFormError(null);
+
+    const interval = parseInt(form.interval) || null;
+    try {
+      await createTask({
+        productId: form.productId,
+        unitId: form.unitId || null,
+        title: form.title.trim(),
+        startDate: new Date(`${form.startDay}T00:00:00`).toISOString(),
+        endDate: new Date(`${form.endDay}T00:00:00`).toISOString(),
+        intervalDays: form.recurrence === "days" ? interval : null,
+        intervalRentals: form.recurrence === "rentals" ? interval : null,
+        staffId: form.staffId || null,
+      });
+      setForm(emptyForm());
+      setShowForm(false);
+    } catch (err) {
+      const conflict = (err as { response?: { status?: number; data?: { rentals?: { orderReference?: string }[] } } })
+        .response;
+      const references = conflict?.status === 409
+        ? conflict.data?.rentals?.map((rental) => rental.orderReference).filter(Boolean)
+        : undefined;
+      setFormError(
+        `${getErrorMessage(err, "Could not schedule maintenance")}${references?.length ? `: ${references.join(", ")}` : ""}`
+      );
+    }
+  };
+
+  const runAction = async (action: (id: string) => Promise<unknown>, id: string) => {
+    setFormError(null);
+    try {
+      await action(id);
+    } catch (err) {
+      setFormError(getErrorMessage(err, "Update failed"));
+    }
+  };
+
+  const handleDelete = (task: MaintenanceTask) => {
+    if (!window.confirm(`Delete "${task.title}" for ${taskLabel(task)}?`)) return;
+    runAction(deleteTask, task.id);
+  };
+
+  // Leading blanks line the 1st up under its weekday
+  const cells: (Date | null)[] = [
+    ...Array.from({ length: month.getDay() }, () => null),
+    ...Array.from(
+      { length: new Date(month.getFullYear(), month.getMonth() + 1, 0).getDate() },
+      (_, i) => new Date(month.getFullYear(), month.getMonth(), i + 1)
+    ),
+  ];
+
+  const tasksOn = (day: Date) => {
+    const dayStart = day.getTime();
+    const dayEnd = new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1).getTime();
+    return (tasks || []).filter(
+      (task) => new Date(task.startDate).getTime() < dayEnd && new Date(task.endDate).getTime() > dayStart
+    );
+  };
+
+  const openTasks = (tasks || []).filter((task) => task.status !== "COMPLETED");
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Availability Calendar</h1>
+          <p className="text-gray-600">Maintenance windows take products or single units out of booking</p>
+        </div>
+        <button
+          onClick={() => setShowForm(!showForm)}
+          className="bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 transition-colors flex items-center gap-2"
+        >
+          <Plus className="h-4 w-4" />
+          Schedule Maintenance
+        </button>
+      </div>
+
+      {formError && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 flex items-center gap-2 text-sm text-red-700">
+          <AlertCircle className="h-4 w-4" />
+          {formError}
+        </div>
+      )}
+
+      {showForm && (
+        <form
+          onSubmit={handleSubmit}
+          className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4"
+        >
+          <select
+            required
+            value={form.productId}
+            onChange={(e) => setForm({ ...form, productId: e.target.value, unitId: "" })}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500"
+          >
+            <option value="">Select product</option>
+            {(products?.data || []).map((product) => (
+              <option key={product.id} value={product.id}>{product.name}</option>
+            ))}
+          </select>
+          <select
+            value={form.unitId}
+            onChange={(e) => setForm({ ...form, unitId: e.target.value })}
+            disabled={!units?.length}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 disabled:bg-gray-100"
+          >
+            <option value="">All units</option>
+            {(units || []).map((unit) => (
+              <option key={unit.id} value={unit.id}>{unit.serialNumber}</option>
+            ))}
+          </select>
+          <input
+            required
+            value={form.title}
+            onChange={(e) => setForm({ ...form, title: e.target.value })}
+            placeholder="Task (e.g. Service & safety check)"
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 lg:col-span-2"
+          />
+          <label className="text-sm text-gray-600">
+            From
+            <input
+              type="date"
+              value={form.startDay}
+              onChange={(e) => {
+                const day = e.target.value;
+                if (!day) return;
+                setForm({ ...form, startDay: day, endDay: form.endDay <= day ? addDays(day, 1) : form.endDay });
+              }}
+              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500"
+            />
+          </label>
+          <label className="text-sm text-gray-600">
+            Until
+            <input
+              type="date"
+              value={form.endDay}
+              min={addDays(form.startDay, 1)}
+              onChange={(e) => e.target.value && setForm({ ...form, endDay: e.target.value })}
+              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500"
+            />
+          </label>
+          <div className="flex gap-2 items-end">
+            <select
+              value={form.recurrence}
+              onChange={(e) => setForm({ ...form, recurrence: e.target.value as Recurrence })}
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500"
+            >
+              <option value="none">Does not repeat</option>
+              <option value="days">Every N days</option>
+              <option value="rentals">Every N rentals</option>
+            </select>
+            {form.recurrence !== "none" && (
+              <input
+                type="number"
+                min="1"
+                required
+                value={form.interval}
+                onChange={(e) => setForm({ ...form, interval: e.target.value })}
+                placeholder="N"
+                className="w-20 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500"
+              />
+            )}
+          </div>
+          <div className="flex gap-2 items-end">
+            <select
+              value={form.staffId}
+              onChange={(e) => setForm({ ...form, staffId: e.target.value })}
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500"
+            >
+              <option value="">Unassigned</option>
+              {(staff || []).map((member) => (
+                <option key={member.id} value={member.id}>{member.name}</option>
+              ))}
+            </select>
+            <button
+              type="submit"
+              disabled={creating}
+              className="bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 disabled:opacity-50"
+            >
+              {creating ? "Saving..." : "Save"}
+            </button>
+          </div>
+        </form>
+      )}
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+        <div className="p-4 border-b flex items-center justify-between">
+          <button
+            onClick={() => setMonth(new Date(month.getFullYear(), month.getMonth() - 1, 1))}
+            className="p-2 text-gray-500 hover:text-gray-800"
+          >
+            <ChevronLeft className="h-5 w-5" />
+          </button>
+          <h2 className="text-lg font-semibold text-gray-900">
+            {month.toLocaleDateString([], { month: "long", year: "numeric" })}
+          </h2>
+          <button
+            onClick={() => setMonth(new Date(month.getFullYear(), month.getMonth() + 1, 1))}
+            className="p-2 text-gray-500 hover:text-gray-800"
+          >
+            <ChevronRight className="h-5 w-5" />
+          </button>
+        </div>
+
+        {error ? (
+          <div className="p-6 text-red-700">{error}</div>
+        ) : (
+          <div className={`grid grid-cols-7 ${loading ? "opacity-50" : ""}`}>
+            {WEEKDAYS.map((weekday) => (
+              <div key={weekday} className="p-2 text-center text-xs font-medium text-gray-500 border-b">
+                {weekday}
+              </div>
+            ))}
+            {cells.map((day, index) => (
+              <div key={day ? day.getDate() : `blank-${index}`} className="min-h-[6rem] p-1 border-b border-r border-gray-100">
+                {day && (
+                  <>
+                    <div className="text-xs text-gray-500 mb-1">{day.getDate()}</div>
+                    <div className="space-y-1">
+                      {tasksOn(day).map((task) => (
+                        <div
+                          key={task.id}
+                          title={`${task.title} · ${taskLabel(task)}`}
+                          className={`px-1 py-0.5 rounded text-xs truncate ${statusStyles[task.status]}`}
+                        >
+                          {taskLabel(task)}
+                        </div>
+                      ))}
+                    </div>
+                  </>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+        <div className="p-6 border-b">
+          <h2 className="text-xl font-semibold text-gray-900">Open Maintenance</h2>
+        </div>
+        {openTasks.length === 0 ? (
+          <div className="p-12 text-center">
+            <Wrench className="h-12 w-12 text-gray-300 mx-auto mb-3" />
+            <p className="text-gray-600">Nothing scheduled this month.</p>
+          </div>
+        ) : (
+          <ul className="divide-y">
+            {openTasks.map((task) => (
+              <li key={task.id} className="p-4 flex flex-wrap items-center gap-4">
+                <div className="flex-1 min-w-[12rem]">
+                  <div className="font-medium text-gray-900">{task.title}</div>
+                  <div className="text-sm text-gray-600">
+                    {taskLabel(task)} · {formatDate(task.startDate)} – {formatDate(task.endDate)}
+                    {task.intervalDays && ` · every ${task.intervalDays} days`}
+                    {task.intervalRentals && ` · every ${task.intervalRentals} rentals`}
+                    {task.staff && ` · ${task.staff.name}`}
+                  </div>
+                </div>
+                <span className={`px-2 py-1 rounded-full text-xs font-medium ${statusStyles[task.status]}`}>
+                  {task.status === "IN_PROGRESS" ? "In progress" : "Scheduled"}
+                </span>
+                {task.status === "SCHEDULED" && (
+                  <button
+                    onClick={() => runAction(startTask, task.id)}
+                    className="text-sm text-blue-600 hover:text-blue-800"
+                  >
+                    Start
+                  </button>
+                )}
+                <button
+                  onClick={() => runAction(completeTask, task.id)}
+                  className="text-sm text-green-600 hover:text-green-800"
+                >
+                  Complete
+                </button>
+                <button
+                  onClick={() => handleDelete(task)}
+                  className="text-gray-400 hover:text-red-600"
+                  title="Delete task"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AvailabilityCalendar;
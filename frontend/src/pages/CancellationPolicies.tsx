@@ -0,0 +1,118 @@
+import React from "react";
+import { Ban } from "lucide-react";
+import ScopedPolicyPage, { PolicyBands } from "../components/common/ScopedPolicyPage";
+import { cancellationPolicyAPI } from "../services/api";
+import type { CancellationPolicy, CancellationPolicyInput } from "../types/api";
+
+interface WindowRow {
+  hoursBefore: string;
+  refundPercent: string;
+}
+
+interface CancellationFields {
+  windows: WindowRow[];
+  earlyReturnPercent: string;
+}
+
+const emptyFields: CancellationFields = {
+  windows: [{ hoursBefore: "48", refundPercent: "100" }],
+  earlyReturnPercent: "0",
+};
+
+const describeWindows = (policy: CancellationPolicy) => {
+  if (!policy.windows.length) return "No refund on cancellation";
+  return policy.windows
+    .map((window) => `${window.refundPercent}% from ${window.hoursBefore}h before`)
+    .join(", ");
+};
+
+const toFields = (policy: CancellationPolicy): CancellationFields => ({
+  windows: policy.windows.map((window) => ({
+    hoursBefore: String(window.hoursBefore),
+    refundPercent: String(window.refundPercent),
+  })),
+  earlyReturnPercent: String(policy.earlyReturnPercent),
+});
+
+const toInput = (form: CancellationFields): CancellationPolicyInput => ({
+  windows: form.windows.map((window) => ({
+    hoursBefore: Number(window.hoursBefore),
+    refundPercent: Number(window.refundPercent),
+  })),
+  earlyReturnPercent: Number(form.earlyReturnPercent) || 0,
+});
+
+const CancellationPolicies: React.FC = () => (
+  <ScopedPolicyPage
+    title="Cancellations"
+    description="Refunds for cancelled and early-returned rentals. Without a policy, a full refund up to 48 hours before the start and half after."
+    noun="cancellation policy"
+    emptyMessage="No cancellation policies yet."
+    icon={Ban}
+    queryKey="cancellation-policies"
+    api={cancellationPolicyAPI}
+    emptyFields={emptyFields}
+    toFields={toFields}
+    toInput={toInput}
+    columns="md:grid-cols-3"
+    fullRow="md:col-span-3"
+    describe={(policy) => (
+      <>
+        {describeWindows(policy)}
+        {policy.earlyReturnPercent > 0 &&
+          ` · early returns get ${policy.earlyReturnPercent}% of unused days back`}
+      </>
+    )}
+    renderFields={(form, setForm, fieldClass) => (
+      <>
+        <label className="text-sm text-gray-600">
+          Early return refund (% of unused days)
+          <input
+            type="number"
+            min="0"
+            max="100"
+            value={form.earlyReturnPercent}
+            onChange={(e) => setForm({ ...form, earlyReturnPercent: e.target.value })}
+            className={`mt-1 w-full ${fieldClass}`}
+          />
+        </label>
+
+        <PolicyBands
+          className="md:col-span-3"
+          title="Cancellation windows"
+          noun="window"
+          rows={form.windows}
+          onChange={(windows) => setForm({ ...form, windows })}
+          emptyRow={{ hoursBefore: "", refundPercent: "" }}
+          footer={<p className="text-xs text-gray-500">Cancelling later than every window refunds nothing.</p>}
+          renderRow={(window, update) => (
+            <>
+              Cancelled at least
+              <input
+                required
+                type="number"
+                min="0"
+                value={window.hoursBefore}
+                onChange={(e) => update({ hoursBefore: e.target.value })}
+                className={`w-20 ${fieldClass}`}
+              />
+              hours before the start, refund
+              <input
+                required
+                type="number"
+                min="0"
+                max="100"
+                value={window.refundPercent}
+                onChange={(e) => update({ refundPercent: e.target.value })}
+                className={`w-20 ${fieldClass}`}
+              />
+              %
+            </>
+          )}
+        />
+      </>
+    )}
+  />
+);
+
+export default CancellationPolicies;
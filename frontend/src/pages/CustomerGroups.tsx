@@ -0,0 +1,377 @@
+import React, { useState } from "react";
+import { AlertCircle, Pencil, Plus, Trash2, UserMinus, UserPlus, Users } from "lucide-react";
+import { getErrorMessage, useApi, useMutation } from "../hooks/useApi";
+import { customerGroupAPI, customersAPI } from "../services/api";
+import type { CustomerGroup, CustomerGroupInput } from "../types/api";
+
+interface GroupForm {
+  name: string;
+  description: string;
+  priority: string;
+  minCompletedRentals: string;
+}
+
+const emptyForm: GroupForm = { name: "", description: "", priority: "0", minCompletedRentals: "" };
+
+const groupInvalidates = { invalidates: [["customer-groups"]] };
+
+const GroupMembers: React.FC<{ group: CustomerGroup; onError: (message: string | null) => void }> = ({
+  group,
+  onError,
+}) => {
+  const [search, setSearch] = useState("");
+
+  const { data: members, loading } = useApi(
+    () => customerGroupAPI.getMembers(group.id),
+    { immediate: true, key: ["customer-groups", group.id, "members"] }
+  );
+  const { data: matches } = useApi(
+    () => customersAPI.getAll({ q: search.trim(), take: 5 }),
+    { immediate: search.trim().length >= 2, key: ["customers", "search", search.trim()] }
+  );
+
+  const { mutate: addMember } = useMutation(
+    (userId: string) => customerGroupAPI.addMember(group.id, userId),
+    groupInvalidates
+  );
+  const { mutate: removeMember } = useMutation(
+    (userId: string) => customerGroupAPI.removeMember(group.id, userId),
+    groupInvalidates
+  );
+
+  const run = async (action: () => Promise<unknown>, fallback: string) => {
+    onError(null);
+    try {
+      await action();
+    } catch (err) {
+      onError(getErrorMessage(err, fallback));
+    }
+  };
+
+  const memberIds = new Set((members?.members || []).map((member) => member.userId));
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <input
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Find a customer by name or email"
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-green-500"
+        />
+        {search.trim().length >= 2 && (
+          <ul className="mt-2 border border-gray-200 rounded-lg divide-y">
+            {(matches?.data || []).map((customer) => (
+              <li key={customer.id} className="p-2 flex items-center justify-between text-sm">
+                <span>
+                  {customer.name} <span className="text-gray-500">{customer.email}</span>
+                </span>
+                {memberIds.has(customer.id) ? (
+                  <span className="text-xs text-gray-500">Member</span>
+                ) : (
+                  <button
+                    onClick={() => run(() => addMember(customer.id), "Could not add customer")}
+                    className="text-green-600 hover:text-green-800"
+                    title="Add to group"
+                  >
+                    <UserPlus className="h-4 w-4" />
+                  </button>
+                )}
+              </li>
+            ))}
+            {matches && matches.data.length === 0 && (
+              <li className="p-2 text-sm text-gray-500">No customers found.</li>
+            )}
+          </ul>
+        )}
+      </div>
+
+      {loading ? (
+        <div className="h-12 bg-gray-200 rounded animate-pulse"></div>
+      ) : (
+        <>
+          <div>
+            <h4 className="text-sm font-medium text-gray-900 mb-2">Added by hand</h4>
+            {!members?.members.length ? (
+              <p className="text-sm text-gray-500">Nobody yet.</p>
+            ) : (
+              <ul className="border border-gray-200 rounded-lg divide-y">
+                {members.members.map((member) => (
+                  <li key={member.userId} className="p-2 flex items-center justify-between text-sm">
+                    <span>
+                      {member.user.name} <span className="text-gray-500">{member.user.email}</span>
+                    </span>
+                    <button
+                      onClick={() => run(() => removeMember(member.userId), "Could not remove customer")}
+                      className="text-gray-400 hover:text-red-600"
+                      title="Remove from group"
+                    >
+                      <UserMinus className="h-4 w-4" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {group.minCompletedRentals != null && (
+            <div>
+              <h4 className="text-sm font-medium text-gray-900 mb-2">
+                By rule: {group.minCompletedRentals}+ completed rentals
+              </h4>
+              {!members?.ruleMembers.length ? (
+                <p className="text-sm text-gray-500">No customer qualifies yet.</p>
+              ) : (
+                <ul className="text-sm text-gray-700 space-y-1">
+                  {members.ruleMembers.map((customer) => (
+                    <li key={customer.id}>
+                      {customer.name} <span className="text-gray-500">{customer.email}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+const CustomerGroups: React.FC = () => {
+  const [form, setForm] = useState<GroupForm>(emptyForm);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const { data: groups, loading, error } = useApi(
+    () => customerGroupAPI.getAll(),
+    { immediate: true, key: ["customer-groups"] }
+  );
+
+  const { mutate: createGroup, loading: creating } = useMutation(
+    (data: CustomerGroupInput) => customerGroupAPI.create(data),
+    groupInvalidates
+  );
+  const { mutate: updateGroup, loading: updating } = useMutation(
+    (data: { id: string; input: CustomerGroupInput }) => customerGroupAPI.update(data.id, data.input),
+    groupInvalidates
+  );
+  const { mutate: deleteGroup } = useMutation(
+    (id: string) => customerGroupAPI.delete(id),
+    groupInvalidates
+  );
+
+  const openForm = (group?: CustomerGroup) => {
+    setFormError(null);
+    setEditingId(group?.id ?? null);
+    setForm(
+      group
+        ? {
+            name: group.name,
+            description: group.description ?? "",
+            priority: String(group.priority),
+            minCompletedRentals: group.minCompletedRentals != null ? String(group.minCompletedRentals) : "",
+          }
+        : emptyForm
+    );
+    setShowForm(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setFormError(null);
+    const input: CustomerGroupInput = {
+      name: form.name.trim(),
+      description: form.description.trim() || null,
+      priority: Number(form.priority) || 0,
+      minCompletedRentals: form.minCompletedRentals === "" ? null : Number(form.minCompletedRentals),
+    };
+    try {
+      if (editingId) {
+        await updateGroup({ id: editingId, input });
+      } else {
+        await createGroup(input);
+      }
+      setShowForm(false);
+      setForm(emptyForm);
+    } catch (err) {
+      setFormError(getErrorMessage(err, "Could not save group"));
+    }
+  };
+
+  const handleDelete = async (group: CustomerGroup) => {
+    if (!window.confirm(`Delete the ${group.name} group?`)) return;
+    setFormError(null);
+    try {
+      await deleteGroup(group.id);
+      if (selectedId === group.id) setSelectedId(null);
+    } catch (err) {
+      setFormError(getErrorMessage(err, "Delete failed"));
+    }
+  };
+
+  const selected = groups?.find((group) => group.id === selectedId) ?? null;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Customer Groups</h1>
+          <p className="text-gray-600">Segments that pricelists can target; higher priority wins</p>
+        </div>
+        <button
+          onClick={() => openForm()}
+          className="bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 transition-colors flex items-center gap-2"
+        >
+          <Plus className="h-4 w-4" />
+          New Group
+        </button>
+      </div>
+
+      {formError && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 flex items-center gap-2 text-sm text-red-700">
+          <AlertCircle className="h-4 w-4" />
+          {formError}
+        </div>
+      )}
+
+      {showForm && (
+        <form
+          onSubmit={handleSubmit}
+          className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4"
+        >
+          <input
+            required
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+            placeholder="Name (e.g. VIP)"
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500"
+          />
+          <input
+            value={form.description}
+            onChange={(e) => setForm({ ...form, description: e.target.value })}
+            placeholder="Description"
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500"
+          />
+          <label className="text-sm text-gray-600">
+            Priority
+            <input
+              type="number"
+              step="1"
+              value={form.priority}
+              onChange={(e) => setForm({ ...form, priority: e.target.value })}
+              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500"
+            />
+          </label>
+          <label className="text-sm text-gray-600">
+            Join after completed rentals
+            <input
+              type="number"
+              min="1"
+              step="1"
+              value={form.minCompletedRentals}
+              onChange={(e) => setForm({ ...form, minCompletedRentals: e.target.value })}
+              placeholder="Manual only"
+              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500"
+            />
+          </label>
+          <div className="md:col-span-2 lg:col-span-4 flex justify-end gap-3">
+            <button
+              type="button"
+              onClick={() => setShowForm(false)}
+              className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={creating || updating}
+              className="bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 disabled:opacity-50"
+            >
+              {editingId ? "Save Group" : "Create Group"}
+            </button>
+          </div>
+        </form>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+          {loading ? (
+            <div className="p-6 space-y-2">
+              {[...Array(3)].map((_, i) => (
+                <div key={i} className="h-12 bg-gray-200 rounded animate-pulse"></div>
+              ))}
+            </div>
+          ) : error ? (
+            <div className="p-6 text-sm text-red-700">{error}</div>
+          ) : !groups?.length ? (
+            <div className="p-12 text-center">
+              <Users className="h-12 w-12 text-gray-300 mx-auto mb-3" />
+              <p className="text-gray-600">No customer groups yet.</p>
+            </div>
+          ) : (
+            <ul className="divide-y">
+              {groups.map((group) => (
+                <li
+                  key={group.id}
+                  onClick={() => setSelectedId(group.id)}
+                  className={`p-4 flex items-center gap-3 cursor-pointer ${
+                    group.id === selectedId ? "bg-green-50" : "hover:bg-gray-50"
+                  }`}
+                >
+                  <div className="flex-1">
+                    <div className="font-medium text-gray-900">
+                      {group.name}
+                      <span className="ml-2 text-xs text-gray-500">priority {group.priority}</span>
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {group._count?.members ?? 0} added by hand
+                      {group.minCompletedRentals != null &&
+                        ` · joins after ${group.minCompletedRentals} completed rentals`}
+                      {` · ${group._count?.pricelists ?? 0} pricelists`}
+                    </div>
+                  </div>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      openForm(group);
+                    }}
+                    className="text-gray-400 hover:text-gray-600"
+                    title="Edit group"
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </button>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleDelete(group);
+                    }}
+                    className="text-gray-400 hover:text-red-600"
+                    title="Delete group"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+          {selected ? (
+            <>
+              <h3 className="text-lg font-semibold text-gray-900 mb-4">{selected.name} members</h3>
+              <GroupMembers key={selected.id} group={selected} onError={setFormError} />
+            </>
+          ) : (
+            <p className="text-gray-600 text-center py-8">Pick a group to manage its members.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CustomerGroups;
@@ -1,33 +1,31 @@
-import React, { useState, useEffect } from 'react';
+import React from 'react';
 import { Plus, FileText, BarChart3, Settings, Users, Package, DollarSign, Leaf, AlertCircle, Star, TrendingUp, TrendingDown } from 'lucide-react';
 import { useApi } from '../hooks/useApi';
-import { adminAPI, rentalsAPI, productsAPI, customersAPI } from '../services/api';
+import { adminAPI, rentalsAPI, productsAPI } from '../services/api';
 import StatCard from '../components/dashboard/StatCard';
 import QuickAction from '../components/dashboard/QuickAction';
 import OrdersTable from '../components/dashboard/OrdersTable';
 import { StatCard as StatCardType } from '../types';
 
 const Dashboard: React.FC = () => {
-  const [refreshKey, setRefreshKey] = useState(0);
-  
-  const { data: dashboardData, loading: dashboardLoading, error: dashboardError } = useApi(
+  const {
+    data: dashboardData,
+    loading: dashboardLoading,
+    error: dashboardError,
+    refetch: refetchDashboard,
+  } = useApi(
     () => adminAPI.getDashboard(),
-    { immediate: true }
+    { immediate: true, key: ['admin', 'dashboard'] }
   );
   
-  const { data: rentalsData, loading: rentalsLoading } = useApi(
-    () => rentalsAPI.getAll(),
-    { immediate: true }
+  const { data: rentalsData, loading: rentalsLoading, refetch: refetchRentals } = useApi(
+    () => rentalsAPI.getAll({ take: 50 }),
+    { immediate: true, key: ['rentals', 'list', { take: 50 }] }
   );
 
-  const { data: productsData } = useApi(
+  const { data: productsData, refetch: refetchProducts } = useApi(
     () => productsAPI.getAll({ take: 5 }),
-    { immediate: true }
-  );
-
-  const { data: customersData } = useApi(
-    () => customersAPI.getAll(),
-    { immediate: true }
+    { immediate: true, key: ['products', 'list', { take: 5 }] }
   );
 
   // Transform dashboard data to stats format
@@ -132,7 +130,7 @@ const Dashboard: React.FC = () => {
   ];
 
   const handleRefresh = () => {
-    setRefreshKey(prev => prev + 1);
+    Promise.all([refetchDashboard(), refetchRentals(), refetchProducts()]).catch(() => {});
   };
 
   if (dashboardLoading || rentalsLoading) {
@@ -236,7 +234,7 @@ const Dashboard: React.FC = () => {
       {/* Recent Activity */}
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         <div className="lg:col-span-2">
-          <OrdersTable orders={rentalsData || []} />
+          <OrdersTable orders={rentalsData?.data || []} />
         </div>
         
         <div className="space-y-6">
@@ -244,7 +242,7 @@ const Dashboard: React.FC = () => {
           <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
             <h3 className="text-lg font-semibold text-gray-900 mb-4">Recent Products</h3>
             <div className="space-y-3">
-              {productsData?.slice(0, 5).map((product: any) => (
+              {productsData?.data.map((product) => (
                 <div key={product.id} className="flex items-center gap-3 p-3 bg-gray-50 rounded-lg">
                   <div className="w-10 h-10 bg-blue-100 rounded-lg flex items-center justify-center">
                     <Package className="h-5 w-5 text-blue-600" />
@@ -1,71 +1,53 @@
 import React, { useState } from "react";
-import { Plus, Clock, MapPin, Star, Phone, Truck, Package, CheckCircle, AlertCircle } from "lucide-react";
+import { Plus, Clock, Mail, MapPin, Phone, Truck, Package, CheckCircle, AlertCircle, LayoutGrid, List, Route } from "lucide-react";
 import { useApi } from "../hooks/useApi";
-import { pickupAPI, returnAPI } from "../services/api";
+import { adminAPI, pickupAPI, returnAPI } from "../services/api";
+import type { Pickup, RentalReturn } from "../types/api";
 import Pagination from "../components/common/Pagination";
 import { usePagination } from "../hooks/usePagination";
-
-interface DeliveryItem {
-  id: string;
-  rentalId: string;
-  scheduled: string;
-  actualPickup?: string;
-  actualReturn?: string;
-  completed: boolean;
-  staffId?: string;
-  staff?: {
-    id: string;
-    name: string;
-  };
-  rental: {
-    id: string;
-    orderReference?: string;
-    customer: {
-      id: string;
-      name: string;
-      email: string;
-      phone?: string;
-    };
-    product: {
-      id: string;
-      name: string;
-    };
-  };
-}
+import DispatchBoard from "../components/delivery/DispatchBoard";
+import ServiceAreas from "../components/delivery/ServiceAreas";
+import RoutePlan from "../components/delivery/RoutePlan";
+import { formatAddress } from "../utils/address";
 
 const Delivery: React.FC = () => {
   const [activeTab, setActiveTab] = useState("all");
   const [selectedDriver, setSelectedDriver] = useState("all");
+  const [view, setView] = useState<"list" | "board" | "routes" | "areas">("list");
+
+  const { data: staffData } = useApi(
+    () => adminAPI.getStaff(),
+    { immediate: true, key: ['admin', 'staff'] }
+  );
+  const staff = staffData || [];
 
   const { data: pickupsData, loading: pickupsLoading, refetch: refetchPickups } = useApi(
-    () => pickupAPI.getAll(),
-    { immediate: true }
+    () => pickupAPI.getAll({ take: 100 }),
+    { immediate: true, key: ['pickups', 'list', { take: 100 }] }
   );
 
   const { data: returnsData, loading: returnsLoading, refetch: refetchReturns } = useApi(
-    () => returnAPI.getAll(),
-    { immediate: true }
+    () => returnAPI.getAll({ take: 100 }),
+    { immediate: true, key: ['returns', 'list', { take: 100 }] }
   );
 
-  const pickups = pickupsData || [];
-  const returns = returnsData || [];
+  const pickups = pickupsData?.data || [];
+  const returns = returnsData?.data || [];
 
   // Combine pickups and returns into a unified delivery schedule
   const allDeliveries = [
-    ...pickups.map((pickup: DeliveryItem) => ({
+    ...pickups.map((pickup: Pickup) => ({
       ...pickup,
       type: 'Pickup' as const,
       status: pickup.completed ? 'Completed' : 'Scheduled',
-      address: 'Customer Location', // This would come from customer data
       time: new Date(pickup.scheduled).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }),
       date: new Date(pickup.scheduled).toLocaleDateString(),
       driver: pickup.staff?.name || 'Unassigned',
     })),
-    ...returns.map((returnItem: DeliveryItem) => ({
+    ...returns.map((returnItem: RentalReturn) => ({
       ...returnItem,
       type: 'Return' as const,
       status: returnItem.completed ? 'Completed' : 'Scheduled',
-      address: 'Warehouse Location', // This would come from return location data
       time: new Date(returnItem.scheduled).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }),
       date: new Date(returnItem.scheduled).toLocaleDateString(),
       driver: returnItem.staff?.name || 'Unassigned',
@@ -74,15 +56,13 @@ const Delivery: React.FC = () => {
 
   const filteredDeliveries = allDeliveries.filter(delivery => {
     const matchesTab = activeTab === "all" || delivery.status.toLowerCase() === activeTab.toLowerCase();
-    const matchesDriver = selectedDriver === "all" || delivery.driver === selectedDriver;
+    const matchesDriver = selectedDriver === "all" ||
+      (selectedDriver === "unassigned" ? !delivery.staffId : delivery.staffId === selectedDriver);
     return matchesTab && matchesDriver;
   });
 
   const pagination = usePagination({ data: filteredDeliveries, itemsPerPage: 10 });
 
-  const drivers = ["Mike Wilson", "Lisa Chen", "Tom Rodriguez"];
-  const uniqueDrivers = [...new Set(allDeliveries.map(d => d.driver).filter(d => d !== 'Unassigned'))];
-
   const getStatusColor = (status: string) => {
     switch (status.toLowerCase()) {
       case 'completed':
@@ -157,12 +137,53 @@ const Delivery: React.FC = () => {
           <h1 className="text-2xl font-bold text-gray-900">Delivery Management</h1>
           <p className="text-gray-600">Manage pickups, deliveries, and returns</p>
         </div>
-        <button className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors flex items-center gap-2">
-          <Plus className="h-4 w-4" />
-          Schedule Delivery
-        </button>
+        <div className="flex items-center gap-3">
+          <div className="flex rounded-lg border border-gray-300 overflow-hidden">
+            <button
+              onClick={() => setView("list")}
+              className={`px-3 py-2 flex items-center gap-1 text-sm ${view === "list" ? "bg-gray-100 text-gray-900" : "text-gray-600"}`}
+            >
+              <List className="h-4 w-4" />
+              List
+            </button>
+            <button
+              onClick={() => setView("board")}
+              className={`px-3 py-2 flex items-center gap-1 text-sm ${view === "board" ? "bg-gray-100 text-gray-900" : "text-gray-600"}`}
+            >
+              <LayoutGrid className="h-4 w-4" />
+              Dispatch
+            </button>
+            <button
+              onClick={() => setView("routes")}
+              className={`px-3 py-2 flex items-center gap-1 text-sm ${view === "routes" ? "bg-gray-100 text-gray-900" : "text-gray-600"}`}
+            >
+              <Route className="h-4 w-4" />
+              Routes
+            </button>
+            <button
+              onClick={() => setView("areas")}
+              className={`px-3 py-2 flex items-center gap-1 text-sm ${view === "areas" ? "bg-gray-100 text-gray-900" : "text-gray-600"}`}
+            >
+              <MapPin className="h-4 w-4" />
+              Areas
+            </button>
+          </div>
+          <button className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors flex items-center gap-2">
+            <Plus className="h-4 w-4" />
+            Schedule Delivery
+          </button>
+        </div>
       </div>
 
+      {view === "board" ? (
+        <DispatchBoard staff={staff} />
+      ) : view === "routes" ? (
+        <RoutePlan staff={staff} />
+      ) : view === "areas" ? (
+        <ServiceAreas />
+      ) : (
+      <>
+
       {/* Filters */}
       <div className="flex items-center justify-between">
         <div className="flex items-center gap-4">
@@ -182,10 +203,10 @@ const Delivery: React.FC = () => {
             className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
           >
             <option value="all">All Drivers</option>
-            {uniqueDrivers.map(driver => (
-              <option key={driver} value={driver}>{driver}</option>
+            {staff.map(member => (
+              <option key={member.id} value={member.id}>{member.name}</option>
             ))}
-            <option value="Unassigned">Unassigned</option>
+            <option value="unassigned">Unassigned</option>
           </select>
         </div>
       </div>
@@ -242,10 +263,23 @@ const Delivery: React.FC = () => {
                         </p>
                       </div>
                       <div>
-                        <div className="flex items-center gap-2 text-sm text-gray-600 mb-1">
-                          <MapPin className="h-4 w-4" />
-                          {delivery.address}
-                        </div>
+                        {delivery.rental.address && (
+                          <div className="flex items-center gap-2 text-sm text-gray-600 mb-1">
+                            <MapPin className="h-4 w-4" />
+                            {formatAddress(delivery.rental.address)}
+                          </div>
+                        )}
+                        {delivery.rental.customer.phone ? (
+                          <div className="flex items-center gap-2 text-sm text-gray-600 mb-1">
+                            <Phone className="h-4 w-4" />
+                            {delivery.rental.customer.phone}
+                          </div>
+                        ) : (
+                          <div className="flex items-center gap-2 text-sm text-gray-600 mb-1">
+                            <Mail className="h-4 w-4" />
+                            {delivery.rental.customer.email}
+                          </div>
+                        )}
                         <div className="flex items-center gap-2 text-sm text-gray-600">
                           <Clock className="h-4 w-4" />
                           {delivery.date} at {delivery.time}
@@ -302,27 +336,29 @@ const Delivery: React.FC = () => {
               Driver Performance
             </h3>
             <div className="space-y-4">
-              {drivers.map((driver, index) => {
-                const driverDeliveries = allDeliveries.filter(d => d.driver === driver);
-                const completedToday = driverDeliveries.filter(d => 
-                  d.status === 'Completed' && 
-                  new Date(d.scheduled).toDateString() === new Date().toDateString()
-                ).length;
-                
+              {staff.length === 0 && (
+                <p className="text-sm text-gray-600">No staff accounts yet.</p>
+              )}
+              {staff.map((member) => {
+                const today = new Date().toDateString();
+                const todayDeliveries = allDeliveries.filter(d =>
+                  d.staffId === member.id && new Date(d.scheduled).toDateString() === today
+                );
+                const completedToday = todayDeliveries.filter(d => d.status === 'Completed').length;
+
                 return (
-                  <div key={driver} className="flex items-center justify-between">
+                  <div key={member.id} className="flex items-center justify-between">
                     <div>
-                      <div className="font-medium text-gray-900">{driver}</div>
+                      <div className="font-medium text-gray-900">{member.name}</div>
                       <div className="text-sm text-gray-500">
-                        {completedToday} deliveries today
+                        {completedToday} of {todayDeliveries.length} completed today
                       </div>
                     </div>
-                    <div className="flex items-center gap-1">
-                      <Star className="h-4 w-4 text-yellow-400 fill-current" />
-                      <span className="text-sm font-medium">
-                        {(4.7 + index * 0.1).toFixed(1)}
-                      </span>
-                    </div>
+                    {member.phone && (
+                      <a href={`tel:${member.phone}`} className="text-green-600 hover:text-green-800">
+                        <Phone className="h-4 w-4" />
+                      </a>
+                    )}
                   </div>
                 );
               })}
@@ -378,16 +414,24 @@ const Delivery: React.FC = () => {
               <button className="w-full bg-green-50 text-green-700 py-3 px-4 rounded-lg hover:bg-green-100 transition-colors text-left">
                 Schedule Return
               </button>
-              <button className="w-full bg-purple-50 text-purple-700 py-3 px-4 rounded-lg hover:bg-purple-100 transition-colors text-left">
+              <button
+                onClick={() => setView("board")}
+                className="w-full bg-purple-50 text-purple-700 py-3 px-4 rounded-lg hover:bg-purple-100 transition-colors text-left"
+              >
                 Assign Driver
               </button>
-              <button className="w-full bg-orange-50 text-orange-700 py-3 px-4 rounded-lg hover:bg-orange-100 transition-colors text-left">
+              <button
+                onClick={() => setView("routes")}
+                className="w-full bg-orange-50 text-orange-700 py-3 px-4 rounded-lg hover:bg-orange-100 transition-colors text-left"
+              >
                 View Routes
               </button>
             </div>
           </div>
         </div>
       </div>
+      </>
+      )}
     </div>
   );
 };
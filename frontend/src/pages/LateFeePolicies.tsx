@@ -0,0 +1,159 @@
+import React from "react";
+import { Timer } from "lucide-react";
+import ScopedPolicyPage, { PolicyBands } from "../components/common/ScopedPolicyPage";
+import { lateFeePolicyAPI } from "../services/api";
+import type { LateFeePolicy, LateFeePolicyInput, LateFeeUnit } from "../types/api";
+
+interface TierRow {
+  afterUnits: string;
+  rate: string;
+}
+
+interface LateFeeFields {
+  unit: LateFeeUnit;
+  rate: string;
+  graceHours: string;
+  maxFee: string;
+  tiers: TierRow[];
+}
+
+const emptyFields: LateFeeFields = {
+  unit: "DAY",
+  rate: "",
+  graceHours: "0",
+  maxFee: "",
+  tiers: [],
+};
+
+const unitLabel = (unit: LateFeeUnit) => (unit === "HOUR" ? "hour" : "day");
+
+const describeRate = (policy: LateFeePolicy) => {
+  const unit = unitLabel(policy.unit);
+  const tiers = policy.tiers.map((tier) => `$${tier.rate.toFixed(2)}/${unit} after ${tier.afterUnits}`);
+  return [`$${policy.rate.toFixed(2)}/${unit}`, ...tiers].join(", then ");
+};
+
+const toFields = (policy: LateFeePolicy): LateFeeFields => ({
+  unit: policy.unit,
+  rate: String(policy.rate),
+  graceHours: String(policy.graceHours),
+  maxFee: policy.maxFee != null ? String(policy.maxFee) : "",
+  tiers: policy.tiers.map((tier) => ({
+    afterUnits: String(tier.afterUnits),
+    rate: String(tier.rate),
+  })),
+});
+
+const toInput = (form: LateFeeFields): LateFeePolicyInput => ({
+  unit: form.unit,
+  rate: Number(form.rate),
+  graceHours: Number(form.graceHours) || 0,
+  maxFee: form.maxFee === "" ? null : Number(form.maxFee),
+  tiers: form.tiers.map((tier) => ({
+    afterUnits: Number(tier.afterUnits),
+    rate: Number(tier.rate),
+  })),
+});
+
+const LateFeePolicies: React.FC = () => (
+  <ScopedPolicyPage
+    title="Late Fees"
+    description="How overdue rentals are charged. Without a policy, 10% of the base price per day."
+    noun="late-fee policy"
+    emptyMessage="No late-fee policies yet."
+    icon={Timer}
+    queryKey="late-fee-policies"
+    api={lateFeePolicyAPI}
+    emptyFields={emptyFields}
+    toFields={toFields}
+    toInput={toInput}
+    columns="md:grid-cols-2 lg:grid-cols-4"
+    fullRow="md:col-span-2 lg:col-span-4"
+    describe={(policy) => (
+      <>
+        {describeRate(policy)}
+        {policy.graceHours > 0 && ` · ${policy.graceHours}h grace`}
+        {policy.maxFee != null && ` · capped at $${policy.maxFee.toFixed(2)}`}
+      </>
+    )}
+    renderFields={(form, setForm, fieldClass) => (
+      <>
+        <select
+          value={form.unit}
+          onChange={(e) => setForm({ ...form, unit: e.target.value as LateFeeUnit })}
+          className={fieldClass}
+        >
+          <option value="DAY">Charged per day</option>
+          <option value="HOUR">Charged per hour</option>
+        </select>
+        <input
+          required
+          type="number"
+          min="0"
+          step="0.01"
+          value={form.rate}
+          onChange={(e) => setForm({ ...form, rate: e.target.value })}
+          placeholder={`Rate per ${unitLabel(form.unit)}`}
+          className={fieldClass}
+        />
+        <label className="text-sm text-gray-600">
+          Grace period (hours)
+          <input
+            type="number"
+            min="0"
+            value={form.graceHours}
+            onChange={(e) => setForm({ ...form, graceHours: e.target.value })}
+            className={`mt-1 w-full ${fieldClass}`}
+          />
+        </label>
+        <label className="text-sm text-gray-600">
+          Cap on the total
+          <input
+            type="number"
+            min="0.01"
+            step="0.01"
+            value={form.maxFee}
+            onChange={(e) => setForm({ ...form, maxFee: e.target.value })}
+            placeholder="No cap"
+            className={`mt-1 w-full ${fieldClass}`}
+          />
+        </label>
+
+        <PolicyBands
+          className="md:col-span-2 lg:col-span-4"
+          title="Escalation"
+          noun="tier"
+          rows={form.tiers}
+          onChange={(tiers) => setForm({ ...form, tiers })}
+          emptyRow={{ afterUnits: "", rate: "" }}
+          renderRow={(tier, update) => (
+            <>
+              After
+              <input
+                required
+                type="number"
+                min="1"
+                value={tier.afterUnits}
+                onChange={(e) => update({ afterUnits: e.target.value })}
+                className={`w-20 ${fieldClass}`}
+              />
+              {unitLabel(form.unit)}s late, charge
+              <input
+                required
+                type="number"
+                min="0"
+                step="0.01"
+                value={tier.rate}
+                onChange={(e) => update({ rate: e.target.value })}
+                className={`w-28 ${fieldClass}`}
+              />
+              per {unitLabel(form.unit)}
+            </>
+          )}
+        />
+      </>
+    )}
+  />
+);
+
+export default LateFeePolicies;
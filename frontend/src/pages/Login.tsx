@@ -63,8 +63,8 @@ const Login: React.FC = () => {
     setError("");
 
     try {
+      // The /login route redirects once the user is set (see App.tsx).
       await login(email, password);
-      navigate("/dashboard");
     } catch (err: any) {
       setError(err.message);
     } finally {
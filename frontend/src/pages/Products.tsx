@@ -1,41 +1,21 @@
-import React, { useState, useEffect } from "react";
+import React, { useState } from "react";
 import { Plus, Search, Filter, Edit, Trash2, Eye, Package, AlertCircle } from "lucide-react";
 import { useApi, useMutation } from "../hooks/useApi";
 import { productsAPI } from "../services/api";
+import type { Product, ProductInput } from "../types/api";
 import ProductCard from "../components/products/ProductCard";
 import ProductFilters from "../components/products/ProductFilters";
+import ProductBlackouts from "../components/products/ProductBlackouts";
+import ProductUnits from "../components/products/ProductUnits";
 import Pagination from "../components/common/Pagination";
-import { usePagination } from "../hooks/usePagination";
-
-interface Product {
-  id: string;
-  name: string;
-  description?: string;
-  category?: string;
-  isRentable: boolean;
-  unitType: string;
-  basePrice: number;
-  stock?: number;
-  createdAt: string;
-  updatedAt: string;
-  rentalDurations?: Array<{
-    id: string;
-    duration: string;
-    price: number;
-  }>;
-  availability?: Array<{
-    id: string;
-    startDate: string;
-    endDate: string;
-    isBooked: boolean;
-  }>;
-}
+import { useServerPagination } from "../hooks/usePagination";
 
 const Products: React.FC = () => {
   const [searchTerm, setSearchTerm] = useState("");
   const [selectedCategory, setSelectedCategory] = useState("");
   const [showAddModal, setShowAddModal] = useState(false);
   const [editingProduct, setEditingProduct] = useState<Product | null>(null);
+  const [modalTab, setModalTab] = useState<"details" | "units" | "blackouts">("details");
   const [newProduct, setNewProduct] = useState({
     name: "",
     description: "",
@@ -43,33 +23,43 @@ const Products: React.FC = () => {
     unitType: "piece",
     basePrice: 0,
     stock: 1,
+    deposit: null as number | null,
     isRentable: true,
   });
 
-  const { 
-    data: productsData, 
-    loading, 
-    error, 
-    refetch 
-  } = useApi(() => productsAPI.getAll(), { immediate: true });
+  const pagination = useServerPagination({
+    key: ['products', 'list'],
+    fetchPage: productsAPI.getAll,
+    params: { q: searchTerm || undefined, category: selectedCategory || undefined },
+    itemsPerPage: 12,
+  });
+  const { loading, error, refetch } = pagination;
 
-  const { mutate: createProduct, loading: creating } = useMutation(productsAPI.create);
-  const { mutate: updateProduct, loading: updating } = useMutation(
-    (data: { id: string; product: any }) => productsAPI.update(data.id, data.product)
+  // Stats only need the totals, so ask for a single row of each.
+  const { data: allProducts } = useApi(
+    () => productsAPI.getAll({ take: 1 }),
+    { key: ['products', 'list', { take: 1 }] }
   );
-  const { mutate: deleteProduct, loading: deleting } = useMutation(productsAPI.delete);
-
-  const products = productsData || [];
-
-  // Filter products based on search and category
-  const filteredProducts = products.filter((product: Product) => {
-    const matchesSearch = product.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         (product.description?.toLowerCase().includes(searchTerm.toLowerCase()) || false);
-    const matchesCategory = !selectedCategory || product.category === selectedCategory;
-    return matchesSearch && matchesCategory;
-  });
+  const { data: rentableProducts } = useApi(
+    () => productsAPI.getAll({ take: 1, isRentable: true }),
+    { key: ['products', 'list', { take: 1, isRentable: true }] }
+  );
+  const totalProducts = allProducts?.pagination.total ?? 0;
+  const totalRentable = rentableProducts?.pagination.total ?? 0;
 
-  const pagination = usePagination({ data: filteredProducts, itemsPerPage: 12 });
+  const productMutationOptions = { invalidates: [['products'], ['admin', 'dashboard']] };
+  const { mutate: createProduct, loading: creating } = useMutation(
+    productsAPI.create,
+    productMutationOptions
+  );
+  const { mutate: updateProduct, loading: updating } = useMutation(
+    (data: { id: string; product: Partial<ProductInput> }) => productsAPI.update(data.id, data.product),
+    productMutationOptions
+  );
+  const { mutate: deleteProduct, loading: deleting } = useMutation(
+    productsAPI.delete,
+    productMutationOptions
+  );
 
   const handleAddProduct = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -83,9 +73,9 @@ const Products: React.FC = () => {
         unitType: "piece",
         basePrice: 0,
         stock: 1,
+        deposit: null,
         isRentable: true,
       });
-      refetch();
     } catch (error) {
       console.error("Failed to create product:", error);
     }
@@ -96,9 +86,11 @@ const Products: React.FC = () => {
     if (!editingProduct) return;
     
     try {
+      // Stock of a product with units is counted from them server-side
+      const { stock, ...details } = newProduct;
       await updateProduct({ 
         id: editingProduct.id, 
-        product: newProduct 
+        product: editingProduct._count?.units ? details : { ...details, stock }
       });
       setEditingProduct(null);
       setNewProduct({
@@ -108,9 +100,9 @@ const Products: React.FC = () => {
         unitType: "piece",
         basePrice: 0,
         stock: 1,
+        deposit: null,
         isRentable: true,
       });
-      refetch();
     } catch (error) {
       console.error("Failed to update product:", error);
     }
@@ -120,15 +112,15 @@ const Products: React.FC = () => {
     if (window.confirm(`Are you sure you want to delete "${product.name}"?`)) {
       try {
         await deleteProduct(product.id);
-        refetch();
       } catch (error) {
         console.error("Failed to delete product:", error);
       }
     }
   };
 
-  const openEditModal = (product: Product) => {
+  const openEditModal = (product: Product, tab: "details" | "units" = "details") => {
     setEditingProduct(product);
+    setModalTab(tab);
     setNewProduct({
       name: product.name,
       description: product.description || "",
@@ -136,32 +128,11 @@ const Products: React.FC = () => {
       unitType: product.unitType,
       basePrice: product.basePrice,
       stock: product.stock || 1,
+      deposit: product.deposit ?? null,
       isRentable: product.isRentable,
     });
   };
 
-  const transformProductForCard = (product: Product) => ({
-    id: parseInt(product.id),
-    name: product.name,
-    category: product.category || "Uncategorized",
-    image: `https://images.pexels.com/photos/162553/keys-workshop-mechanic-tools-162553.jpeg?auto=compress&cs=tinysrgb&w=400`,
-    price: {
-      hour: Math.round(product.basePrice / 24),
-      day: product.basePrice,
-      week: Math.round(product.basePrice * 6),
-      month: Math.round(product.basePrice * 25),
-    },
-    stock: product.stock || 1,
-    available: product.stock || 1,
-    rented: 0,
-    ecoScore: 85,
-    rating: 4.5,
-    totalRentals: 0,
-    revenue: "$0",
-    condition: "Excellent" as const,
-    lastMaintenance: "N/A",
-  });
-
   if (loading) {
     return (
       <div className="space-y-6">
@@ -238,7 +209,7 @@ const Products: React.FC = () => {
           <div className="flex items-center gap-3">
             <Package className="h-8 w-8 text-blue-600" />
             <div>
-              <div className="text-2xl font-bold text-gray-900">{products.length}</div>
+              <div className="text-2xl font-bold text-gray-900">{totalProducts}</div>
               <div className="text-gray-600">Total Products</div>
             </div>
           </div>
@@ -250,7 +221,7 @@ const Products: React.FC = () => {
             </div>
             <div>
               <div className="text-2xl font-bold text-green-600">
-                {products.filter((p: Product) => p.isRentable).length}
+                {totalRentable}
               </div>
               <div className="text-gray-600">Available</div>
             </div>
@@ -274,7 +245,7 @@ const Products: React.FC = () => {
             </div>
             <div>
               <div className="text-2xl font-bold text-red-600">
-                {products.filter((p: Product) => !p.isRentable).length}
+                {totalProducts - totalRentable}
               </div>
               <div className="text-gray-600">Unavailable</div>
             </div>
@@ -283,7 +254,7 @@ const Products: React.FC = () => {
       </div>
 
       {/* Products Grid */}
-      {filteredProducts.length === 0 ? (
+      {pagination.totalItems === 0 ? (
         <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-12 text-center">
           <Package className="h-16 w-16 text-gray-300 mx-auto mb-4" />
           <h3 className="text-xl font-semibold text-gray-900 mb-2">No Products Found</h3>
@@ -305,9 +276,9 @@ const Products: React.FC = () => {
             {pagination.currentData.map((product: Product) => (
               <ProductCard
                 key={product.id}
-                product={transformProductForCard(product)}
+                product={product}
                 onEdit={() => openEditModal(product)}
-                onViewDetails={(p) => console.log("View details:", p)}
+                onViewDetails={() => openEditModal(product, "units")}
                 onDelete={() => handleDeleteProduct(product)}
               />
             ))}
@@ -333,152 +304,218 @@ const Products: React.FC = () => {
       {/* Add/Edit Product Modal */}
       {(showAddModal || editingProduct) && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
-          <div className="bg-white rounded-xl shadow-xl max-w-md w-full max-h-[90vh] overflow-y-auto">
+          <div
+            className={`bg-white rounded-xl shadow-xl w-full max-h-[90vh] overflow-y-auto ${
+              editingProduct && modalTab !== "details" ? "max-w-3xl" : "max-w-md"
+            }`}
+          >
             <div className="p-6 border-b">
               <h3 className="text-xl font-semibold text-gray-900">
                 {editingProduct ? "Edit Product" : "Add New Product"}
               </h3>
+              {editingProduct && (
+                <div className="flex gap-4 mt-4 -mb-6">
+                  {(["details", "units", "blackouts"] as const).map((tab) => (
+                    <button
+                      key={tab}
+                      type="button"
+                      onClick={() => setModalTab(tab)}
+                      className={`pb-3 border-b-2 text-sm font-medium ${
+                        modalTab === tab
+                          ? "border-green-600 text-green-700"
+                          : "border-transparent text-gray-500 hover:text-gray-700"
+                      }`}
+                    >
+                      {tab.charAt(0).toUpperCase() + tab.slice(1)}
+                    </button>
+                  ))}
+                </div>
+              )}
             </div>
 
-            <form onSubmit={editingProduct ? handleEditProduct : handleAddProduct} className="p-6 space-y-4">
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Product Name *
-                </label>
-                <input
-                  type="text"
-                  required
-                  value={newProduct.name}
-                  onChange={(e) => setNewProduct({ ...newProduct, name: e.target.value })}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
-                  placeholder="Enter product name"
-                />
-              </div>
-
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Description
-                </label>
-                <textarea
-                  value={newProduct.description}
-                  onChange={(e) => setNewProduct({ ...newProduct, description: e.target.value })}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
-                  placeholder="Enter product description"
-                  rows={3}
-                />
+            {editingProduct && modalTab !== "details" ? (
+              <div className="p-6 space-y-4">
+                {modalTab === "units" ? (
+                  <ProductUnits product={editingProduct} />
+                ) : (
+                  <ProductBlackouts product={editingProduct} />
+                )}
+                <div className="flex justify-end pt-4 border-t">
+                  <button
+                    type="button"
+                    onClick={() => setEditingProduct(null)}
+                    className="bg-gray-100 text-gray-700 py-2 px-4 rounded-lg hover:bg-gray-200 transition-colors"
+                  >
+                    Close
+                  </button>
+                </div>
               </div>
+            ) : (
+              <form onSubmit={editingProduct ? handleEditProduct : handleAddProduct} className="p-6 space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Product Name *
+                  </label>
+                  <input
+                    type="text"
+                    required
+                    value={newProduct.name}
+                    onChange={(e) => setNewProduct({ ...newProduct, name: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                    placeholder="Enter product name"
+                  />
+                </div>
 
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Category
-                </label>
-                <select
-                  value={newProduct.category}
-                  onChange={(e) => setNewProduct({ ...newProduct, category: e.target.value })}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
-                >
-                  <option value="">Select category</option>
-                  <option value="Power Tools">Power Tools</option>
-                  <option value="Camping Equipment">Camping Equipment</option>
-                  <option value="Electronics">Electronics</option>
-                  <option value="Furniture">Furniture</option>
-                  <option value="Sports Equipment">Sports Equipment</option>
-                  <option value="Party Supplies">Party Supplies</option>
-                </select>
-              </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Description
+                  </label>
+                  <textarea
+                    value={newProduct.description}
+                    onChange={(e) => setNewProduct({ ...newProduct, description: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                    placeholder="Enter product description"
+                    rows={3}
+                  />
+                </div>
 
-              <div className="grid grid-cols-2 gap-4">
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">
-                    Unit Type *
+                    Category
                   </label>
                   <select
-                    required
-                    value={newProduct.unitType}
-                    onChange={(e) => setNewProduct({ ...newProduct, unitType: e.target.value })}
+                    value={newProduct.category}
+                    onChange={(e) => setNewProduct({ ...newProduct, category: e.target.value })}
                     className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
                   >
-                    <option value="piece">Piece</option>
-                    <option value="set">Set</option>
-                    <option value="kit">Kit</option>
-                    <option value="unit">Unit</option>
+                    <option value="">Select category</option>
+                    <option value="Power Tools">Power Tools</option>
+                    <option value="Camping Equipment">Camping Equipment</option>
+                    <option value="Electronics">Electronics</option>
+                    <option value="Furniture">Furniture</option>
+                    <option value="Sports Equipment">Sports Equipment</option>
+                    <option value="Party Supplies">Party Supplies</option>
                   </select>
                 </div>
 
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Unit Type *
+                    </label>
+                    <select
+                      required
+                      value={newProduct.unitType}
+                      onChange={(e) => setNewProduct({ ...newProduct, unitType: e.target.value })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                    >
+                      <option value="piece">Piece</option>
+                      <option value="set">Set</option>
+                      <option value="kit">Kit</option>
+                      <option value="unit">Unit</option>
+                    </select>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Base Price ($/day) *
+                    </label>
+                    <input
+                      type="number"
+                      required
+                      min="0"
+                      step="0.01"
+                      value={newProduct.basePrice}
+                      onChange={(e) => setNewProduct({ ...newProduct, basePrice: parseFloat(e.target.value) || 0 })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                      placeholder="0.00"
+                    />
+                  </div>
+                </div>
+
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">
-                    Base Price ($/day) *
+                    Stock Quantity *
                   </label>
                   <input
                     type="number"
                     required
+                    min="1"
+                    value={newProduct.stock}
+                    disabled={!!editingProduct?._count?.units}
+                    onChange={(e) => setNewProduct({ ...newProduct, stock: parseInt(e.target.value) || 1 })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent disabled:bg-gray-100"
+                    placeholder="1"
+                  />
+                  {!!editingProduct?._count?.units && (
+                    <p className="mt-1 text-xs text-gray-500">Counted from the product's bookable units.</p>
+                  )}
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Security Deposit
+                  </label>
+                  <input
+                    type="number"
                     min="0"
                     step="0.01"
-                    value={newProduct.basePrice}
-                    onChange={(e) => setNewProduct({ ...newProduct, basePrice: parseFloat(e.target.value) || 0 })}
+                    value={newProduct.deposit ?? ""}
+                    onChange={(e) =>
+                      setNewProduct({ ...newProduct, deposit: e.target.value === "" ? null : parseFloat(e.target.value) || 0 })
+                    }
                     className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
-                    placeholder="0.00"
+                    placeholder="Category default"
                   />
+                  <p className="mt-1 text-xs text-gray-500">
+                    Held when a rental is confirmed. Leave empty to use the category's deposit.
+                  </p>
                 </div>
-              </div>
 
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Stock Quantity *
-                </label>
-                <input
-                  type="number"
-                  required
-                  min="1"
-                  value={newProduct.stock}
-                  onChange={(e) => setNewProduct({ ...newProduct, stock: parseInt(e.target.value) || 1 })}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
-                  placeholder="1"
-                />
-              </div>
-
-              <div className="flex items-center">
-                <input
-                  type="checkbox"
-                  id="isRentable"
-                  checked={newProduct.isRentable}
-                  onChange={(e) => setNewProduct({ ...newProduct, isRentable: e.target.checked })}
-                  className="h-4 w-4 text-green-600 focus:ring-green-500 border-gray-300 rounded"
-                />
-                <label htmlFor="isRentable" className="ml-2 block text-sm text-gray-900">
-                  Available for rent
-                </label>
-              </div>
+                <div className="flex items-center">
+                  <input
+                    type="checkbox"
+                    id="isRentable"
+                    checked={newProduct.isRentable}
+                    onChange={(e) => setNewProduct({ ...newProduct, isRentable: e.target.checked })}
+                    className="h-4 w-4 text-green-600 focus:ring-green-500 border-gray-300 rounded"
+                  />
+                  <label htmlFor="isRentable" className="ml-2 block text-sm text-gray-900">
+                    Available for rent
+                  </label>
+                </div>
 
-              <div className="flex gap-3 pt-4 border-t">
-                <button
-                  type="submit"
-                  disabled={creating || updating}
-                  className="flex-1 bg-green-600 text-white py-2 px-4 rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-                >
-                  {creating || updating ? "Saving..." : editingProduct ? "Update Product" : "Add Product"}
-                </button>
-                <button
-                  type="button"
-                  onClick={() => {
-                    setShowAddModal(false);
-                    setEditingProduct(null);
-                    setNewProduct({
-                      name: "",
-                      description: "",
-                      category: "",
-                      unitType: "piece",
-                      basePrice: 0,
-                      stock: 1,
-                      isRentable: true,
-                    });
-                  }}
-                  className="flex-1 bg-gray-100 text-gray-700 py-2 px-4 rounded-lg hover:bg-gray-200 transition-colors"
-                >
-                  Cancel
-                </button>
-              </div>
-            </form>
+                <div className="flex gap-3 pt-4 border-t">
+                  <button
+                    type="submit"
+                    disabled={creating || updating}
+                    className="flex-1 bg-green-600 text-white py-2 px-4 rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {creating || updating ? "Saving..." : editingProduct ? "Update Product" : "Add Product"}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setShowAddModal(false);
+                      setEditingProduct(null);
+                      setNewProduct({
+                        name: "",
+                        description: "",
+                        category: "",
+                        unitType: "piece",
+                        basePrice: 0,
+                        stock: 1,
+                        deposit: null,
+                        isRentable: true,
+                      });
+                    }}
+                    className="flex-1 bg-gray-100 text-gray-700 py-2 px-4 rounded-lg hover:bg-gray-200 transition-colors"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              </form>
+            )}
           </div>
         </div>
       )}
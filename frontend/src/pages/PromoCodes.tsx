@@ -0,0 +1,335 @@
+import React, { useState } from "react";
+import { AlertCircle, Pencil, Plus, Tag, Trash2 } from "lucide-react";
+import { getErrorMessage, useApi, useMutation } from "../hooks/useApi";
+import { productsAPI, promoCodeAPI } from "../services/api";
+import type { PromoCode, PromoCodeInput, PromoDiscountType } from "../types/api";
+import { formatDate, toDateInput } from "../utils/date";
+
+interface PromoForm {
+  code: string;
+  description: string;
+  discountType: PromoDiscountType;
+  value: string;
+  expiresDay: string;
+  maxUses: string;
+  maxUsesPerUser: string;
+  minRentalDays: string;
+  productIds: string[];
+  categories: string;
+  isActive: boolean;
+}
+
+const emptyForm: PromoForm = {
+  code: "",
+  description: "",
+  discountType: "PERCENTAGE",
+  value: "",
+  expiresDay: "",
+  maxUses: "",
+  maxUsesPerUser: "",
+  minRentalDays: "",
+  productIds: [],
+  categories: "",
+  isActive: true,
+};
+
+const optionalInt = (value: string) => (value === "" ? null : Number(value));
+
+const describeDiscount = (promo: PromoCode) =>
+  promo.discountType === "PERCENTAGE" ? `${promo.value}% off` : `$${promo.value.toFixed(2)} off`;
+
+const promoInvalidates = { invalidates: [["promo-codes"]] };
+
+const PromoCodes: React.FC = () => {
+  const [form, setForm] = useState<PromoForm>(emptyForm);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const { data: promoCodes, loading, error } = useApi(
+    () => promoCodeAPI.getAll(),
+    { immediate: true, key: ["promo-codes"] }
+  );
+  // For the product picker and to name restricted products in the list
+  const restricted = !!promoCodes?.some((promo) => promo.productIds.length > 0);
+  const { data: products } = useApi(
+    () => productsAPI.getAll({ take: 100 }),
+    { immediate: showForm || restricted, key: ["products", "list", { take: 100 }] }
+  );
+
+  const { mutate: createPromo, loading: creating } = useMutation(
+    (data: PromoCodeInput) => promoCodeAPI.create(data),
+    promoInvalidates
+  );
+  const { mutate: updatePromo, loading: updating } = useMutation(
+    (data: { id: string; input: Partial<PromoCodeInput> }) => promoCodeAPI.update(data.id, data.input),
+    promoInvalidates
+  );
+  const { mutate: deletePromo } = useMutation(
+    (id: string) => promoCodeAPI.delete(id),
+    promoInvalidates
+  );
+
+  const productName = (id: string) => products?.data.find((product) => product.id === id)?.name ?? id;
+
+  const openForm = (promo?: PromoCode) => {
+    setFormError(null);
+    setEditingId(promo?.id ?? null);
+    setForm(
+      promo
+        ? {
+            code: promo.code,
+            description: promo.description ?? "",
+            discountType: promo.discountType,
+            value: String(promo.value),
+            expiresDay: promo.expiresAt ? toDateInput(new Date(promo.expiresAt)) : "",
+            maxUses: promo.maxUses != null ? String(promo.maxUses) : "",
+            maxUsesPerUser: promo.maxUsesPerUser != null ? String(promo.maxUsesPerUser) : "",
+            minRentalDays: promo.minRentalDays != null ? String(promo.minRentalDays) : "",
+            productIds: promo.productIds,
+            categories: promo.categories.join(", "),
+            isActive: promo.isActive,
+          }
+        : emptyForm
+    );
+    setShowForm(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setFormError(null);
+    const input: PromoCodeInput = {
+      code: form.code.trim(),
+      description: form.description.trim() || null,
+      discountType: form.discountType,
+      value: Number(form.value),
+      // Valid through the whole of the chosen day
+      expiresAt: form.expiresDay ? new Date(`${form.expiresDay}T23:59:59`).toISOString() : null,
+      maxUses: optionalInt(form.maxUses),
+      maxUsesPerUser: optionalInt(form.maxUsesPerUser),
+      minRentalDays: optionalInt(form.minRentalDays),
+      productIds: form.productIds,
+      categories: form.categories
+        .split(",")
+        .map((category) => category.trim())
+        .filter(Boolean),
+      isActive: form.isActive,
+    };
+    try {
+      if (editingId) {
+        await updatePromo({ id: editingId, input });
+      } else {
+        await createPromo(input);
+      }
+      setShowForm(false);
+      setForm(emptyForm);
+    } catch (err) {
+      setFormError(getErrorMessage(err, "Could not save promo code"));
+    }
+  };
+
+  const handleDelete = async (promo: PromoCode) => {
+    if (!window.confirm(`Delete promo code ${promo.code}?`)) return;
+    setFormError(null);
+    try {
+      await deletePromo(promo.id);
+    } catch (err) {
+      setFormError(getErrorMessage(err, "Delete failed"));
+    }
+  };
+
+  const input = (name: keyof PromoForm, placeholder: string, type = "text") => (
+    <input
+      type={type}
+      min={type === "number" ? "1" : undefined}
+      value={form[name] as string}
+      onChange={(e) => setForm({ ...form, [name]: e.target.value })}
+      placeholder={placeholder}
+      className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500"
+    />
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Promo Codes</h1>
+          <p className="text-gray-600">Discounts customers can apply at checkout</p>
+        </div>
+        <button
+          onClick={() => openForm()}
+          className="bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 transition-colors flex items-center gap-2"
+        >
+          <Plus className="h-4 w-4" />
+          New Code
+        </button>
+      </div>
+
+      {formError && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 flex items-center gap-2 text-sm text-red-700">
+          <AlertCircle className="h-4 w-4" />
+          {formError}
+        </div>
+      )}
+
+      {showForm && (
+        <form
+          onSubmit={handleSubmit}
+          className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4"
+        >
+          <input
+            required
+            value={form.code}
+            onChange={(e) => setForm({ ...form, code: e.target.value })}
+            placeholder="Code (e.g. SPRING10)"
+            className="px-3 py-2 border border-gray-300 rounded-lg uppercase focus:ring-2 focus:ring-green-500"
+          />
+          <select
+            value={form.discountType}
+            onChange={(e) => setForm({ ...form, discountType: e.target.value as PromoDiscountType })}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500"
+          >
+            <option value="PERCENTAGE">Percentage off</option>
+            <option value="FIXED">Fixed amount off</option>
+          </select>
+          <input
+            required
+            type="number"
+            min="0.01"
+            step="0.01"
+            max={form.discountType === "PERCENTAGE" ? "100" : undefined}
+            value={form.value}
+            onChange={(e) => setForm({ ...form, value: e.target.value })}
+            placeholder={form.discountType === "PERCENTAGE" ? "Percent" : "Amount"}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500"
+          />
+          <label className="text-sm text-gray-600">
+            Expires
+            <input
+              type="date"
+              value={form.expiresDay}
+              onChange={(e) => setForm({ ...form, expiresDay: e.target.value })}
+              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500"
+            />
+          </label>
+          {input("maxUses", "Total uses (unlimited)", "number")}
+          {input("maxUsesPerUser", "Uses per customer (unlimited)", "number")}
+          {input("minRentalDays", "Minimum rental days", "number")}
+          {input("description", "Description")}
+          <label className="text-sm text-gray-600 md:col-span-2">
+            Only for these products (none selected: any)
+            <select
+              multiple
+              value={form.productIds}
+              onChange={(e) =>
+                setForm({
+                  ...form,
+                  productIds: Array.from(e.target.selectedOptions, (option) => option.value),
+                })
+              }
+              className="mt-1 w-full h-28 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500"
+            >
+              {(products?.data || []).map((product) => (
+                <option key={product.id} value={product.id}>
+                  {product.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="text-sm text-gray-600 md:col-span-2">
+            Or these categories, comma separated
+            <input
+              value={form.categories}
+              onChange={(e) => setForm({ ...form, categories: e.target.value })}
+              placeholder="Tools, Camping"
+              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500"
+            />
+          </label>
+          <div className="md:col-span-2 lg:col-span-4 flex items-center justify-between gap-3">
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={form.isActive}
+                onChange={(e) => setForm({ ...form, isActive: e.target.checked })}
+              />
+              Active
+            </label>
+            <div className="flex gap-3">
+              <button
+                type="button"
+                onClick={() => setShowForm(false)}
+                className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={creating || updating}
+                className="bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 disabled:opacity-50"
+              >
+                {editingId ? "Save Code" : "Create Code"}
+              </button>
+            </div>
+          </div>
+        </form>
+      )}
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+        {loading ? (
+          <div className="p-6 space-y-2">
+            {[...Array(3)].map((_, i) => (
+              <div key={i} className="h-12 bg-gray-200 rounded animate-pulse"></div>
+            ))}
+          </div>
+        ) : error ? (
+          <div className="p-6 text-sm text-red-700">{error}</div>
+        ) : !promoCodes?.length ? (
+          <div className="p-12 text-center">
+            <Tag className="h-12 w-12 text-gray-300 mx-auto mb-3" />
+            <p className="text-gray-600">No promo codes yet.</p>
+          </div>
+        ) : (
+          <ul className="divide-y">
+            {promoCodes.map((promo) => (
+              <li key={promo.id} className="p-4 flex items-center gap-3">
+                <div className="flex-1">
+                  <div className="font-medium text-gray-900">
+                    <span className="font-mono">{promo.code}</span>
+                    <span className="ml-2 text-sm text-green-700">{describeDiscount(promo)}</span>
+                    {!promo.isActive && <span className="ml-2 text-xs text-gray-500">Inactive</span>}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {promo._count?.redemptions ?? 0}
+                    {promo.maxUses != null && ` of ${promo.maxUses}`} used
+                    {promo.maxUsesPerUser != null && ` · ${promo.maxUsesPerUser} per customer`}
+                    {promo.expiresAt && ` · expires ${formatDate(promo.expiresAt)}`}
+                    {promo.minRentalDays != null && ` · ${promo.minRentalDays}+ day rentals`}
+                    {promo.productIds.length > 0 &&
+                      ` · ${promo.productIds.map(productName).join(", ")}`}
+                    {promo.categories.length > 0 && ` · ${promo.categories.join(", ")}`}
+                  </div>
+                </div>
+                <button
+                  onClick={() => openForm(promo)}
+                  className="text-gray-400 hover:text-gray-600"
+                  title="Edit promo code"
+                >
+                  <Pencil className="h-4 w-4" />
+                </button>
+                <button
+                  onClick={() => handleDelete(promo)}
+                  className="text-gray-400 hover:text-red-600"
+                  title="Delete promo code"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PromoCodes;
@@ -0,0 +1,152 @@
+import React, { useState } from "react";
+import { AlertCircle, CalendarPlus, Check, X } from "lucide-react";
+import { getErrorMessage, useApi, useMutation } from "../hooks/useApi";
+import { rentalExtensionAPI } from "../services/api";
+import type { ExtensionStatus, RentalExtension } from "../types/api";
+import { formatDate } from "../utils/date";
+
+const statusColors: Record<ExtensionStatus, string> = {
+  PENDING: "bg-yellow-100 text-yellow-800",
+  APPROVED: "bg-green-100 text-green-800",
+  REJECTED: "bg-red-100 text-red-800",
+  CANCELLED: "bg-gray-100 text-gray-800",
+};
+
+const extensionInvalidates = { invalidates: [["rental-extensions"], ["rentals"]] };
+
+const RentalExtensions: React.FC = () => {
+  const [status, setStatus] = useState<ExtensionStatus | "">("PENDING");
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const params = { status: status || undefined, take: 50 };
+  const { data: page, loading, error } = useApi(
+    () => rentalExtensionAPI.getAll(params),
+    { immediate: true, key: ["rental-extensions", "list", params] }
+  );
+
+  const { mutate: approve, loading: approving } = useMutation(
+    (data: { id: string; note?: string }) => rentalExtensionAPI.approve(data.id, { note: data.note }),
+    extensionInvalidates
+  );
+  const { mutate: reject, loading: rejecting } = useMutation(
+    (data: { id: string; note?: string }) => rentalExtensionAPI.reject(data.id, { note: data.note }),
+    extensionInvalidates
+  );
+
+  const decide = async (extension: RentalExtension, approved: boolean) => {
+    setActionError(null);
+    const note = notes[extension.id]?.trim() || undefined;
+    try {
+      await (approved ? approve : reject)({ id: extension.id, note });
+      setNotes({ ...notes, [extension.id]: "" });
+    } catch (err) {
+      setActionError(getErrorMessage(err, approved ? "Approval failed" : "Rejection failed"));
+    }
+  };
+
+  const extensions = page?.data ?? [];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Extensions</h1>
+          <p className="text-gray-600">Customer requests to keep a rental longer.</p>
+        </div>
+        <select
+          value={status}
+          onChange={(e) => setStatus(e.target.value as ExtensionStatus | "")}
+          className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500"
+        >
+          <option value="PENDING">Pending</option>
+          <option value="APPROVED">Approved</option>
+          <option value="REJECTED">Rejected</option>
+          <option value="CANCELLED">Cancelled</option>
+          <option value="">All</option>
+        </select>
+      </div>
+
+      {actionError && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 flex items-center gap-2 text-sm text-red-700">
+          <AlertCircle className="h-4 w-4" />
+          {actionError}
+        </div>
+      )}
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+        {loading ? (
+          <div className="p-6 space-y-2">
+            {[...Array(3)].map((_, i) => (
+              <div key={i} className="h-12 bg-gray-200 rounded animate-pulse"></div>
+            ))}
+          </div>
+        ) : error ? (
+          <div className="p-6 text-sm text-red-700">{error}</div>
+        ) : !extensions.length ? (
+          <div className="p-12 text-center">
+            <CalendarPlus className="h-12 w-12 text-gray-300 mx-auto mb-3" />
+            <p className="text-gray-600">No extension requests.</p>
+          </div>
+        ) : (
+          <ul className="divide-y">
+            {extensions.map((extension) => (
+              <li key={extension.id} className="p-4 space-y-2">
+                <div className="flex flex-wrap items-center gap-3">
+                  <div className="flex-1 min-w-0">
+                    <div className="font-medium text-gray-900">
+                      {extension.rental?.product.name}
+                      <span className="ml-2 text-xs text-gray-500">
+                        {extension.rental?.orderReference ?? extension.rentalId.slice(0, 8)}
+                      </span>
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {extension.rental?.customer.name} · {formatDate(extension.currentEndDate)} →{" "}
+                      {formatDate(extension.requestedEndDate)} · ${extension.price.toFixed(2)}
+                      {extension.autoApproved && " · approved automatically"}
+                    </div>
+                    {extension.note && <div className="text-sm text-gray-600 mt-1">"{extension.note}"</div>}
+                    {extension.decisionNote && (
+                      <div className="text-xs text-gray-500 mt-1">Decision: {extension.decisionNote}</div>
+                    )}
+                  </div>
+                  <span className={`px-2 py-1 text-xs rounded-full ${statusColors[extension.status]}`}>
+                    {extension.status}
+                  </span>
+                </div>
+                {extension.status === "PENDING" && (
+                  <div className="flex items-center gap-2">
+                    <input
+                      value={notes[extension.id] ?? ""}
+                      onChange={(e) => setNotes({ ...notes, [extension.id]: e.target.value })}
+                      placeholder="Note to the customer (optional)"
+                      className="flex-1 px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500"
+                    />
+                    <button
+                      onClick={() => decide(extension, true)}
+                      disabled={approving || rejecting}
+                      className="bg-green-600 text-white px-3 py-1.5 rounded-lg text-sm hover:bg-green-700 disabled:opacity-50 flex items-center gap-1"
+                    >
+                      <Check className="h-4 w-4" />
+                      Approve
+                    </button>
+                    <button
+                      onClick={() => decide(extension, false)}
+                      disabled={approving || rejecting}
+                      className="border border-red-300 text-red-700 px-3 py-1.5 rounded-lg text-sm hover:bg-red-50 disabled:opacity-50 flex items-center gap-1"
+                    >
+                      <X className="h-4 w-4" />
+                      Reject
+                    </button>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RentalExtensions;
@@ -2,6 +2,7 @@ import React, { useState,useEffect,useRef } from "react";
 import { useNavigate } from "react-router-dom";
 import { Eye, EyeOff, Loader2 } from "lucide-react";
 import { useAuth } from "../contexts/AuthContext";
+import type { UserRole } from "../types/api";
 import * as THREE from "three";
 
 const API_BASE = "/api/auth";
@@ -9,7 +10,14 @@ const API_BASE = "/api/auth";
 const Signup: React.FC = () => {
   const navigate = useNavigate();
   const { signup } = useAuth();
-  const [form, setForm] = useState({
+  const [form, setForm] = useState<{
+    email: string;
+    name: string;
+    phone: string;
+    password: string;
+    confirmPassword: string;
+    role: UserRole;
+  }>({
     email: "",
     name: "",
     phone: "",
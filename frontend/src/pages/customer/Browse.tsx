@@ -1,113 +1,109 @@
-import React, { useState, useMemo } from "react";
+import React, { useState } from "react";
 import { Search, Filter, Star, Heart, Eye, Share2, MapPin, Leaf } from "lucide-react";
-import { useApi } from "../../hooks/useApi";
-import { productsAPI } from "../../services/api";
+import { useApi, useMutation } from "../../hooks/useApi";
+import { productsAPI, wishlistAPI } from "../../services/api";
+import type { Product, ProductListParams } from "../../types/api";
 import Pagination from "../../components/common/Pagination";
-import { usePagination } from "../../hooks/usePagination";
+import { useServerPagination } from "../../hooks/usePagination";
+import CheckoutModal from "../../components/customer/CheckoutModal";
 
-interface Product {
-  id: string;
-  name: string;
-  description?: string;
-  category?: string;
-  isRentable: boolean;
-  unitType: string;
-  basePrice: number;
-  stock?: number;
-  createdAt: string;
-  updatedAt: string;
-}
+// Select values mapped onto the /product list filters and sort.
+const PRICE_RANGES: Record<string, Pick<ProductListParams, "minPrice" | "maxPrice">> = {
+  all: {},
+  "0-50": { minPrice: 0, maxPrice: 50 },
+  "50-100": { minPrice: 50, maxPrice: 100 },
+  "100+": { minPrice: 100 },
+};
+
+const SORT_OPTIONS: Record<string, Pick<ProductListParams, "sortBy" | "sortOrder">> = {
+  popular: {},
+  "price-low": { sortBy: "basePrice", sortOrder: "asc" },
+  "price-high": { sortBy: "basePrice", sortOrder: "desc" },
+  name: { sortBy: "name", sortOrder: "asc" },
+};
+
+const wishlistInvalidates = { invalidates: [["wishlist"]] };
 
 const Browse: React.FC = () => {
   const [searchTerm, setSearchTerm] = useState("");
   const [selectedCategory, setSelectedCategory] = useState("all");
   const [priceRange, setPriceRange] = useState("all");
   const [sortBy, setSortBy] = useState("popular");
-  const [wishlistedItems, setWishlistedItems] = useState<Set<string>>(new Set());
+  const [checkoutProduct, setCheckoutProduct] = useState<Product | null>(null);
 
-  const { data: productsData, loading, error, refetch } = useApi(
-    () => productsAPI.getAll(),
-    { immediate: true }
-  );
-
-  const products = productsData || [];
+  const pagination = useServerPagination({
+    key: ['products', 'list'],
+    fetchPage: productsAPI.getAll,
+    params: {
+      isRentable: true,
+      q: searchTerm || undefined,
+      category: selectedCategory === "all" ? undefined : selectedCategory,
+      ...PRICE_RANGES[priceRange],
+      ...SORT_OPTIONS[sortBy],
+    },
+    itemsPerPage: 12,
+  });
+  const { loading, error, refetch } = pagination;
 
-  const categories = [
-    { id: "all", name: "All Categories", count: products.length, icon: "🏪" },
-    { id: "Power Tools", name: "Power Tools", count: products.filter((p: Product) => p.category === "Power Tools").length, icon: "🔧" },
-    { id: "Camping Equipment", name: "Camping", count: products.filter((p: Product) => p.category === "Camping Equipment").length, icon: "⛺" },
-    { id: "Electronics", name: "Electronics", count: products.filter((p: Product) => p.category === "Electronics").length, icon: "📱" },
-    { id: "Furniture", name: "Furniture", count: products.filter((p: Product) => p.category === "Furniture").length, icon: "🪑" },
-    { id: "Sports Equipment", name: "Sports", count: products.filter((p: Product) => p.category === "Sports Equipment").length, icon: "⚽" },
-    { id: "Party Supplies", name: "Party", count: products.filter((p: Product) => p.category === "Party Supplies").length, icon: "🎉" },
-  ];
+  const { data: wishlist } = useApi(
+    () => wishlistAPI.getAll(),
+    { immediate: true, key: ['wishlist'] }
+  );
+  const wishlistIds = wishlist?.map((item) => item.productId) ?? [];
 
-  const filteredProducts = useMemo(() => {
-    let filtered = products.filter((product: Product) => {
-      const matchesSearch =
-        product.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        (product.category?.toLowerCase().includes(searchTerm.toLowerCase()) || false);
-      const matchesCategory =
-        selectedCategory === "all" || product.category === selectedCategory;
+  const { mutate: addToWishlist } = useMutation(
+    (productId: string) => wishlistAPI.add({ productId }),
+    wishlistInvalidates
+  );
+  const { mutate: removeFromWishlist } = useMutation(
+    (productId: string) => wishlistAPI.remove(productId),
+    wishlistInvalidates
+  );
 
-      let matchesPrice = true;
-      if (priceRange !== "all") {
-        const [min, max] = priceRange
-          .split("-")
-          .map((p) => (p === "100+" ? 1000 : parseInt(p)));
-        matchesPrice =
-          product.basePrice >= min && (max ? product.basePrice <= max : true);
+  const toggleWishlist = async (productId: string) => {
+    try {
+      if (wishlistIds.includes(productId)) {
+        await removeFromWishlist(productId);
+      } else {
+        await addToWishlist(productId);
       }
-
-      return matchesSearch && matchesCategory && matchesPrice && product.isRentable;
-    });
-
-    // Sort products
-    switch (sortBy) {
-      case "price-low":
-        filtered.sort((a: Product, b: Product) => a.basePrice - b.basePrice);
-        break;
-      case "price-high":
-        filtered.sort((a: Product, b: Product) => b.basePrice - a.basePrice);
-        break;
-      case "name":
-        filtered.sort((a: Product, b: Product) => a.name.localeCompare(b.name));
-        break;
-      default:
-        // Keep original order for "popular"
-        break;
+    } catch (err) {
+      console.error("Wishlist update failed:", err);
     }
+  };
 
-    return filtered;
-  }, [searchTerm, selectedCategory, priceRange, sortBy, products]);
+  const { data: categoryCounts } = useApi(
+    () => productsAPI.getCategories(),
+    { immediate: true, key: ['products', 'categories'] }
+  );
 
-  const pagination = usePagination({ data: filteredProducts, itemsPerPage: 12 });
+  const countFor = (category: string) =>
+    categoryCounts?.find((c) => c.category === category)?.count ?? 0;
+  const totalCount = categoryCounts?.reduce((sum, c) => sum + c.count, 0) ?? 0;
 
-  const handleProductSelect = (product: Product) => {
-    console.log("Selected product:", product.id);
-    // Handle product selection (e.g., open rental modal)
-  };
+  const categories = [
+    { id: "all", name: "All Categories", count: totalCount, icon: "🏪" },
+    { id: "Power Tools", name: "Power Tools", count: countFor("Power Tools"), icon: "🔧" },
+    { id: "Camping Equipment", name: "Camping", count: countFor("Camping Equipment"), icon: "⛺" },
+    { id: "Electronics", name: "Electronics", count: countFor("Electronics"), icon: "📱" },
+    { id: "Furniture", name: "Furniture", count: countFor("Furniture"), icon: "🪑" },
+    { id: "Sports Equipment", name: "Sports", count: countFor("Sports Equipment"), icon: "⚽" },
+    { id: "Party Supplies", name: "Party", count: countFor("Party Supplies"), icon: "🎉" },
+  ];
 
-  const handleWishlistToggle = (productId: string) => {
-    setWishlistedItems(prev => {
-      const newSet = new Set(prev);
-      if (newSet.has(productId)) {
-        newSet.delete(productId);
-      } else {
-        newSet.add(productId);
-      }
-      return newSet;
-    });
+  const handleProductSelect = (product: Product) => {
+    setCheckoutProduct(product);
   };
 
   const transformProductForDisplay = (product: Product) => ({
     ...product,
     image: `https://images.pexels.com/photos/162553/keys-workshop-mechanic-tools-162553.jpeg?auto=compress&cs=tinysrgb&w=400`,
-    price: {
-      hour: Math.round(product.basePrice / 24),
+    // Server list prices; without them anything under a day is billed as a day
+    price: product.prices ?? {
+      hour: product.basePrice,
       day: product.basePrice,
-      week: Math.round(product.basePrice * 6),
-      month: Math.round(product.basePrice * 25),
+      week: product.basePrice * 7,
+      month: product.basePrice * 30,
     },
     originalPrice: Math.round(product.basePrice * 1.2),
     ecoScore: 85,
@@ -121,7 +117,7 @@ const Browse: React.FC = () => {
     deliveryTime: "Same day",
     savings: `$${Math.floor(Math.random() * 500 + 100)} vs buying`,
     popularity: Math.floor(Math.random() * 100),
-    isWishlisted: wishlistedItems.has(product.id),
+    isWishlisted: wishlistIds.includes(product.id),
     discount: Math.random() > 0.7 ? Math.floor(Math.random() * 20 + 5) : 0,
   });
 
@@ -245,7 +241,7 @@ const Browse: React.FC = () => {
       {/* Results Summary */}
       <div className="flex items-center justify-between">
         <h2 className="text-lg font-semibold text-gray-900">
-          {filteredProducts.length} Products Found
+          {pagination.totalItems} Products Found
         </h2>
         <div className="text-sm text-gray-600">
           Showing results for "{searchTerm || "all products"}"
@@ -253,7 +249,7 @@ const Browse: React.FC = () => {
       </div>
 
       {/* Products Grid */}
-      {filteredProducts.length === 0 ? (
+      {pagination.totalItems === 0 ? (
         <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-12 text-center">
           <div className="text-6xl mb-4">📦</div>
           <h3 className="text-xl font-semibold text-gray-900 mb-2">No Products Found</h3>
@@ -292,7 +288,7 @@ const Browse: React.FC = () => {
                       )}
                     </div>
                     <button 
-                      onClick={() => handleWishlistToggle(product.id)}
+                      onClick={() => toggleWishlist(product.id)}
                       className="absolute top-3 left-3 p-2 bg-white rounded-full shadow-sm hover:bg-gray-50 transition-colors"
                     >
                       <Heart className={`h-4 w-4 ${displayProduct.isWishlisted ? 'text-red-500 fill-current' : 'text-gray-400'}`} />
@@ -391,7 +387,7 @@ const Browse: React.FC = () => {
           </div>
 
           {/* Pagination */}
-          {filteredProducts.length > 0 && (
+          {pagination.totalItems > 0 && (
             <div className="bg-white rounded-xl shadow-sm border border-gray-200">
               <Pagination
                 currentPage={pagination.currentPage}
@@ -408,6 +404,10 @@ const Browse: React.FC = () => {
           )}
         </>
       )}
+
+      {checkoutProduct && (
+        <CheckoutModal product={checkoutProduct} onClose={() => setCheckoutProduct(null)} />
+      )}
     </div>
   );
 };
@@ -6,17 +6,21 @@ import {
   CheckCircle,
   Clock,
   AlertCircle,
+  Tag,
+  Trash2,
 } from "lucide-react";
 import Pagination from "../../components/common/Pagination";
 import { usePagination } from "../../hooks/usePagination";
-
-interface WishlistItem {
-  id: number;
-  name: string;
-  description: string;
-  imageUrl?: string;
-  price?: string;
-}
+import { getErrorMessage, useApi, useMutation } from "../../hooks/useApi";
+import { cartAPI, customersAPI, rentalsAPI } from "../../services/api";
+import type {
+  BookingWindow,
+  CartItemUpdateInput,
+  CheckedCartItem,
+  RentalConflict,
+  RentalInput,
+} from "../../types/api";
+import { addDays, formatDate, toDateInput, toISODay } from "../../utils/date";
 
 interface Contract {
   id: string;
@@ -30,16 +34,157 @@ interface Contract {
   cancellationPolicy: string;
 }
 
-interface ContractsProps {
-  cartItems: WishlistItem[];
-}
+const formatAmount = (amount: number) => `$${amount.toFixed(2)}`;
+
+const dateClass = "px-2 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500";
+
+const cartInvalidates = { invalidates: [["cart"]] };
+
+// One cart line. Its own dates are saved once both are set (or both cleared);
+// without them it's rented for the order's.
+const CartLine: React.FC<{ item: CheckedCartItem; today: string }> = ({ item, today }) => {
+  const { product } = item;
+  const ownDates = !!item.startDate && !item.datesPassed;
+  const [startDay, setStartDay] = useState(ownDates ? toDateInput(new Date(item.startDate as string)) : "");
+  const [endDay, setEndDay] = useState(ownDates ? toDateInput(new Date(item.endDate as string)) : "");
+  const [lineError, setLineError] = useState<string | null>(null);
+
+  const { mutate: updateItem } = useMutation(
+    (data: CartItemUpdateInput) => cartAPI.update(item.productId, data),
+    cartInvalidates
+  );
+  const { mutate: removeItem } = useMutation(() => cartAPI.remove(item.productId), cartInvalidates);
 
-const Contracts: React.FC<ContractsProps> = ({ cartItems }) => {
+  const save = async (data: CartItemUpdateInput) => {
+    setLineError(null);
+    try {
+      await updateItem(data);
+    } catch (err) {
+      setLineError(getErrorMessage(err, "Could not update cart"));
+    }
+  };
+
+  const changeDates = (start: string, end: string) => {
+    setStartDay(start);
+    setEndDay(end);
+    if (!start && !end) save({ startDate: null, endDate: null });
+    else if (start >= today && end > start) save({ startDate: toISODay(start), endDate: toISODay(end) });
+  };
+
+  return (
+    <li className="border border-gray-200 rounded p-4">
+      <div className="flex flex-col md:flex-row md:items-center gap-4">
+        <div className="flex-1">
+          <h3 className="text-lg font-semibold">{product.name}</h3>
+          {product.description && <p className="text-gray-700">{product.description}</p>}
+          <p className="text-green-700 font-semibold">
+            {formatAmount(product.basePrice)}/day
+            {item.priceChanged && (
+              <span className="ml-2 text-sm font-normal text-gray-500">
+                (was {formatAmount(item.savedPrice)} when added)
+              </span>
+            )}
+          </p>
+        </div>
+        <label className="text-sm text-gray-600">
+          Qty
+          <input
+            type="number"
+            min="1"
+            max={product.stock || undefined}
+            value={item.quantity}
+            onChange={(e) => save({ quantity: Math.max(1, Number(e.target.value) || 1) })}
+            className={`ml-2 w-16 ${dateClass}`}
+          />
+        </label>
+        <div className="text-sm text-gray-600 flex items-center gap-2">
+          <input
+            type="date"
+            min={today}
+            value={startDay}
+            onChange={(e) => changeDates(e.target.value, endDay)}
+            className={dateClass}
+            aria-label={`${product.name} start date`}
+          />
+          –
+          <input
+            type="date"
+            min={startDay || today}
+            value={endDay}
+            onChange={(e) => changeDates(startDay, e.target.value)}
+            className={dateClass}
+            aria-label={`${product.name} end date`}
+          />
+        </div>
+        <button
+          onClick={() => removeItem()}
+          className="text-gray-400 hover:text-red-600"
+          title="Remove from cart"
+        >
+          <Trash2 className="h-4 w-4" />
+        </button>
+      </div>
+      {!item.rentable && <p className="mt-2 text-sm text-red-600">This product can't be rented right now.</p>}
+      {item.available === false && (
+        <p className="mt-2 text-sm text-red-600">Not enough units are free for these dates.</p>
+      )}
+      {lineError && <p className="mt-2 text-sm text-red-600">{lineError}</p>}
+    </li>
+  );
+};
+
+const Contracts: React.FC = () => {
   // Your existing contract state (from backend) can still remain or you can merge with cartItems
   const [contracts, setContracts] = useState<Contract[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState("");
   const [selectedContract, setSelectedContract] = useState<Contract | null>(null);
+  const today = toDateInput(new Date());
+  const [startDay, setStartDay] = useState(() => addDays(today, 1));
+  const [endDay, setEndDay] = useState(() => addDays(today, 2));
+  const [promoInput, setPromoInput] = useState("");
+  const [promoCode, setPromoCode] = useState<string | null>(null);
+  const [orderError, setOrderError] = useState<string | null>(null);
+  const [alternatives, setAlternatives] = useState<BookingWindow[]>([]);
+  const [ordered, setOrdered] = useState(false);
+
+  // Checked against current prices and availability on every read
+  const { data: cart } = useApi(() => cartAPI.getAll(), { immediate: true, key: ["cart"] });
+  const cartItems = cart ?? [];
+
+  const { data: addresses } = useApi(
+    () => customersAPI.getAddresses(),
+    { immediate: cartItems.length > 0, key: ["addresses"] }
+  );
+  const addressId = addresses?.find((address) => address.isDefault)?.id ?? addresses?.[0]?.id;
+
+  // Lines without upcoming dates of their own run for the order's
+  const order: RentalInput = {
+    items: cartItems.map((item) => ({
+      productId: item.productId,
+      quantity: item.quantity,
+      ...(item.startDate &&
+        item.endDate &&
+        !item.datesPassed && { startDate: item.startDate, endDate: item.endDate }),
+    })),
+    startDate: toISODay(startDay),
+    endDate: toISODay(endDay),
+    ...(addressId && { addressId }),
+    ...(promoCode && { promoCode }),
+  };
+  const canQuote = cartItems.length > 0 && startDay >= today && endDay > startDay;
+
+  // Re-quoted whenever the cart changes, so the discount follows the lines
+  const { data: quote, loading: quoting, error: quoteError } = useApi(
+    () => rentalsAPI.quote(order),
+    { immediate: canQuote, key: ["rentals", "quote", order] }
+  );
+
+  // The server takes the booked products out of the cart
+  const { mutate: createRental, loading: placing } = useMutation(
+    (data: RentalInput) => rentalsAPI.create(data),
+    { invalidates: [["rentals"], ["products"], ["cart"]] }
+  );
 
   const pagination = usePagination<Contract>({
     data: contracts,
@@ -61,6 +206,28 @@ const Contracts: React.FC<ContractsProps> = ({ cartItems }) => {
     });
   }, []);
 
+  const productName = (productId?: string) =>
+    cartItems.find((item) => item.productId === productId)?.product.name;
+
+  const handlePlaceOrder = async () => {
+    setOrderError(null);
+    setAlternatives([]);
+    try {
+      await createRental(order);
+      setPromoCode(null);
+      setPromoInput("");
+      setOrdered(true);
+    } catch (err) {
+      const conflict = (err as { response?: { status?: number; data?: RentalConflict } }).response;
+      const name = productName(conflict?.data?.productId);
+      if (conflict?.status === 409 && conflict.data) {
+        setAlternatives(conflict.data.alternatives);
+      }
+      const message = getErrorMessage(err, "Order failed");
+      setOrderError(name ? `${name}: ${message}` : message);
+    }
+  };
+
   const handleViewContract = (contract: Contract) => {
     setSelectedContract(contract);
   };
@@ -72,33 +239,141 @@ const Contracts: React.FC<ContractsProps> = ({ cartItems }) => {
 
   return (
     <div className="space-y-6">
-      {/* Render cartItems (wishlist added items) */}
+      {/* The cart, checked out as one order */}
       <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
         <h2 className="text-xl font-semibold mb-4">Your Cart Items</h2>
+        {ordered && cartItems.length === 0 && (
+          <div className="mb-4 bg-green-50 border border-green-200 rounded-lg p-3 flex items-center gap-2 text-sm text-green-700">
+            <CheckCircle className="h-4 w-4" />
+            Order sent. We'll confirm it with a quotation shortly.
+          </div>
+        )}
         {cartItems.length === 0 ? (
           <p>No items in your cart yet.</p>
         ) : (
           <ul className="space-y-4">
-            {cartItems.map(({ id, name, description, imageUrl, price }) => (
-              <li
-                key={id}
-                className="flex items-center gap-4 border border-gray-200 rounded p-4"
+            {cartItems.map((item) => (
+              <CartLine key={item.id} item={item} today={today} />
+            ))}
+          </ul>
+        )}
+
+        {cartItems.length > 0 && (
+          <div className="mt-6 border-t pt-4 space-y-3">
+            <div className="flex flex-wrap items-center gap-2 text-sm text-gray-700">
+              Rental period
+              <input
+                type="date"
+                min={today}
+                value={startDay}
+                onChange={(e) => setStartDay(e.target.value)}
+                className={dateClass}
+              />
+              –
+              <input
+                type="date"
+                min={startDay}
+                value={endDay}
+                onChange={(e) => setEndDay(e.target.value)}
+                className={dateClass}
+              />
+              <span className="text-xs text-gray-500">Items with their own dates keep them.</span>
+            </div>
+            {!canQuote && (
+              <p className="text-sm text-red-600">The rental has to start today or later and end after it starts.</p>
+            )}
+
+            <div className="flex gap-2 max-w-md">
+              <input
+                value={promoInput}
+                onChange={(e) => setPromoInput(e.target.value)}
+                placeholder="Promo code"
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm uppercase focus:ring-2 focus:ring-blue-500"
+              />
+              <button
+                onClick={() => setPromoCode(promoInput.trim().toUpperCase() || null)}
+                disabled={!promoInput.trim() || quoting}
+                className="px-3 py-2 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 flex items-center gap-1"
               >
-                <img
-                  src={imageUrl || "https://via.placeholder.com/80?text=No+Image"}
-                  alt={name}
-                  className="w-20 h-20 object-cover rounded"
-                />
-                <div className="flex-1">
-                  <h3 className="text-lg font-semibold">{name}</h3>
-                  <p className="text-gray-700">{description}</p>
-                  {price && (
-                    <p className="text-green-700 font-semibold">{price}</p>
+                <Tag className="h-4 w-4" />
+                Apply
+              </button>
+              {promoCode && (
+                <button
+                  onClick={() => {
+                    setPromoCode(null);
+                    setPromoInput("");
+                  }}
+                  className="text-sm underline text-gray-500"
+                >
+                  Remove
+                </button>
+              )}
+            </div>
+            {canQuote && quoteError && (
+              <p className="text-sm text-red-600 flex items-center gap-2">
+                <AlertCircle className="h-4 w-4" />
+                {quoteError}
+              </p>
+            )}
+
+            {quoting ? (
+              <div className="max-w-md h-24 bg-gray-200 rounded animate-pulse"></div>
+            ) : (
+              canQuote &&
+              quote && (
+                <div className="max-w-md text-sm space-y-1">
+                  {quote.lines.map((line, i) => (
+                    <div key={i} className="flex justify-between text-gray-700">
+                      <span>{line.description}</span>
+                      <span>{formatAmount(line.amount)}</span>
+                    </div>
+                  ))}
+                  {quote.discounts.map((line, i) => (
+                    <div key={i} className="flex justify-between text-green-700">
+                      <span>{line.description}</span>
+                      <span>−{formatAmount(line.amount)}</span>
+                    </div>
+                  ))}
+                  {quote.tax > 0 && (
+                    <div className="flex justify-between text-gray-600">
+                      <span>Tax ({quote.taxRate}%)</span>
+                      <span>{formatAmount(quote.tax)}</span>
+                    </div>
                   )}
+                  <div className="flex justify-between pt-1 border-t font-semibold text-gray-900">
+                    <span>Estimated total</span>
+                    <span>{formatAmount(quote.total)}</span>
+                  </div>
                 </div>
-              </li>
-            ))}
-          </ul>
+              )
+            )}
+
+            {orderError && (
+              <div className="max-w-md bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
+                <div className="flex items-center gap-2">
+                  <AlertCircle className="h-4 w-4" />
+                  {orderError}
+                </div>
+                {alternatives.length > 0 && (
+                  <div className="mt-2 text-gray-700">
+                    Free then:{" "}
+                    {alternatives
+                      .map((option) => `${formatDate(option.startDate)} – ${formatDate(option.endDate)}`)
+                      .join(", ")}
+                  </div>
+                )}
+              </div>
+            )}
+
+            <button
+              onClick={handlePlaceOrder}
+              disabled={!canQuote || !!quoteError || quoting || placing}
+              className="bg-blue-600 text-white px-6 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              {placing ? "Placing order…" : "Place order"}
+            </button>
+          </div>
         )}
       </div>
 
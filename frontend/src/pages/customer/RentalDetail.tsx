@@ -0,0 +1,632 @@
+import React, { useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { ArrowLeft, Calendar, Clock, Download, Package, AlertCircle } from "lucide-react";
+import { getErrorMessage, useApi, useMutation } from "../../hooks/useApi";
+import { quotationAPI, rentalExtensionAPI, rentalsAPI } from "../../services/api";
+import type {
+  DepositEntryType,
+  DepositStatus,
+  ExtensionStatus,
+  Quotation,
+  QuotationCounterInput,
+  QuotationStatus,
+  Rental,
+  RentalStatus,
+  TimelineEventType,
+} from "../../types/api";
+import { formatDate, toDateInput } from "../../utils/date";
+
+const statusColors: Record<RentalStatus, string> = {
+  ACTIVE: "bg-green-100 text-green-800",
+  CONFIRMED: "bg-blue-100 text-blue-800",
+  COMPLETED: "bg-gray-100 text-gray-800",
+  CANCELLED: "bg-red-100 text-red-800",
+  QUOTATION: "bg-yellow-100 text-yellow-800",
+};
+
+const depositStatusLabels: Record<DepositStatus, string> = {
+  HELD: "Held",
+  PARTIALLY_CAPTURED: "Partly used for charges",
+  CAPTURED: "Used for charges",
+  RELEASED: "Returned",
+};
+
+const depositEntryLabels: Record<DepositEntryType, string> = {
+  HOLD: "Held",
+  CAPTURE: "Charged",
+  RELEASE: "Returned",
+};
+
+const extensionStatusColors: Record<ExtensionStatus, string> = {
+  PENDING: "bg-yellow-100 text-yellow-800",
+  APPROVED: "bg-green-100 text-green-800",
+  REJECTED: "bg-red-100 text-red-800",
+  CANCELLED: "bg-gray-100 text-gray-800",
+};
+
+const quotationStatusLabels: Record<QuotationStatus, string> = {
+  SENT: "Awaiting your answer",
+  ACCEPTED: "Accepted",
+  REJECTED: "Rejected",
+  COUNTERED: "Counter-offer sent",
+  EXPIRED: "Expired",
+  SUPERSEDED: "Replaced",
+};
+
+const quotationStatusColors: Record<QuotationStatus, string> = {
+  SENT: "bg-yellow-100 text-yellow-800",
+  ACCEPTED: "bg-green-100 text-green-800",
+  REJECTED: "bg-red-100 text-red-800",
+  COUNTERED: "bg-blue-100 text-blue-800",
+  EXPIRED: "bg-gray-100 text-gray-800",
+  SUPERSEDED: "bg-gray-100 text-gray-800",
+};
+
+const timelineDotColors: Record<TimelineEventType, string> = {
+  STATUS: "bg-blue-500",
+  QUOTATION: "bg-yellow-500",
+  PICKUP: "bg-green-500",
+  RETURN: "bg-green-500",
+  INVOICE: "bg-purple-500",
+  PAYMENT: "bg-purple-500",
+  NOTIFICATION: "bg-gray-400",
+  EXTENSION: "bg-blue-500",
+  DEPOSIT: "bg-orange-500",
+  CONDITION: "bg-gray-500",
+};
+
+const extensionInvalidates = { invalidates: [["rentals"], ["rental-extensions"]] };
+
+// Ask to keep the rental longer, and follow up on earlier requests
+const RentalExtensions: React.FC<{ rental: Rental }> = ({ rental }) => {
+  const [day, setDay] = useState("");
+  const [note, setNote] = useState("");
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  // Same time of day as the current end, on the chosen day
+  const endDate = (() => {
+    if (!day) return null;
+    const [year, month, date] = day.split("-").map(Number);
+    const end = new Date(rental.endDate);
+    end.setFullYear(year, month - 1, date);
+    return end.toISOString();
+  })();
+
+  const { data: check, loading: checking, error: checkError } = useApi(
+    () => rentalExtensionAPI.check({ rentalId: rental.id, endDate: endDate as string }),
+    { immediate: !!endDate, key: ["rental-extensions", "check", rental.id, endDate] }
+  );
+  const { mutate: requestExtension, loading: requesting } = useMutation(
+    rentalExtensionAPI.request,
+    extensionInvalidates
+  );
+  const { mutate: cancelExtension } = useMutation(rentalExtensionAPI.cancel, extensionInvalidates);
+
+  const extensions = rental.extensions ?? [];
+  if (!rental.canExtend && extensions.length === 0) return null;
+
+  const handleRequest = async () => {
+    if (!endDate) return;
+    setActionError(null);
+    try {
+      await requestExtension({ rentalId: rental.id, endDate, note: note.trim() || undefined });
+      setDay("");
+      setNote("");
+    } catch (error) {
+      setActionError(getErrorMessage(error, "Could not request the extension"));
+    }
+  };
+
+  const handleCancel = async (id: string) => {
+    setActionError(null);
+    try {
+      await cancelExtension(id);
+    } catch (error) {
+      setActionError(getErrorMessage(error, "Could not cancel the request"));
+    }
+  };
+
+  const nextDay = new Date(rental.endDate);
+  nextDay.setDate(nextDay.getDate() + 1);
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 space-y-4">
+      <h2 className="text-lg font-semibold text-gray-900">Extend Rental</h2>
+
+      {actionError && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 flex items-center gap-2 text-sm text-red-700">
+          <AlertCircle className="h-4 w-4" />
+          {actionError}
+        </div>
+      )}
+
+      {rental.canExtend && (
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-center gap-3">
+            <label className="text-sm text-gray-600">
+              Keep it until
+              <input
+                type="date"
+                min={toDateInput(nextDay)}
+                value={day}
+                onChange={(e) => setDay(e.target.value)}
+                className="ml-2 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500"
+              />
+            </label>
+            <input
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Note for us (optional)"
+              className="flex-1 min-w-[12rem] px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500"
+            />
+          </div>
+          {endDate && (
+            <p className="text-sm">
+              {checking ? (
+                <span className="text-gray-500">Checking availability...</span>
+              ) : checkError ? (
+                <span className="text-red-600">{checkError}</span>
+              ) : check ? (
+                <span className="text-gray-700">
+                  Extra charge: <span className="font-medium">${check.price.toFixed(2)}</span>
+                  {check.autoApproved ? " · approved instantly" : " · needs approval"}
+                </span>
+              ) : null}
+            </p>
+          )}
+          <button
+            onClick={handleRequest}
+            disabled={!check || checking || !!checkError || requesting}
+            className="bg-green-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-green-700 transition-colors disabled:opacity-50"
+          >
+            {requesting ? "Requesting..." : "Request Extension"}
+          </button>
+        </div>
+      )}
+
+      {extensions.length > 0 && (
+        <ol className="space-y-3">
+          {extensions.map((extension) => (
+            <li key={extension.id} className="flex items-center justify-between gap-3 text-sm">
+              <span className="text-gray-700">
+                Until {formatDate(extension.requestedEndDate)} · ${extension.price.toFixed(2)}
+                {extension.decisionNote && <span className="text-gray-500"> · {extension.decisionNote}</span>}
+              </span>
+              <span className="flex items-center gap-3">
+                <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${extensionStatusColors[extension.status]}`}>
+                  {extension.status}
+                </span>
+                {extension.status === "PENDING" && (
+                  <button
+                    onClick={() => handleCancel(extension.id)}
+                    className="text-gray-500 hover:text-red-600"
+                  >
+                    Withdraw
+                  </button>
+                )}
+              </span>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+const quotationInvalidates = { invalidates: [["rentals"]] };
+
+// The latest quotation with its lines, the customer's answer to it, and every
+// version sent as a PDF download
+const RentalQuotation: React.FC<{ quotation: Quotation; orderReference: string }> = ({
+  quotation,
+  orderReference,
+}) => {
+  const [countering, setCountering] = useState(false);
+  const [counterPrice, setCounterPrice] = useState("");
+  const [note, setNote] = useState("");
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [downloading, setDownloading] = useState<number | null>(null);
+
+  const { mutate: accept, loading: accepting } = useMutation(quotationAPI.accept, quotationInvalidates);
+  const { mutate: reject, loading: rejecting } = useMutation(
+    (reason: string | undefined) => quotationAPI.reject(quotation.id, { note: reason }),
+    quotationInvalidates
+  );
+  const { mutate: counter, loading: sending } = useMutation(
+    (data: QuotationCounterInput) => quotationAPI.counter(quotation.id, data),
+    quotationInvalidates
+  );
+
+  const revisions = quotation.revisions ?? [];
+  const latest = revisions.find((revision) => revision.version === quotation.version);
+  const open = quotation.status === "SENT";
+  const busy = accepting || rejecting || sending;
+  const offer = Number(counterPrice);
+
+  const run = async (action: () => Promise<unknown>, fallback: string) => {
+    setActionError(null);
+    try {
+      await action();
+      setCountering(false);
+      setCounterPrice("");
+      setNote("");
+    } catch (error) {
+      setActionError(getErrorMessage(error, fallback));
+    }
+  };
+
+  const handleDownload = async (version: number) => {
+    setActionError(null);
+    setDownloading(version);
+    try {
+      const response = await quotationAPI.downloadPdf(quotation.id, version);
+      const url = URL.createObjectURL(response.data);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `quotation-${orderReference}-v${version}.pdf`;
+      document.body.appendChild(a);
+      a.click();
+      a.remove();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      setActionError(getErrorMessage(error, "Could not download the quotation"));
+    } finally {
+      setDownloading(null);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-gray-900">
+          Quotation
+          {quotation.version > 1 && (
+            <span className="text-gray-500 font-normal"> · version {quotation.version}</span>
+          )}
+        </h2>
+        <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${quotationStatusColors[quotation.status]}`}>
+          {quotationStatusLabels[quotation.status]}
+        </span>
+      </div>
+
+      {actionError && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 flex items-center gap-2 text-sm text-red-700">
+          <AlertCircle className="h-4 w-4" />
+          {actionError}
+        </div>
+      )}
+
+      {latest && (
+        <ul className="divide-y text-sm">
+          {latest.lines.map((line) => (
+            <li key={line.id} className="py-2 flex items-center justify-between gap-4">
+              <span className="text-gray-700">
+                {line.description}
+                {line.quantity > 1 && <span className="text-gray-500"> × {line.quantity}</span>}
+              </span>
+              <span className={line.amount < 0 ? "text-green-700" : "text-gray-900"}>
+                {line.amount < 0 ? "-" : ""}${Math.abs(line.amount).toFixed(2)}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="flex items-center justify-between text-sm font-semibold text-gray-900">
+        <span>Total</span>
+        <span>${quotation.price.toFixed(2)}</span>
+      </div>
+      {quotation.validTill && (
+        <p className="text-sm text-gray-600">Valid until {formatDate(quotation.validTill)}</p>
+      )}
+      {quotation.notes && <p className="text-sm text-gray-600 whitespace-pre-line">{quotation.notes}</p>}
+      {latest?.counterPrice != null && (
+        <p className="text-sm text-gray-600">
+          You offered ${latest.counterPrice.toFixed(2)}
+          {latest.responseNote && ` · ${latest.responseNote}`}
+        </p>
+      )}
+
+      {open && (
+        <div className="space-y-3">
+          <input
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="Note for us (optional)"
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-green-500"
+          />
+          {countering && (
+            <label className="block text-sm text-gray-600">
+              Your price
+              <input
+                type="number"
+                min={0}
+                step="0.01"
+                value={counterPrice}
+                onChange={(e) => setCounterPrice(e.target.value)}
+                className="ml-2 w-32 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500"
+              />
+            </label>
+          )}
+          <div className="flex flex-wrap gap-3">
+            {countering ? (
+              <>
+                <button
+                  onClick={() =>
+                    run(
+                      () => counter({ price: offer, note: note.trim() || undefined }),
+                      "Could not send your offer"
+                    )
+                  }
+                  disabled={!counterPrice || !(offer >= 0) || busy}
+                  className="bg-blue-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-blue-700 transition-colors disabled:opacity-50"
+                >
+                  {sending ? "Sending..." : "Send Offer"}
+                </button>
+                <button
+                  onClick={() => setCountering(false)}
+                  className="px-4 py-2 border border-gray-300 rounded-lg text-sm hover:bg-gray-50"
+                >
+                  Back
+                </button>
+              </>
+            ) : (
+              <>
+                <button
+                  onClick={() => run(() => accept(quotation.id), "Could not accept the quotation")}
+                  disabled={busy}
+                  className="bg-green-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-green-700 transition-colors disabled:opacity-50"
+                >
+                  {accepting ? "Accepting..." : "Accept"}
+                </button>
+                <button
+                  onClick={() => setCountering(true)}
+                  disabled={busy}
+                  className="px-4 py-2 border border-gray-300 rounded-lg text-sm hover:bg-gray-50 disabled:opacity-50"
+                >
+                  Make an Offer
+                </button>
+                <button
+                  onClick={() =>
+                    run(() => reject(note.trim() || undefined), "Could not reject the quotation")
+                  }
+                  disabled={busy}
+                  className="px-4 py-2 border border-red-600 text-red-600 rounded-lg text-sm hover:bg-red-50 disabled:opacity-50"
+                >
+                  {rejecting ? "Rejecting..." : "Reject"}
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+
+      {revisions.length > 0 && (
+        <ol className="space-y-2 border-t pt-4">
+          {revisions.map((revision) => (
+            <li key={revision.id} className="flex items-center justify-between gap-3 text-sm">
+              <span className="text-gray-700">
+                Version {revision.version} · {formatDate(revision.createdAt)} · ${revision.price.toFixed(2)}
+                <span className="text-gray-500"> · {quotationStatusLabels[revision.status]}</span>
+              </span>
+              <button
+                onClick={() => handleDownload(revision.version)}
+                disabled={downloading !== null}
+                className="flex items-center gap-1 text-blue-700 hover:text-blue-800 disabled:opacity-50"
+              >
+                <Download className="h-4 w-4" />
+                {downloading === revision.version ? "Downloading..." : "PDF"}
+              </button>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+// Everything that happened to the rental, and what's still scheduled
+const RentalTimeline: React.FC<{ rental: Rental }> = ({ rental }) => {
+  const { data: timeline, loading, error } = useApi(
+    () => rentalsAPI.getTimeline(rental.id),
+    { immediate: true, key: ["rentals", "timeline", rental.id] }
+  );
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+      <h2 className="text-lg font-semibold text-gray-900 mb-4">Timeline</h2>
+      {loading && !timeline ? (
+        <div className="space-y-2">
+          {[...Array(3)].map((_, i) => (
+            <div key={i} className="h-10 bg-gray-200 rounded animate-pulse"></div>
+          ))}
+        </div>
+      ) : error ? (
+        <p className="text-sm text-red-700">{error}</p>
+      ) : !timeline?.events.length ? (
+        <p className="text-sm text-gray-600">Nothing recorded yet.</p>
+      ) : (
+        <ol className="relative border-l border-gray-200 ml-1 space-y-4">
+          {timeline.events.map((event) => (
+            <li key={event.id} className={`pl-5 ${event.upcoming ? "opacity-60" : ""}`}>
+              <span
+                className={`absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full ${
+                  event.upcoming ? "bg-white border-2 border-gray-300" : timelineDotColors[event.type]
+                }`}
+              />
+              <div className="flex items-start justify-between gap-4 text-sm">
+                <div>
+                  <span className="font-medium text-gray-900">{event.title}</span>
+                  {event.amount != null && <span className="text-gray-700"> · ${event.amount.toFixed(2)}</span>}
+                  {event.upcoming && <span className="text-gray-500"> · upcoming</span>}
+                  {event.description && <div className="text-gray-500">{event.description}</div>}
+                  {event.actor && <div className="text-xs text-gray-400">by {event.actor.name}</div>}
+                </div>
+                <span className="text-gray-500 whitespace-nowrap">{new Date(event.at).toLocaleString()}</span>
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+const RentalDetail: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+
+  // Shares the cached list with the Rentals page, so opening a rental from
+  // there renders immediately.
+  const { data: rentalsData, loading, error, refetch } = useApi(
+    () => rentalsAPI.getMy(),
+    { immediate: true, key: ['rentals', 'my'] }
+  );
+
+  const rental = rentalsData?.find((r) => r.id === id);
+
+  const backLink = (
+    <Link
+      to="/customer/rentals"
+      className="inline-flex items-center gap-2 text-sm text-gray-600 hover:text-gray-900"
+    >
+      <ArrowLeft className="h-4 w-4" />
+      Back to My Rentals
+    </Link>
+  );
+
+  if (loading) {
+    return (
+      <div className="space-y-6">
+        {backLink}
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 animate-pulse space-y-3">
+          <div className="h-6 bg-gray-200 rounded w-1/3"></div>
+          <div className="h-4 bg-gray-200 rounded w-1/2"></div>
+          <div className="h-4 bg-gray-200 rounded w-1/4"></div>
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="space-y-6">
+        {backLink}
+        <div className="bg-red-50 border border-red-200 rounded-lg p-6 text-center">
+          <h3 className="text-lg font-semibold text-red-900 mb-2">Error Loading Rental</h3>
+          <p className="text-red-700 mb-4">{error}</p>
+          <button
+            onClick={refetch}
+            className="bg-red-600 text-white px-4 py-2 rounded-lg hover:bg-red-700 transition-colors"
+          >
+            Retry
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (!rental) {
+    return (
+      <div className="space-y-6">
+        {backLink}
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-12 text-center">
+          <AlertCircle className="h-12 w-12 text-gray-300 mx-auto mb-4" />
+          <h3 className="text-xl font-semibold text-gray-900 mb-2">Rental not found</h3>
+          <p className="text-gray-600">This rental doesn't exist or isn't yours.</p>
+        </div>
+      </div>
+    );
+  }
+
+  const items = rental.items ?? [];
+
+  return (
+    <div className="space-y-6">
+      {backLink}
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+        <div className="flex items-start justify-between gap-4 mb-6">
+          <div>
+            <div className="text-sm text-gray-500 mb-1">{rental.orderReference || rental.id}</div>
+            <h1 className="text-2xl font-bold text-gray-900">
+              {rental.product?.name || "Product"}
+              {items.length > 1 && (
+                <span className="text-gray-500 font-normal"> +{items.length - 1} more</span>
+              )}
+            </h1>
+          </div>
+          <span className={`px-3 py-1 rounded-full text-sm font-medium ${statusColors[rental.status]}`}>
+            {rental.status}
+          </span>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="flex items-center gap-2">
+            <Calendar className="h-4 w-4 text-gray-400" />
+            <span className="text-sm text-gray-600">Start: {formatDate(rental.startDate)}</span>
+          </div>
+          <div className="flex items-center gap-2">
+            <Clock className="h-4 w-4 text-gray-400" />
+            <span className="text-sm text-gray-600">End: {formatDate(rental.endDate)}</span>
+          </div>
+          <div className="flex items-center gap-2">
+            <Package className="h-4 w-4 text-gray-400" />
+            <span className="text-sm text-gray-600">
+              {rental.quotation ? `Quoted: $${rental.quotation.price}` : "No quotation yet"}
+            </span>
+          </div>
+        </div>
+      </div>
+
+      {items.length > 1 || items.some((item) => item.quantity > 1) ? (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">Items</h2>
+          <ul className="divide-y">
+            {items.map((item) => (
+              <li key={item.id} className="py-3 flex items-center justify-between text-sm">
+                <span className="font-medium text-gray-900">
+                  {item.product?.name || "Product"}
+                  {item.quantity > 1 && <span className="text-gray-500 font-normal"> × {item.quantity}</span>}
+                </span>
+                <span className="text-gray-600">
+                  {formatDate(item.startDate)} – {formatDate(item.endDate)}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : null}
+
+      {rental.quotation && (
+        <RentalQuotation quotation={rental.quotation} orderReference={rental.orderReference || rental.id} />
+      )}
+
+      <RentalExtensions rental={rental} />
+
+      {rental.deposit && (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-lg font-semibold text-gray-900">Security Deposit</h2>
+            <span className="text-sm text-gray-600">
+              ${rental.deposit.amount} · {depositStatusLabels[rental.deposit.status]}
+            </span>
+          </div>
+          <ol className="space-y-3">
+            {(rental.deposit.entries ?? []).map((entry) => (
+              <li key={entry.id} className="flex items-center justify-between text-sm">
+                <span className="text-gray-700">
+                  <span className="font-medium">{depositEntryLabels[entry.type]}</span> ${entry.amount}
+                  {entry.reason && <span className="text-gray-500"> · {entry.reason}</span>}
+                </span>
+                <span className="text-gray-500">{new Date(entry.createdAt).toLocaleString()}</span>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+
+      <RentalTimeline rental={rental} />
+    </div>
+  );
+};
+
+export default RentalDetail;
@@ -1,37 +1,77 @@
 import React, { useState } from "react";
-import { Plus, Calendar, Clock, MapPin, Leaf, Truck, AlertCircle, Star, Eye, Download } from "lucide-react";
-import { useApi } from "../../hooks/useApi";
+import { useNavigate } from "react-router-dom";
+import { Plus, Calendar, Clock, MapPin, Leaf, Truck, AlertCircle, Star, Eye, Download, XCircle } from "lucide-react";
+import { getErrorMessage, useApi, useMutation } from "../../hooks/useApi";
 import { rentalsAPI } from "../../services/api";
+import type { Rental } from "../../types/api";
 import Pagination from "../../components/common/Pagination";
 import { usePagination } from "../../hooks/usePagination";
 
-interface Rental {
-  id: string;
-  orderReference?: string;
-  customerId: string;
-  productId: string;
-  startDate: string;
-  endDate: string;
-  status: 'QUOTATION' | 'CONFIRMED' | 'ACTIVE' | 'COMPLETED' | 'CANCELLED';
-  createdAt: string;
-  updatedAt: string;
-  customer?: {
-    id: string;
-    name: string;
-    email: string;
-  };
-  product?: {
-    id: string;
-    name: string;
+// Shows what cancelling would refund before the customer commits to it
+const CancelRental: React.FC<{ rental: Rental; onClose: () => void }> = ({ rental, onClose }) => {
+  const [cancelError, setCancelError] = useState<string | null>(null);
+  const { data: quote, loading, error } = useApi(
+    () => rentalsAPI.getCancellation(rental.id),
+    { immediate: true, key: ["rentals", "cancellation", rental.id] }
+  );
+  const { mutate: cancelRental, loading: cancelling } = useMutation(
+    (id: string) => rentalsAPI.updateStatus(id, "CANCELLED"),
+    { invalidates: [["rentals"]] }
+  );
+
+  const handleCancel = async () => {
+    setCancelError(null);
+    try {
+      await cancelRental(rental.id);
+      onClose();
+    } catch (err) {
+      setCancelError(getErrorMessage(err, "Could not cancel the rental"));
+    }
   };
-}
+
+  return (
+    <div className="bg-red-50 px-6 py-4 border-t border-red-100 space-y-3">
+      {loading ? (
+        <div className="h-5 bg-red-100 rounded w-1/2 animate-pulse"></div>
+      ) : error || !quote ? (
+        <p className="text-sm text-red-700">{error || "Could not work out the refund"}</p>
+      ) : quote.paid > 0 ? (
+        <p className="text-sm text-red-900">
+          Cancelling now refunds <span className="font-semibold">${quote.refund.toFixed(2)}</span> of the $
+          {quote.paid.toFixed(2)} you've paid ({quote.refundPercent}%)
+          {quote.fee > 0 && `; a cancellation fee of $${quote.fee.toFixed(2)} is kept`}.
+        </p>
+      ) : (
+        <p className="text-sm text-red-900">Nothing has been paid yet, so there is nothing to refund.</p>
+      )}
+      {cancelError && <p className="text-sm text-red-700">{cancelError}</p>}
+      <div className="flex gap-3">
+        <button
+          onClick={handleCancel}
+          disabled={cancelling || loading || !quote?.canCancel}
+          className="bg-red-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-red-700 transition-colors disabled:opacity-50"
+        >
+          {cancelling ? "Cancelling..." : "Cancel Rental"}
+        </button>
+        <button
+          onClick={onClose}
+          className="px-4 py-2 rounded-lg text-sm font-medium text-gray-700 hover:bg-white transition-colors"
+        >
+          Keep It
+        </button>
+      </div>
+    </div>
+  );
+};
 
 const Rentals: React.FC = () => {
   const [activeFilter, setActiveFilter] = useState("all");
+  const [cancellingId, setCancellingId] = useState<string | null>(null);
+  const navigate = useNavigate();
 
   const { data: rentalsData, loading, error, refetch } = useApi(
     () => rentalsAPI.getMy(),
-    { immediate: true }
+    { immediate: true, key: ['rentals', 'my'] }
   );
 
   const rentals = rentalsData || [];
@@ -94,8 +134,7 @@ const Rentals: React.FC = () => {
   };
 
   const handleTrack = (rentalId: string) => {
-    console.log("Track rental:", rentalId);
-    // Implement tracking functionality
+    navigate(`/customer/rentals/${rentalId}`);
   };
 
   const handleRate = (rentalId: string, rating: number) => {
@@ -271,6 +310,9 @@ const Rentals: React.FC = () => {
                     
                     <h3 className="text-lg font-medium text-gray-900 mb-3">
                       {rental.product?.name || 'Product Name'}
+                      {(rental.items?.length ?? 0) > 1 && (
+                        <span className="text-sm text-gray-500 font-normal"> +{(rental.items?.length ?? 0) - 1} more</span>
+                      )}
                     </h3>
                     
                     <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-4">
@@ -341,11 +383,24 @@ const Rentals: React.FC = () => {
                             Accept Quote
                           </button>
                         )}
+                        {rental.canCancel && (
+                          <button
+                            onClick={() => setCancellingId(cancellingId === rental.id ? null : rental.id)}
+                            className="bg-red-50 text-red-600 px-4 py-2 rounded-lg text-sm font-medium hover:bg-red-100 transition-colors flex items-center gap-2"
+                          >
+                            <XCircle className="h-4 w-4" />
+                            Cancel
+                          </button>
+                        )}
                       </div>
                     </div>
                   </div>
                 </div>
               </div>
+
+              {cancellingId === rental.id && (
+                <CancelRental rental={rental} onClose={() => setCancellingId(null)} />
+              )}
               
               {rental.status === 'ACTIVE' && (
                 <div className="bg-blue-50 px-6 py-3 border-t">
@@ -1,94 +1,205 @@
-import React from "react";
-import { Heart, ShoppingCart, Trash2 } from "lucide-react";
-
-interface WishlistItem {
-  id: number;
-  name: string;
-  description: string;
-  imageUrl?: string;
-  price?: string;
-}
+import React, { useState } from "react";
+import { AlertCircle, Bell, BellOff, Heart, ShoppingCart, Trash2 } from "lucide-react";
+import { getErrorMessage, useApi, useMutation } from "../../hooks/useApi";
+import { wishlistAPI } from "../../services/api";
+import type { CheckedWishlistItem, WishlistItemUpdateInput } from "../../types/api";
+import { toDateInput, toISODay } from "../../utils/date";
 
 interface WishlistProps {
-  onAddToCart: (item: WishlistItem) => void;
+  onMovedToCart?: () => void;
 }
 
-const Wishlist: React.FC<WishlistProps> = ({ onAddToCart }) => {
-  const [wishlistItems, setWishlistItems] = React.useState<WishlistItem[]>([
-    {
-      id: 1,
-      name: "Cordless Drill",
-      description: "Powerful and compact drill with 20V battery",
-      imageUrl: "https://via.placeholder.com/120?text=Drill",
-      price: "₹129.99",
-    },
-    {
-      id: 2,
-      name: "Mountain Bike",
-      description: "Lightweight aluminum frame, 21-speed gears",
-      imageUrl: "https://via.placeholder.com/120?text=Bike",
-      price: "₹899.00",
-    },
-    {
-      id: 3,
-      name: "Camping Tent",
-      description: "4-person waterproof tent with quick setup",
-      imageUrl: "https://via.placeholder.com/120?text=Tent",
-      price: "₹199.50",
-    },
-  ]);
-
-  const removeItem = (id: number) => {
-    setWishlistItems((items) => items.filter((item) => item.id !== id));
+const placeholderImage = "https://via.placeholder.com/120?text=No+Image";
+
+const wishlistInvalidates = { invalidates: [["wishlist"]] };
+
+const WishlistEntry: React.FC<{
+  item: CheckedWishlistItem;
+  onMovedToCart?: () => void;
+}> = ({ item, onMovedToCart }) => {
+  const { product } = item;
+  const today = toDateInput(new Date());
+  const [startDay, setStartDay] = useState(item.startDate ? toDateInput(new Date(item.startDate)) : "");
+  const [endDay, setEndDay] = useState(item.endDate ? toDateInput(new Date(item.endDate)) : "");
+  const [entryError, setEntryError] = useState<string | null>(null);
+
+  const { mutate: updateItem, loading: saving } = useMutation(
+    (data: WishlistItemUpdateInput) => wishlistAPI.update(item.productId, data),
+    wishlistInvalidates
+  );
+  const { mutate: removeItem } = useMutation(
+    () => wishlistAPI.remove(item.productId),
+    wishlistInvalidates
+  );
+  const { mutate: moveToCart, loading: moving } = useMutation(
+    () => wishlistAPI.moveToCart(item.productId),
+    { invalidates: [["wishlist"], ["cart"]] }
+  );
+
+  const run = async (action: () => Promise<unknown>, fallback: string) => {
+    setEntryError(null);
+    try {
+      await action();
+      return true;
+    } catch (err) {
+      setEntryError(getErrorMessage(err, fallback));
+      return false;
+    }
+  };
+
+  const savedStart = item.startDate ? toDateInput(new Date(item.startDate)) : "";
+  const savedEnd = item.endDate ? toDateInput(new Date(item.endDate)) : "";
+  const datesChanged = startDay !== savedStart || endDay !== savedEnd;
+  const datesValid = (!startDay && !endDay) || (startDay >= today && endDay > startDay);
+
+  const saveDates = () =>
+    run(
+      () =>
+        updateItem(
+          startDay
+            ? { startDate: toISODay(startDay), endDate: toISODay(endDay) }
+            : { startDate: null, endDate: null }
+        ),
+      "Could not save dates"
+    );
+
+  const handleMove = async () => {
+    if (await run(() => moveToCart(), "Could not move to cart")) onMovedToCart?.();
   };
 
+  return (
+    <li className="flex flex-col sm:flex-row items-start bg-white rounded-lg shadow-md border border-gray-200 p-4 hover:shadow-lg transition-shadow">
+      <img
+        src={placeholderImage}
+        alt={product.name}
+        className="w-28 h-28 object-cover rounded-lg sm:mr-6 mb-4 sm:mb-0"
+      />
+
+      <div className="flex-1 space-y-2">
+        <h3 className="text-xl font-semibold text-gray-900">{product.name}</h3>
+        {product.description && <p className="text-gray-600">{product.description}</p>}
+        <p className="text-green-700 font-semibold">
+          ${product.basePrice}/day
+          {item.priceChanged && (
+            <span className="ml-2 text-sm font-normal text-gray-500">
+              (was ${item.savedPrice} when saved)
+            </span>
+          )}
+        </p>
+        {!item.rentable && <p className="text-sm text-red-600">This product can't be rented right now.</p>}
+
+        <div className="flex flex-wrap items-center gap-2 text-sm text-gray-600">
+          <input
+            type="date"
+            min={today}
+            value={startDay}
+            onChange={(e) => setStartDay(e.target.value)}
+            className="px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+            aria-label={`${product.name} start date`}
+          />
+          –
+          <input
+            type="date"
+            min={startDay || today}
+            value={endDay}
+            onChange={(e) => setEndDay(e.target.value)}
+            className="px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+            aria-label={`${product.name} end date`}
+          />
+          {datesChanged && (
+            <button
+              onClick={saveDates}
+              disabled={!datesValid || saving}
+              className="px-3 py-1 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+            >
+              Save dates
+            </button>
+          )}
+        </div>
+
+        {item.datesPassed && <p className="text-sm text-gray-500">Your saved dates have passed.</p>}
+        {item.available !== null && (
+          <p className={`text-sm ${item.available ? "text-green-700" : "text-red-600"}`}>
+            {item.available ? "Available for your dates" : "Booked for your dates"}
+            {item.quote && ` · $${item.quote.total.toFixed(2)} for the rental`}
+          </p>
+        )}
+        {item.available === false && (
+          <button
+            onClick={() =>
+              run(
+                () => updateItem({ notifyWhenAvailable: !item.notifyWhenAvailable }),
+                "Could not update notification"
+              )
+            }
+            disabled={saving}
+            className="flex items-center gap-2 text-sm text-blue-700 hover:text-blue-800 disabled:opacity-50"
+          >
+            {item.notifyWhenAvailable ? <BellOff className="h-4 w-4" /> : <Bell className="h-4 w-4" />}
+            {item.notifyWhenAvailable ? "Stop notifying me" : "Notify me when it's available"}
+          </button>
+        )}
+
+        {entryError && (
+          <p className="text-sm text-red-600 flex items-center gap-2">
+            <AlertCircle className="h-4 w-4" />
+            {entryError}
+          </p>
+        )}
+      </div>
+
+      <div className="flex gap-4 mt-4 sm:mt-0 sm:flex-col sm:items-end">
+        <button
+          onClick={handleMove}
+          disabled={!item.rentable || moving}
+          className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md transition-colors disabled:opacity-50"
+          aria-label={`Move ${product.name} to cart`}
+        >
+          <ShoppingCart className="w-5 h-5" />
+          Move to Cart
+        </button>
+
+        <button
+          onClick={() => run(() => removeItem(), "Could not remove")}
+          className="flex items-center gap-2 text-red-600 hover:text-red-700 px-3 py-2 rounded-md border border-red-600 hover:bg-red-50 transition-colors"
+          aria-label={`Remove ${product.name} from wishlist`}
+        >
+          <Trash2 className="w-5 h-5" />
+          Remove
+        </button>
+      </div>
+    </li>
+  );
+};
+
+const Wishlist: React.FC<WishlistProps> = ({ onMovedToCart }) => {
+  const { data: items, loading, error } = useApi(
+    () => wishlistAPI.getAll(),
+    { immediate: true, key: ["wishlist"] }
+  );
+
   return (
     <div>
       <h2 className="text-3xl font-bold mb-6 flex items-center gap-3 text-red-600">
         <Heart className="w-8 h-8" /> My Wishlist
       </h2>
 
-      {wishlistItems.length === 0 ? (
-        <p className="text-gray-600 text-lg">Your wishlist is empty.</p>
+      {loading ? (
+        <ul className="space-y-6">
+          {[...Array(3)].map((_, i) => (
+            <li key={i} className="h-36 bg-gray-200 rounded-lg animate-pulse"></li>
+          ))}
+        </ul>
+      ) : error ? (
+        <p className="text-red-600">{error}</p>
+      ) : !items?.length ? (
+        <p className="text-gray-600 text-lg">
+          Your wishlist is empty. Tap the heart on a product while browsing to save it here.
+        </p>
       ) : (
         <ul className="space-y-6">
-          {wishlistItems.map(({ id, name, description, imageUrl, price }) => (
-            <li
-              key={id}
-              className="flex flex-col sm:flex-row items-center bg-white rounded-lg shadow-md border border-gray-200 p-4 hover:shadow-lg transition-shadow"
-            >
-              <img
-                src={imageUrl || "https://via.placeholder.com/120?text=No+Image"}
-                alt={name}
-                className="w-28 h-28 object-cover rounded-lg sm:mr-6 mb-4 sm:mb-0"
-              />
-
-              <div className="flex-1">
-                <h3 className="text-xl font-semibold text-gray-900">{name}</h3>
-                <p className="text-gray-600 mt-1">{description}</p>
-                {price && <p className="text-green-700 font-semibold mt-2">{price}</p>}
-              </div>
-
-              <div className="flex gap-4 mt-4 sm:mt-0 sm:flex-col sm:items-end">
-                <button
-                  onClick={() => onAddToCart({ id, name, description, imageUrl, price })}
-                  className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md transition-colors"
-                  aria-label={`Add ${name} to cart`}
-                >
-                  <ShoppingCart className="w-5 h-5" />
-                  Add to Cart
-                </button>
-
-                <button
-                  onClick={() => removeItem(id)}
-                  className="flex items-center gap-2 text-red-600 hover:text-red-700 px-3 py-2 rounded-md border border-red-600 hover:bg-red-50 transition-colors"
-                  aria-label={`Remove ${name} from wishlist`}
-                >
-                  <Trash2 className="w-5 h-5" />
-                  Remove
-                </button>
-              </div>
-            </li>
+          {items.map((item) => (
+            <WishlistEntry key={item.id} item={item} onMovedToCart={onMovedToCart} />
           ))}
         </ul>
       )}
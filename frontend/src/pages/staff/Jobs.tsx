@@ -0,0 +1,317 @@
+import React, { useState } from "react";
+import { AlertCircle, CheckCircle, Clock, MapPin, Package, Phone, Truck } from "lucide-react";
+import { getErrorMessage, useApi, useMutation } from "../../hooks/useApi";
+import { pickupAPI, returnAPI } from "../../services/api";
+import type { ISODateString, RentalWithRelations, UnitCondition } from "../../types/api";
+import { formatAddress } from "../../utils/address";
+import { dayWindow, formatTime, toDateInput } from "../../utils/date";
+
+type JobKind = "pickup" | "return";
+
+interface Job {
+  kind: JobKind;
+  id: string;
+  scheduled: ISODateString;
+  arrivedAt?: ISODateString | null;
+  finishedAt?: ISODateString | null;
+  completed: boolean;
+  notes?: string | null;
+  rental: RentalWithRelations;
+}
+
+const CONDITIONS: UnitCondition[] = ["NEW", "EXCELLENT", "GOOD", "FAIR", "POOR"];
+
+const jobInvalidates = { invalidates: [["pickups"], ["returns"]] };
+
+const Jobs: React.FC = () => {
+  const [day, setDay] = useState(() => toDateInput(new Date()));
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  // Grade of each returned unit, keyed by job
+  const [conditions, setConditions] = useState<Record<string, UnitCondition>>({});
+  // Damage to bill on return, as typed
+  const [damageCharges, setDamageCharges] = useState<Record<string, string>>({});
+  const range = dayWindow(day);
+
+  const { data: pickups, loading: pickupsLoading, error: pickupsError, refetch: refetchPickups } = useApi(
+    () => pickupAPI.getAssigned(range),
+    { immediate: true, key: ["pickups", "assigned", day] }
+  );
+  const { data: returns, loading: returnsLoading, error: returnsError, refetch: refetchReturns } = useApi(
+    () => returnAPI.getAssigned(range),
+    { immediate: true, key: ["returns", "assigned", day] }
+  );
+
+  const { mutate: arrivePickup } = useMutation(
+    (data: { id: string; notes?: string }) => pickupAPI.arrive(data.id, { notes: data.notes }),
+    jobInvalidates
+  );
+  const { mutate: completePickup } = useMutation(
+    (data: { id: string; notes?: string }) => pickupAPI.complete(data.id, { notes: data.notes }),
+    jobInvalidates
+  );
+  const { mutate: arriveReturn } = useMutation(
+    (data: { id: string; notes?: string }) => returnAPI.arrive(data.id, { notes: data.notes }),
+    jobInvalidates
+  );
+  const { mutate: completeReturn } = useMutation(
+    (data: { id: string; notes?: string; condition?: UnitCondition; damageCharge?: number }) =>
+      returnAPI.complete(data.id, {
+        notes: data.notes,
+        condition: data.condition,
+        damageCharge: data.damageCharge,
+      }),
+    jobInvalidates
+  );
+
+  const [busyJob, setBusyJob] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const jobs: Job[] = [
+    ...(pickups || []).map((pickup) => ({
+      kind: "pickup" as const,
+      id: pickup.id,
+      scheduled: pickup.scheduled,
+      arrivedAt: pickup.arrivedAt,
+      finishedAt: pickup.actualPickup,
+      completed: pickup.completed,
+      notes: pickup.notes,
+      rental: pickup.rental,
+    })),
+    ...(returns || []).map((returnItem) => ({
+      kind: "return" as const,
+      id: returnItem.id,
+      scheduled: returnItem.scheduled,
+      arrivedAt: returnItem.arrivedAt,
+      finishedAt: returnItem.actualReturn,
+      completed: returnItem.completed,
+      notes: returnItem.notes,
+      rental: returnItem.rental,
+    })),
+  ].sort((a, b) => new Date(a.scheduled).getTime() - new Date(b.scheduled).getTime());
+
+  const jobKey = (job: Job) => `${job.kind}:${job.id}`;
+
+  const runAction = async (job: Job, action: "arrive" | "complete") => {
+    const key = jobKey(job);
+    const damageCharge = parseFloat(damageCharges[key] ?? "");
+    const payload = {
+      id: job.id,
+      notes: notes[key],
+      condition: conditions[key],
+      damageCharge: damageCharge > 0 ? damageCharge : undefined,
+    };
+    const handlers = {
+      pickup: { arrive: arrivePickup, complete: completePickup },
+      return: { arrive: arriveReturn, complete: completeReturn },
+    };
+
+    setBusyJob(key);
+    setActionError(null);
+    try {
+      await handlers[job.kind][action](payload);
+    } catch (error) {
+      setActionError(getErrorMessage(error, "Update failed"));
+    } finally {
+      setBusyJob(null);
+    }
+  };
+
+  const loading = pickupsLoading || returnsLoading;
+  const error = pickupsError || returnsError;
+  const remaining = jobs.filter((job) => !job.completed).length;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">My Jobs</h1>
+          <p className="text-gray-600">
+            {jobs.length} job{jobs.length === 1 ? "" : "s"} scheduled, {remaining} remaining
+          </p>
+        </div>
+        <input
+          type="date"
+          value={day}
+          onChange={(e) => e.target.value && setDay(e.target.value)}
+          className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500"
+        />
+      </div>
+
+      {actionError && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-center gap-3">
+          <AlertCircle className="h-5 w-5 text-red-600" />
+          <span className="text-red-700">{actionError}</span>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="space-y-4">
+          {[...Array(3)].map((_, i) => (
+            <div key={i} className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 animate-pulse">
+              <div className="h-4 bg-gray-200 rounded w-1/4 mb-3"></div>
+              <div className="h-6 bg-gray-200 rounded w-1/2"></div>
+            </div>
+          ))}
+        </div>
+      ) : error ? (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-6 text-center">
+          <h3 className="text-lg font-semibold text-red-900 mb-2">Error Loading Jobs</h3>
+          <p className="text-red-700 mb-4">{error}</p>
+          <button
+            onClick={() => {
+              refetchPickups().catch(() => {});
+              refetchReturns().catch(() => {});
+            }}
+            className="bg-red-600 text-white px-4 py-2 rounded-lg hover:bg-red-700 transition-colors"
+          >
+            Retry
+          </button>
+        </div>
+      ) : jobs.length === 0 ? (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-12 text-center">
+          <Truck className="h-16 w-16 text-gray-300 mx-auto mb-4" />
+          <h3 className="text-xl font-semibold text-gray-900 mb-2">No Jobs</h3>
+          <p className="text-gray-600">Nothing is assigned to you for this day.</p>
+        </div>
+      ) : (
+        <ol className="space-y-4">
+          {jobs.map((job, index) => {
+            const key = jobKey(job);
+            const busy = busyJob === key;
+            const status = job.completed ? "Completed" : job.arrivedAt ? "Arrived" : "Scheduled";
+            const statusColor = job.completed
+              ? "bg-green-100 text-green-800"
+              : job.arrivedAt
+                ? "bg-blue-100 text-blue-800"
+                : "bg-yellow-100 text-yellow-800";
+
+            return (
+              <li key={key} className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+                <div className="flex items-start gap-4">
+                  <div className="w-8 h-8 rounded-full bg-gray-100 flex items-center justify-center text-sm font-semibold text-gray-700">
+                    {index + 1}
+                  </div>
+                  <div className="flex-1 space-y-3">
+                    <div className="flex flex-wrap items-center gap-3">
+                      <span className={`px-3 py-1 rounded-full text-sm font-medium ${
+                        job.kind === "pickup" ? "bg-purple-100 text-purple-800" : "bg-orange-100 text-orange-800"
+                      }`}>
+                        {job.kind === "pickup" ? "Pickup" : "Return"}
+                      </span>
+                      <span className={`px-3 py-1 rounded-full text-sm font-medium ${statusColor}`}>
+                        {status}
+                      </span>
+                      <span className="flex items-center gap-1 text-sm text-gray-600">
+                        <Clock className="h-4 w-4" />
+                        {formatTime(job.scheduled)}
+                      </span>
+                    </div>
+
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-3 text-sm text-gray-700">
+                      <div className="flex items-center gap-2">
+                        <Package className="h-4 w-4 text-gray-400" />
+                        <span>
+                          {job.rental.product?.name}
+                          {job.rental.unit && (
+                            <span className="block text-gray-500">S/N {job.rental.unit.serialNumber}</span>
+                          )}
+                        </span>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <MapPin className="h-4 w-4 text-gray-400" />
+                        <span>
+                          {job.rental.customer?.name}
+                          {job.rental.address && (
+                            <span className="block text-gray-500">{formatAddress(job.rental.address)}</span>
+                          )}
+                        </span>
+                      </div>
+                      {job.rental.customer?.phone && (
+                        <a href={`tel:${job.rental.customer.phone}`} className="flex items-center gap-2 text-blue-600">
+                          <Phone className="h-4 w-4" />
+                          {job.rental.customer.phone}
+                        </a>
+                      )}
+                    </div>
+
+                    {(job.arrivedAt || job.finishedAt) && (
+                      <div className="text-sm text-gray-500">
+                        {job.arrivedAt && <>Arrived {formatTime(job.arrivedAt)}</>}
+                        {job.arrivedAt && job.finishedAt && " · "}
+                        {job.finishedAt && <>Completed {formatTime(job.finishedAt)}</>}
+                      </div>
+                    )}
+
+                    {job.completed ? (
+                      job.notes && <p className="text-sm text-gray-600 italic">{job.notes}</p>
+                    ) : (
+                      <>
+                        <textarea
+                          value={notes[key] ?? job.notes ?? ""}
+                          onChange={(e) => setNotes((prev) => ({ ...prev, [key]: e.target.value }))}
+                          placeholder="Notes (condition, who received it, access details...)"
+                          rows={2}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-green-500"
+                        />
+                        <div className="flex flex-wrap gap-3">
+                          {job.kind === "return" && job.rental.unit && (
+                            <select
+                              value={conditions[key] ?? job.rental.unit.condition}
+                              onChange={(e) =>
+                                setConditions((prev) => ({ ...prev, [key]: e.target.value as UnitCondition }))
+                              }
+                              className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-green-500"
+                              title="Condition on return"
+                            >
+                              {CONDITIONS.map((condition) => (
+                                <option key={condition} value={condition}>
+                                  {condition.charAt(0) + condition.slice(1).toLowerCase()}
+                                </option>
+                              ))}
+                            </select>
+                          )}
+                          {job.kind === "return" && (
+                            <input
+                              type="number"
+                              min="0"
+                              step="0.01"
+                              value={damageCharges[key] ?? ""}
+                              onChange={(e) => setDamageCharges((prev) => ({ ...prev, [key]: e.target.value }))}
+                              placeholder="Damage charge"
+                              title="Billed to the customer and paid from their deposit"
+                              className="w-36 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-green-500"
+                            />
+                          )}
+                          {!job.arrivedAt && (
+                            <button
+                              onClick={() => runAction(job, "arrive")}
+                              disabled={busy}
+                              className="bg-blue-50 text-blue-600 px-4 py-2 rounded-lg text-sm font-medium hover:bg-blue-100 transition-colors disabled:opacity-50"
+                            >
+                              Mark Arrived
+                            </button>
+                          )}
+                          <button
+                            onClick={() => runAction(job, "complete")}
+                            disabled={busy}
+                            className="bg-green-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-green-700 transition-colors flex items-center gap-2 disabled:opacity-50"
+                          >
+                            <CheckCircle className="h-4 w-4" />
+                            Complete {job.kind === "pickup" ? "Pickup" : "Return"}
+                          </button>
+                        </div>
+                      </>
+                    )}
+                  </div>
+                </div>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export default Jobs;
@@ -0,0 +1,159 @@
+import React, { useState } from "react";
+import { AlertCircle, CheckCircle, Wrench } from "lucide-react";
+import { getErrorMessage, useApi, useMutation } from "../../hooks/useApi";
+import { maintenanceAPI } from "../../services/api";
+import type { MaintenanceCompleteInput, UnitCondition } from "../../types/api";
+import { formatDate } from "../../utils/date";
+
+const CONDITIONS: UnitCondition[] = ["NEW", "EXCELLENT", "GOOD", "FAIR", "POOR"];
+
+const maintenanceInvalidates = { invalidates: [["maintenance"]] };
+
+const Maintenance: React.FC = () => {
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [conditions, setConditions] = useState<Record<string, UnitCondition>>({});
+  const [busyTask, setBusyTask] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const { data: tasks, loading, error, refetch } = useApi(
+    () => maintenanceAPI.getAssigned(),
+    { immediate: true, key: ["maintenance", "assigned"] }
+  );
+
+  const { mutate: startTask } = useMutation(
+    (id: string) => maintenanceAPI.start(id),
+    maintenanceInvalidates
+  );
+  const { mutate: completeTask } = useMutation(
+    (data: { id: string } & MaintenanceCompleteInput) =>
+      maintenanceAPI.complete(data.id, { notes: data.notes, condition: data.condition }),
+    maintenanceInvalidates
+  );
+
+  const runAction = async (id: string, action: () => Promise<unknown>) => {
+    setBusyTask(id);
+    setActionError(null);
+    try {
+      await action();
+    } catch (err) {
+      setActionError(getErrorMessage(err, "Update failed"));
+    } finally {
+      setBusyTask(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Maintenance</h1>
+        <p className="text-gray-600">Open maintenance assigned to you</p>
+      </div>
+
+      {actionError && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 flex items-center gap-2 text-sm text-red-700">
+          <AlertCircle className="h-4 w-4" />
+          {actionError}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="space-y-4">
+          {[...Array(3)].map((_, i) => (
+            <div key={i} className="bg-white rounded-xl border border-gray-200 p-6 animate-pulse">
+              <div className="h-4 bg-gray-200 rounded w-1/3 mb-2"></div>
+              <div className="h-4 bg-gray-200 rounded w-1/2"></div>
+            </div>
+          ))}
+        </div>
+      ) : error ? (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-center justify-between gap-3">
+          <span className="flex items-center gap-2 text-red-700">
+            <AlertCircle className="h-5 w-5" />
+            {error}
+          </span>
+          <button onClick={() => refetch().catch(() => {})} className="text-red-700 font-medium">
+            Retry
+          </button>
+        </div>
+      ) : !tasks?.length ? (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-12 text-center">
+          <Wrench className="h-12 w-12 text-gray-300 mx-auto mb-3" />
+          <p className="text-gray-600">No maintenance assigned to you.</p>
+        </div>
+      ) : (
+        <ul className="space-y-4">
+          {tasks.map((task) => {
+            const busy = busyTask === task.id;
+            return (
+              <li key={task.id} className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 space-y-3">
+                <div className="flex flex-wrap items-center gap-3">
+                  <span className="font-semibold text-gray-900">{task.title}</span>
+                  <span className={`px-3 py-1 rounded-full text-sm font-medium ${
+                    task.status === "IN_PROGRESS" ? "bg-orange-100 text-orange-800" : "bg-yellow-100 text-yellow-800"
+                  }`}>
+                    {task.status === "IN_PROGRESS" ? "In progress" : "Scheduled"}
+                  </span>
+                </div>
+                <div className="text-sm text-gray-700">
+                  {task.product.name}
+                  {task.unit ? ` · S/N ${task.unit.serialNumber}` : " · all units"}
+                  {` · ${formatDate(task.startDate)} – ${formatDate(task.endDate)}`}
+                </div>
+                {task.description && <p className="text-sm text-gray-600">{task.description}</p>}
+
+                <textarea
+                  value={notes[task.id] ?? ""}
+                  onChange={(e) => setNotes((prev) => ({ ...prev, [task.id]: e.target.value }))}
+                  placeholder="Notes (work done, parts replaced...)"
+                  rows={2}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-green-500"
+                />
+                <div className="flex flex-wrap gap-3">
+                  {task.unit && (
+                    <select
+                      value={conditions[task.id] ?? task.unit.condition}
+                      onChange={(e) =>
+                        setConditions((prev) => ({ ...prev, [task.id]: e.target.value as UnitCondition }))
+                      }
+                      className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-green-500"
+                      title="Condition after maintenance"
+                    >
+                      {CONDITIONS.map((condition) => (
+                        <option key={condition} value={condition}>
+                          {condition.charAt(0) + condition.slice(1).toLowerCase()}
+                        </option>
+                      ))}
+                    </select>
+                  )}
+                  {task.status === "SCHEDULED" && (
+                    <button
+                      onClick={() => runAction(task.id, () => startTask(task.id))}
+                      disabled={busy}
+                      className="bg-blue-50 text-blue-600 px-4 py-2 rounded-lg text-sm font-medium hover:bg-blue-100 transition-colors disabled:opacity-50"
+                    >
+                      Start
+                    </button>
+                  )}
+                  <button
+                    onClick={() =>
+                      runAction(task.id, () =>
+                        completeTask({ id: task.id, notes: notes[task.id], condition: conditions[task.id] })
+                      )
+                    }
+                    disabled={busy}
+                    className="bg-green-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-green-700 transition-colors flex items-center gap-2 disabled:opacity-50"
+                  >
+                    <CheckCircle className="h-4 w-4" />
+                    Close Task
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default Maintenance;
@@ -0,0 +1,10 @@
+import type { UserRole } from '../types/api';
+
+// Landing page of each role's portal. `/dashboard`, `/login` and `/signup`
+// forward here once the user is known, and role guards bounce here too.
+export const PORTAL_HOME: Record<UserRole, string> = {
+  ADMIN: '/admin/dashboard',
+  CUSTOMER: '/customer/browse',
+  END_USER: '/enduser/schedule',
+  STAFF: '/staff/jobs',
+};
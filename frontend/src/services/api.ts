@@ -1,4 +1,139 @@
-import axios from "axios";
+import axios, { AxiosError, InternalAxiosRequestConfig } from "axios";
+import type {
+  Address,
+  AddressInput,
+  AssignedJob,
+  AssignedJobsParams,
+  AuthResponse,
+  BulkModel,
+  BulkRentalStatusResult,
+  CancellationPolicy,
+  CancellationPolicyInput,
+  CancellationPolicyUpdateInput,
+  CancellationQuote,
+  CartItem,
+  CartItemInput,
+  CartItemUpdateInput,
+  CategoryCount,
+  CategoryDeposit,
+  CategoryDepositInput,
+  CheckAdminResponse,
+  CheckedCartItem,
+  CheckedWishlistItem,
+  CheckUserResponse,
+  CompletedMaintenanceTask,
+  CustomerGroup,
+  CustomerGroupInput,
+  CustomerGroupMember,
+  CustomerGroupMembers,
+  CustomerGroupMembership,
+  CustomerGroupUpdateInput,
+  CustomerProfileInput,
+  DashboardStats,
+  DateRangeParams,
+  Deposit,
+  DepositCaptureInput,
+  DepositListParams,
+  DepositReleaseInput,
+  ExtensionDecisionInput,
+  ImpersonateResponse,
+  Invoice,
+  InvoiceInput,
+  InvoiceListParams,
+  JobArrivalInput,
+  JobAssignInput,
+  LateFeePolicy,
+  LateFeePolicyInput,
+  LateFeePolicyUpdateInput,
+  ListQueryParams,
+  LoginInput,
+  MaintenanceCompleteInput,
+  MaintenanceQueryParams,
+  MaintenanceTask,
+  MaintenanceTaskInput,
+  MaintenanceTaskUpdateInput,
+  MessageResponse,
+  Notification,
+  NotificationInput,
+  OrderQuote,
+  Paginated,
+  Payment,
+  PaymentInput,
+  PaymentListParams,
+  PaymentStatus,
+  Pickup,
+  PickupCompleteInput,
+  PickupInput,
+  Pricelist,
+  PricelistInput,
+  PricelistItem,
+  PricelistItemInput,
+  PricelistItemUpdateInput,
+  PricelistListParams,
+  PriceQuote,
+  PriceQuoteParams,
+  Product,
+  ProductAvailability,
+  ProductAvailabilityInput,
+  ProductBlackout,
+  ProductBlackoutInput,
+  ProductCapacity,
+  ProductCapacityParams,
+  ProductInput,
+  ProductListParams,
+  ProductSearchParams,
+  ProductUnit,
+  ProductUnitInput,
+  ProductUnitUpdateInput,
+  ProductUnitWithRentals,
+  PromoCode,
+  PromoCodeCheck,
+  PromoCodeCheckInput,
+  PromoCodeInput,
+  PromoCodeUpdateInput,
+  Quotation,
+  QuotationCounterInput,
+  QuotationInput,
+  QuotationRejectInput,
+  QuotationRevision,
+  QuotationWithRental,
+  Rental,
+  RentalDuration,
+  RentalDurationInput,
+  RentalExtension,
+  RentalExtensionCheck,
+  RentalExtensionInput,
+  RentalExtensionListParams,
+  RentalFilterParams,
+  RentalInput,
+  RentalListParams,
+  RentalReturn,
+  RentalReturnInput,
+  RentalStatus,
+  RentalStatusCount,
+  RentalStatusResult,
+  RentalTimeline,
+  RentalTransitions,
+  RentalWithRelations,
+  ReturnCompleteInput,
+  ReturnCompleteResult,
+  RevenueReport,
+  RoutePlan,
+  RoutePlanParams,
+  ScheduleListParams,
+  ServiceArea,
+  ServiceAreaInput,
+  ServiceCoverage,
+  SessionTokens,
+  SignupInput,
+  TopProduct,
+  UnitConditionLog,
+  UpdateProfileInput,
+  User,
+  WishlistItem,
+  WishlistItemInput,
+  WishlistItemUpdateInput,
+} from "../types/api";
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || "http://localhost:5000/api";
 
@@ -11,6 +146,33 @@ const api = axios.create({
   timeout: 10000,
 });
 
+// Session storage. AuthContext listens for changes so a silent refresh (or a
+// failed one) is reflected in its state.
+type SessionListener = (token: string | null) => void;
+const sessionListeners = new Set<SessionListener>();
+
+export const getRefreshToken = () => localStorage.getItem("refreshToken");
+
+export const setSession = ({ token, refreshToken }: SessionTokens) => {
+  localStorage.setItem("authToken", token);
+  localStorage.setItem("refreshToken", refreshToken);
+  sessionListeners.forEach((listener) => listener(token));
+};
+
+export const clearSession = () => {
+  localStorage.removeItem("authToken");
+  localStorage.removeItem("refreshToken");
+  localStorage.removeItem("user");
+  sessionListeners.forEach((listener) => listener(null));
+};
+
+export const onSessionChange = (listener: SessionListener) => {
+  sessionListeners.add(listener);
+  return () => {
+    sessionListeners.delete(listener);
+  };
+};
+
 // Add auth token to requests
 api.interceptors.request.use((config) => {
   const token = localStorage.getItem("authToken");
@@ -20,171 +182,426 @@ api.interceptors.request.use((config) => {
   return config;
 });
 
-// Handle auth errors
+// Requests that fail with 401 while a refresh is running wait on this one
+// promise, so the refresh token is only spent once.
+let refreshPromise: Promise<string> | null = null;
+
+const refreshAccessToken = () => {
+  if (!refreshPromise) {
+    const refreshToken = getRefreshToken();
+    refreshPromise = (
+      refreshToken
+        ? // Bypass `api` so a failed refresh doesn't re-enter the interceptor.
+          axios.post<SessionTokens>(`${API_BASE_URL}/auth/refresh`, { refreshToken })
+        : Promise.reject(new Error("No refresh token"))
+    )
+      .then(({ data }) => {
+        setSession(data);
+        return data.token;
+      })
+      .finally(() => {
+        refreshPromise = null;
+      });
+  }
+  return refreshPromise;
+};
+
+// A 401 from these means bad credentials, not an expired session.
+const NO_REFRESH_URLS = ["/auth/signin", "/auth/signup", "/auth/refresh", "/auth/logout"];
+
+type RetriableConfig = InternalAxiosRequestConfig & { _retried?: boolean };
+
+// Handle auth errors: refresh once and replay, otherwise send to login.
 api.interceptors.response.use(
   (response) => response,
-  (error) => {
-    if (error.response?.status === 401) {
-      localStorage.removeItem("authToken");
-      localStorage.removeItem("user");
+  async (error: AxiosError) => {
+    const config = error.config as RetriableConfig | undefined;
+    if (
+      error.response?.status !== 401 ||
+      !config ||
+      config._retried ||
+      NO_REFRESH_URLS.includes(config.url ?? "")
+    ) {
+      return Promise.reject(error);
+    }
+
+    config._retried = true;
+    try {
+      const token = await refreshAccessToken();
+      config.headers.Authorization = `Bearer ${token}`;
+      return api(config);
+    } catch {
+      clearSession();
       window.location.href = "/login";
+      return Promise.reject(error);
     }
-    return Promise.reject(error);
   }
 );
 
 // Auth API
 export const authAPI = {
-  checkAdmin: () => api.get("/auth/check-admin"),
-  checkUser: (email: string) => api.get(`/auth/check-user?email=${email}`),
-  generateOTP: (email: string) => api.post("/auth/generate-otp", { email }),
+  checkAdmin: () => api.get<CheckAdminResponse>("/auth/check-admin"),
+  checkUser: (email: string) =>
+    api.get<CheckUserResponse>("/auth/check-user", { params: { email } }),
+  generateOTP: (email: string) =>
+    api.post<MessageResponse>("/auth/generate-otp", { email }),
   verifyOTP: (email: string, code: string) =>
-    api.post("/auth/verify-otp", { email, code }),
-  signup: (userData: any) => api.post("/auth/signup", userData),
-  signin: (credentials: any) => api.post("/auth/signin", credentials),
-  getMe: () => api.get("/auth/me"),
-  updateProfile: (data: any) => api.put("/auth/update-profile", data),
-  getUsers: () => api.get("/auth/users"),
-  deleteUser: (userId: string) => api.delete("/auth/user", { data: { userId } }),
+    api.post<MessageResponse>("/auth/verify-otp", { email, code }),
+  signup: (userData: SignupInput) => api.post<AuthResponse>("/auth/signup", userData),
+  signin: (credentials: LoginInput) => api.post<AuthResponse>("/auth/signin", credentials),
+  refresh: (refreshToken: string) => api.post<AuthResponse>("/auth/refresh", { refreshToken }),
+  logout: (refreshToken: string) =>
+    api.post<MessageResponse>("/auth/logout", { refreshToken }),
+  getMe: () => api.get<{ user: User }>("/auth/me"),
+  updateProfile: (data: UpdateProfileInput) =>
+    api.put<MessageResponse & { user: User }>("/auth/update-profile", data),
+  getUsers: () => api.get<{ users: User[] }>("/auth/users"),
+  deleteUser: (userId: string) =>
+    api.delete<MessageResponse>("/auth/user", { data: { userId } }),
 };
 
 // Products API
 export const productsAPI = {
-  getAll: (params?: any) => api.get("/product", { params }),
-  getById: (id: string) => api.get(`/product/${id}`),
-  create: (data: any) => api.post("/product", data),
-  update: (id: string, data: any) => api.put(`/product/${id}`, data),
-  delete: (id: string) => api.delete(`/product/${id}`),
-  addDuration: (id: string, data: any) => api.post(`/product/${id}/duration`, data),
-  addAvailability: (id: string, data: any) => api.post(`/product/${id}/availability`, data),
-  updateAvailability: (availabilityId: string, data: any) =>
-    api.put(`/product/availability/${availabilityId}`, data),
+  getAll: (params?: ProductListParams) =>
+    api.get<Paginated<Product>>("/product", { params }),
+  getCategories: () => api.get<CategoryCount[]>("/product/categories"),
+  getById: (id: string) => api.get<Product>(`/product/${id}`),
+  create: (data: ProductInput) => api.post<Product>("/product", data),
+  update: (id: string, data: Partial<ProductInput>) => api.put<Product>(`/product/${id}`, data),
+  delete: (id: string) => api.delete<MessageResponse>(`/product/${id}`),
+  addDuration: (id: string, data: RentalDurationInput) =>
+    api.post<RentalDuration>(`/product/${id}/duration`, data),
+  addAvailability: (id: string, data: ProductAvailabilityInput) =>
+    api.post<ProductAvailability>(`/product/${id}/availability`, data),
+  updateAvailability: (availabilityId: string, data: Partial<ProductAvailabilityInput>) =>
+    api.put<ProductAvailability>(`/product/availability/${availabilityId}`, data),
   deleteAvailability: (availabilityId: string) =>
-    api.delete(`/product/availability/${availabilityId}`),
+    api.delete<MessageResponse>(`/product/availability/${availabilityId}`),
+  getCapacity: (id: string, params?: ProductCapacityParams) =>
+    api.get<ProductCapacity>(`/product/${id}/availability`, { params }),
+  getQuote: (id: string, params: PriceQuoteParams) =>
+    api.get<PriceQuote>(`/product/${id}/quote`, { params }),
+  getBlackouts: (id: string) => api.get<ProductBlackout[]>(`/product/${id}/blackouts`),
+  addBlackout: (id: string, data: ProductBlackoutInput) =>
+    api.post<ProductBlackout>(`/product/${id}/blackouts`, data),
+  deleteBlackout: (blackoutId: string) =>
+    api.delete<MessageResponse>(`/product/blackouts/${blackoutId}`),
+  getUnits: (id: string) => api.get<ProductUnitWithRentals[]>(`/product/${id}/units`),
+  addUnit: (id: string, data: ProductUnitInput) =>
+    api.post<ProductUnit>(`/product/${id}/units`, data),
+  updateUnit: (unitId: string, data: ProductUnitUpdateInput) =>
+    api.put<ProductUnit>(`/product/units/${unitId}`, data),
+  deleteUnit: (unitId: string) => api.delete<MessageResponse>(`/product/units/${unitId}`),
+  getUnitHistory: (unitId: string) =>
+    api.get<UnitConditionLog[]>(`/product/units/${unitId}/history`),
 };
 
 // Rentals API
 export const rentalsAPI = {
-  getAll: () => api.get("/rental"),
-  getMy: () => api.get("/rental/my"),
-  create: (data: any) => api.post("/rental", data),
-  updateStatus: (id: string, status: string) =>
-    api.put(`/rental/${id}/status`, { status }),
-  delete: (id: string) => api.delete(`/rental/${id}`),
+  getAll: (params?: RentalListParams) =>
+    api.get<Paginated<RentalWithRelations>>("/rental", { params }),
+  getMy: () => api.get<Rental[]>("/rental/my"),
+  create: (data: RentalInput) => api.post<Rental>("/rental", data),
+  quote: (data: RentalInput) => api.post<OrderQuote>("/rental/quote", data),
+  // `refundPercent` (admin only) overrides the cancellation policy
+  updateStatus: (id: string, status: RentalStatus, refundPercent?: number) =>
+    api.put<RentalStatusResult>(`/rental/${id}/status`, { status, refundPercent }),
+  getTransitions: (id: string) => api.get<RentalTransitions>(`/rental/${id}/transitions`),
+  getCancellation: (id: string) => api.get<CancellationQuote>(`/rental/${id}/cancellation`),
+  getTimeline: (id: string) => api.get<RentalTimeline>(`/rental/${id}/timeline`),
+  delete: (id: string) => api.delete<MessageResponse>(`/rental/${id}`),
+};
+
+// Rental extensions API
+export const rentalExtensionAPI = {
+  getAll: (params?: RentalExtensionListParams) =>
+    api.get<Paginated<RentalExtension>>("/rental-extension", { params }),
+  getMy: () => api.get<RentalExtension[]>("/rental-extension/my"),
+  check: (data: RentalExtensionInput) =>
+    api.post<RentalExtensionCheck>("/rental-extension/check", data),
+  request: (data: RentalExtensionInput) => api.post<RentalExtension>("/rental-extension", data),
+  approve: (id: string, data: ExtensionDecisionInput = {}) =>
+    api.put<RentalExtension>(`/rental-extension/${id}/approve`, data),
+  reject: (id: string, data: ExtensionDecisionInput = {}) =>
+    api.put<RentalExtension>(`/rental-extension/${id}/reject`, data),
+  cancel: (id: string) => api.put<RentalExtension>(`/rental-extension/${id}/cancel`),
 };
 
 // Customers API
 export const customersAPI = {
-  getAll: () => api.get("/customer"),
-  getMe: () => api.get("/customer/me"),
-  create: (data: any) => api.post("/customer", data),
-  update: (data: any) => api.put("/customer/me", data),
-  delete: () => api.delete("/customer/me"),
-  getRentals: (id: string) => api.get(`/customer/${id}/rentals`),
+  getAll: (params?: ListQueryParams) => api.get<Paginated<User>>("/customer", { params }),
+  getMe: () => api.get<User>("/customer/me"),
+  create: (data: CustomerProfileInput) => api.post<User>("/customer", data),
+  update: (data: Partial<CustomerProfileInput>) => api.put<User>("/customer/me", data),
+  delete: () => api.delete<MessageResponse>("/customer/me"),
+  getRentals: (id: string) => api.get<Rental[]>(`/customer/${id}/rentals`),
+  getAddresses: () => api.get<Address[]>("/customer/me/addresses"),
+  createAddress: (data: AddressInput) =>
+    api.post<Address>("/customer/me/addresses", data),
+  updateAddress: (id: string, data: Partial<AddressInput>) =>
+    api.put<Address>(`/customer/me/addresses/${id}`, data),
+  setDefaultAddress: (id: string) =>
+    api.put<Address>(`/customer/me/addresses/${id}/default`),
+  deleteAddress: (id: string) =>
+    api.delete<MessageResponse>(`/customer/me/addresses/${id}`),
+};
+
+// Wishlist API
+export const wishlistAPI = {
+  getAll: () => api.get<CheckedWishlistItem[]>("/wishlist"),
+  add: (data: WishlistItemInput) => api.post<WishlistItem>("/wishlist", data),
+  update: (productId: string, data: WishlistItemUpdateInput) =>
+    api.put<WishlistItem>(`/wishlist/${productId}`, data),
+  remove: (productId: string) => api.delete<MessageResponse>(`/wishlist/${productId}`),
+  moveToCart: (productId: string, quantity?: number) =>
+    api.post<CartItem>(`/wishlist/${productId}/move-to-cart`, { quantity }),
+};
+
+// Cart API
+export const cartAPI = {
+  getAll: () => api.get<CheckedCartItem[]>("/cart"),
+  add: (data: CartItemInput) => api.post<CartItem>("/cart", data),
+  update: (productId: string, data: CartItemUpdateInput) =>
+    api.put<CartItem>(`/cart/${productId}`, data),
+  remove: (productId: string) => api.delete<MessageResponse>(`/cart/${productId}`),
+  clear: () => api.delete<MessageResponse>("/cart"),
+};
+
+// Customer groups API
+export const customerGroupAPI = {
+  getAll: () => api.get<CustomerGroup[]>("/customer-group"),
+  getForCustomer: (userId: string) =>
+    api.get<CustomerGroupMembership[]>(`/customer-group/customer/${userId}`),
+  create: (data: CustomerGroupInput) => api.post<CustomerGroup>("/customer-group", data),
+  update: (id: string, data: CustomerGroupUpdateInput) =>
+    api.put<CustomerGroup>(`/customer-group/${id}`, data),
+  delete: (id: string) => api.delete<MessageResponse>(`/customer-group/${id}`),
+  getMembers: (id: string) => api.get<CustomerGroupMembers>(`/customer-group/${id}/members`),
+  addMember: (id: string, userId: string) =>
+    api.post<CustomerGroupMember>(`/customer-group/${id}/members`, { userId }),
+  removeMember: (id: string, userId: string) =>
+    api.delete<MessageResponse>(`/customer-group/${id}/members/${userId}`),
+};
+
+// Promo codes API
+export const promoCodeAPI = {
+  getAll: () => api.get<PromoCode[]>("/promo-code"),
+  check: (data: PromoCodeCheckInput) => api.post<PromoCodeCheck>("/promo-code/check", data),
+  create: (data: PromoCodeInput) => api.post<PromoCode>("/promo-code", data),
+  update: (id: string, data: PromoCodeUpdateInput) =>
+    api.put<PromoCode>(`/promo-code/${id}`, data),
+  delete: (id: string) => api.delete<MessageResponse>(`/promo-code/${id}`),
+};
+
+// Service areas API
+export const serviceAreaAPI = {
+  getAll: () => api.get<ServiceArea[]>("/service-area"),
+  check: (addressId: string) =>
+    api.post<ServiceCoverage>("/service-area/check", { addressId }),
+  create: (data: ServiceAreaInput) => api.post<ServiceArea>("/service-area", data),
+  update: (id: string, data: ServiceAreaInput) =>
+    api.put<ServiceArea>(`/service-area/${id}`, data),
+  delete: (id: string) => api.delete<MessageResponse>(`/service-area/${id}`),
 };
 
 // Notifications API
 export const notificationsAPI = {
-  getAll: () => api.get("/notification"),
-  create: (data: any) => api.post("/notification", data),
+  getAll: () => api.get<Notification[]>("/notification"),
+  create: (data: NotificationInput) => api.post<Notification>("/notification", data),
   markAsRead: (id: string, isRead: boolean) =>
-    api.put(`/notification/${id}/read`, { isRead }),
-  delete: (id: string) => api.delete(`/notification/${id}`),
+    api.put<Notification>(`/notification/${id}/read`, { isRead }),
+  delete: (id: string) => api.delete<MessageResponse>(`/notification/${id}`),
 };
 
 // Payments API
 export const paymentsAPI = {
-  getAll: () => api.get("/payment"),
-  getMy: () => api.get("/payment/my"),
-  create: (data: any) => api.post("/payment", data),
-  updateStatus: (id: string, status: string) =>
-    api.put(`/payment/${id}/status`, { status }),
-  delete: (id: string) => api.delete(`/payment/${id}`),
+  getAll: (params?: PaymentListParams) =>
+    api.get<Paginated<Payment>>("/payment", { params }),
+  getMy: () => api.get<Payment[]>("/payment/my"),
+  create: (data: PaymentInput) => api.post<Payment>("/payment", data),
+  updateStatus: (id: string, status: PaymentStatus) =>
+    api.put<Payment>(`/payment/${id}/status`, { status }),
+  delete: (id: string) => api.delete<MessageResponse>(`/payment/${id}`),
 };
 
 // Reports API
 export const reportsAPI = {
-  getRevenue: (params: any) => api.get("/report/revenue", { params }),
-  getRentalStatus: () => api.get("/report/rental-status"),
-  getTopProducts: () => api.get("/report/top-products"),
+  getRevenue: (params: DateRangeParams) =>
+    api.get<RevenueReport>("/report/revenue", { params }),
+  getRentalStatus: () => api.get<RentalStatusCount[]>("/report/rental-status"),
+  getTopProducts: () => api.get<TopProduct[]>("/report/top-products"),
 };
 
 // Search API
 export const searchAPI = {
-  products: (params: any) => api.get("/search/products/search", { params }),
-  rentals: (params: any) => api.get("/search/rentals/filter", { params }),
+  products: (params: ProductSearchParams) =>
+    api.get<Product[]>("/search/products/search", { params }),
+  rentals: (params: RentalFilterParams) =>
+    api.get<RentalWithRelations[]>("/search/rentals/filter", { params }),
 };
 
 // Admin API
 export const adminAPI = {
-  getDashboard: () => api.get("/admin/dashboard"),
-  impersonate: (userId: string) => api.post(`/admin/impersonate/${userId}`),
+  getDashboard: () => api.get<DashboardStats>("/admin/dashboard"),
+  impersonate: (userId: string) =>
+    api.post<ImpersonateResponse>(`/admin/impersonate/${userId}`),
+  getStaff: () => api.get<User[]>("/admin/staff"),
 };
 
 // Pickup API
 export const pickupAPI = {
-  getAll: () => api.get("/pickup"),
-  getMy: () => api.get("/pickup/my"),
-  create: (data: any) => api.post("/pickup", data),
-  complete: (id: string) => api.put(`/pickup/${id}/complete`),
-  delete: (id: string) => api.delete(`/pickup/${id}`),
+  getAll: (params?: ScheduleListParams) =>
+    api.get<Paginated<Pickup>>("/pickup", { params }),
+  getMy: () => api.get<Pickup[]>("/pickup/my"),
+  getAssigned: (params?: AssignedJobsParams) =>
+    api.get<Pickup[]>("/pickup/assigned", { params }),
+  create: (data: PickupInput) => api.post<Pickup>("/pickup", data),
+  assign: (id: string, data: JobAssignInput) =>
+    api.put<AssignedJob<Pickup>>(`/pickup/${id}/assign`, data),
+  arrive: (id: string, data: JobArrivalInput = {}) =>
+    api.put<Pickup>(`/pickup/${id}/arrive`, data),
+  complete: (id: string, data: PickupCompleteInput = {}) =>
+    api.put<Pickup>(`/pickup/${id}/complete`, data),
+  delete: (id: string) => api.delete<MessageResponse>(`/pickup/${id}`),
 };
 
 // Return API
 export const returnAPI = {
-  getAll: () => api.get("/rental-return"),
-  getMy: () => api.get("/rental-return/my"),
-  create: (data: any) => api.post("/rental-return", data),
-  complete: (id: string) => api.put(`/rental-return/${id}/complete`),
-  update: (id: string, data: any) => api.put(`/rental-return/${id}`, data),
-  delete: (id: string) => api.delete(`/rental-return/${id}`),
+  getAll: (params?: ScheduleListParams) =>
+    api.get<Paginated<RentalReturn>>("/rental-return", { params }),
+  getMy: () => api.get<RentalReturn[]>("/rental-return/my"),
+  getAssigned: (params?: AssignedJobsParams) =>
+    api.get<RentalReturn[]>("/rental-return/assigned", { params }),
+  create: (data: RentalReturnInput) => api.post<RentalReturn>("/rental-return", data),
+  assign: (id: string, data: JobAssignInput) =>
+    api.put<AssignedJob<RentalReturn>>(`/rental-return/${id}/assign`, data),
+  arrive: (id: string, data: JobArrivalInput = {}) =>
+    api.put<RentalReturn>(`/rental-return/${id}/arrive`, data),
+  complete: (id: string, data: ReturnCompleteInput = {}) =>
+    api.put<ReturnCompleteResult>(`/rental-return/${id}/complete`, data),
+  update: (id: string, data: Partial<RentalReturnInput>) =>
+    api.put<RentalReturn>(`/rental-return/${id}`, data),
+  delete: (id: string) => api.delete<MessageResponse>(`/rental-return/${id}`),
+};
+
+// Dispatch API
+export const dispatchAPI = {
+  getRoute: (params?: RoutePlanParams) =>
+    api.get<RoutePlan>("/dispatch/route", { params }),
+};
+
+// Maintenance API
+export const maintenanceAPI = {
+  getAll: (params?: MaintenanceQueryParams) =>
+    api.get<MaintenanceTask[]>("/maintenance", { params }),
+  getAssigned: () => api.get<MaintenanceTask[]>("/maintenance/assigned"),
+  create: (data: MaintenanceTaskInput) => api.post<MaintenanceTask>("/maintenance", data),
+  update: (id: string, data: MaintenanceTaskUpdateInput) =>
+    api.put<MaintenanceTask>(`/maintenance/${id}`, data),
+  start: (id: string) => api.put<MaintenanceTask>(`/maintenance/${id}/start`),
+  complete: (id: string, data: MaintenanceCompleteInput = {}) =>
+    api.put<CompletedMaintenanceTask>(`/maintenance/${id}/complete`, data),
+  delete: (id: string) => api.delete<MessageResponse>(`/maintenance/${id}`),
 };
 
 // Quotation API
 export const quotationAPI = {
-  getAll: () => api.get("/quotation"),
-  getMy: () => api.get("/quotation/my"),
-  create: (data: any) => api.post("/quotation", data),
-  accept: (id: string) => api.post(`/quotation/${id}/accept`),
-  delete: (id: string) => api.delete(`/quotation/${id}`),
+  getAll: () => api.get<QuotationWithRental[]>("/quotation"),
+  getMy: () => api.get<QuotationWithRental[]>("/quotation/my"),
+  create: (data: QuotationInput) => api.post<Quotation>("/quotation", data),
+  accept: (id: string) => api.post<Quotation>(`/quotation/${id}/accept`),
+  reject: (id: string, data: QuotationRejectInput = {}) =>
+    api.post<Quotation>(`/quotation/${id}/reject`, data),
+  counter: (id: string, data: QuotationCounterInput) =>
+    api.post<Quotation>(`/quotation/${id}/counter`, data),
+  getRevisions: (id: string) =>
+    api.get<QuotationRevision[]>(`/quotation/${id}/revisions`),
+  downloadPdf: (id: string, version: number) =>
+    api.get<Blob>(`/quotation/${id}/revisions/${version}/pdf`, { responseType: "blob" }),
+  delete: (id: string) => api.delete<MessageResponse>(`/quotation/${id}`),
 };
 
 // Invoice API
 export const invoiceAPI = {
-  getAll: () => api.get("/invoice"),
-  getById: (id: string) => api.get(`/invoice/${id}`),
-  create: (data: any) => api.post("/invoice", data),
-  updateStatus: (id: string, status: string) =>
-    api.put(`/invoice/${id}/status`, { status }),
-  delete: (id: string) => api.delete(`/invoice/${id}`),
+  getAll: (params?: InvoiceListParams) =>
+    api.get<Paginated<Invoice>>("/invoice", { params }),
+  getById: (id: string) => api.get<Invoice>(`/invoice/${id}`),
+  create: (data: InvoiceInput) => api.post<Invoice>("/invoice", data),
+  updateStatus: (id: string, status: PaymentStatus) =>
+    api.put<Invoice>(`/invoice/${id}/status`, { status }),
+  delete: (id: string) => api.delete<MessageResponse>(`/invoice/${id}`),
+};
+
+// Late fee policy API
+export const cancellationPolicyAPI = {
+  getAll: () => api.get<CancellationPolicy[]>("/cancellation-policy"),
+  getForProduct: (productId: string) =>
+    api.get<CancellationPolicy>(`/cancellation-policy/product/${productId}`),
+  create: (data: CancellationPolicyInput) =>
+    api.post<CancellationPolicy>("/cancellation-policy", data),
+  update: (id: string, data: CancellationPolicyUpdateInput) =>
+    api.put<CancellationPolicy>(`/cancellation-policy/${id}`, data),
+  delete: (id: string) => api.delete<MessageResponse>(`/cancellation-policy/${id}`),
+};
+
+export const lateFeePolicyAPI = {
+  getAll: () => api.get<LateFeePolicy[]>("/late-fee-policy"),
+  getForProduct: (productId: string) =>
+    api.get<LateFeePolicy>(`/late-fee-policy/product/${productId}`),
+  create: (data: LateFeePolicyInput) => api.post<LateFeePolicy>("/late-fee-policy", data),
+  update: (id: string, data: LateFeePolicyUpdateInput) =>
+    api.put<LateFeePolicy>(`/late-fee-policy/${id}`, data),
+  delete: (id: string) => api.delete<MessageResponse>(`/late-fee-policy/${id}`),
+};
+
+// Deposit API
+export const depositAPI = {
+  getAll: (params?: DepositListParams) =>
+    api.get<Paginated<Deposit>>("/deposit", { params }),
+  getForRental: (rentalId: string) => api.get<Deposit>(`/deposit/rental/${rentalId}`),
+  capture: (id: string, data: DepositCaptureInput) =>
+    api.post<Deposit>(`/deposit/${id}/capture`, data),
+  release: (id: string, data: DepositReleaseInput = {}) =>
+    api.post<Deposit>(`/deposit/${id}/release`, data),
+  getCategoryDeposits: () => api.get<CategoryDeposit[]>("/deposit/category"),
+  setCategoryDeposit: (category: string, data: CategoryDepositInput) =>
+    api.put<CategoryDeposit>(`/deposit/category/${encodeURIComponent(category)}`, data),
+  removeCategoryDeposit: (category: string) =>
+    api.delete<MessageResponse>(`/deposit/category/${encodeURIComponent(category)}`),
 };
 
 // Pricelist API
 export const pricelistAPI = {
-  getAll: (params?: any) => api.get("/pricelist", { params }),
-  getById: (id: string) => api.get(`/pricelist/${id}`),
-  create: (data: any) => api.post("/pricelist", data),
-  update: (id: string, data: any) => api.put(`/pricelist/${id}`, data),
-  delete: (id: string) => api.delete(`/pricelist/${id}`),
-  addItem: (id: string, data: any) => api.post(`/pricelist/${id}/items`, data),
-  updateItem: (id: string, itemId: string, data: any) =>
-    api.put(`/pricelist/${id}/items/${itemId}`, data),
+  getAll: (params?: PricelistListParams) =>
+    api.get<Paginated<Pricelist>>("/pricelist", { params }),
+  getById: (id: string) => api.get<Pricelist>(`/pricelist/${id}`),
+  create: (data: PricelistInput) => api.post<Pricelist>("/pricelist", data),
+  update: (id: string, data: Partial<PricelistInput>) =>
+    api.put<Pricelist>(`/pricelist/${id}`, data),
+  delete: (id: string) => api.delete<MessageResponse>(`/pricelist/${id}`),
+  addItem: (id: string, data: PricelistItemInput) =>
+    api.post<PricelistItem>(`/pricelist/${id}/items`, data),
+  updateItem: (id: string, itemId: string, data: PricelistItemUpdateInput) =>
+    api.put<PricelistItem>(`/pricelist/${id}/items/${itemId}`, data),
   deleteItem: (id: string, itemId: string) =>
-    api.delete(`/pricelist/${id}/items/${itemId}`),
+    api.delete<MessageResponse>(`/pricelist/${id}/items/${itemId}`),
 };
 
 // Bulk operations API
 export const bulkAPI = {
-  delete: (model: string, ids: string[]) =>
-    api.post("/bulk/delete", { model, ids }),
-  updateRentalStatus: (rentalIds: string[], status: string) =>
-    api.post("/bulk/rental/status", { rentalIds, status }),
+  delete: (model: BulkModel, ids: string[]) =>
+    api.post<MessageResponse>("/bulk/delete", { model, ids }),
+  updateRentalStatus: (rentalIds: string[], status: RentalStatus) =>
+    api.post<BulkRentalStatusResult>("/bulk/rental/status", { rentalIds, status }),
 };
 
 // Automation API
 export const automationAPI = {
-  applyLateFees: () => api.post("/automation/apply-late-fees"),
-  sendOverdueReminders: () => api.post("/automation/send-overdue-reminders"),
+  applyLateFees: () => api.post<MessageResponse>("/automation/apply-late-fees"),
+  sendOverdueReminders: () =>
+    api.post<MessageResponse>("/automation/send-overdue-reminders"),
+  notifyWishlist: () => api.post<MessageResponse>("/automation/notify-wishlist"),
+  expireQuotations: () => api.post<MessageResponse>("/automation/expire-quotations"),
 };
 
 export default api;
\ No newline at end of file
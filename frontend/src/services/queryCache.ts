@@ -0,0 +1,172 @@
+// Shared request cache behind useApi/useMutation. Entries are keyed by a
+// serialised query key (e.g. ['products', 'list', { take: 5 }]); concurrent
+// fetches for the same key share one in-flight promise, and subscribers are
+// notified whenever an entry's data, error or fetching state changes.
+
+export type QueryKey = readonly unknown[];
+
+export interface QuerySnapshot<T = unknown> {
+  data: T | undefined;
+  error: unknown;
+  updatedAt: number;
+  fetching: boolean;
+}
+
+interface CacheEntry {
+  key: QueryKey;
+  data: unknown;
+  error: unknown;
+  updatedAt: number;
+  promise: Promise<unknown> | null;
+  // Bumped when the entry is invalidated, like `generation` for the whole cache
+  generation: number;
+  fetcher: (() => Promise<unknown>) | null;
+  listeners: Set<() => void>;
+}
+
+const cache = new Map<string, CacheEntry>();
+
+// Bumped by clearQueryCache; fetches started under an earlier generation
+// (e.g. by the previous user's session) leave the cache alone when they land.
+let generation = 0;
+
+// Sort plain-object keys so { a, b } and { b, a } hash identically.
+export const hashKey = (key: QueryKey) =>
+  JSON.stringify(key, (_, value) =>
+    value && typeof value === 'object' && !Array.isArray(value)
+      ? Object.keys(value)
+          .sort()
+          .reduce<Record<string, unknown>>((acc, k) => {
+            acc[k] = value[k];
+            return acc;
+          }, {})
+      : value
+  );
+
+const getEntry = (key: QueryKey) => {
+  const hash = hashKey(key);
+  let entry = cache.get(hash);
+  if (!entry) {
+    entry = {
+      key,
+      data: undefined,
+      error: null,
+      updatedAt: 0,
+      promise: null,
+      generation: 0,
+      fetcher: null,
+      listeners: new Set(),
+    };
+    cache.set(hash, entry);
+  }
+  return entry;
+};
+
+const notify = (entry: CacheEntry) => {
+  entry.listeners.forEach((listener) => listener());
+};
+
+export function getQuerySnapshot<T>(key: QueryKey): QuerySnapshot<T> {
+  const entry = getEntry(key);
+  return {
+    data: entry.data as T | undefined,
+    error: entry.error,
+    updatedAt: entry.updatedAt,
+    fetching: entry.promise !== null,
+  };
+}
+
+export function isQueryStale(key: QueryKey, staleTime: number) {
+  return Date.now() - getEntry(key).updatedAt > staleTime;
+}
+
+/**
+ * Run `fetcher` for `key`, or join the request already in flight for it.
+ */
+export function fetchQuery<T>(key: QueryKey, fetcher: () => Promise<T>): Promise<T> {
+  const entry = getEntry(key);
+  if (entry.promise) return entry.promise as Promise<T>;
+
+  const startedIn = generation;
+  const entryStartedIn = entry.generation;
+  const current = () => startedIn === generation && entryStartedIn === entry.generation;
+  const promise: Promise<T> = fetcher()
+    .then(
+      (data) => {
+        if (current()) {
+          entry.data = data;
+          entry.error = null;
+          entry.updatedAt = Date.now();
+        }
+        return data;
+      },
+      (error) => {
+        if (current()) entry.error = error;
+        throw error;
+      }
+    )
+    .finally(() => {
+      // A fetch started after a clear or invalidation owns the entry now
+      if (entry.promise !== promise) return;
+      entry.promise = null;
+      notify(entry);
+    });
+
+  entry.promise = promise;
+  notify(entry);
+  return promise;
+}
+
+/**
+ * Listen for changes to `key`. The fetcher is remembered so invalidation can
+ * refresh the entry while someone is still watching it.
+ */
+export function subscribeQuery(
+  key: QueryKey,
+  listener: () => void,
+  fetcher: () => Promise<unknown>
+) {
+  const entry = getEntry(key);
+  entry.fetcher = fetcher;
+  entry.listeners.add(listener);
+  return () => {
+    entry.listeners.delete(listener);
+  };
+}
+
+const matchesPrefix = (key: QueryKey, prefix: QueryKey) =>
+  prefix.length <= key.length &&
+  prefix.every((part, i) => hashKey([part]) === hashKey([key[i]]));
+
+/**
+ * Mark every entry under `prefix` as stale and refetch the ones in use.
+ * `invalidateQueries(['products'])` refreshes every product list. A request
+ * already in flight may predate the change that caused the invalidation, so
+ * it's dropped and its result ignored in favour of a new one.
+ */
+export function invalidateQueries(prefix: QueryKey) {
+  cache.forEach((entry) => {
+    if (!matchesPrefix(entry.key, prefix)) return;
+    entry.updatedAt = 0;
+    entry.generation++;
+    entry.promise = null;
+    if (entry.listeners.size > 0 && entry.fetcher) {
+      fetchQuery(entry.key, entry.fetcher).catch(() => {});
+    }
+  });
+}
+
+/**
+ * Drop all cached data, e.g. when the signed-in user changes. Requests still
+ * in flight are forgotten and their results ignored.
+ */
+export function clearQueryCache() {
+  generation++;
+  cache.forEach((entry) => {
+    entry.data = undefined;
+    entry.error = null;
+    entry.updatedAt = 0;
+    entry.promise = null;
+    notify(entry);
+  });
+}
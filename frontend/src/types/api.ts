@@ -0,0 +1,1190 @@
+// Request/response types for every route mounted in backend/src/server.js.
+// Enums and inputs are derived from the zod schemas in
+// backend/src/validate/validate.js, so they change with what the server
+// accepts; records mirror the models in backend/prisma/schema.prisma as
+// they arrive over JSON, so every DateTime is an ISO string.
+import type { z } from 'zod';
+import type * as schemas from '../../../backend/src/validate/validate.js';
+
+export type ISODateString = string;
+
+// A value as sent over JSON: the keys the schema takes in (optional where it
+// has a default) with the types it parses them to, and dates as ISO strings
+type Wire<In, Out> = Out extends Date
+  ? ISODateString
+  : Out extends readonly (infer OutItem)[]
+    ? Wire<NonNullable<In> extends readonly (infer InItem)[] ? InItem : OutItem, OutItem>[]
+    : Out extends object
+      ? { [K in keyof NonNullable<In>]: K extends keyof Out ? Wire<NonNullable<In>[K], Out[K]> : never }
+      : Out;
+
+/** The request body or query a zod schema accepts. */
+type Input<S> = Wire<z.input<S>, z.output<S>>;
+
+// -------------------
+// Enums
+// -------------------
+export type UserRole = z.infer<typeof schemas.UserRoleEnum>;
+export type RentalStatus = z.infer<typeof schemas.RentalStatusEnum>;
+export type PaymentStatus = z.infer<typeof schemas.PaymentStatusEnum>;
+export type InvoiceType = z.infer<typeof schemas.InvoiceTypeEnum>;
+export type NotificationType = z.infer<typeof schemas.NotificationTypeEnum>;
+export type UnitStatus = z.infer<typeof schemas.UnitStatusEnum>;
+export type UnitCondition = z.infer<typeof schemas.UnitConditionEnum>;
+export type MaintenanceStatus = NonNullable<MaintenanceQueryParams['status']>;
+export type PromoDiscountType = z.infer<typeof schemas.PromoDiscountTypeEnum>;
+export type DepositStatus = z.infer<typeof schemas.DepositStatusEnum>;
+export type DepositEntryType = 'HOLD' | 'CAPTURE' | 'RELEASE';
+export type LateFeeUnit = z.infer<typeof schemas.LateFeeUnitEnum>;
+export type ExtensionStatus = z.infer<typeof schemas.ExtensionStatusEnum>;
+export type QuotationStatus = 'SENT' | 'ACCEPTED' | 'REJECTED' | 'COUNTERED' | 'EXPIRED' | 'SUPERSEDED';
+
+export interface MessageResponse {
+  message: string;
+}
+
+// -------------------
+// List queries (see "Pagination" in docs/API.md)
+// -------------------
+export type ListQueryParams = Input<typeof schemas.listQuerySchema>;
+
+export interface PaginationMeta {
+  skip: number;
+  take: number;
+  total: number;
+  nextCursor: string | null;
+}
+
+export interface Paginated<T> {
+  data: T[];
+  pagination: PaginationMeta;
+}
+
+// -------------------
+// Records
+// -------------------
+export interface User {
+  id: string;
+  name: string;
+  email: string;
+  role: UserRole;
+  phone?: string | null;
+  avatarUrl?: string | null;
+  createdAt?: ISODateString;
+}
+
+export type UserSummary = Pick<User, 'id' | 'name' | 'email'> & Partial<User>;
+
+export interface RentalDuration {
+  id: string;
+  productId: string;
+  duration: string;
+  price: number;
+}
+
+export interface ProductAvailability {
+  id: string;
+  productId: string;
+  startDate: ISODateString;
+  endDate: ISODateString;
+  isBooked: boolean;
+}
+
+export interface ProductBlackout {
+  id: string;
+  productId: string;
+  startDate: ISODateString;
+  endDate: ISODateString;
+  reason?: string | null;
+  createdAt: ISODateString;
+}
+
+export type AvailabilityGranularity = "day" | "hour";
+
+export interface AvailabilitySlot {
+  start: ISODateString;
+  end: ISODateString;
+  capacity: number;
+  reserved: number;
+  free: number;
+}
+
+export interface ProductCapacity {
+  productId: string;
+  granularity: AvailabilityGranularity;
+  from: ISODateString;
+  to: ISODateString;
+  stock: number;
+  slots: AvailabilitySlot[];
+}
+
+export interface ListPrices {
+  hour: number;
+  day: number;
+  week: number;
+  month: number;
+}
+
+export interface PriceLine {
+  description: string;
+  amount: number;
+}
+
+export interface PriceQuote {
+  productId: string;
+  quantity: number;
+  startDate: ISODateString;
+  endDate: ISODateString;
+  // Tier the rental is billed by, e.g. 2 × "week"
+  tier: { label: string; periods: number; unitPrice: number };
+  pricelist: { id: string; name: string; customerGroup?: string | null } | null;
+  promoCode?: { id: string; code: string; discount: number } | null;
+  lines: PriceLine[];
+  subtotal: number;
+  discounts: PriceLine[];
+  discountTotal: number;
+  taxRate: number;
+  tax: number;
+  total: number;
+}
+
+// From POST /rental/quote and on order quotations: each line's own quote,
+// then the order's promo discount and tax
+export interface OrderQuote {
+  items: PriceQuote[];
+  startDate: ISODateString;
+  endDate: ISODateString;
+  promoCode?: { id: string; code: string; discount: number } | null;
+  lines: PriceLine[];
+  subtotal: number;
+  discounts: PriceLine[];
+  discountTotal: number;
+  taxRate: number;
+  tax: number;
+  total: number;
+}
+
+export interface Product {
+  id: string;
+  name: string;
+  description?: string | null;
+  category?: string | null;
+  isRentable: boolean;
+  unitType: string;
+  basePrice: number;
+  stock: number;
+  // Security deposit per rental; null falls back to the category's
+  deposit?: number | null;
+  createdAt: ISODateString;
+  updatedAt: ISODateString;
+  rentalDurations?: RentalDuration[];
+  availability?: ProductAvailability[];
+  _count?: { units: number };
+  // List price for one hour, day, week and month
+  prices?: ListPrices;
+  // Latest completed maintenance only
+  maintenance?: Array<{ completedAt: ISODateString }>;
+}
+
+export interface ProductUnit {
+  id: string;
+  productId: string;
+  serialNumber: string;
+  condition: UnitCondition;
+  status: UnitStatus;
+  acquisitionCost?: number | null;
+  acquiredAt?: ISODateString | null;
+  notes?: string | null;
+  createdAt: ISODateString;
+  updatedAt: ISODateString;
+}
+
+export type UnitSummary = Pick<ProductUnit, 'id' | 'serialNumber' | 'condition'>;
+
+// Upcoming CONFIRMED/ACTIVE rentals bound to the unit
+export interface ProductUnitWithRentals extends ProductUnit {
+  rentals: Array<
+    Pick<Rental, 'id' | 'orderReference' | 'status' | 'startDate' | 'endDate'> & {
+      customer: { id: string; name: string };
+    }
+  >;
+}
+
+export interface UnitConditionLog {
+  id: string;
+  unitId: string;
+  oldCondition: UnitCondition | null;
+  newCondition: UnitCondition;
+  notes?: string | null;
+  rentalId?: string | null;
+  recordedAt: ISODateString;
+  recordedBy?: { id: string; name: string } | null;
+}
+
+/** Out-of-service window; without a unit it covers the whole product. */
+export interface MaintenanceTask {
+  id: string;
+  productId: string;
+  unitId?: string | null;
+  title: string;
+  description?: string | null;
+  startDate: ISODateString;
+  endDate: ISODateString;
+  status: MaintenanceStatus;
+  intervalDays?: number | null;
+  intervalRentals?: number | null;
+  staffId?: string | null;
+  completedAt?: ISODateString | null;
+  completedById?: string | null;
+  completionNotes?: string | null;
+  previousTaskId?: string | null;
+  createdAt: ISODateString;
+  updatedAt: ISODateString;
+  product: { id: string; name: string };
+  unit?: UnitSummary | null;
+  staff?: { id: string; name: string } | null;
+}
+
+export type CompletedMaintenanceTask = MaintenanceTask & { nextTask: MaintenanceTask | null };
+
+export interface Address {
+  id: string;
+  userId: string;
+  label?: string | null;
+  line1: string;
+  line2?: string | null;
+  city: string;
+  region?: string | null;
+  postalCode: string;
+  country: string;
+  latitude?: number | null;
+  longitude?: number | null;
+  isDefault: boolean;
+  createdAt: ISODateString;
+  updatedAt: ISODateString;
+}
+
+export interface RentalHistory {
+  id: string;
+  rentalId: string;
+  oldStatus: RentalStatus | null;
+  newStatus: RentalStatus;
+  // What changed besides the status, e.g. an extension
+  note?: string | null;
+  changedAt: ISODateString;
+  changedById?: string | null;
+}
+
+export interface RentalExtension {
+  id: string;
+  rentalId: string;
+  // The rental's end when it was requested
+  currentEndDate: ISODateString;
+  requestedEndDate: ISODateString;
+  // For the extra time; billed on an EXTENSION invoice once approved
+  price: number;
+  breakdown?: OrderQuote | PriceQuote | null;
+  note?: string | null;
+  status: ExtensionStatus;
+  autoApproved: boolean;
+  requestedById?: string | null;
+  decidedById?: string | null;
+  decidedAt?: ISODateString | null;
+  decisionNote?: string | null;
+  invoiceId?: string | null;
+  createdAt: ISODateString;
+  updatedAt: ISODateString;
+  rental?: Pick<Rental, 'id' | 'orderReference' | 'status' | 'startDate' | 'endDate'> & {
+    customer: UserSummary;
+    product: Pick<Product, 'id' | 'name'>;
+  };
+  invoice?: Pick<Invoice, 'id' | 'amount' | 'status'> | null;
+}
+
+export interface Quotation {
+  id: string;
+  rentalId: string;
+  price: number;
+  // Quotations from before orders had lines hold a single PriceQuote
+  breakdown?: OrderQuote | PriceQuote | null;
+  validTill?: ISODateString | null;
+  notes?: string | null;
+  isAccepted: boolean;
+  // Of the latest revision, which the fields above mirror
+  status: QuotationStatus;
+  version: number;
+  createdAt: ISODateString;
+  // Newest first, where the endpoint includes them
+  revisions?: QuotationRevision[];
+}
+
+// A priced line of a quotation revision; discounts are negative
+export interface QuotationLine {
+  id: string;
+  revisionId: string;
+  position: number;
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  amount: number;
+}
+
+// One version of a quotation as sent, and the customer's answer to it
+export interface QuotationRevision {
+  id: string;
+  quotationId: string;
+  version: number;
+  status: QuotationStatus;
+  price: number;
+  breakdown?: OrderQuote | PriceQuote | null;
+  validTill?: ISODateString | null;
+  notes?: string | null;
+  createdById?: string | null;
+  counterPrice?: number | null;
+  responseNote?: string | null;
+  respondedAt?: ISODateString | null;
+  createdAt: ISODateString;
+  lines: QuotationLine[];
+}
+
+// One line of a rental order
+export interface RentalItem {
+  id: string;
+  rentalId: string;
+  productId: string;
+  quantity: number;
+  startDate: ISODateString;
+  endDate: ISODateString;
+  // The units handed over, for products with units
+  unitIds: string[];
+  createdAt: ISODateString;
+  product?: Product;
+}
+
+export interface Rental {
+  id: string;
+  orderReference?: string;
+  customerId: string;
+  // The first line's product
+  productId: string;
+  // Earliest start and latest end of any line
+  startDate: ISODateString;
+  endDate: ISODateString;
+  status: RentalStatus;
+  createdAt: ISODateString;
+  updatedAt: ISODateString;
+  customer?: UserSummary;
+  product?: Product;
+  items?: RentalItem[];
+  quotation?: Quotation | null;
+  rentalHistories?: RentalHistory[];
+  addressId?: string | null;
+  address?: Address | null;
+  unitId?: string | null;
+  unit?: UnitSummary | null;
+  promoRedemption?: PromoRedemption | null;
+  deposit?: Deposit | null;
+  extensions?: RentalExtension[];
+  // From GET /rental/my: confirmed or active with no pending extension
+  canExtend?: boolean;
+  // From GET /rental/my: whether the customer may cancel it themselves
+  canCancel?: boolean;
+}
+
+export interface RentalWithRelations extends Rental {
+  customer: UserSummary;
+  product: Product;
+}
+
+export interface Pickup {
+  id: string;
+  rentalId: string;
+  scheduled: ISODateString;
+  actualPickup?: ISODateString | null;
+  arrivedAt?: ISODateString | null;
+  notes?: string | null;
+  surcharge?: number | null;
+  completed: boolean;
+  staffId?: string | null;
+  staff?: UserSummary | null;
+  rental: RentalWithRelations;
+}
+
+export interface RentalReturn {
+  id: string;
+  rentalId: string;
+  scheduled: ISODateString;
+  actualReturn?: ISODateString | null;
+  arrivedAt?: ISODateString | null;
+  notes?: string | null;
+  completed: boolean;
+  lateFee?: number | null;
+  // The LATE_FEE invoice kept in step with `lateFee`
+  lateFeeInvoiceId?: string | null;
+  daysLate?: number | null;
+  staffId?: string | null;
+  staff?: UserSummary | null;
+  rental: RentalWithRelations;
+}
+
+export interface PricelistItem {
+  id: string;
+  pricelistId: string;
+  productId: string;
+  price: number;
+  discount?: number | null;
+  product?: Product;
+}
+
+export interface Pricelist {
+  id: string;
+  name: string;
+  description?: string | null;
+  validFrom: ISODateString;
+  validTo: ISODateString;
+  customerGroupId?: string | null;
+  customerGroup?: Pick<CustomerGroup, 'id' | 'name' | 'priority'> | null;
+  items: PricelistItem[];
+}
+
+export interface CustomerGroup {
+  id: string;
+  name: string;
+  description?: string | null;
+  // Higher wins when pricelists of several groups apply
+  priority: number;
+  // Customers with this many completed rentals belong automatically
+  minCompletedRentals?: number | null;
+  createdAt: ISODateString;
+  updatedAt: ISODateString;
+  _count?: { members: number; pricelists: number };
+}
+
+export interface CustomerGroupMember {
+  groupId: string;
+  userId: string;
+  createdAt: ISODateString;
+  user: UserSummary;
+}
+
+export interface CustomerGroupMembership extends CustomerGroup {
+  via: 'MANUAL' | 'RULE';
+}
+
+export interface PromoCode {
+  id: string;
+  // Stored upper-case
+  code: string;
+  description?: string | null;
+  discountType: PromoDiscountType;
+  // Percent off, or the amount off for FIXED
+  value: number;
+  expiresAt?: ISODateString | null;
+  maxUses?: number | null;
+  maxUsesPerUser?: number | null;
+  minRentalDays?: number | null;
+  // Both empty: any product
+  productIds: string[];
+  categories: string[];
+  isActive: boolean;
+  createdAt: ISODateString;
+  updatedAt: ISODateString;
+  _count?: { redemptions: number };
+}
+
+export interface PromoRedemption {
+  id: string;
+  promoCodeId: string;
+  rentalId: string;
+  userId: string;
+  amount: number;
+  createdAt: ISODateString;
+}
+
+export interface DepositEntry {
+  id: string;
+  depositId: string;
+  type: DepositEntryType;
+  amount: number;
+  // The damage or late-fee invoice a CAPTURE paid
+  invoiceId?: string | null;
+  invoice?: Pick<Invoice, 'id' | 'type' | 'amount' | 'status'> | null;
+  reason?: string | null;
+  createdById?: string | null;
+  createdBy?: { id: string; name: string } | null;
+  createdAt: ISODateString;
+}
+
+export interface Deposit {
+  id: string;
+  rentalId: string;
+  // Held when the rental was confirmed
+  amount: number;
+  captured: number;
+  released: number;
+  status: DepositStatus;
+  createdAt: ISODateString;
+  updatedAt: ISODateString;
+  entries?: DepositEntry[];
+}
+
+export interface CategoryDeposit {
+  category: string;
+  amount: number;
+  updatedAt: ISODateString;
+}
+
+export interface LateFeeTier {
+  id: string;
+  policyId: string;
+  // `rate` applies once a rental is over this many units late
+  afterUnits: number;
+  rate: number;
+}
+
+export interface LateFeePolicy {
+  // Missing on the default policy
+  id?: string;
+  // Exactly one of productId and category is set
+  productId?: string | null;
+  category?: string | null;
+  product?: Pick<Product, 'id' | 'name' | 'category'> | null;
+  // No fee if returned within this long after the end
+  graceHours: number;
+  unit: LateFeeUnit;
+  // Per hour or day late
+  rate: number;
+  maxFee?: number | null;
+  tiers: LateFeeTier[];
+  createdAt?: ISODateString;
+  updatedAt?: ISODateString;
+}
+
+export interface CancellationWindow {
+  id: string;
+  policyId: string;
+  // Applies when cancelled at least this many hours before the start
+  hoursBefore: number;
+  refundPercent: number;
+}
+
+export interface CancellationPolicy {
+  // Missing on the default policy
+  id?: string;
+  // Exactly one of productId and category is set
+  productId?: string | null;
+  category?: string | null;
+  product?: Pick<Product, 'id' | 'name' | 'category'> | null;
+  // Earliest first
+  windows: Pick<CancellationWindow, 'hoursBefore' | 'refundPercent'>[];
+  // Of the unused days' share of what was paid, on an early return
+  earlyReturnPercent: number;
+  createdAt?: ISODateString;
+  updatedAt?: ISODateString;
+}
+
+// What a cancellation or early return gives back of the rental's own invoices
+export interface Refund {
+  refundPercent: number;
+  // Paid before it, net of earlier refunds
+  paid: number;
+  refund: number;
+}
+
+export interface CancellationQuote extends Refund {
+  rentalId: string;
+  canCancel: boolean;
+  // What's kept
+  fee: number;
+}
+
+// From GET /rental/:id/transitions: where the caller may move the rental next
+export interface RentalTransitions {
+  status: RentalStatus;
+  transitions: RentalStatus[];
+}
+
+export type TimelineEventType =
+  | 'STATUS'
+  | 'QUOTATION'
+  | 'PICKUP'
+  | 'RETURN'
+  | 'INVOICE'
+  | 'PAYMENT'
+  | 'NOTIFICATION'
+  | 'EXTENSION'
+  | 'DEPOSIT'
+  | 'CONDITION';
+
+export interface RentalTimelineEvent {
+  // `<type>:<record id>`
+  id: string;
+  type: TimelineEventType;
+  at: ISODateString;
+  title: string;
+  description: string | null;
+  amount: number | null;
+  // The record's own status, e.g. an invoice's
+  status: string | null;
+  actor: { id: string; name: string } | null;
+  // Scheduled but not yet due: a pickup, return or reminder
+  upcoming: boolean;
+}
+
+// From GET /rental/:id/timeline, oldest event first
+export interface RentalTimeline {
+  rentalId: string;
+  status: RentalStatus;
+  events: RentalTimelineEvent[];
+}
+
+export interface RentalStatusResult extends Rental {
+  // Set when the change cancelled the rental
+  refund: Refund | null;
+}
+
+export interface Payment {
+  id: string;
+  invoiceId: string;
+  amount: number;
+  method: string;
+  transactionId?: string | null;
+  status: PaymentStatus;
+  createdAt: ISODateString;
+  invoice?: Invoice;
+}
+
+export interface Invoice {
+  id: string;
+  rentalId: string;
+  amount: number;
+  // Promo discount already taken off `amount`
+  discount?: number | null;
+  promoCode?: string | null;
+  type: InvoiceType;
+  status: PaymentStatus;
+  createdAt: ISODateString;
+  rental?: Rental;
+  payments?: Payment[];
+}
+
+export interface Notification {
+  id: string;
+  type: NotificationType;
+  message: string;
+  userId: string;
+  rentalId?: string | null;
+  sendDate: ISODateString;
+  isRead: boolean;
+}
+
+export interface WishlistItem {
+  id: string;
+  userId: string;
+  productId: string;
+  product: Product;
+  startDate?: ISODateString | null;
+  endDate?: ISODateString | null;
+  // The product's base price when saved
+  savedPrice: number;
+  notifyWhenAvailable: boolean;
+  notifiedAt?: ISODateString | null;
+  // Whether the dates were free when last checked
+  wasAvailable?: boolean | null;
+  createdAt: ISODateString;
+  updatedAt: ISODateString;
+}
+
+export interface CartItem {
+  id: string;
+  userId: string;
+  productId: string;
+  product: Product;
+  quantity: number;
+  // Without dates the line runs for the order's
+  startDate?: ISODateString | null;
+  endDate?: ISODateString | null;
+  // The product's base price when added
+  savedPrice: number;
+  createdAt: ISODateString;
+  updatedAt: ISODateString;
+}
+
+// How a saved item stands now, from GET /wishlist and GET /cart;
+// `available` and `quote` are null without upcoming dates
+export interface SavedItemCheck {
+  rentable: boolean;
+  priceChanged: boolean;
+  datesPassed: boolean;
+  available: boolean | null;
+  quote: PriceQuote | null;
+}
+
+export type CheckedWishlistItem = WishlistItem & SavedItemCheck;
+export type CheckedCartItem = CartItem & SavedItemCheck;
+
+export interface CalendarEventRecord {
+  id: string;
+  title: string;
+  date: ISODateString;
+  userId: string;
+  createdAt: ISODateString;
+  updatedAt: ISODateString;
+}
+
+export interface PolygonPoint {
+  lat: number;
+  lng: number;
+}
+
+export interface ServiceArea {
+  id: string;
+  name: string;
+  postalCodes: string[];
+  polygon?: PolygonPoint[] | null;
+  surcharge: number;
+  isActive: boolean;
+  createdAt: ISODateString;
+  updatedAt: ISODateString;
+}
+
+export interface ContractRecord {
+  id: string;
+  title: string;
+  details: string;
+  userId: string;
+  createdAt: ISODateString;
+  updatedAt: ISODateString;
+}
+
+// -------------------
+// Auth
+// -------------------
+export type LoginInput = Input<typeof schemas.loginSchema>;
+
+export interface SignupInput extends Input<typeof schemas.userSchema>, LoginInput {
+  avatarUrl?: string;
+}
+
+export interface UpdateProfileInput extends Input<typeof schemas.updateProfileSchema> {
+  phone?: string;
+  avatarUrl?: string;
+}
+
+/** Short-lived access token plus the single-use refresh token that renews it. */
+export interface SessionTokens {
+  token: string;
+  refreshToken: string;
+}
+
+export interface AuthResponse extends SessionTokens {
+  message?: string;
+  user: User;
+}
+
+export interface CheckAdminResponse {
+  adminExists: boolean;
+  adminCount: number;
+}
+
+export interface CheckUserResponse {
+  exists: boolean;
+}
+
+// -------------------
+// Products
+// -------------------
+export type ProductInput = Input<typeof schemas.productSchema>;
+
+// RENTED is set by the booking engine
+export type ProductUnitInput = Input<typeof schemas.productUnitSchema>;
+
+export type ProductUnitUpdateInput = Input<typeof schemas.productUnitUpdateSchema>;
+
+export type MaintenanceTaskInput = Input<typeof schemas.maintenanceTaskSchema>;
+export type MaintenanceTaskUpdateInput = Input<typeof schemas.maintenanceTaskUpdateSchema>;
+
+export type MaintenanceQueryParams = Input<typeof schemas.maintenanceQuerySchema>;
+
+export type MaintenanceCompleteInput = Input<typeof schemas.maintenanceCompleteSchema>;
+
+// The product comes from the URL
+export type RentalDurationInput = Omit<Input<typeof schemas.rentalDurationSchema>, 'productId'>;
+
+export type ProductAvailabilityInput = Omit<Input<typeof schemas.productAvailabilitySchema>, 'productId'>;
+
+export type PriceQuoteParams = Input<typeof schemas.priceQuoteQuerySchema>;
+
+export type ProductCapacityParams = Input<typeof schemas.availabilityQuerySchema>;
+
+export type ProductBlackoutInput = Input<typeof schemas.productBlackoutSchema>;
+
+export interface ProductListParams extends ListQueryParams {
+  category?: string;
+  isRentable?: boolean;
+  minPrice?: number;
+  maxPrice?: number;
+}
+
+export interface CategoryCount {
+  category: string | null;
+  count: number;
+}
+
+// -------------------
+// Rentals
+// -------------------
+export interface RentalListParams extends ListQueryParams {
+  status?: RentalStatus;
+  customerId?: string;
+  productId?: string;
+}
+
+export type RentalItemInput = NonNullable<RentalInput['items']>[number];
+
+/** One `productId`, or an order of `items` (one line per product). */
+export type RentalInput = Input<typeof schemas.rentalBookingSchema>;
+
+export interface BookingWindow {
+  startDate: ISODateString;
+  endDate: ISODateString;
+}
+
+/** 409 body when every unit is reserved for the requested dates. */
+export interface RentalConflict {
+  error: string;
+  // The order line that's full
+  productId?: string;
+  alternatives: BookingWindow[];
+}
+
+// -------------------
+// Customers
+// -------------------
+export type CustomerProfileInput = Input<typeof schemas.userSchema>;
+
+export type AddressInput = Input<typeof schemas.addressSchema>;
+
+// -------------------
+// Wishlist & cart
+// -------------------
+// Dates go together; null clears them
+export type WishlistItemInput = Input<typeof schemas.wishlistItemSchema>;
+
+export type WishlistItemUpdateInput = Input<typeof schemas.wishlistItemUpdateSchema>;
+
+export type CartItemInput = Input<typeof schemas.cartItemSchema>;
+
+export type CartItemUpdateInput = Input<typeof schemas.cartItemUpdateSchema>;
+
+// -------------------
+// Service areas
+// -------------------
+export type ServiceAreaInput = Input<typeof schemas.serviceAreaSchema>;
+
+/** Whether an address can be served; outside every area `serviceable` is false. */
+export interface ServiceCoverage {
+  serviceable: boolean;
+  surcharge: number | null;
+  area: Pick<ServiceArea, 'id' | 'name'> | null;
+}
+
+// -------------------
+// Notifications
+// -------------------
+export interface NotificationInput {
+  type: NotificationType;
+  message: string;
+  userId: string;
+  sendDate?: ISODateString;
+}
+
+// -------------------
+// Payments & invoices
+// -------------------
+export interface PaymentListParams extends ListQueryParams {
+  status?: PaymentStatus;
+  method?: string;
+  invoiceId?: string;
+}
+
+export interface InvoiceListParams extends ListQueryParams {
+  status?: PaymentStatus;
+  type?: InvoiceType;
+  rentalId?: string;
+}
+
+export interface PaymentInput {
+  invoiceId: string;
+  amount: number;
+  method: string;
+  transactionId?: string;
+  status?: PaymentStatus;
+}
+
+export type InvoiceInput = Input<typeof schemas.invoiceSchema>;
+
+// -------------------
+// Pickups & returns
+// -------------------
+export interface ScheduleListParams extends ListQueryParams {
+  completed?: boolean;
+  staffId?: string;
+}
+
+export interface PickupInput {
+  rentalId: string;
+  scheduled: ISODateString;
+}
+
+export type RentalReturnInput = Input<typeof schemas.rentalReturnSchema>;
+
+export type JobArrivalInput = Input<typeof schemas.jobArrivalSchema>;
+
+export type PickupCompleteInput = Input<typeof schemas.pickupCompleteSchema>;
+
+export type ReturnCompleteInput = Input<typeof schemas.returnCompleteSchema>;
+
+export interface ReturnCompleteResult extends Omit<RentalReturn, 'rental'> {
+  // The settled deposit, or null when the rental had none
+  deposit: Deposit | null;
+  // Set when it came back before its end
+  refund: Refund | null;
+}
+
+/** `staffId: null` unassigns; `scheduled` moves the job to a new slot. */
+export type JobAssignInput = Input<typeof schemas.jobAssignSchema>;
+
+/** An open job of the same staff member that overlaps the assigned slot. */
+export interface StaffConflict {
+  kind: 'pickup' | 'return';
+  id: string;
+  rentalId: string;
+  scheduled: ISODateString;
+}
+
+export type AssignedJob<T> = T & { conflicts: StaffConflict[] };
+
+/** Window for a staff member's assigned jobs; the server defaults to today. */
+export type AssignedJobsParams = Input<typeof schemas.assignedJobsQuerySchema>;
+
+/** Omitted depot coordinates fall back to the server's DEPOT_LAT/DEPOT_LNG. */
+export type RoutePlanParams = Input<typeof schemas.routePlanQuerySchema>;
+
+export interface RouteStop {
+  kind: 'pickup' | 'return';
+  id: string;
+  rentalId: string;
+  scheduled: ISODateString;
+  windowStart: ISODateString;
+  windowEnd: ISODateString;
+  eta: ISODateString;
+  legKm: number;
+  lateMinutes: number;
+  customerName: string | null;
+  address: Address;
+}
+
+export interface UnroutedStop {
+  kind: 'pickup' | 'return';
+  id: string;
+  rentalId: string;
+  scheduled: ISODateString;
+  customerName: string | null;
+  reason: string;
+}
+
+export interface RoutePlan {
+  staffId: string;
+  depot: { lat: number; lng: number };
+  start: ISODateString;
+  finish: ISODateString;
+  /** Whole run including the drive back to the depot. */
+  distanceKm: number;
+  returnKm: number;
+  lateMinutes: number;
+  stops: RouteStop[];
+  unrouted: UnroutedStop[];
+}
+
+// -------------------
+// Quotations
+// -------------------
+export type QuotationLineInput = NonNullable<QuotationInput['lines']>[number];
+
+export type QuotationInput = Input<typeof schemas.quotationSchema>;
+
+export type QuotationRejectInput = Input<typeof schemas.quotationRejectSchema>;
+
+export type QuotationCounterInput = Input<typeof schemas.quotationCounterSchema>;
+
+export interface QuotationWithRental extends Quotation {
+  rental: RentalWithRelations;
+}
+
+// -------------------
+// Pricelists
+// -------------------
+export interface PricelistListParams extends ListQueryParams {
+  customerGroupId?: string;
+}
+
+export interface PricelistInput {
+  name: string;
+  description?: string;
+  validFrom: ISODateString;
+  validTo: ISODateString;
+  // null or omitted: for every customer
+  customerGroupId?: string | null;
+}
+
+export interface PricelistItemInput {
+  productId: string;
+  price: number;
+  discount?: number;
+}
+
+export type PricelistItemUpdateInput = Omit<PricelistItemInput, 'productId'>;
+
+// -------------------
+// Customer groups
+// -------------------
+export type CustomerGroupInput = Input<typeof schemas.customerGroupSchema>;
+export type CustomerGroupUpdateInput = Input<typeof schemas.customerGroupUpdateSchema>;
+
+export interface CustomerGroupMembers {
+  members: CustomerGroupMember[];
+  // Customers who meet the group's completed-rental rule
+  ruleMembers: UserSummary[];
+}
+
+// -------------------
+// Promo codes
+// -------------------
+export type PromoCodeInput = Input<typeof schemas.promoCodeSchema>;
+export type PromoCodeUpdateInput = Input<typeof schemas.promoCodeUpdateSchema>;
+
+// Restrictions are only checked for what's given
+export type PromoCodeCheckInput = Input<typeof schemas.promoCodeCheckSchema>;
+
+export interface PromoCodeCheck {
+  code: string;
+  description?: string | null;
+  discountType: PromoDiscountType;
+  value: number;
+  // Set when `amount` was sent
+  discount: number | null;
+  total: number | null;
+}
+
+// -------------------
+// Rental extensions
+// -------------------
+export interface RentalExtensionListParams extends ListQueryParams {
+  status?: ExtensionStatus;
+  rentalId?: string;
+}
+
+export type RentalExtensionInput = Input<typeof schemas.rentalExtensionSchema>;
+
+export interface RentalExtensionCheck {
+  rentalId: string;
+  currentEndDate: ISODateString;
+  requestedEndDate: ISODateString;
+  price: number;
+  breakdown: PriceQuote;
+  // Would be approved without waiting for an admin
+  autoApproved: boolean;
+}
+
+export type ExtensionDecisionInput = Input<typeof schemas.extensionDecisionSchema>;
+
+// -------------------
+// Late fees
+// -------------------
+export type LateFeeTierInput = NonNullable<LateFeePolicyInput['tiers']>[number];
+
+// The scope (productId or category) is set on create only
+export type LateFeePolicyInput = Input<typeof schemas.lateFeePolicySchema>;
+export type LateFeePolicyUpdateInput = Input<typeof schemas.lateFeePolicyUpdateSchema>;
+
+// -------------------
+// Cancellations
+// -------------------
+export type CancellationWindowInput = NonNullable<CancellationPolicyInput['windows']>[number];
+
+// The scope (productId or category) is set on create only
+export type CancellationPolicyInput = Input<typeof schemas.cancellationPolicySchema>;
+export type CancellationPolicyUpdateInput = Input<typeof schemas.cancellationPolicyUpdateSchema>;
+
+// -------------------
+// Deposits
+// -------------------
+export interface DepositListParams extends ListQueryParams {
+  status?: DepositStatus;
+  rentalId?: string;
+}
+
+export type DepositCaptureInput = Input<typeof schemas.depositCaptureSchema>;
+
+export type DepositReleaseInput = Input<typeof schemas.depositReleaseSchema>;
+
+export type CategoryDepositInput = Input<typeof schemas.categoryDepositSchema>;
+
+// -------------------
+// Reports, search & admin
+// -------------------
+export interface DateRangeParams {
+  startDate: ISODateString;
+  endDate: ISODateString;
+}
+
+export interface RevenueReport {
+  revenue: number;
+}
+
+export interface RentalStatusCount {
+  status: RentalStatus;
+  _count: { id: number };
+}
+
+export interface TopProduct {
+  productId: string;
+  _count: { id: number };
+  product: Product | null;
+}
+
+export interface ProductSearchParams {
+  keyword?: string;
+  category?: string;
+  minPrice?: number;
+  maxPrice?: number;
+  availableFrom?: ISODateString;
+  availableTo?: ISODateString;
+}
+
+export interface RentalFilterParams {
+  status?: RentalStatus;
+  customerId?: string;
+  startDate?: ISODateString;
+  endDate?: ISODateString;
+}
+
+export interface DashboardStats {
+  totalUsers: number;
+  totalProducts: number;
+  totalRentals: number;
+  totalRevenue: number;
+}
+
+export interface ImpersonateResponse extends MessageResponse {
+  user: User;
+}
+
+export type BulkModel = 'product' | 'rental' | 'invoice' | 'user';
+
+export interface BulkRentalStatusResult extends MessageResponse {
+  updated: string[];
+  // Rentals the state machine refused, with why
+  failed: { id: string; error: string }[];
+}
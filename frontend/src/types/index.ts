@@ -8,48 +8,7 @@ export interface StatCard {
   trend: 'up' | 'down';
 }
 
-export interface Rental {
-  id: string;
-  orderReference?: string;
-  customerId: string;
-  productId: string;
-  startDate: string;
-  endDate: string;
-  status: 'QUOTATION' | 'CONFIRMED' | 'ACTIVE' | 'COMPLETED' | 'CANCELLED';
-  createdAt: string;
-  updatedAt: string;
-  customer?: {
-    id: string;
-    name: string;
-    email: string;
-  };
-  product?: {
-    id: string;
-    name: string;
-  };
-}
-
-export interface Product {
-  id: number;
-  name: string;
-  category: string;
-  image: string;
-  price: {
-    hour: number;
-    day: number;
-    week: number;
-    month: number;
-  };
-  stock: number;
-  available: number;
-  rented: number;
-  ecoScore: number;
-  rating: number;
-  totalRentals: number;
-  revenue: string;
-  condition: 'Excellent' | 'Good' | 'Fair';
-  lastMaintenance: string;
-}
+export type { Rental } from './api';
 
 export interface Delivery {
   id: string;
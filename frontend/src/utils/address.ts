@@ -0,0 +1,11 @@
+import type { Address } from "../types/api";
+
+/** One-line postal address, e.g. "12 High St, Flat 2, Leeds LS1 4AP". */
+export const formatAddress = (address: Address) =>
+  [
+    address.line1,
+    address.line2,
+    [address.city, address.region, address.postalCode].filter(Boolean).join(" "),
+  ]
+    .filter(Boolean)
+    .join(", ");
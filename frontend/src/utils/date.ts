@@ -0,0 +1,30 @@
+/** Local calendar day as YYYY-MM-DD, the format of <input type="date">. */
+export const toDateInput = (date: Date) => {
+  const offset = date.getTimezoneOffset() * 60_000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 10);
+};
+
+/** Start of a YYYY-MM-DD day in local time, as an ISO timestamp. */
+export const toISODay = (day: string) => new Date(`${day}T00:00:00`).toISOString();
+
+/** The YYYY-MM-DD day `days` after `day` (before, when negative). */
+export const addDays = (day: string, days: number) => {
+  const date = new Date(`${day}T00:00:00`);
+  date.setDate(date.getDate() + days);
+  return toDateInput(date);
+};
+
+/** A YYYY-MM-DD day in local time as a { from, to } query window. */
+export const dayWindow = (day: string) => {
+  const from = new Date(`${day}T00:00:00`);
+  const to = new Date(from);
+  to.setDate(to.getDate() + 1);
+  return { from: from.toISOString(), to: to.toISOString() };
+};
+
+/** A timestamp's date in the user's locale. */
+export const formatDate = (value: string) => new Date(value).toLocaleDateString();
+
+/** A timestamp's time of day in the user's locale, e.g. "09:30". */
+export const formatTime = (value: string) =>
+  new Date(value).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });